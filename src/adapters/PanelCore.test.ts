@@ -0,0 +1,245 @@
+import { describe, expect, it } from 'bun:test';
+import type { Task } from '@backlog-md/core';
+import { PanelCore } from './PanelCore';
+import { buildMergedUpdate } from './taskMerge';
+import { createProject, loadCore } from '../mocks/memoryProject';
+
+const TASK_PATH = 'backlog/tasks/task-1 - One.md';
+
+const TASK_FILE = `---
+id: task-1
+title: One
+status: To Do
+assignee: []
+created_date: '2025-01-01'
+labels: []
+dependencies: []
+---
+
+## Description
+
+<!-- SECTION:DESCRIPTION:BEGIN -->
+Hello
+<!-- SECTION:DESCRIPTION:END -->
+`;
+
+const PLANNED_TASK_FILE = `${TASK_FILE}
+## Implementation Plan
+
+<!-- SECTION:PLAN:BEGIN -->
+1. Write it
+<!-- SECTION:PLAN:END -->
+
+## Implementation Notes
+
+<!-- SECTION:NOTES:BEGIN -->
+Started
+<!-- SECTION:NOTES:END -->
+`;
+
+describe('PanelCore retitles', () => {
+  it('moves the task file with the host rename', async () => {
+    const project = createProject({ [TASK_PATH]: TASK_FILE });
+    const { files, calls } = project;
+    const core = await loadCore(project);
+
+    const updated = await core.updateTask('task-1', { title: 'Renamed' });
+
+    const renamedPath = 'backlog/tasks/task-1 - Renamed.md';
+    expect(calls).toEqual([`rename ${TASK_PATH} -> ${renamedPath}`, `write ${renamedPath}`]);
+    expect(Array.from(files.keys()).sort()).toEqual(['backlog/config.yml', renamedPath]);
+    expect(files.get(renamedPath)).toContain('title: Renamed');
+    expect(updated?.filePath?.replace(/^\/+/, '')).toBe(renamedPath);
+  });
+
+  it('lets Core delete and rewrite the file when the host cannot rename', async () => {
+    const project = createProject({ [TASK_PATH]: TASK_FILE }, { nativeRename: false });
+    const { files, calls } = project;
+    const core = await loadCore(project);
+
+    await core.updateTask('task-1', { title: 'Renamed' });
+
+    expect(calls.some((call) => call.startsWith('rename'))).toBe(false);
+    expect(Array.from(files.keys()).sort()).toEqual(['backlog/config.yml', 'backlog/tasks/task-1 - Renamed.md']);
+  });
+
+  it('overwrites the file in place when the title keeps the file name', async () => {
+    const project = createProject({ [TASK_PATH]: TASK_FILE });
+    const { calls } = project;
+    const core = await loadCore(project);
+
+    await core.updateTask('task-1', { status: 'Done' });
+
+    expect(calls).toEqual([`write ${TASK_PATH}`]);
+  });
+});
+
+describe('PanelCore updates', () => {
+  it('changes only the status, keeping the rest of the file', async () => {
+    const project = createProject({ [TASK_PATH]: PLANNED_TASK_FILE });
+    const { files } = project;
+    const core = await loadCore(project);
+
+    const updated = await core.updateTask('task-1', { status: 'Done' });
+
+    const written = files.get(TASK_PATH) ?? '';
+    expect(written.replace(/\nupdated_date: '[\d-]+'/, '')).toBe(
+      PLANNED_TASK_FILE.replace('status: To Do', 'status: Done')
+    );
+    expect(updated?.status).toBe('Done');
+    expect(updated?.rawContent).toContain('<!-- SECTION:PLAN:BEGIN -->\n1. Write it\n<!-- SECTION:PLAN:END -->');
+  });
+
+  it('changes only the ordinal line when reordering', async () => {
+    const ordered = TASK_FILE.replace('dependencies: []\n', "dependencies: []\nupdated_date: '2025-02-01 10:00'\nordinal: 1000\n");
+    const project = createProject({ [TASK_PATH]: ordered });
+    const core = await loadCore(project);
+
+    await core.updateTask('task-1', { ordinal: 1500 });
+
+    expect(project.files.get(TASK_PATH)).toBe(ordered.replace('ordinal: 1000', 'ordinal: 1500'));
+    expect(project.calls).toEqual([`write ${TASK_PATH}`]);
+  });
+});
+
+describe('PanelCore deletes', () => {
+  it('deletes a task Core has only indexed', async () => {
+    // Core indexes tasks by the number in their file name
+    const path = 'backlog/tasks/7 - Seven.md';
+    const project = createProject({ [path]: TASK_FILE.replace('id: task-1', "id: '7'") });
+    const core = new PanelCore({ fs: project.fs });
+    await core.initializeLazy(Array.from(project.files.keys()));
+
+    expect(core.listTasks()).toEqual([]);
+    expect(await core.deleteTask('7')).toBe(true);
+    expect(project.files.has(path)).toBe(false);
+  });
+});
+
+describe('PanelCore.applyFileDiff', () => {
+  it('reads a loaded task again when its file changes, keeping the object Core holds', async () => {
+    const project = createProject({ [TASK_PATH]: TASK_FILE });
+    const { files, fs } = project;
+    const core = await loadCore(project);
+    const loaded = core.getTask('task-1');
+    const [indexId] = core.getTaskIndex().keys();
+
+    files.set(TASK_PATH, TASK_FILE.replace('status: To Do', 'status: Done'));
+    const changes = await core.applyFileDiff(await fs.applyFileEvents([{ path: TASK_PATH }], []));
+
+    expect(changes).toEqual({ added: [], updated: [indexId], removed: [] });
+    expect(core.getTask('task-1')).toBe(loaded);
+    expect(loaded?.status).toBe('Done');
+  });
+
+  it('counts a task renamed elsewhere as updated', async () => {
+    const project = createProject({ [TASK_PATH]: TASK_FILE });
+    const { files, fs } = project;
+    const core = await loadCore(project);
+    const renamedPath = 'backlog/tasks/task-1 - Renamed.md';
+
+    files.delete(TASK_PATH);
+    files.set(renamedPath, TASK_FILE.replace('title: One', 'title: Renamed'));
+    const changes = await core.applyFileDiff(await fs.applyFileEvents([{ path: renamedPath }], [TASK_PATH]));
+
+    expect(changes?.added).toEqual([]);
+    expect(changes?.removed).toEqual([]);
+    expect(changes?.updated).toHaveLength(1);
+    expect(core.getTask('task-1')?.title).toBe('Renamed');
+    expect(Array.from(core.getTaskIndex().values()).map((entry) => entry.filePath)).toEqual([renamedPath]);
+  });
+
+  it('asks for a new Core when a loaded task file is deleted', async () => {
+    const project = createProject({ [TASK_PATH]: TASK_FILE });
+    const { files, fs } = project;
+    const core = await loadCore(project);
+
+    files.delete(TASK_PATH);
+    expect(await core.applyFileDiff(await fs.applyFileEvents([], [TASK_PATH]))).toBeNull();
+  });
+
+  it('indexes new task files without reading them', async () => {
+    const project = createProject({ [TASK_PATH]: TASK_FILE });
+    const { files, fs } = project;
+    const core = await loadCore(project);
+    const newPath = 'backlog/tasks/task-2 - Two.md';
+
+    files.set(newPath, TASK_FILE.replace('id: task-1', 'id: task-2').replace('title: One', 'title: Two'));
+    const changes = await core.applyFileDiff(await fs.applyFileEvents([{ path: newPath }], []));
+
+    expect(changes?.added).toHaveLength(1);
+    expect(core.getTaskIndex().size).toBe(2);
+    expect(core.listTasks()).toHaveLength(1);
+  });
+});
+
+describe('PanelCore write conflicts', () => {
+  it('keeps the implementation plan and notes when merging on its own', async () => {
+    const project = createProject({ [TASK_PATH]: PLANNED_TASK_FILE });
+    const { files } = project;
+    const core = await loadCore(project);
+
+    files.set(TASK_PATH, PLANNED_TASK_FILE.replace('Started', 'Started, then paused'));
+    await core.updateTask('task-1', { status: 'Done' });
+
+    const written = files.get(TASK_PATH) ?? '';
+    expect(written).toContain('status: Done');
+    expect(written).toContain('<!-- SECTION:PLAN:BEGIN -->\n1. Write it\n<!-- SECTION:PLAN:END -->');
+    expect(written).toContain('<!-- SECTION:NOTES:BEGIN -->\nStarted, then paused\n<!-- SECTION:NOTES:END -->');
+    expect(written).toContain('<!-- SECTION:DESCRIPTION:BEGIN -->\nHello\n<!-- SECTION:DESCRIPTION:END -->');
+  });
+
+  it('merges plans changed on both sides and writes them in the file layout', async () => {
+    const project = createProject({ [TASK_PATH]: PLANNED_TASK_FILE });
+    const { files } = project;
+    const conflicts: string[][] = [];
+    const core = await loadCore(project, async (conflict) => {
+      conflicts.push(conflict.fields.map((diff) => diff.field));
+      return buildMergedUpdate(conflict.fields);
+    });
+
+    files.set(TASK_PATH, PLANNED_TASK_FILE.replace('1. Write it', '1. Write it\n2. Test it'));
+    await core.updateTask('task-1', {
+      implementationPlan: '<!-- SECTION:PLAN:BEGIN -->\n1. Write it well\n<!-- SECTION:PLAN:END -->',
+    });
+
+    expect(conflicts).toEqual([['implementationPlan']]);
+    const written = files.get(TASK_PATH) ?? '';
+    expect(written).toContain(
+      '<!-- SECTION:PLAN:BEGIN -->\n1. Write it\n2. Test it\n\n1. Write it well\n<!-- SECTION:PLAN:END -->'
+    );
+    expect(written).toContain('<!-- SECTION:NOTES:BEGIN -->\nStarted\n<!-- SECTION:NOTES:END -->');
+  });
+
+  it('drops the write when the resolver declines', async () => {
+    const project = createProject({ [TASK_PATH]: PLANNED_TASK_FILE });
+    const { files } = project;
+    const core = await loadCore(project, async () => null);
+
+    const theirs = PLANNED_TASK_FILE.replace('status: To Do', 'status: In Progress');
+    files.set(TASK_PATH, theirs);
+    await expect(core.updateTask('task-1', { status: 'Done' })).rejects.toThrow('your change was not saved');
+    expect(files.get(TASK_PATH)).toBe(theirs);
+  });
+
+  it('keeps changes Core picked up after the caller read the task', async () => {
+    const project = createProject({ [TASK_PATH]: PLANNED_TASK_FILE });
+    const { files, fs } = project;
+    const conflicts: string[][] = [];
+    const core = await loadCore(project, async (conflict) => {
+      conflicts.push(conflict.fields.filter((diff) => diff.conflicting).map((diff) => diff.field));
+      return buildMergedUpdate(conflict.fields);
+    });
+    const opened = { ...core.getTask('task-1') } as Task;
+
+    files.set(TASK_PATH, PLANNED_TASK_FILE.replace('status: To Do', 'status: In Progress').replace('Hello', 'Hi'));
+    await core.applyFileDiff(await fs.applyFileEvents([{ path: TASK_PATH }], []));
+    // An edit form sends every field, changed or not
+    await core.updateTask('task-1', { title: 'One', status: 'To Do', description: 'Hello, world' }, opened);
+
+    expect(conflicts).toEqual([['description']]);
+    const written = files.get(TASK_PATH) ?? '';
+    expect(written).toContain('status: In Progress');
+    expect(written).toContain('<!-- SECTION:DESCRIPTION:BEGIN -->\nHi\n\nHello, world\n<!-- SECTION:DESCRIPTION:END -->');
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * PanelCore
+ *
+ * Core with optimistic concurrency for task updates: before writing, the
+ * task file is compared with the content hash captured when it was loaded.
+ * If it changed underneath (another window, an agent), changes to different
+ * fields are merged automatically; overlapping ones go to a resolver (the
+ * merge dialog), and the write is dropped if there is none or it declines.
+ *
+ * Retitles move the task file with the host's renameFile, where Core itself
+ * would delete the old file and write a new one. Core writes the task with
+ * its own serializer, which drops what it doesn't parse (plan, notes,
+ * snake_case keys); the file it writes gets only the changed fields patched
+ * into the content on disk instead.
+ *
+ * Core hands out its loaded tasks by reference (loadTask, getTask, listTasks)
+ * and has no public way to replace or drop one, so tasks whose file changed
+ * are updated in place.
+ */
+
+import {
+  Core,
+  extractTaskIndexFromPath,
+  parseTaskMarkdown,
+  serializeTaskMarkdown,
+  type Task,
+  type TaskUpdateInput,
+} from '@backlog-md/core';
+import type { PanelFileSystemAdapter } from './PanelFileSystemAdapter';
+import { isIndexedTaskPath, type FileTreeDiff } from './fileTreeDiff';
+import { applyTaskUpdate, buildMergedUpdate, diffTaskFields, type TaskFieldDiff } from './taskMerge';
+import { updateTaskFile } from './taskFileUpdate';
+import {
+  TASK_BODY_SECTIONS,
+  extractTaskBodySections,
+  formatTaskBodySection,
+} from '../panels/task-detail/utils/taskBodySections';
+import { getTracer, SpanStatusCode } from '../telemetry';
+
+/** A task update that ran into a change made on disk since the task was loaded */
+export interface TaskWriteConflict {
+  taskId: string;
+  path: string;
+  /** The task as loaded, or as the caller read it (see `updateTask`) */
+  base: Task;
+  /** The task as it is on disk now */
+  theirs: Task;
+  /** The task as the update would write it */
+  mine: Task;
+  /** Fields where mine and theirs differ */
+  fields: TaskFieldDiff[];
+}
+
+/** Settle a conflict: the update to write over theirs, or null to drop mine */
+export type TaskConflictResolver = (conflict: TaskWriteConflict) => Promise<TaskUpdateInput | null>;
+
+export interface PanelCoreOptions {
+  fs: PanelFileSystemAdapter;
+  projectRoot?: string;
+  /** Asked when both sides changed the same field */
+  resolveConflict?: TaskConflictResolver;
+}
+
+/** Task IDs (as indexed) touched by a file diff */
+export interface TaskIndexChanges {
+  /** New task files */
+  added: string[];
+  /** Tasks whose file content changed (or moved) */
+  updated: string[];
+  /** Tasks whose file is gone */
+  removed: string[];
+}
+
+const normalizePath = (path: string) => path.replace(/^\/+/, '');
+
+/**
+ * The task with its body sections as Core must write them to keep the file's
+ * layout: parsed tasks have no implementation plan or notes and a description
+ * without its SECTION markers, so all three are taken from the raw body.
+ */
+function withBodySections(task: Task): Task {
+  const sections = extractTaskBodySections(task);
+  const [description, implementationPlan, implementationNotes] = TASK_BODY_SECTIONS.map(
+    ({ key }) => formatTaskBodySection(sections[key], sections[key].content)
+  );
+  return {
+    ...task,
+    description,
+    implementationPlan: implementationPlan || undefined,
+    implementationNotes: implementationNotes || undefined,
+  };
+}
+
+// Turn a loaded task into `next`, keeping the object Core holds
+function replaceTask(target: Task, next: Task): void {
+  const fields: Partial<Task> = target;
+  for (const key of Object.keys(target) as Array<keyof Task>) {
+    if (!(key in next)) delete fields[key];
+  }
+  Object.assign(target, next);
+}
+
+export class PanelCore extends Core {
+  private readonly panelFs: PanelFileSystemAdapter;
+  private readonly resolveConflict?: TaskConflictResolver;
+  private readonly tasksDir: string;
+  /** Content to write in place of Core's serialization, by task file path */
+  private readonly taskFileWrites: Map<string, string>;
+
+  constructor(options: PanelCoreOptions) {
+    const taskFileWrites = new Map<string, string>();
+    // The adapter as Core sees it: queued task file content replaces what Core writes
+    const coreFs: PanelFileSystemAdapter = Object.create(options.fs, {
+      writeFile: {
+        value: (path: string, content: string) =>
+          options.fs.writeFile(path, taskFileWrites.get(normalizePath(path)) ?? content),
+      },
+    });
+    super({ projectRoot: options.projectRoot ?? '', adapters: { fs: coreFs } });
+    this.taskFileWrites = taskFileWrites;
+    this.panelFs = options.fs;
+    this.resolveConflict = options.resolveConflict;
+    this.tasksDir = options.fs.join(options.projectRoot ?? '', 'backlog', 'tasks');
+  }
+
+  /** Where Core.updateTask writes a task: `backlog/tasks/<id> - <title>.md` */
+  getTaskFilePath(id: string, title: string): string {
+    const safeTitle = title
+      .replace(/[<>:"/\\|?*]/g, '')
+      .replace(/\s+/g, ' ')
+      .slice(0, 50);
+    return this.panelFs.join(this.tasksDir, `${id} - ${safeTitle}.md`);
+  }
+
+  /**
+   * Bring the task index and the loaded tasks in line with a file diff:
+   * removed files leave the index, new ones join it, and loaded tasks whose
+   * file changed or moved are read again. Returns null when a loaded task's
+   * file is gone for good (Core can't unload it) or a changed file can't be
+   * read; callers then create a new Core.
+   */
+  async applyFileDiff(diff: FileTreeDiff): Promise<TaskIndexChanges | null> {
+    const index = this.getTaskIndex();
+    const idsByPath = new Map(
+      Array.from(index.values()).map((entry) => [normalizePath(entry.filePath), entry.id])
+    );
+    const loadedByPath = new Map(
+      this.listTasks().filter((task) => task.filePath).map((task) => [normalizePath(task.filePath ?? ''), task])
+    );
+    const addedEntries = diff.added.filter(isIndexedTaskPath).map(extractTaskIndexFromPath);
+    const added = new Set<string>();
+    const updated = new Set<string>();
+    const removed = new Set<string>();
+    // Loaded tasks to read again, with the path to read them from
+    const reload: Array<[Task, string]> = [];
+
+    for (const path of diff.removed.filter(isIndexedTaskPath)) {
+      const id = idsByPath.get(path);
+      if (!id) continue;
+      const loaded = loadedByPath.get(path);
+      if (loaded) {
+        const movedTo = addedEntries.find((entry) => entry.id === id);
+        if (!movedTo) return null;
+        reload.push([loaded, movedTo.filePath]);
+      }
+      index.delete(id);
+      removed.add(id);
+    }
+    for (const path of diff.updated.filter(isIndexedTaskPath)) {
+      const id = idsByPath.get(path);
+      if (!id) continue;
+      const loaded = loadedByPath.get(path);
+      if (loaded) reload.push([loaded, path]);
+      updated.add(id);
+    }
+    for (const entry of addedEntries) {
+      // A task that reappears under a new file name (renamed or moved) is an update
+      const known = index.has(entry.id) || removed.delete(entry.id);
+      index.set(entry.id, entry);
+      (known ? updated : added).add(entry.id);
+      const loaded = loadedByPath.get(normalizePath(entry.filePath));
+      if (loaded) reload.push([loaded, entry.filePath]);
+    }
+
+    for (const [task, path] of reload) {
+      try {
+        const content = await this.panelFs.readFile(path);
+        replaceTask(task, { ...parseTaskMarkdown(content, path), filePath: path, source: task.source });
+      } catch (err) {
+        console.warn('[PanelCore] Failed to read changed task file:', path, err);
+        return null;
+      }
+    }
+
+    return {
+      added: Array.from(added),
+      updated: Array.from(updated),
+      removed: Array.from(removed),
+    };
+  }
+
+  /**
+   * Write an update through Core, which deletes `filePath` (when set) before
+   * writing the new file. When the file name stays the same, or the host can
+   * rename and the file was moved first, that delete is skipped, so a retitle
+   * reaches the host as a rename plus a write and an edit as a single write.
+   * `content` is the file as it is on disk; the update is patched into it.
+   */
+  private async writeUpdate(
+    existing: Task,
+    id: string,
+    input: TaskUpdateInput,
+    content?: string
+  ): Promise<Task | null> {
+    const from = existing.filePath && normalizePath(existing.filePath);
+    const to = this.getTaskFilePath(id, input.title ?? existing.title);
+    let inPlace = from === to;
+    if (from && !inPlace && this.panelFs.hasNativeRename) {
+      try {
+        await this.panelFs.rename(from, to);
+        inPlace = true;
+      } catch (err) {
+        // Core deletes and rewrites the file instead
+        console.warn('[PanelCore] Failed to rename task file, rewriting it:', from, err);
+      }
+    }
+
+    // Core stamps the update with today's date the same way; reordering alone isn't an edit
+    const reorderOnly = Object.keys(input).every((key) => key === 'ordinal');
+    const updatedDate = reorderOnly ? undefined : new Date().toISOString().split('T')[0];
+    const patched = content === undefined ? null : updateTaskFile(content, to, input, updatedDate);
+    if (patched) this.taskFileWrites.set(normalizePath(to), patched);
+
+    // `existing` is Core's cached copy, which updateTask builds on
+    const filePath = existing.filePath;
+    if (inPlace) existing.filePath = undefined;
+    let updated: Task | null;
+    try {
+      updated = await super.updateTask(id, input);
+    } catch (err) {
+      if (inPlace) existing.filePath = from === to ? filePath : to;
+      throw err;
+    } finally {
+      this.taskFileWrites.delete(normalizePath(to));
+    }
+
+    // Core caches the task it serialized; match the file that was written
+    if (updated) {
+      const written = parseTaskMarkdown(patched ?? serializeTaskMarkdown(updated), updated.filePath ?? to);
+      replaceTask(updated, { ...written, filePath: updated.filePath, source: updated.source });
+    }
+    return updated;
+  }
+
+  /**
+   * Update a task, merging with changes made to its file since it was loaded.
+   * `loadedAs` is the task as the caller read it (e.g. when an edit form
+   * opened); pass it when the edit may outlive file changes that Core has
+   * already picked up, so those count as changes made elsewhere too.
+   */
+  async updateTask(id: string, input: TaskUpdateInput, loadedAs?: Task): Promise<Task | null> {
+    const existing = await this.loadTask(id);
+    const path = existing?.filePath;
+    if (!existing || !path) {
+      return super.updateTask(id, input);
+    }
+    const file = await this.panelFs.readFileChange(path);
+    if (!file) {
+      return this.writeUpdate(existing, id, input);
+    }
+
+    const onDisk = file.content;
+    const parsed: Task = { ...parseTaskMarkdown(onDisk, path), filePath: path, source: existing.source };
+    const theirs = withBodySections(parsed);
+    const base = withBodySections(loadedAs ?? existing);
+    if (!file.changed && (!loadedAs || diffTaskFields(base, theirs, base).length === 0)) {
+      return this.writeUpdate(existing, id, input, onDisk);
+    }
+    const mine = applyTaskUpdate(base, input);
+    const conflict: TaskWriteConflict = {
+      taskId: id,
+      path,
+      base,
+      theirs,
+      mine,
+      fields: diffTaskFields(base, theirs, mine),
+    };
+    const overlapping = conflict.fields.filter((diff) => diff.conflicting);
+
+    const span = getTracer().startSpan('task.edit', {
+      attributes: {
+        'task.id': id,
+        'input.source': 'conflict-check',
+      },
+    });
+    span.addEvent('task.conflict.detected', {
+      'task.id': id,
+      'file.path': path,
+      'conflict.fields': conflict.fields.map((diff) => diff.field).join(','),
+      'conflict.overlapping': overlapping.length,
+    });
+
+    try {
+      // Edits to different fields merge on their own
+      const resolved = overlapping.length === 0
+        ? buildMergedUpdate(conflict.fields)
+        : (await this.resolveConflict?.(conflict)) ?? null;
+
+      span.addEvent('task.conflict.resolved', {
+        'task.id': id,
+        'conflict.resolution': resolved === null ? 'discarded' : overlapping.length === 0 ? 'auto-merged' : 'merged',
+      });
+      if (!resolved) {
+        throw new Error(`${existing.title} was changed elsewhere since it was loaded; your change was not saved`);
+      }
+      // Write on top of the file as it is now
+      replaceTask(existing, theirs);
+      const updated = await this.writeUpdate(existing, id, resolved, onDisk);
+      span.setStatus({ code: SpanStatusCode.OK });
+      return updated;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resolve conflict';
+      span.addEvent('task.save.error', {
+        'task.id': id,
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': errorMessage,
+      });
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+      throw err;
+    } finally {
+      span.end();
+    }
+  }
+
+  /** Delete a task, loading it first (Core only deletes tasks it has loaded) */
+  async deleteTask(id: string): Promise<boolean> {
+    await this.loadTask(id);
+    return super.deleteTask(id);
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'bun:test';
+import { PanelFileSystemAdapter } from './PanelFileSystemAdapter';
+
+const PATH = 'backlog/tasks/task-1 - One.md';
+
+function createAdapter() {
+  const files = new Map([[PATH, 'original']]);
+  const fs = new PanelFileSystemAdapter({
+    fetchFile: async (path) => {
+      const content = files.get(path);
+      if (content === undefined) throw new Error(`Not found: ${path}`);
+      return content;
+    },
+    filePaths: Array.from(files.keys()),
+    hostFileSystem: {
+      writeFile: (path, content) => {
+        files.set(path, content);
+      },
+      createDir: () => undefined,
+      deleteFile: (path) => {
+        files.delete(path);
+      },
+      renameFile: (from, to) => {
+        files.set(to, files.get(from) ?? '');
+        files.delete(from);
+      },
+    },
+  });
+  return { files, fs };
+}
+
+describe('PanelFileSystemAdapter own writes', () => {
+  it('ignores the echo of its own write and recognizes it', async () => {
+    const { fs } = createAdapter();
+    await fs.readFile(PATH);
+    await fs.writeFile(PATH, 'mine');
+
+    expect(await fs.applyFileEvents([{ path: PATH }], [])).toEqual({ added: [], updated: [], removed: [] });
+    expect(fs.isOwnWrite(PATH, 'mine')).toBe(true);
+    expect(await fs.readFileChange(PATH)).toEqual({ content: 'mine', changed: false });
+  });
+
+  it('reports a write made elsewhere after its own', async () => {
+    const { files, fs } = createAdapter();
+    await fs.writeFile(PATH, 'mine');
+    files.set(PATH, 'theirs');
+
+    expect(await fs.readFileChange(PATH)).toEqual({ content: 'theirs', changed: true });
+    expect(await fs.applyFileEvents([{ path: PATH }], [])).toEqual({ added: [], updated: [PATH], removed: [] });
+    expect(fs.isOwnWrite(PATH, 'theirs')).toBe(false);
+  });
+
+  it('treats a file it moved as its own', async () => {
+    const { fs } = createAdapter();
+    const renamed = 'backlog/tasks/task-1 - Renamed.md';
+    await fs.readFile(PATH);
+    await fs.rename(PATH, renamed);
+
+    expect(fs.isOwnWrite(renamed, 'original')).toBe(true);
+    expect(fs.isOwnWrite(PATH, 'original')).toBe(false);
+  });
+
+  it('does not count files it only read', async () => {
+    const { fs } = createAdapter();
+    await fs.readFile(PATH);
+
+    expect(fs.isOwnWrite(PATH, 'original')).toBe(false);
+  });
+});
@@ -6,9 +6,49 @@
  *
  * For read operations: Uses the fileTree slice and fetchFile function
  * For write operations: Delegates to the host's fileSystem adapter (if available)
+ * For renames: Uses the host's renameFile, or copies and deletes the file
+ * For metadata: Uses the host's stat, or the fileTree's lastModified and size
+ * For fileTree updates and host file events: Updates the file list and reports what changed
  */
 
 import type { FileSystemAdapter } from '@backlog-md/core';
+import { diffFilePaths, hashContent, type FileTreeDiff } from './fileTreeDiff';
+
+/** Modification time and size of a file */
+export interface FileMetadata {
+  mtime: Date;
+  size: number;
+}
+
+/** File metadata as hosts and fileTree entries report it (dates may be serialized) */
+export interface HostFileStat {
+  mtime?: Date | string | number;
+  lastModified?: Date | string | number;
+  size?: number;
+  isDirectory?: boolean;
+}
+
+/**
+ * Read metadata from a host stat result or fileTree entry; null when it has
+ * no usable modification time
+ */
+export function toFileMetadata(stat: HostFileStat | null | undefined): FileMetadata | null {
+  const raw = stat?.mtime ?? stat?.lastModified;
+  if (raw === undefined || raw === null) return null;
+  const mtime = raw instanceof Date ? raw : new Date(raw);
+  if (Number.isNaN(mtime.getTime())) return null;
+  return { mtime, size: typeof stat?.size === 'number' ? stat.size : 0 };
+}
+
+/** Metadata by path for the fileTree entries that carry it */
+export function buildFileMetadata(files: Array<{ path: string } & HostFileStat>): Map<string, FileMetadata> {
+  const metadata = new Map<string, FileMetadata>();
+  for (const file of files) {
+    const entry = toFileMetadata(file);
+    if (entry) metadata.set(file.path.replace(/^\/+/, ''), entry);
+  }
+  return metadata;
+}
 
 /**
  * Host file system adapter interface (subset of what web-ade provides)
@@ -18,6 +58,10 @@ export interface HostFileSystemAdapter {
   writeFile?: (path: string, content: string) => void | Promise<void>;
   createDir?: (path: string) => void | Promise<void>;
   deleteFile?: (path: string) => void | Promise<void>;
+  /** Move a file in one step (optional; falls back to write + delete) */
+  renameFile?: (from: string, to: string) => void | Promise<void>;
+  /** Current metadata of a file (optional; falls back to the fileTree's) */
+  stat?: (path: string) => HostFileStat | Promise<HostFileStat>;
 }
 
 export interface PanelFileAccess {
@@ -25,6 +69,8 @@ export interface PanelFileAccess {
   fetchFile: (path: string) => Promise<string>;
   /** List of all file paths in the repository */
   filePaths: string[];
+  /** Metadata of the files, where the fileTree provides it */
+  fileMetadata?: Map<string, FileMetadata>;
   /** Optional host file system adapter for write operations */
   hostFileSystem?: HostFileSystemAdapter;
 }
@@ -38,6 +84,11 @@ export interface PanelFileAccess {
 export class PanelFileSystemAdapter implements FileSystemAdapter {
   private readonly filePaths: Set<string>;
   private readonly directories: Set<string>;
+  private readonly metadata: Map<string, FileMetadata>;
+  /** Hashes of the content last read or written, by path */
+  private readonly contentHashes = new Map<string, string>();
+  /** Hashes of the content last written through this adapter, by path */
+  private readonly writtenHashes = new Map<string, string>();
   private readonly fetchFile: (path: string) => Promise<string>;
   private readonly hostFileSystem?: HostFileSystemAdapter;
 
@@ -45,18 +96,9 @@ export class PanelFileSystemAdapter implements FileSystemAdapter {
     this.fetchFile = access.fetchFile;
     this.filePaths = new Set(access.filePaths);
     this.hostFileSystem = access.hostFileSystem;
-
-    // Build directory set from file paths
+    this.metadata = new Map(access.fileMetadata);
     this.directories = new Set<string>();
-    for (const filePath of access.filePaths) {
-      const parts = filePath.split('/');
-      // Add all parent directories
-      for (let i = 1; i < parts.length; i++) {
-        this.directories.add(parts.slice(0, i).join('/'));
-      }
-    }
-    // Root directory
-    this.directories.add('');
+    this.indexDirectories();
   }
 
   /**
@@ -66,6 +108,21 @@ export class PanelFileSystemAdapter implements FileSystemAdapter {
     return !!(this.hostFileSystem?.writeFile && this.hostFileSystem?.createDir);
   }
 
+  /**
+   * Check if files can be moved (natively, or by copying and deleting)
+   */
+  get canRename(): boolean {
+    const host = this.hostFileSystem;
+    return !!(host?.renameFile || (host?.writeFile && host?.deleteFile));
+  }
+
+  /**
+   * Check if the host moves files in one step (renameFile)
+   */
+  get hasNativeRename(): boolean {
+    return !!this.hostFileSystem?.renameFile;
+  }
+
   async exists(path: string): Promise<boolean> {
     const normalized = this.normalizePath(path);
     return this.filePaths.has(normalized) || this.directories.has(normalized);
@@ -76,7 +133,9 @@ export class PanelFileSystemAdapter implements FileSystemAdapter {
     if (!this.filePaths.has(normalized)) {
       throw new Error(`File not found: ${path}`);
     }
-    return this.fetchFile(normalized);
+    const content = await this.fetchFile(normalized);
+    this.contentHashes.set(normalized, hashContent(content));
+    return content;
   }
 
   async writeFile(path: string, content: string): Promise<void> {
@@ -86,12 +145,10 @@ export class PanelFileSystemAdapter implements FileSystemAdapter {
     const normalized = this.normalizePath(path);
     await this.hostFileSystem.writeFile(normalized, content);
     // Add to local cache so subsequent reads work
-    this.filePaths.add(normalized);
-    // Add parent directories
-    const parts = normalized.split('/');
-    for (let i = 1; i < parts.length; i++) {
-      this.directories.add(parts.slice(0, i).join('/'));
-    }
+    this.addToCache(normalized);
+    this.metadata.set(normalized, { mtime: new Date(), size: new TextEncoder().encode(content).length });
+    this.contentHashes.set(normalized, hashContent(content));
+    this.writtenHashes.set(normalized, hashContent(content));
   }
 
   async deleteFile(path: string): Promise<void> {
@@ -102,6 +159,9 @@ export class PanelFileSystemAdapter implements FileSystemAdapter {
     await this.hostFileSystem.deleteFile(normalized);
     // Remove from local cache
     this.filePaths.delete(normalized);
+    this.metadata.delete(normalized);
+    this.contentHashes.delete(normalized);
+    this.writtenHashes.delete(normalized);
   }
 
   async createDir(path: string, _options?: { recursive?: boolean }): Promise<void> {
@@ -139,10 +199,193 @@ export class PanelFileSystemAdapter implements FileSystemAdapter {
     return this.directories.has(normalized) && !this.filePaths.has(normalized);
   }
 
-  async rename(_from: string, _to: string): Promise<void> {
-    throw new Error('Rename operations not supported in panel context');
+  /**
+   * Move a file. Uses the host's renameFile when available; otherwise the
+   * content is written to the new path and the old file deleted, removing
+   * the copy again if the delete fails. Refuses to overwrite existing files.
+   */
+  async rename(from: string, to: string): Promise<void> {
+    const source = this.normalizePath(from);
+    const target = this.normalizePath(to);
+    if (source === target) return;
+
+    if (!this.filePaths.has(source)) {
+      throw new Error(`File not found: ${from}`);
+    }
+    if (this.filePaths.has(target)) {
+      throw new Error(`File already exists: ${to}`);
+    }
+
+    const host = this.hostFileSystem;
+    if (!this.canRename || !host) {
+      throw new Error('Rename operations not available - host adapter not configured');
+    }
+
+    const targetDir = this.dirname(target);
+    if (targetDir && !this.directories.has(targetDir) && host.createDir) {
+      try {
+        await host.createDir(targetDir);
+      } catch {
+        // Directory might already exist
+      }
+      this.directories.add(targetDir);
+    }
+
+    if (host.renameFile) {
+      await host.renameFile(source, target);
+    } else if (host.writeFile && host.deleteFile) {
+      const content = await this.fetchFile(source);
+      await host.writeFile(target, content);
+      try {
+        await host.deleteFile(source);
+      } catch (err) {
+        // Roll back so the file doesn't exist twice
+        try {
+          await host.deleteFile(target);
+        } catch (rollbackErr) {
+          console.error('[PanelFileSystemAdapter] Failed to remove copy after failed rename:', rollbackErr);
+        }
+        throw err;
+      }
+    }
+
+    // Update local caches so Core sees the file at its new path right away
+    const metadata = this.metadata.get(source);
+    const contentHash = this.contentHashes.get(source);
+    this.filePaths.delete(source);
+    this.metadata.delete(source);
+    this.contentHashes.delete(source);
+    this.writtenHashes.delete(source);
+    this.addToCache(target);
+    if (metadata) this.metadata.set(target, metadata);
+    if (contentHash) {
+      this.contentHashes.set(target, contentHash);
+      this.writtenHashes.set(target, contentHash);
+    }
+  }
+
+  /**
+   * Whether a file's content is what this adapter last wrote (or moved)
+   * there, i.e. a change to it is the panels' own and not made elsewhere
+   */
+  isOwnWrite(path: string, content: string): boolean {
+    return this.writtenHashes.get(this.normalizePath(path)) === hashContent(content);
+  }
+
+  /**
+   * Current content of a file, and whether it no longer matches what this
+   * adapter last read or wrote (changed underneath, e.g. by another window
+   * or an agent). A file never read counts as unchanged; null when unreadable.
+   */
+  async readFileChange(path: string): Promise<{ content: string; changed: boolean } | null> {
+    const normalized = this.normalizePath(path);
+    const knownHash = this.contentHashes.get(normalized);
+
+    try {
+      const content = await this.fetchFile(normalized);
+      return { content, changed: knownHash !== undefined && hashContent(content) !== knownHash };
+    } catch {
+      return null;
+    }
   }
 
+  /**
+   * Switch to a new fileTree and report the files added, changed and removed
+   * since this adapter's current view (which already includes its own writes).
+   * Only files read through this adapter can be stale in Core, so only those
+   * are re-read: when their modification time or size changed, or either is
+   * unknown. A file counts as updated when its content hash differs.
+   */
+  async applyFileTree(filePaths: string[], fileMetadata: Map<string, FileMetadata>): Promise<FileTreeDiff> {
+    const next = filePaths.map((path) => this.normalizePath(path));
+    const diff = diffFilePaths(this.filePaths, next);
+
+    const candidates = next.filter((path) => {
+      if (!this.filePaths.has(path) || !this.contentHashes.has(path)) return false;
+      const before = this.metadata.get(path);
+      const after = fileMetadata.get(path);
+      return !before || !after || before.mtime.getTime() !== after.mtime.getTime() || before.size !== after.size;
+    });
+
+    this.filePaths.clear();
+    next.forEach((path) => this.filePaths.add(path));
+    this.indexDirectories();
+    this.metadata.clear();
+    fileMetadata.forEach((entry, path) => this.metadata.set(path, entry));
+    diff.removed.forEach((path) => {
+      this.contentHashes.delete(path);
+      this.writtenHashes.delete(path);
+    });
+
+    const updated: string[] = [];
+    for (const path of candidates) {
+      try {
+        const contentHash = hashContent(await this.fetchFile(path));
+        if (contentHash !== this.contentHashes.get(path)) {
+          this.contentHashes.set(path, contentHash);
+          updated.push(path);
+        }
+      } catch (err) {
+        // Unreadable now; let Core re-read it when next needed
+        console.warn('[PanelFileSystemAdapter] Failed to re-read changed file:', path, err);
+        this.contentHashes.delete(path);
+        updated.push(path);
+      }
+    }
+
+    return { ...diff, updated };
+  }
+
+  /**
+   * Apply files written or removed outside this adapter (host file events)
+   * and report what changed. Like applyFileTree, a written file only counts
+   * as updated when content read earlier differs; the event's content is
+   * used when given, else the file is re-read.
+   */
+  async applyFileEvents(
+    written: Array<{ path: string; content?: string }>,
+    removed: string[]
+  ): Promise<FileTreeDiff> {
+    const diff: FileTreeDiff = { added: [], updated: [], removed: [] };
+
+    for (const path of removed.map((p) => this.normalizePath(p))) {
+      if (!this.filePaths.delete(path)) continue;
+      this.metadata.delete(path);
+      this.contentHashes.delete(path);
+      this.writtenHashes.delete(path);
+      diff.removed.push(path);
+    }
+
+    for (const { path: rawPath, content } of written) {
+      const path = this.normalizePath(rawPath);
+      if (!this.filePaths.has(path)) {
+        this.addToCache(path);
+        if (content !== undefined) this.contentHashes.set(path, hashContent(content));
+        diff.added.push(path);
+        continue;
+      }
+
+      const previousHash = this.contentHashes.get(path);
+      if (previousHash === undefined) continue;
+      try {
+        const contentHash = hashContent(content ?? await this.fetchFile(path));
+        if (contentHash === previousHash) continue;
+        this.contentHashes.set(path, contentHash);
+      } catch (err) {
+        console.warn('[PanelFileSystemAdapter] Failed to re-read changed file:', path, err);
+        this.contentHashes.delete(path);
+      }
+      diff.updated.push(path);
+    }
+
+    return diff;
+  }
+
+  /**
+   * File metadata from the host's stat when available, else from the
+   * fileTree (updated by this adapter's own writes). Directories report
+   * their newest file; unknown times are the epoch, so they sort as oldest.
+   */
   async stat(path: string): Promise<{ mtime: Date; isDirectory: boolean; size: number }> {
     const normalized = this.normalizePath(path);
     const isDir = await this.isDirectory(normalized);
@@ -152,10 +395,32 @@ export class PanelFileSystemAdapter implements FileSystemAdapter {
       throw new Error(`Path not found: ${path}`);
     }
 
+    if (isDir) {
+      const prefix = normalized ? `${normalized}/` : '';
+      let newest = 0;
+      for (const [filePath, { mtime }] of this.metadata) {
+        if (filePath.startsWith(prefix)) newest = Math.max(newest, mtime.getTime());
+      }
+      return { mtime: new Date(newest), isDirectory: true, size: 0 };
+    }
+
+    if (this.hostFileSystem?.stat) {
+      try {
+        const metadata = toFileMetadata(await this.hostFileSystem.stat(normalized));
+        if (metadata) {
+          this.metadata.set(normalized, metadata);
+          return { ...metadata, isDirectory: false };
+        }
+      } catch (err) {
+        console.warn('[PanelFileSystemAdapter] Host stat failed, using fileTree metadata:', normalized, err);
+      }
+    }
+
+    const metadata = this.metadata.get(normalized);
     return {
-      mtime: new Date(),
-      isDirectory: isDir,
-      size: 0, // Size not available from fileTree
+      mtime: metadata?.mtime ?? new Date(0),
+      isDirectory: false,
+      size: metadata?.size ?? 0,
     };
   }
 
@@ -227,6 +492,29 @@ export class PanelFileSystemAdapter implements FileSystemAdapter {
 
   // Private helpers
 
+  // Rebuild the directory set from the file paths
+  private indexDirectories(): void {
+    this.directories.clear();
+    // Root directory
+    this.directories.add('');
+    for (const filePath of this.filePaths) {
+      const parts = filePath.split('/');
+      // Add all parent directories
+      for (let i = 1; i < parts.length; i++) {
+        this.directories.add(parts.slice(0, i).join('/'));
+      }
+    }
+  }
+
+  private addToCache(normalized: string): void {
+    this.filePaths.add(normalized);
+    // Add parent directories
+    const parts = normalized.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      this.directories.add(parts.slice(0, i).join('/'));
+    }
+  }
+
   private normalizePath(path: string): string {
     return path
       .replace(/^\/+/, '') // Remove leading slashes
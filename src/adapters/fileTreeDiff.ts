@@ -0,0 +1,50 @@
+/**
+ * File tree diffing
+ *
+ * Compares two snapshots of the project's files so a fileTree update can be
+ * applied to an existing Core instead of rebuilding it.
+ */
+
+/** Files added, changed and removed between two file trees */
+export interface FileTreeDiff {
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+/** Number of files touched by a diff */
+export function diffSize(diff: FileTreeDiff): number {
+  return diff.added.length + diff.updated.length + diff.removed.length;
+}
+
+/**
+ * Paths only in `next` (added) or only in `previous` (removed). Changed
+ * content can't be told from paths; `updated` is left empty for the caller.
+ */
+export function diffFilePaths(previous: Iterable<string>, next: Iterable<string>): FileTreeDiff {
+  const before = new Set(previous);
+  const after = new Set(next);
+  return {
+    added: Array.from(after).filter((path) => !before.has(path)),
+    updated: [],
+    removed: Array.from(before).filter((path) => !after.has(path)),
+  };
+}
+
+/**
+ * Short content hash (32-bit FNV-1a, hex) for spotting changed files.
+ * Not cryptographic; a collision only means one missed refresh.
+ */
+export function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Whether a path is a task file Core indexes (backlog/tasks or backlog/completed) */
+export function isIndexedTaskPath(path: string): boolean {
+  return path.endsWith('.md') && /(^|\/)backlog\/(tasks|completed)\//.test(path);
+}
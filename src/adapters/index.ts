@@ -5,7 +5,45 @@
  * with the panel framework's file access APIs.
  */
 
-export { PanelFileSystemAdapter, type PanelFileAccess } from './PanelFileSystemAdapter';
+export {
+  PanelFileSystemAdapter,
+  buildFileMetadata,
+  toFileMetadata,
+  type PanelFileAccess,
+  type FileMetadata,
+  type HostFileStat,
+} from './PanelFileSystemAdapter';
+
+export {
+  diffFilePaths,
+  diffSize,
+  hashContent,
+  isIndexedTaskPath,
+  type FileTreeDiff,
+} from './fileTreeDiff';
+
+export {
+  PanelCore,
+  type PanelCoreOptions,
+  type TaskIndexChanges,
+  type TaskWriteConflict,
+  type TaskConflictResolver,
+} from './PanelCore';
+
+export {
+  MERGE_FIELD_LABELS,
+  applyTaskUpdate,
+  buildMergedUpdate,
+  diffTaskFields,
+  getMergeFieldValue,
+  getSectionText,
+  mergeFieldValues,
+  resolveFieldValue,
+  type MergeChoice,
+  type MergeField,
+  type MergeFieldValue,
+  type TaskFieldDiff,
+} from './taskMerge';
 
 // Re-export commonly used types from @backlog-md/core for convenience
 export type {
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'bun:test';
+import { updateTaskFile } from './taskFileUpdate';
+
+const PATH = 'backlog/tasks/task-7 - Filters.md';
+const TODAY = '2026-10-19';
+
+// As Backlog.md writes it
+const TASK_FILE = `---
+id: task-7
+title: Filters
+status: To Do
+assignee:
+  - '@codex'
+created_date: '2025-09-06 23:39'
+labels:
+  - tui
+  - ui
+dependencies: []
+milestone: v1
+---
+
+## Description
+
+<!-- SECTION:DESCRIPTION:BEGIN -->
+Filter the list
+<!-- SECTION:DESCRIPTION:END -->
+
+## Acceptance Criteria
+<!-- AC:BEGIN -->
+- [ ] #1 Status filter
+- [ ] #2 Priority filter
+<!-- AC:END -->
+
+## Implementation Notes
+
+<!-- SECTION:NOTES:BEGIN -->
+Started
+<!-- SECTION:NOTES:END -->
+`;
+
+// As Core's serializer writes it
+const CORE_FILE = `---
+status: To Do
+labels: [ui, api]
+createdDate: 2025-01-01
+---
+
+# Filters
+
+Filter the list
+
+## Acceptance Criteria
+
+- [ ] Status filter
+`;
+
+const update = (content: string, input: Parameters<typeof updateTaskFile>[2]) =>
+  updateTaskFile(content, PATH, input, TODAY) ?? '';
+
+describe('updateTaskFile', () => {
+  it('rewrites only the changed frontmatter keys, keeping block lists and snake_case keys', () => {
+    const written = update(TASK_FILE, { status: 'Done', addLabels: ['api'], milestone: null });
+    expect(written).toBe(
+      TASK_FILE.replace('status: To Do', 'status: Done')
+        .replace('  - ui\n', "  - ui\n  - api\n")
+        .replace('milestone: v1\n', `updated_date: '${TODAY}'\n`)
+    );
+  });
+
+  it('quotes values YAML would misread', () => {
+    const written = update(TASK_FILE, { title: 'Filters: status', assignee: ['@alice'] });
+    expect(written).toContain("title: 'Filters: status'\n");
+    expect(written).toContain("assignee:\n  - '@alice'\n");
+  });
+
+  it('toggles criteria within the AC markers, keeping their numbers and the other sections', () => {
+    const written = update(TASK_FILE, {
+      acceptanceCriteria: [
+        { text: '#1 Status filter', checked: true },
+        { text: '#2 Priority filter', checked: false },
+      ],
+    });
+    expect(written).toContain('<!-- AC:BEGIN -->\n- [x] #1 Status filter\n- [ ] #2 Priority filter\n<!-- AC:END -->');
+    expect(written).toContain('<!-- SECTION:DESCRIPTION:BEGIN -->\nFilter the list\n<!-- SECTION:DESCRIPTION:END -->');
+    expect(written).toContain('<!-- SECTION:NOTES:BEGIN -->\nStarted\n<!-- SECTION:NOTES:END -->');
+  });
+
+  it('adds a missing section in Backlog.md order and removes a cleared one', () => {
+    const planned = update(TASK_FILE, { implementationPlan: '1. Build it' });
+    expect(planned).toContain(
+      '<!-- AC:END -->\n\n## Implementation Plan\n\n<!-- SECTION:PLAN:BEGIN -->\n1. Build it\n<!-- SECTION:PLAN:END -->\n\n## Implementation Notes'
+    );
+
+    const cleared = update(planned, { clearImplementationPlan: true });
+    expect(cleared).not.toContain('Implementation Plan');
+    expect(cleared).toContain('<!-- AC:END -->\n\n## Implementation Notes');
+  });
+
+  it('replaces section text without markers and leaves unchanged sections alone', () => {
+    const written = update(CORE_FILE, {
+      description: '## Description\n\n<!-- SECTION:DESCRIPTION:BEGIN -->\nFilter the board\n<!-- SECTION:DESCRIPTION:END -->',
+    });
+    expect(written).toBe(
+      CORE_FILE.replace('Filter the list', 'Filter the board').replace('---\n\n', `updated_date: '${TODAY}'\n---\n\n`)
+    );
+  });
+
+  it('keeps the title heading and inline lists of files Core wrote', () => {
+    const written = update(CORE_FILE, { title: 'Board filters', removeLabels: ['api'] });
+    expect(written).toContain('# Board filters\n');
+    expect(written).not.toContain('title:');
+    expect(written).toContain('labels: [ui]\n');
+  });
+
+  it('keeps CRLF line endings and gives up on files without frontmatter', () => {
+    expect(update(TASK_FILE.replace(/\n/g, '\r\n'), { status: 'Done' })).toContain('status: Done\r\nassignee:\r\n');
+    expect(updateTaskFile('# Filters\n', PATH, { status: 'Done' }, TODAY)).toBeNull();
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Task file updates that keep the file as Backlog.md wrote it
+ *
+ * Core's serializer rewrites the whole file in its own layout: frontmatter
+ * without `id`, `title` or snake_case keys (so `created_date` is lost), and
+ * a body with only the fields its parser reads (no implementation plan or
+ * notes, no SECTION or AC markers). Here only the fields that changed are
+ * rewritten; everything else in the file stays as it is.
+ */
+
+import { parseTaskMarkdown, type AcceptanceCriterion, type Task, type TaskUpdateInput } from '@backlog-md/core';
+import { applyTaskUpdate, getSectionText } from './taskMerge';
+import {
+  TASK_BODY_SECTIONS,
+  extractTaskBodySections,
+  type TaskBodySectionDefinition,
+  type TaskBodySections,
+} from '../panels/task-detail/utils/taskBodySections';
+
+type FrontmatterField =
+  | 'title'
+  | 'status'
+  | 'priority'
+  | 'assignee'
+  | 'labels'
+  | 'milestone'
+  | 'dependencies'
+  | 'references'
+  | 'ordinal'
+  | 'updatedDate';
+
+/** Frontmatter keys per field; the first is the one Backlog.md writes */
+const FRONTMATTER_KEYS: Record<FrontmatterField, string[]> = {
+  title: ['title'],
+  status: ['status'],
+  priority: ['priority'],
+  assignee: ['assignee'],
+  labels: ['labels'],
+  milestone: ['milestone'],
+  dependencies: ['dependencies'],
+  references: ['references'],
+  ordinal: ['ordinal'],
+  updatedDate: ['updated_date', 'updatedDate'],
+};
+
+/** Body headings in the order Backlog.md writes them */
+const BODY_HEADINGS = ['Description', 'Acceptance Criteria', 'Implementation Plan', 'Implementation Notes'];
+
+interface FrontmatterEntry {
+  /** Null for lines before the first key (comments) */
+  key: string | null;
+  lines: string[];
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Strings YAML would read as something else, or not at all, without quotes
+function needsQuotes(value: string): boolean {
+  return (
+    value === '' ||
+    value !== value.trim() ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /: |\s#|:$/.test(value) ||
+    /^(true|false|yes|no|on|off|null|~)$/i.test(value) ||
+    /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value) ||
+    /^\d{4}-\d{2}-\d{2}/.test(value)
+  );
+}
+
+function formatScalar(value: string): string {
+  return needsQuotes(value) ? `'${value.replace(/'/g, "''")}'` : value;
+}
+
+function parseFrontmatter(raw: string): FrontmatterEntry[] {
+  const entries: FrontmatterEntry[] = [];
+  for (const line of raw.split('\n')) {
+    const key = line.match(/^([A-Za-z_]\w*):/)?.[1];
+    const last = entries[entries.length - 1];
+    if (key) {
+      entries.push({ key, lines: [line] });
+    } else if (last) {
+      // Block list items and wrapped values belong to the key above
+      last.lines.push(line);
+    } else {
+      entries.push({ key: null, lines: [line] });
+    }
+  }
+  return entries;
+}
+
+const LIST_FIELDS = ['assignee', 'labels', 'dependencies', 'references'] as const;
+
+function unquote(value: string): string {
+  if (/^'.*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+  if (/^".*"$/.test(value)) return value.slice(1, -1);
+  return value;
+}
+
+// Items of a block list; Core's parser reads only lists written inline
+function readBlockList(entry: FrontmatterEntry): string[] | null {
+  if (!/^\w+:\s*$/.test(entry.lines[0])) return null;
+  const items = entry.lines.slice(1).flatMap((line) => line.match(/^\s*-\s+(.*?)\s*$/)?.[1] ?? []);
+  return items.map(unquote);
+}
+
+function formatEntry(key: string, value: Task[FrontmatterField], previous?: FrontmatterEntry): string[] {
+  if (Array.isArray(value)) {
+    // Backlog.md writes non-empty lists as blocks; keep lists written inline inline
+    const inline = previous !== undefined && /^\w+:\s*\[\s*\S/.test(previous.lines[0]);
+    if (value.length === 0 || inline) return [`${key}: [${value.join(', ')}]`];
+    const indent = previous?.lines.find((line) => /^\s*-\s/.test(line))?.match(/^\s*/)?.[0] ?? '  ';
+    return [`${key}:`, ...value.map((item) => `${indent}- ${formatScalar(item)}`)];
+  }
+  return [`${key}: ${typeof value === 'number' ? value : formatScalar(String(value))}`];
+}
+
+function updateFrontmatter(entries: FrontmatterEntry[], before: Task, after: Task, titleInBody: boolean): string {
+  for (const [field, keys] of Object.entries(FRONTMATTER_KEYS) as Array<[FrontmatterField, string[]]>) {
+    const value = after[field];
+    if (JSON.stringify(value) === JSON.stringify(before[field])) continue;
+
+    const index = entries.findIndex((entry) => entry.key !== null && keys.includes(entry.key));
+    const previous = index === -1 ? undefined : entries[index];
+    // Files Core wrote carry the title as the `# ` heading only
+    if (!previous && field === 'title' && titleInBody) continue;
+    if (value === undefined || value === '') {
+      if (previous) entries.splice(index, 1);
+      continue;
+    }
+    const lines = formatEntry(previous?.key ?? keys[0], value, previous);
+    if (previous) {
+      entries[index] = { key: previous.key, lines };
+    } else {
+      entries.push({ key: keys[0], lines });
+    }
+  }
+  return entries.flatMap((entry) => entry.lines).join('\n');
+}
+
+/** Start and end of the text under a `## ` heading (heading line included) */
+function findSection(body: string, heading: string): { start: number; end: number } | null {
+  const match = new RegExp(`^##\\s+${escapeRegex(heading)}[ \\t]*$`, 'im').exec(body);
+  if (!match) return null;
+  const rest = body.slice(match.index + match[0].length);
+  const next = rest.search(/^##\s/m);
+  return { start: match.index, end: next === -1 ? body.length : match.index + match[0].length + next };
+}
+
+// Where a new section goes: before the first section Backlog.md writes after it
+function findInsertPosition(body: string, heading: string): number {
+  for (const later of BODY_HEADINGS.slice(BODY_HEADINGS.indexOf(heading) + 1)) {
+    const section = findSection(body, later);
+    if (section) return section.start;
+  }
+  return body.length;
+}
+
+function insertSection(body: string, heading: string, text: string): string {
+  const at = findInsertPosition(body, heading);
+  const before = body.slice(0, at).replace(/\n*$/, body.slice(0, at).trim() ? '\n\n' : '');
+  const after = body.slice(at);
+  return `${before}## ${heading}\n\n${text}\n${after ? `\n${after}` : ''}`;
+}
+
+function removeSection(body: string, heading: string): string {
+  const section = findSection(body, heading);
+  if (!section) return body;
+  return `${body.slice(0, section.start)}${body.slice(section.end)}`.replace(/\n{3,}/g, '\n\n');
+}
+
+function replaceMarked(body: string, marker: string, text: string): string | null {
+  const regex = new RegExp(`(<!--\\s*${marker}:BEGIN\\s*-->)[\\s\\S]*?(<!--\\s*${marker}:END\\s*-->)`);
+  if (!regex.test(body)) return null;
+  return body.replace(regex, (_match, begin: string, end: string) => (text ? `${begin}\n${text}\n${end}` : `${begin}\n${end}`));
+}
+
+function updateBodySection(body: string, before: Task, definition: TaskBodySectionDefinition, text: string): string {
+  const { key, heading, marker } = definition;
+  const section = findSection(body, heading);
+  // A cleared plan or notes goes away with its heading; the description stays
+  if (!text && section && key !== 'description') return removeSection(body, heading);
+
+  const marked = replaceMarked(body, `SECTION:${marker}`, text);
+  if (marked !== null) return marked;
+
+  if (section) {
+    const headingLine = body.slice(section.start).match(/^.*\n?/)?.[0] ?? '';
+    const tail = section.end < body.length ? '\n' : '';
+    return `${body.slice(0, section.start)}${headingLine.trimEnd()}\n\n${text}\n${tail}${body.slice(section.end)}`;
+  }
+
+  // Core's files keep the description between the title and the first section
+  if (key === 'description' && before.description) {
+    const titleLine = body.match(/^#\s+.*\n?/m);
+    const start = titleLine ? (titleLine.index ?? 0) + titleLine[0].length : 0;
+    const next = body.slice(start).search(/^##\s/m);
+    const end = next === -1 ? body.length : start + next;
+    return `${body.slice(0, start)}${text ? `\n${text}\n` : ''}${end < body.length ? '\n' : ''}${body.slice(end)}`;
+  }
+
+  if (!text) return body;
+  return insertSection(body, heading, `<!-- SECTION:${marker}:BEGIN -->\n${text}\n<!-- SECTION:${marker}:END -->`);
+}
+
+const isCheckbox = (line: string) => /^-\s*\[[ xX]\]\s*\S/.test(line);
+const formatCriterion = ({ checked, text }: AcceptanceCriterion) => `- [${checked ? 'x' : ' '}] ${text}`;
+
+function updateAcceptanceCriteria(body: string, criteria: AcceptanceCriterion[]): string {
+  // Within AC markers Backlog.md numbers the criteria
+  const numbered = criteria.map((criterion, i) =>
+    formatCriterion({ ...criterion, text: `#${i + 1} ${criterion.text.replace(/^#\d+\s+/, '')}` })
+  );
+  const marked = replaceMarked(body, 'AC', numbered.join('\n'));
+  if (marked !== null) return marked;
+
+  const lines = criteria.map(formatCriterion);
+  const section = findSection(body, 'Acceptance Criteria');
+  if (!section) {
+    return lines.length === 0
+      ? body
+      : insertSection(body, 'Acceptance Criteria', `<!-- AC:BEGIN -->\n${numbered.join('\n')}\n<!-- AC:END -->`);
+  }
+
+  // Swap the checklist lines and keep any other text in the section
+  const sectionLines = body.slice(section.start, section.end).split('\n');
+  const checkboxes = sectionLines.flatMap((line, i) => (isCheckbox(line) ? [i] : []));
+  let next: string[];
+  if (checkboxes.length === lines.length) {
+    next = sectionLines.map((line, i) => (isCheckbox(line) ? lines[checkboxes.indexOf(i)] : line));
+  } else {
+    const at = checkboxes[0] ?? sectionLines.length - (sectionLines[sectionLines.length - 1] === '' ? 1 : 0);
+    next = sectionLines.filter((line) => !isCheckbox(line));
+    next.splice(at - checkboxes.filter((i) => i < at).length, 0, ...lines);
+  }
+  return `${body.slice(0, section.start)}${next.join('\n')}${body.slice(section.end)}`;
+}
+
+const criteriaKey = (task: Task) =>
+  JSON.stringify((task.acceptanceCriteriaItems ?? []).map(({ text, checked }) => ({ text, checked })));
+
+const titleHeading = (title: string) => new RegExp(`^#\\s+${escapeRegex(title)}[ \\t]*$`, 'm');
+
+function updateBody(body: string, before: Task, after: Task, sections: TaskBodySections): string {
+  let next = body;
+  if (after.title !== before.title) {
+    next = next.replace(titleHeading(before.title), `# ${after.title}`);
+  }
+
+  for (const definition of TASK_BODY_SECTIONS) {
+    const text = getSectionText(after[definition.key]) ?? '';
+    if (text === sections[definition.key].content) continue;
+    next = updateBodySection(next, before, definition, text);
+  }
+
+  if (criteriaKey(after) !== criteriaKey(before)) {
+    next = updateAcceptanceCriteria(next, after.acceptanceCriteriaItems ?? []);
+  }
+  return next;
+}
+
+/**
+ * Apply a task update to the task file's content, stamped with `updatedDate`
+ * as Core does (when given; the date is left alone otherwise). Frontmatter keys keep their name and list style, unknown
+ * keys stay, and body sections keep their headings and markers. Null when
+ * the file has no frontmatter to update.
+ */
+export function updateTaskFile(
+  content: string,
+  path: string,
+  input: TaskUpdateInput,
+  updatedDate?: string
+): string | null {
+  const crlf = content.includes('\r\n');
+  const text = crlf ? content.replace(/\r\n/g, '\n') : content;
+  const frontmatter = text.match(/^---\n([\s\S]*?)\n---(\n|$)/);
+  if (!frontmatter) return null;
+
+  // Core's parser reads no implementation plan or notes; take all sections from the body
+  const parsed = parseTaskMarkdown(text, path);
+  const sections = extractTaskBodySections(parsed);
+  const before: Task = {
+    ...parsed,
+    description: sections.description.content,
+    implementationPlan: sections.implementationPlan.content || undefined,
+    implementationNotes: sections.implementationNotes.content || undefined,
+  };
+  const entries = parseFrontmatter(frontmatter[1]);
+  for (const field of LIST_FIELDS) {
+    const entry = entries.find((e) => e.key === field);
+    const items = entry && readBlockList(entry);
+    if (items) before[field] = items;
+  }
+  const after: Task = { ...applyTaskUpdate(before, input), updatedDate: updatedDate ?? before.updatedDate };
+
+  const body = text.slice(frontmatter[0].length);
+  const updated = [
+    '---',
+    updateFrontmatter(entries, before, after, titleHeading(before.title).test(body)),
+    '---',
+    updateBody(body, before, after, sections),
+  ].join('\n');
+  return crlf ? updated.replace(/\n/g, '\r\n') : updated;
+}
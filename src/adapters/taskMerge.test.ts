@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'bun:test';
+import type { Task } from '@backlog-md/core';
+import { applyTaskUpdate, buildMergedUpdate, diffTaskFields, getMergeFieldValue, resolveFieldValue } from './taskMerge';
+
+const base: Task = {
+  id: 'task-1',
+  title: 'One',
+  status: 'To Do',
+  assignee: ['@alice'],
+  createdDate: '2025-01-01',
+  labels: ['ui', 'bug'],
+  dependencies: [],
+  description: 'Hello',
+  implementationPlan: '1. Write it',
+  acceptanceCriteriaItems: [
+    { index: 1, text: 'Works', checked: false },
+    { index: 2, text: 'Fast', checked: false },
+  ],
+};
+
+const diffFor = (theirs: Partial<Task>, mine: Partial<Task>) =>
+  diffTaskFields(base, { ...base, ...theirs }, { ...base, ...mine });
+
+describe('getMergeFieldValue', () => {
+  it('compares section text without its markers and heading', () => {
+    const wrapped = {
+      ...base,
+      description: '## Description\n\n<!-- SECTION:DESCRIPTION:BEGIN -->\nHello\n<!-- SECTION:DESCRIPTION:END -->',
+    };
+    expect(getMergeFieldValue(wrapped, 'description')).toBe('Hello');
+    expect(getMergeFieldValue({ ...base, implementationNotes: '  ' }, 'implementationNotes')).toBeUndefined();
+  });
+});
+
+describe('diffTaskFields', () => {
+  it('lists only fields where mine and theirs differ, with the side that changed', () => {
+    const diffs = diffFor({ status: 'Done' }, { title: 'Renamed' });
+    expect(diffs.map(({ field, conflicting, defaultChoice }) => ({ field, conflicting, defaultChoice }))).toEqual([
+      { field: 'title', conflicting: false, defaultChoice: 'keep' },
+      { field: 'status', conflicting: false, defaultChoice: 'take' },
+    ]);
+  });
+
+  it('suggests a merge for lists changed on both sides and mine for other fields', () => {
+    const diffs = diffFor({ status: 'Done', labels: ['ui', 'bug', 'api'] }, { status: 'In Progress', labels: ['ui'] });
+    expect(diffs.map(({ field, conflicting, defaultChoice }) => ({ field, conflicting, defaultChoice }))).toEqual([
+      { field: 'status', conflicting: true, defaultChoice: 'keep' },
+      { field: 'labels', conflicting: true, defaultChoice: 'merge' },
+    ]);
+  });
+
+  it('ignores fields both sides changed the same way', () => {
+    expect(diffFor({ status: 'Done' }, { status: 'Done' })).toEqual([]);
+  });
+});
+
+describe('resolveFieldValue', () => {
+  it('merges lists relative to base', () => {
+    const [labels] = diffFor({ labels: ['ui', 'bug', 'api'] }, { labels: ['ui'] });
+    expect(resolveFieldValue(labels, 'merge')).toEqual(['ui', 'api']);
+    expect(resolveFieldValue(labels, 'take')).toEqual(['ui', 'bug', 'api']);
+    expect(resolveFieldValue(labels, 'keep')).toEqual(['ui']);
+  });
+
+  it('merges criteria by text, keeping check changes from mine', () => {
+    const [criteria] = diffFor(
+      {
+        acceptanceCriteriaItems: [
+          { index: 1, text: 'Works', checked: false },
+          { index: 2, text: 'Fast', checked: false },
+          { index: 3, text: 'Documented', checked: false },
+        ],
+      },
+      { acceptanceCriteriaItems: [{ index: 1, text: 'Works', checked: true }] }
+    );
+    expect(resolveFieldValue(criteria, 'merge')).toEqual([
+      { text: 'Works', checked: true },
+      { text: 'Documented', checked: false },
+    ]);
+  });
+
+  it('joins text changed on both sides', () => {
+    const [plan] = diffFor({ implementationPlan: '1. Write it\n2. Test it' }, { implementationPlan: '1. Write it well' });
+    expect(resolveFieldValue(plan, 'merge')).toBe('1. Write it\n2. Test it\n\n1. Write it well');
+  });
+});
+
+describe('buildMergedUpdate', () => {
+  it('writes mine where chosen and leaves theirs out', () => {
+    const diffs = diffFor({ status: 'Done', labels: ['ui', 'bug', 'api'] }, { title: 'Renamed', labels: ['ui'] });
+    expect(buildMergedUpdate(diffs)).toEqual({ title: 'Renamed', labels: ['ui', 'api'] });
+    expect(buildMergedUpdate(diffs, { labels: 'take' })).toEqual({ title: 'Renamed' });
+  });
+
+  it('clears a section or milestone mine removed', () => {
+    const diffs = diffTaskFields(
+      { ...base, milestone: 'v1' },
+      { ...base, milestone: 'v1', status: 'Done' },
+      { ...base, implementationPlan: undefined }
+    );
+    expect(buildMergedUpdate(diffs, { status: 'keep', milestone: 'keep' })).toEqual({
+      status: 'To Do',
+      milestone: null,
+      clearImplementationPlan: true,
+    });
+  });
+
+  it('produces an update that applies to theirs as chosen', () => {
+    const theirs = { ...base, status: 'Done', labels: ['ui', 'bug', 'api'] };
+    const mine = applyTaskUpdate(base, { title: 'Renamed', removeLabels: ['bug'] });
+    const merged = applyTaskUpdate(theirs, buildMergedUpdate(diffTaskFields(base, theirs, mine)));
+    expect({ title: merged.title, status: merged.status, labels: merged.labels }).toEqual({
+      title: 'Renamed',
+      status: 'Done',
+      labels: ['ui', 'api'],
+    });
+  });
+});
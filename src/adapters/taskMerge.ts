@@ -0,0 +1,266 @@
+/**
+ * Task merging
+ *
+ * Field-level three-way comparison of a task as it was loaded (base), as it
+ * is now on disk (theirs) and as a pending write would leave it (mine).
+ */
+
+import type { AcceptanceCriterionInput, Task, TaskUpdateInput } from '@backlog-md/core';
+
+/** Task fields compared when a write conflicts with a change on disk */
+export type MergeField =
+  | 'title'
+  | 'status'
+  | 'priority'
+  | 'milestone'
+  | 'assignee'
+  | 'labels'
+  | 'dependencies'
+  | 'references'
+  | 'ordinal'
+  | 'description'
+  | 'implementationPlan'
+  | 'implementationNotes'
+  | 'acceptanceCriteria';
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  title: 'Title',
+  status: 'Status',
+  priority: 'Priority',
+  milestone: 'Milestone',
+  assignee: 'Assignees',
+  labels: 'Labels',
+  dependencies: 'Dependencies',
+  references: 'References',
+  ordinal: 'Order',
+  description: 'Description',
+  implementationPlan: 'Implementation plan',
+  implementationNotes: 'Implementation notes',
+  acceptanceCriteria: 'Acceptance criteria',
+};
+
+const MERGE_FIELDS = Object.keys(MERGE_FIELD_LABELS) as MergeField[];
+const LIST_FIELDS: MergeField[] = ['assignee', 'labels', 'dependencies', 'references'];
+const TEXT_FIELDS: MergeField[] = ['description', 'implementationPlan', 'implementationNotes'];
+
+export type MergeFieldValue = string | number | string[] | AcceptanceCriterionInput[] | undefined;
+
+/** How to settle a field: keep mine, take theirs, or combine both */
+export type MergeChoice = 'keep' | 'take' | 'merge';
+
+export interface TaskFieldDiff {
+  field: MergeField;
+  base: MergeFieldValue;
+  theirs: MergeFieldValue;
+  mine: MergeFieldValue;
+  /** Changed on both sides, to different values */
+  conflicting: boolean;
+  /** Whether both values can be combined (lists, criteria and text) */
+  mergeable: boolean;
+  /** The side that changed, or a merge when both did and it is possible */
+  defaultChoice: MergeChoice;
+}
+
+/**
+ * The task as Core.updateTask would write it (same rules: lists replace,
+ * add/remove label and dependency operations, null clears the milestone)
+ */
+export function applyTaskUpdate(task: Task, input: TaskUpdateInput): Task {
+  const updated: Task = {
+    ...task,
+    title: input.title ?? task.title,
+    status: input.status ?? task.status,
+    priority: input.priority ?? task.priority,
+    milestone: input.milestone === null ? undefined : (input.milestone ?? task.milestone),
+    description: input.description ?? task.description,
+    implementationPlan: input.clearImplementationPlan ? undefined : (input.implementationPlan ?? task.implementationPlan),
+    implementationNotes: input.clearImplementationNotes ? undefined : (input.implementationNotes ?? task.implementationNotes),
+    ordinal: input.ordinal ?? task.ordinal,
+    dependencies: input.dependencies ?? task.dependencies,
+    references: input.references ?? task.references ?? [],
+  };
+
+  if (input.labels) {
+    updated.labels = input.labels;
+  } else {
+    if (input.addLabels) updated.labels = [...new Set([...updated.labels, ...input.addLabels])];
+    if (input.removeLabels) updated.labels = updated.labels.filter((l) => !input.removeLabels?.includes(l));
+  }
+  if (input.assignee) updated.assignee = input.assignee;
+  if (input.addDependencies) {
+    updated.dependencies = [...new Set([...updated.dependencies, ...input.addDependencies])];
+  }
+  if (input.removeDependencies) {
+    updated.dependencies = updated.dependencies.filter((d) => !input.removeDependencies?.includes(d));
+  }
+  if (input.addReferences) updated.references = [...new Set([...(updated.references ?? []), ...input.addReferences])];
+  if (input.removeReferences) {
+    updated.references = (updated.references ?? []).filter((r) => !input.removeReferences?.includes(r));
+  }
+  if (input.acceptanceCriteria) {
+    updated.acceptanceCriteriaItems = input.acceptanceCriteria.map((ac, i) => ({
+      index: i + 1,
+      text: ac.text,
+      checked: ac.checked || false,
+    }));
+  }
+  return updated;
+}
+
+/** Section text without the SECTION markers and `## ` heading the file wraps it in */
+export function getSectionText(value: string | undefined): string | undefined {
+  return value
+    ?.replace(/<!--\s*SECTION:[A-Z]+:(BEGIN|END)\s*-->/g, '')
+    .replace(/^\s*##\s+(Description|Implementation Plan|Implementation Notes)[ \t]*\n/i, '')
+    .trim() || undefined;
+}
+
+/** A field's value, normalized so equal content compares equal */
+export function getMergeFieldValue(task: Task, field: MergeField): MergeFieldValue {
+  switch (field) {
+    case 'acceptanceCriteria':
+      return (task.acceptanceCriteriaItems ?? []).map(({ text, checked }) => ({ text, checked }));
+    case 'assignee':
+    case 'labels':
+    case 'dependencies':
+    case 'references':
+      return task[field] ?? [];
+    case 'description':
+    case 'implementationPlan':
+    case 'implementationNotes':
+      return getSectionText(task[field]);
+    default:
+      return task[field];
+  }
+}
+
+const sameValue = (a: MergeFieldValue, b: MergeFieldValue) => JSON.stringify(a) === JSON.stringify(b);
+
+// Theirs, plus the items mine added and minus those mine removed (relative to base)
+function mergeLists(base: string[], theirs: string[], mine: string[]): string[] {
+  const added = mine.filter((item) => !base.includes(item));
+  const removed = base.filter((item) => !mine.includes(item));
+  return [...new Set([...theirs, ...added])].filter((item) => !removed.includes(item));
+}
+
+// Criteria matched by text: mine's additions, removals and check changes applied to theirs
+function mergeCriteria(
+  base: AcceptanceCriterionInput[],
+  theirs: AcceptanceCriterionInput[],
+  mine: AcceptanceCriterionInput[]
+): AcceptanceCriterionInput[] {
+  const baseByText = new Map(base.map((ac) => [ac.text, ac]));
+  const mineByText = new Map(mine.map((ac) => [ac.text, ac]));
+  const merged = theirs
+    .filter((ac) => !baseByText.has(ac.text) || mineByText.has(ac.text))
+    .map((ac) => {
+      const mineItem = mineByText.get(ac.text);
+      const baseItem = baseByText.get(ac.text);
+      return mineItem && baseItem && !!mineItem.checked !== !!baseItem.checked ? { ...ac, checked: mineItem.checked } : ac;
+    });
+  const known = new Set(merged.map((ac) => ac.text));
+  return [...merged, ...mine.filter((ac) => !baseByText.has(ac.text) && !known.has(ac.text))];
+}
+
+/** Both values of a field combined (for mergeable fields; otherwise mine) */
+export function mergeFieldValues(diff: TaskFieldDiff): MergeFieldValue {
+  const { field, base, theirs, mine } = diff;
+  if (LIST_FIELDS.includes(field)) {
+    return mergeLists((base ?? []) as string[], (theirs ?? []) as string[], (mine ?? []) as string[]);
+  }
+  if (field === 'acceptanceCriteria') {
+    return mergeCriteria(
+      (base ?? []) as AcceptanceCriterionInput[],
+      (theirs ?? []) as AcceptanceCriterionInput[],
+      (mine ?? []) as AcceptanceCriterionInput[]
+    );
+  }
+  if (TEXT_FIELDS.includes(field)) {
+    if (sameValue(theirs, base)) return mine;
+    if (sameValue(mine, base)) return theirs;
+    return [theirs, mine].filter(Boolean).join('\n\n');
+  }
+  return mine;
+}
+
+/** Fields where mine and theirs differ, with what base had */
+export function diffTaskFields(base: Task, theirs: Task, mine: Task): TaskFieldDiff[] {
+  const diffs: TaskFieldDiff[] = [];
+  for (const field of MERGE_FIELDS) {
+    const values = {
+      base: getMergeFieldValue(base, field),
+      theirs: getMergeFieldValue(theirs, field),
+      mine: getMergeFieldValue(mine, field),
+    };
+    if (sameValue(values.theirs, values.mine)) continue;
+
+    const theirsChanged = !sameValue(values.theirs, values.base);
+    const mineChanged = !sameValue(values.mine, values.base);
+    const conflicting = theirsChanged && mineChanged;
+    const mergeable = LIST_FIELDS.includes(field) || TEXT_FIELDS.includes(field) || field === 'acceptanceCriteria';
+    diffs.push({
+      field,
+      ...values,
+      conflicting,
+      mergeable,
+      defaultChoice: conflicting ? (mergeable ? 'merge' : 'keep') : mineChanged ? 'keep' : 'take',
+    });
+  }
+  return diffs;
+}
+
+/** A field's value after a choice */
+export function resolveFieldValue(diff: TaskFieldDiff, choice: MergeChoice): MergeFieldValue {
+  if (choice === 'take') return diff.theirs;
+  if (choice === 'merge' && diff.mergeable) return mergeFieldValues(diff);
+  return diff.mine;
+}
+
+/**
+ * The update to write over theirs so the task ends up with the chosen values
+ * (default choices for fields without one). Fields left as theirs are omitted.
+ */
+export function buildMergedUpdate(
+  diffs: TaskFieldDiff[],
+  choices: Partial<Record<MergeField, MergeChoice>> = {}
+): TaskUpdateInput {
+  const input: TaskUpdateInput = {};
+  for (const diff of diffs) {
+    const value = resolveFieldValue(diff, choices[diff.field] ?? diff.defaultChoice);
+    if (sameValue(value, diff.theirs)) continue;
+
+    switch (diff.field) {
+      case 'milestone':
+        input.milestone = (value as string | undefined) ?? null;
+        break;
+      case 'priority':
+        // Core can't clear a priority; leaving theirs is the closest
+        if (value) input.priority = value as TaskUpdateInput['priority'];
+        break;
+      case 'ordinal':
+        if (typeof value === 'number') input.ordinal = value;
+        break;
+      case 'implementationPlan':
+        if (value) input.implementationPlan = value as string;
+        else input.clearImplementationPlan = true;
+        break;
+      case 'implementationNotes':
+        if (value) input.implementationNotes = value as string;
+        else input.clearImplementationNotes = true;
+        break;
+      case 'description':
+        input.description = (value as string | undefined) ?? '';
+        break;
+      case 'acceptanceCriteria':
+        input.acceptanceCriteria = value as AcceptanceCriterionInput[];
+        break;
+      case 'title':
+      case 'status':
+        if (value) input[diff.field] = value as string;
+        break;
+      default:
+        input[diff.field] = value as string[];
+    }
+  }
+  return input;
+}
@@ -1,13 +1,43 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { Core } from '@backlog-md/core';
-import { PanelFileSystemAdapter } from '../adapters/PanelFileSystemAdapter';
-import type { KanbanPanelContext, KanbanPanelActions } from '../types';
+import type { TaskUpdateInput } from '@backlog-md/core';
+import {
+  PanelFileSystemAdapter,
+  buildFileMetadata,
+  toFileMetadata,
+  type FileMetadata,
+} from '../adapters/PanelFileSystemAdapter';
+import { diffSize, type FileTreeDiff } from '../adapters/fileTreeDiff';
+import { PanelCore, type TaskWriteConflict } from '../adapters/PanelCore';
+import { useBacklogFileWatcher, type BacklogFileEvent } from './useBacklogFileWatcher';
+import type { KanbanPanelContext, KanbanPanelActions, PanelEventEmitter } from '../types';
 import type { PanelContextValue } from '@principal-ade/panel-framework-core';
 import { getTracer, SpanStatusCode, trace, context as otelContext, type Span } from '../telemetry';
 
+/** Tasks touched by a fileTree update that was applied to the existing Core */
+export interface TaskFileChanges {
+  /** IDs of new task files */
+  added: string[];
+  /** IDs of tasks whose file content changed (or moved) */
+  updated: string[];
+  /** IDs of tasks whose file is gone */
+  removed: string[];
+  /** Whether any milestone file was added, changed or removed */
+  milestonesChanged: boolean;
+  /** The files behind the change (any backlog file, not only tasks) */
+  paths: FileTreeDiff;
+}
+
+/** A task file moved from one path to another */
+export interface TaskFileMove {
+  from: string;
+  to: string;
+}
+
 export interface UseBacklogCoreResult {
   /** The shared Core instance (null if not initialized) */
-  core: Core | null;
+  core: PanelCore | null;
+  /** File system adapter behind `core`, for file moves Core doesn't cover */
+  fileSystem: PanelFileSystemAdapter | null;
   /** Whether the Core is currently initializing */
   isInitializing: boolean;
   /** Whether this is a valid Backlog.md project */
@@ -18,8 +48,70 @@ export interface UseBacklogCoreResult {
   canWrite: boolean;
   /** Force re-initialization */
   reinitialize: () => Promise<void>;
+  /**
+   * Apply task files moved outside Core (archive, restore) to the current
+   * Core, in one go. Moving a loaded task still creates a new Core, as Core
+   * can't let go of loaded tasks.
+   */
+  applyTaskMoves: (moves: TaskFileMove[]) => Promise<void>;
+  /**
+   * Apply task files written or deleted outside Core (e.g. by undo) to the
+   * current Core, the way host file events are applied
+   */
+  applyFileEvents: (batch: BacklogFileEvent[]) => Promise<void>;
   /** File paths available in the project */
   filePaths: string[];
+  /** Modification time and size by path, where the fileTree provides them */
+  fileMetadata: Map<string, FileMetadata>;
+  /** Existing files whose modification time or size changed in the last fileTree update */
+  modifiedPaths: string[];
+  /**
+   * Tasks changed by the last fileTree update, when it was applied to the
+   * current Core instead of creating a new one (null until then)
+   */
+  fileChanges: TaskFileChanges | null;
+  /**
+   * A task write waiting on the user: the file changed on disk since the task
+   * was loaded and both sides changed the same field (show the merge dialog)
+   */
+  conflict: TaskWriteConflict | null;
+  /** Settle the current conflict: the update to write over theirs, or null to drop mine */
+  resolveConflict: (input: TaskUpdateInput | null) => void;
+}
+
+const CONFIG_PATH = 'backlog/config.yml';
+
+/**
+ * Apply a file diff to the current Core's task index and loaded tasks.
+ * Returns null when that isn't possible (config changed, a loaded task's file
+ * is gone), in which case callers create a new Core.
+ */
+async function applyTaskFileChanges(core: PanelCore, diff: FileTreeDiff): Promise<TaskFileChanges | null> {
+  const touched = [...diff.added, ...diff.updated, ...diff.removed];
+  if (touched.includes(CONFIG_PATH)) return null;
+
+  const changes = await core.applyFileDiff(diff);
+  if (!changes) return null;
+  return {
+    ...changes,
+    milestonesChanged: touched.some((path) => path.startsWith('backlog/milestones/')),
+    paths: diff,
+  };
+}
+
+// Whether consumers need to hear about the changes (files outside backlog/ don't matter)
+const touchesBacklog = ({ paths }: TaskFileChanges) =>
+  [...paths.added, ...paths.updated, ...paths.removed].some((path) => path.startsWith('backlog/'));
+
+// Record the size of an applied (or rejected) file diff on a backlog.core.init span
+function recordDiff(span: Span, diff: FileTreeDiff, changes: TaskFileChanges | null): void {
+  span.addEvent('backlog.core.init.diff', {
+    'diff.added': diff.added.length,
+    'diff.updated': diff.updated.length,
+    'diff.removed': diff.removed.length,
+    'diff.size': diffSize(diff),
+    'diff.applied': changes !== null,
+  });
 }
 
 interface UseBacklogCoreOptions {
@@ -27,6 +119,8 @@ interface UseBacklogCoreOptions {
   actions?: KanbanPanelActions;
   /** Parent span for context propagation (e.g., board.session) */
   parentSpan?: Span;
+  /** Host events; backlog file writes, deletions and renames are applied to Core as they happen */
+  events?: PanelEventEmitter;
 }
 
 /**
@@ -36,6 +130,11 @@ interface UseBacklogCoreOptions {
  * - Creating the PanelFileSystemAdapter
  * - Creating and initializing the Core instance
  * - Tracking initialization state and errors
+ * - Reading file metadata from the fileTree and spotting files edited since the previous tree
+ * - Applying later fileTree updates and host file events to the same Core (added,
+ *   changed and removed files only), so consumers refresh just the affected tasks
+ * - Queueing task writes that conflict with changes on disk until the user
+ *   settles them (see PanelCore)
  *
  * Use this with useKanbanData and useMilestoneData to share a single Core:
  *
@@ -46,17 +145,30 @@ interface UseBacklogCoreOptions {
  * ```
  */
 export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreResult {
-  const { context, actions, parentSpan } = options || {};
+  const { context, actions, parentSpan, events } = options || {};
 
-  const [core, setCore] = useState<Core | null>(null);
+  const [core, setCore] = useState<PanelCore | null>(null);
+  const [fileSystem, setFileSystem] = useState<PanelFileSystemAdapter | null>(null);
   const [isInitializing, setIsInitializing] = useState(true);
   const [isBacklogProject, setIsBacklogProject] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [canWrite, setCanWrite] = useState(false);
   const [filePaths, setFilePaths] = useState<string[]>([]);
+  const [fileMetadata, setFileMetadata] = useState<Map<string, FileMetadata>>(new Map());
+  const [modifiedPaths, setModifiedPaths] = useState<string[]>([]);
+  const [fileChanges, setFileChanges] = useState<TaskFileChanges | null>(null);
+  const [conflict, setConflict] = useState<TaskWriteConflict | null>(null);
+  // Conflicts waiting for the user, oldest (shown) first
+  const conflictQueueRef = useRef<Array<{ conflict: TaskWriteConflict; resolve: (input: TaskUpdateInput | null) => void }>>([]);
+  // Metadata of the previous fileTree, to spot files edited since
+  const fileMetadataRef = useRef<Map<string, FileMetadata> | null>(null);
 
   // Track file tree version to detect changes
   const fileTreeVersionRef = useRef<string | null>(null);
+  // File system adapter behind the current Core, updated in place on fileTree changes
+  const fsRef = useRef<PanelFileSystemAdapter | null>(null);
+  // Current Core, for file events arriving between renders
+  const coreRef = useRef<PanelCore | null>(null);
 
   // Keep stable references
   const contextRef = useRef(context);
@@ -67,6 +179,10 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
     actionsRef.current = actions;
   }, [context, actions]);
 
+  useEffect(() => {
+    coreRef.current = core;
+  }, [core]);
+
   // Helper to fetch file content
   const fetchFileContent = useCallback(async (path: string): Promise<string> => {
     const currentActions = actionsRef.current;
@@ -78,6 +194,29 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
     return await currentActions.readFile(path);
   }, []);
 
+  // Hold a conflicting write until the user settles it
+  const requestConflictResolution = useCallback((pending: TaskWriteConflict) =>
+    new Promise<TaskUpdateInput | null>((resolve) => {
+      conflictQueueRef.current.push({ conflict: pending, resolve });
+      if (conflictQueueRef.current.length === 1) setConflict(pending);
+    }),
+  []);
+
+  const resolveConflict = useCallback((input: TaskUpdateInput | null) => {
+    const [current, ...rest] = conflictQueueRef.current;
+    if (!current) return;
+    conflictQueueRef.current = rest;
+    setConflict(rest[0]?.conflict ?? null);
+    current.resolve(input);
+  }, []);
+
+  // Writes still waiting when the panel goes away are dropped
+  useEffect(() => () => {
+    const pending = conflictQueueRef.current;
+    conflictQueueRef.current = [];
+    pending.forEach(({ resolve }) => resolve(null));
+  }, []);
+
   // Initialize Core
   const initializeCore = useCallback(async () => {
     const tracer = getTracer();
@@ -98,6 +237,7 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
           console.log('[useBacklogCore] No context provided');
           setIsBacklogProject(false);
           setCore(null);
+          setFileSystem(null);
           setIsInitializing(false);
           setFilePaths([]);
           span.addEvent('backlog.core.init.skipped', { reason: 'no_context' });
@@ -111,6 +251,7 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
           console.log('[useBacklogCore] FileTree not available');
           setIsBacklogProject(false);
           setCore(null);
+          setFileSystem(null);
           setFilePaths([]);
           span.addEvent('backlog.core.init.skipped', { reason: 'no_filetree' });
           span.setStatus({ code: SpanStatusCode.OK });
@@ -128,13 +269,78 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
           return;
         }
 
-        setIsInitializing(true);
-        setError(null);
-
         const files = fileTreeSlice.data.allFiles;
         const paths = files.map((f: { path: string }) => f.path);
         setFilePaths(paths);
 
+        // Files changed on disk since the last tree (by this or any other tool)
+        const metadata = buildFileMetadata(files);
+        const previousMetadata = fileMetadataRef.current;
+        const modified = previousMetadata
+          ? Array.from(metadata).filter(([path, { mtime, size }]) => {
+              const before = previousMetadata.get(path);
+              return before !== undefined && (before.mtime.getTime() !== mtime.getTime() || before.size !== size);
+            }).map(([path]) => path)
+          : [];
+        fileMetadataRef.current = metadata;
+        setFileMetadata(metadata);
+        setModifiedPaths((prev) => (prev.length === 0 && modified.length === 0 ? prev : modified));
+
+        // Without fileTree metadata, ask the host for the backlog files' (in the background)
+        const fillMetadataFromHost = () => {
+          const stat = actions.stat;
+          const unknown = stat ? paths.filter((path) => path.startsWith('backlog/') && !metadata.has(path)) : [];
+          if (!stat || unknown.length === 0) return;
+          Promise.all(unknown.map(async (path) => {
+            try {
+              return [path, toFileMetadata(await stat(path))] as const;
+            } catch {
+              return [path, null] as const;
+            }
+          })).then((entries) => {
+            if (fileMetadataRef.current !== metadata) return;
+            for (const [path, entry] of entries) {
+              if (entry) metadata.set(path, entry);
+            }
+            setFileMetadata(new Map(metadata));
+          });
+        };
+
+        // A newer tree of the same project: patch the current Core rather than rebuild it
+        const currentFs = fsRef.current;
+        if (core && currentFs && fileTreeVersionRef.current !== null) {
+          const diff = await currentFs.applyFileTree(paths, metadata);
+          const changes = await applyTaskFileChanges(core, diff);
+          recordDiff(span, diff, changes);
+
+          if (changes) {
+            fileTreeVersionRef.current = currentVersion;
+            if (touchesBacklog(changes)) setFileChanges(changes);
+            fillMetadataFromHost();
+
+            span.addEvent('backlog.core.init.complete', {
+              'duration.ms': Date.now() - startTime,
+              'fileCount': paths.length,
+              'files.withMetadata': metadata.size,
+              'files.modified': modified.length,
+              'tasks.added': changes.added.length,
+              'tasks.updated': changes.updated.length,
+              'tasks.removed': changes.removed.length,
+            });
+            span.setAttributes({
+              'output.refreshMode': 'incremental',
+              'output.diffSize': diffSize(diff),
+              'duration.ms': Date.now() - startTime,
+            });
+            span.setStatus({ code: SpanStatusCode.OK });
+            return;
+          }
+          console.warn('[useBacklogCore] File changes need a full re-initialization');
+        }
+
+        setIsInitializing(true);
+        setError(null);
+
         // Create FileSystemAdapter
         const fs = new PanelFileSystemAdapter({
           fetchFile: fetchFileContent,
@@ -143,13 +349,16 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
             writeFile: actions.writeFile,
             createDir: actions.createDir,
             deleteFile: actions.deleteFile,
+            renameFile: actions.renameFile,
+            stat: actions.stat,
           },
+          fileMetadata: metadata,
         });
 
-        // Create Core instance
-        const newCore = new Core({
-          projectRoot: '',
-          adapters: { fs },
+        // Create Core instance (checks task writes for changes made on disk meanwhile)
+        const newCore = new PanelCore({
+          fs,
+          resolveConflict: requestConflictResolution,
         });
 
         // Check if this is a Backlog.md project
@@ -158,6 +367,7 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
           console.log('[useBacklogCore] Not a Backlog.md project');
           setIsBacklogProject(false);
           setCore(null);
+          setFileSystem(null);
           span.addEvent('backlog.core.init.skipped', { reason: 'not_backlog_project' });
           span.setStatus({ code: SpanStatusCode.OK });
           return;
@@ -171,17 +381,23 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
         await newCore.initializeLazy(paths);
 
         fileTreeVersionRef.current = currentVersion;
+        fsRef.current = fs;
         setCore(newCore);
+        setFileSystem(fs);
+        fillMetadataFromHost();
 
         console.log('[useBacklogCore] Core initialized successfully');
 
         span.addEvent('backlog.core.init.complete', {
           'duration.ms': Date.now() - startTime,
           'fileCount': paths.length,
+          'files.withMetadata': metadata.size,
+          'files.modified': modified.length,
         });
         span.setAttributes({
           'output.isBacklogProject': true,
           'output.canWrite': fs.canWrite,
+          'output.refreshMode': 'full',
           'duration.ms': Date.now() - startTime,
         });
         span.setStatus({ code: SpanStatusCode.OK });
@@ -191,6 +407,7 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
         setError(errorMessage);
         setIsBacklogProject(false);
         setCore(null);
+        setFileSystem(null);
         fileTreeVersionRef.current = null;
 
         span.addEvent('backlog.core.init.error', {
@@ -204,7 +421,7 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
         span.end();
       }
     }));
-  }, [context, actions, core, fetchFileContent, parentSpan]);
+  }, [context, actions, core, fetchFileContent, parentSpan, requestConflictResolution]);
 
   // Initialize on mount or when context changes
   useEffect(() => {
@@ -217,13 +434,90 @@ export function useBacklogCore(options?: UseBacklogCoreOptions): UseBacklogCoreR
     await initializeCore();
   }, [initializeCore]);
 
+  // Apply a file diff to the current Core, or create a new one when that isn't possible
+  const applyDiff = useCallback(async (diff: FileTreeDiff, attributes: Record<string, string | number>) => {
+    const currentCore = coreRef.current;
+    if (!currentCore) return;
+
+    const span = getTracer().startSpan('backlog.core.init', { attributes });
+    try {
+      const changes = await applyTaskFileChanges(currentCore, diff);
+      recordDiff(span, diff, changes);
+      if (!changes) {
+        console.warn('[useBacklogCore] File changes need a full re-initialization');
+        span.setAttributes({ 'output.refreshMode': 'full' });
+        await reinitialize();
+      } else {
+        span.setAttributes({ 'output.refreshMode': 'incremental', 'output.diffSize': diffSize(diff) });
+        // Keep the path list in step until the next fileTree arrives
+        if (diff.added.length + diff.removed.length > 0) {
+          const gone = new Set(diff.removed);
+          setFilePaths((prev) => [...prev.filter((path) => !gone.has(path.replace(/^\/+/, ''))), ...diff.added]);
+        }
+        if (touchesBacklog(changes)) setFileChanges(changes);
+      }
+      span.setStatus({ code: SpanStatusCode.OK });
+    } catch (err) {
+      console.error('[useBacklogCore] Failed to apply file changes:', err);
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: err instanceof Error ? err.message : 'Failed to apply file changes' });
+    } finally {
+      span.end();
+    }
+  }, [reinitialize]);
+
+  // Apply host file events to the current Core (see useBacklogFileWatcher)
+  const applyFileEvents = useCallback(async (batch: BacklogFileEvent[]) => {
+    const fs = fsRef.current;
+    // Before the first initialization the fileTree is read in full anyway
+    if (!coreRef.current || !fs) return;
+
+    // The last event for a path wins; a rename removes its old path
+    const latest = new Map<string, BacklogFileEvent | null>();
+    for (const event of batch) {
+      if (event.previousPath) latest.set(event.previousPath, null);
+      latest.set(event.path, event.kind === 'delete' ? null : event);
+    }
+    const written = Array.from(latest.values()).filter((event): event is BacklogFileEvent => event !== null);
+    const removed = Array.from(latest).filter(([, event]) => event === null).map(([path]) => path);
+
+    const diff = await fs.applyFileEvents(written, removed);
+    // The panels' own writes come back as events with unchanged content
+    if (diffSize(diff) === 0) return;
+
+    await applyDiff(diff, { 'input.trigger': 'file-event', 'input.eventCount': batch.length });
+  }, [applyDiff]);
+
+  const applyTaskMoves = useCallback(async (moves: TaskFileMove[]) => {
+    const fs = fsRef.current;
+    if (!coreRef.current || !fs || moves.length === 0) return;
+
+    const from = moves.map((move) => move.from.replace(/^\/+/, ''));
+    const to = moves.map((move) => move.to.replace(/^\/+/, ''));
+    // Moves made through `fileSystem` are already in its file list; another panel's aren't
+    await fs.applyFileEvents(to.map((path) => ({ path })), from);
+    // Applied as a whole, so a moved task is updated rather than removed and added
+    await applyDiff({ added: to, updated: [], removed: from }, { 'input.trigger': 'task-move', 'input.moveCount': moves.length });
+  }, [applyDiff]);
+
+  // Writes, deletions and renames reported by the host; data:refresh rebuilds everything
+  useBacklogFileWatcher({ events, onFileEvents: applyFileEvents, onRefresh: reinitialize });
+
   return {
     core,
+    fileSystem,
     isInitializing,
     isBacklogProject,
     error,
     canWrite,
     reinitialize,
+    applyTaskMoves,
+    applyFileEvents,
     filePaths,
+    fileMetadata,
+    modifiedPaths,
+    fileChanges,
+    conflict,
+    resolveConflict,
   };
 }
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react';
+import type { PanelEventEmitter } from '../types';
+
+/** What happened to a backlog file */
+export type BacklogFileEventKind = 'write' | 'delete' | 'rename';
+
+/** A change to a file under backlog/, reported by the host */
+export interface BacklogFileEvent {
+  kind: BacklogFileEventKind;
+  path: string;
+  /** Old path of a renamed file */
+  previousPath?: string;
+  /** New content of a written file, when the host sends it */
+  content?: string;
+}
+
+interface UseBacklogFileWatcherOptions {
+  events?: PanelEventEmitter;
+  /** Receives the backlog file events of a batch, in order */
+  onFileEvents: (batch: BacklogFileEvent[]) => void;
+  /** The host asked for everything to be reloaded (`data:refresh`) */
+  onRefresh: () => void;
+}
+
+/** Events arriving within this window (e.g. a git checkout) are handled together */
+const BATCH_DELAY_MS = 50;
+
+// Host file events that mean "this file now has new content"
+const WRITE_EVENTS = ['file:write-complete', 'file:saved', 'file:changed'];
+
+interface FileEventPayload {
+  path?: string;
+  filePath?: string;
+  content?: string;
+  from?: string;
+  to?: string;
+}
+
+const normalizePath = (path?: string) => (path ?? '').replace(/^\/+/, '');
+const isBacklogPath = (path: string) => path.startsWith('backlog/');
+
+/**
+ * Hook listening to the host's file events and passing on those that touch
+ * backlog files: writes (`file:write-complete`, `file:saved`, `file:changed`),
+ * deletions (`file:deleted`) and renames (`file:renamed` with `{ from, to }`).
+ * Events are batched briefly so a burst is applied once. Changes that only
+ * show up in a new fileTree are handled by useBacklogCore itself.
+ */
+export function useBacklogFileWatcher(options: UseBacklogFileWatcherOptions): void {
+  const { events, onFileEvents, onRefresh } = options;
+
+  const handlersRef = useRef({ onFileEvents, onRefresh });
+  useEffect(() => {
+    handlersRef.current = { onFileEvents, onRefresh };
+  }, [onFileEvents, onRefresh]);
+
+  useEffect(() => {
+    if (!events) return;
+
+    let pending: BacklogFileEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const queue = (event: BacklogFileEvent) => {
+      pending.push(event);
+      if (timer) return;
+      timer = setTimeout(() => {
+        const batch = pending;
+        pending = [];
+        timer = null;
+        handlersRef.current.onFileEvents(batch);
+      }, BATCH_DELAY_MS);
+    };
+
+    const onWrite = (event: { payload?: FileEventPayload }) => {
+      const path = normalizePath(event.payload?.path ?? event.payload?.filePath);
+      if (isBacklogPath(path)) queue({ kind: 'write', path, content: event.payload?.content });
+    };
+
+    const onDelete = (event: { payload?: FileEventPayload }) => {
+      const path = normalizePath(event.payload?.path ?? event.payload?.filePath);
+      if (isBacklogPath(path)) queue({ kind: 'delete', path });
+    };
+
+    const onRename = (event: { payload?: FileEventPayload }) => {
+      const previousPath = normalizePath(event.payload?.from);
+      const path = normalizePath(event.payload?.to);
+      if (!previousPath || !path) return;
+      if (isBacklogPath(path) || isBacklogPath(previousPath)) queue({ kind: 'rename', path, previousPath });
+    };
+
+    const unsubscribers = [
+      ...WRITE_EVENTS.map((type) => events.on(type, onWrite)),
+      events.on('file:deleted', onDelete),
+      events.on('file:renamed', onRename),
+      events.on('data:refresh', () => handlersRef.current.onRefresh()),
+    ];
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [events]);
+}
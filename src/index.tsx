@@ -95,4 +95,22 @@ export {
   selectTaskTool,
   refreshBoardTool,
   filterTasksTool,
+  switchViewTool,
+  getToolResultEventType,
+  type KanbanToolRequestPayload,
+  type KanbanToolResultPayload,
 } from './tools';
+
+/**
+ * Export the board's filter query parser so hosts can build or validate
+ * filter_tasks queries.
+ */
+export {
+  parseTaskQuery,
+  matchesTaskQuery,
+  taskFilterToQuery,
+  type ParsedTaskQuery,
+  type TaskQueryFilter,
+  type TaskQueryQualifier,
+  type TaskFilter,
+} from './panels/kanban/utils/taskQuery';
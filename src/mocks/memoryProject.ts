@@ -0,0 +1,68 @@
+import { PanelCore, type TaskConflictResolver } from '../adapters/PanelCore';
+import { PanelFileSystemAdapter, type HostFileSystemAdapter } from '../adapters/PanelFileSystemAdapter';
+
+const CONFIG = `project_name: "Test"
+statuses: ["To Do", "In Progress", "Done"]
+labels: []
+milestones: []
+date_format: yyyy-mm-dd
+`;
+
+export interface MemoryProject {
+  /** File contents by path, as the host has them */
+  files: Map<string, string>;
+  /** Host calls in order: `write <path>`, `delete <path>`, `rename <from> -> <to>` */
+  calls: string[];
+  fs: PanelFileSystemAdapter;
+}
+
+/**
+ * A Backlog.md project held in memory, for tests: the given files plus
+ * backlog/config.yml, behind a PanelFileSystemAdapter that records host calls
+ */
+export function createProject(
+  taskFiles: Record<string, string>,
+  options: { nativeRename?: boolean } = {}
+): MemoryProject {
+  const files = new Map([['backlog/config.yml', CONFIG], ...Object.entries(taskFiles)]);
+  const calls: string[] = [];
+  const host: HostFileSystemAdapter = {
+    writeFile: (path, content) => {
+      calls.push(`write ${path}`);
+      files.set(path, content);
+    },
+    createDir: () => undefined,
+    deleteFile: (path) => {
+      calls.push(`delete ${path}`);
+      files.delete(path);
+    },
+  };
+  if (options.nativeRename ?? true) {
+    host.renameFile = (from, to) => {
+      calls.push(`rename ${from} -> ${to}`);
+      const content = files.get(from);
+      if (content === undefined) throw new Error(`Not found: ${from}`);
+      files.delete(from);
+      files.set(to, content);
+    };
+  }
+
+  const fs = new PanelFileSystemAdapter({
+    fetchFile: async (path) => {
+      const content = files.get(path.replace(/^\/+/, ''));
+      if (content === undefined) throw new Error(`Not found: ${path}`);
+      return content;
+    },
+    filePaths: Array.from(files.keys()),
+    hostFileSystem: host,
+  });
+  return { files, calls, fs };
+}
+
+/** A PanelCore over the project with every task loaded */
+export async function loadCore(project: MemoryProject, resolveConflict?: TaskConflictResolver): Promise<PanelCore> {
+  const core = new PanelCore({ fs: project.fs, resolveConflict });
+  await core.initializeLazy(Array.from(project.files.keys()));
+  await core.loadTasks(Array.from(core.getTaskIndex().keys()));
+  return core;
+}
@@ -150,7 +150,7 @@ export const createMockContext = (
  * Mock Panel Actions for Storybook
  *
  * Actions are the primary interface for panel-initiated operations:
- * - File operations (read, write, delete, createDir)
+ * - File operations (read, write, delete, rename, createDir)
  * - Host commands (openFile, openGitDiff, navigateToPanel)
  */
 export const createMockActions = (
@@ -194,6 +194,16 @@ export const createMockActions = (
       console.log('[Mock] Deleting file:', path);
       files.delete(path);
     },
+    renameFile: async (from: string, to: string): Promise<void> => {
+      // eslint-disable-next-line no-console
+      console.log('[Mock] Renaming file:', from, '->', to);
+      const content = files.get(from);
+      if (content === undefined) {
+        throw new Error(`File not found: ${from}`);
+      }
+      files.set(to, content);
+      files.delete(from);
+    },
     createDir: async (path: string): Promise<void> => {
       // eslint-disable-next-line no-console
       console.log('[Mock] Creating directory:', path);
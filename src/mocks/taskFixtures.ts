@@ -0,0 +1,17 @@
+import type { Task } from '@backlog-md/core';
+
+/**
+ * Build a task with the fields Core always sets, for tests
+ */
+export function createTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: id,
+    status: 'To Do',
+    assignee: [],
+    createdDate: '2025-01-01',
+    labels: [],
+    dependencies: [],
+    ...overrides,
+  };
+}
@@ -17,7 +17,51 @@ import type { KanbanPanelPropsTyped } from '../types';
 import {
   useKanbanData,
   type StatusColumn,
+  type TaskChanges,
 } from './kanban/hooks/useKanbanData';
+import { useKanbanToolEvents } from './kanban/hooks/useKanbanToolEvents';
+import { useTaskMenuActions } from './kanban/hooks/useTaskMenuActions';
+import { useTaskSearchIndex } from './kanban/hooks/useTaskSearchIndex';
+import { mergeIndexedTasks } from './kanban/utils/taskSearch';
+import type { TaskMenuAction, TaskMenuOptions } from './kanban/components/TaskContextMenu';
+import { ConfirmDialog } from './kanban/components/ConfirmDialog';
+import { TaskConflictDialog } from './kanban/components/TaskConflictDialog';
+import {
+  parseTaskQuery,
+  isTaskQueryEmpty,
+  matchesTaskQuery,
+  removeTaskQueryFilter,
+} from './kanban/utils/taskQuery';
+import { FilterChips } from './kanban/components/FilterChips';
+import { ViewSwitcher } from './kanban/components/ViewSwitcher';
+import { SwimlaneBoard } from './kanban/components/SwimlaneBoard';
+import { TaskGraphView } from './kanban/components/TaskGraphView';
+import { ExportMenu } from './kanban/components/ExportMenu';
+import { useBoardExport } from './kanban/hooks/useBoardExport';
+import { ArchivedTasksView } from './kanban/components/ArchivedTasksView';
+import { useTaskArchive } from './kanban/hooks/useTaskArchive';
+import { useUndoHistory } from './kanban/hooks/useUndoHistory';
+import { useTaskSelection } from './kanban/hooks/useTaskSelection';
+import { useBulkTaskActions } from './kanban/hooks/useBulkTaskActions';
+import { BulkActionBar } from './kanban/components/BulkActionBar';
+import { UndoToast } from './kanban/components/UndoToast';
+import { findStaleDoneTasks, isArchivedTaskPath } from './kanban/utils/taskArchive';
+import { useSavedViews } from './kanban/hooks/useSavedViews';
+import {
+  DEFAULT_BOARD_VIEW_STATE,
+  isSameBoardViewState,
+  sortBoardTasks,
+  type BoardGrouping,
+  type BoardSortOrder,
+  type BoardViewState,
+  type SavedBoardView,
+} from './kanban/utils/boardViews';
+import { buildLaneFields, buildSwimlanes, type BoardDropTarget, type LaneFields } from './kanban/utils/swimlanes';
+import { buildWipStatuses, type WipStatus } from './kanban/utils/wipLimits';
+import { useWipLimits } from './kanban/hooks/useWipLimits';
+import { buildSubtaskIndex, getSameStatusSubtasks } from './kanban/utils/subtasks';
+import { buildDependencyIndex, isInProgressStatus } from './kanban/utils/dependencies';
+import { computeReorderOrdinals } from './kanban/utils/taskOrdinals';
 import { KanbanColumn } from './kanban/components/KanbanColumn';
 import { TaskCard } from './kanban/components/TaskCard';
 import { EmptyState } from './kanban/components/EmptyState';
@@ -26,10 +70,44 @@ import { TaskModal } from './kanban/components/TaskModal';
 import { useMilestoneData } from './milestone/hooks/useMilestoneData';
 import { useBacklogCore } from '../hooks/useBacklogCore';
 import { MilestoneModal } from './milestone/components/MilestoneModal';
-import { Core, type Task, type TaskCreateInput, type TaskUpdateInput, type Milestone, type MilestoneCreateInput, type MilestoneUpdateInput, DEFAULT_TASK_STATUSES } from '@backlog-md/core';
+import { Core, type Task, type TaskCreateInput, type TaskUpdateInput, type Milestone, type MilestoneCreateInput, type MilestoneUpdateInput, DEFAULT_TASK_STATUSES, isDoneStatus, sortTasks } from '@backlog-md/core';
+import { buildKanbanStatusGroups } from './kanban/backlog-utils/status-groups';
 import { getTracer, getActiveSpan, withSpan, SpanStatusCode, type Span } from '../telemetry';
 
-type ViewMode = 'board' | 'milestones';
+type ViewMode = 'board' | 'milestones' | 'graph' | 'archived';
+
+/** A drag move to another column or lane, waiting to be persisted */
+interface PendingDragMove {
+  span: Span | null;
+  task: Task;
+  targetColumn: string;
+  laneFields: LaneFields;
+  laneKey?: string;
+  /** Subtasks moving along with the task */
+  subtasks?: Task[];
+  /** Other multi-selected tasks moving along, with their own lane fields */
+  companions?: Array<{ task: Task; laneFields: LaneFields }>;
+  /** Target column's WIP when the move would exceed its limit */
+  wip?: WipStatus;
+}
+
+/** Number of tasks a drag move brings into its target column */
+function countIncoming(move: PendingDragMove, defaultStatus: string): number {
+  const moving = [move.task, ...(move.subtasks ?? []), ...(move.companions ?? []).map((c) => c.task)];
+  return moving.filter((task) => (task.status || defaultStatus) !== move.targetColumn).length;
+}
+
+/** A blocked task being moved into In Progress, waiting for confirmation */
+interface PendingBlockedMove {
+  task: Task;
+  targetColumn: string;
+  /** Unfinished dependencies */
+  blockers: Task[];
+  /** Span the warning is recorded on */
+  span: Span | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
 
 /**
  * KanbanPanel - A kanban board panel for visualizing Backlog.md tasks.
@@ -75,6 +153,13 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearchVisible, setIsSearchVisible] = useState(false);
 
+  // Board view state (captured by saved views together with the search query)
+  const [boardSort, setBoardSort] = useState<BoardSortOrder>(DEFAULT_BOARD_VIEW_STATE.sort);
+  const [boardGrouping, setBoardGrouping] = useState<BoardGrouping>(DEFAULT_BOARD_VIEW_STATE.grouping);
+  const [boardLabelPrefix, setBoardLabelPrefix] = useState(DEFAULT_BOARD_VIEW_STATE.labelPrefix);
+  const [visibleColumns, setVisibleColumns] = useState<string[] | null>(DEFAULT_BOARD_VIEW_STATE.visibleColumns);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+
   // Debounce timer for search telemetry
   const searchDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -206,20 +291,34 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
   // Shared Core instance for both kanban and milestone data
   const {
     core,
+    fileSystem,
     isInitializing: isCoreInitializing,
     isBacklogProject,
     canWrite,
-  } = useBacklogCore({ context, actions, parentSpan: boardSessionSpanRef.current ?? undefined });
+    applyTaskMoves,
+    applyFileEvents,
+    filePaths,
+    fileMetadata,
+    fileChanges,
+    conflict,
+    resolveConflict,
+  } = useBacklogCore({ context, actions, events, parentSpan: boardSessionSpanRef.current ?? undefined });
 
   const {
     statusColumns,
+    configuredStatuses,
+    defaultStatus,
     tasksByStatus,
     totalTasksState,
     loadMoreTasks,
     error,
     isLoading: isKanbanLoading,
     refreshData,
-    moveTaskOptimistic,
+    applyTaskChanges,
+    updateTaskStatus,
+    reorderTasks,
+    loadColumnTasks,
+    pendingTaskIds,
     getTaskById,
   } = useKanbanData({
     core,
@@ -227,6 +326,7 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
     events,
     tasksLimit: 20,
     parentSpan: boardSessionSpanRef.current ?? undefined,
+    fileChanges,
   });
 
   // Combined loading state
@@ -255,46 +355,531 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
     refreshData: refreshMilestones,
   } = useMilestoneData({
     core,
+    fileChanges,
+  });
+
+  // Search box query: free text plus qualifiers such as label:bug or -status:Done
+  const parsedQuery = useMemo(() => parseTaskQuery(searchQuery), [searchQuery]);
+  const isQueryActive = !isTaskQueryEmpty(parsedQuery);
+
+  // Per-status WIP limits from backlog/config.yml
+  const wipLimits = useWipLimits({ actions, events, filePaths });
+  const hasWipLimits = wipLimits.limits.size > 0;
+
+  // Whether the loaded tasks use parent/subtask or dependency links
+  const hasTaskLinks = useMemo(
+    () => Array.from(tasksByStatus.values()).some((state) =>
+      state.tasks.some((task) =>
+        task.parentTaskId || (task.subtasks?.length ?? 0) > 0 || (task.dependencies?.length ?? 0) > 0
+      )
+    ),
+    [tasksByStatus]
+  );
+
+  // Search index over every task file, so matches are found beyond the loaded pages.
+  // It reads every task file, so only a search (or the graph, below) starts it;
+  // WIP counts and task links use whatever it holds on top of the loaded tasks
+  const searchIndex = useTaskSearchIndex({
+    actions,
+    events,
+    filePaths,
+    enabled: isQueryActive,
+  });
+  const { searchTasks, getIndexedTask, whenHydrated } = searchIndex;
+
+  // The graph shows every task, like an export
+  useEffect(() => {
+    if (viewMode === 'graph') void whenHydrated();
+  }, [viewMode, whenHydrated]);
+
+  // Loaded tasks first, then tasks only known to the search index
+  const findTask = useCallback(
+    (taskId: string) => getTaskById(taskId) ?? getIndexedTask(taskId),
+    [getTaskById, getIndexedTask]
+  );
+
+  // Archive and restore via backlog/archive/tasks (context menu, Archived view, events)
+  const {
+    archiveTask,
+    archiveTasks,
+    restoreTask,
+    canArchive,
+    pendingIds: archivePendingIds,
+    findArchivedTask,
+    archivedTasks,
+    isLoadingArchived,
+    error: archiveError,
+  } = useTaskArchive({
+    actions,
+    fileSystem,
+    events,
+    source: 'kanban-panel',
+    canWrite,
+    filePaths,
+    loadArchived: viewMode === 'archived',
+    onTasksMoved: applyTaskMoves,
   });
+  const hasArchivedTasks = useMemo(() => filePaths.some((path) => isArchivedTaskPath(path)), [filePaths]);
+
+  // Undo/redo of board mutations (Ctrl+Z / Ctrl+Shift+Z, undo toast, undo and redo tools)
+  const {
+    trackMutation,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    isApplying: isApplyingHistory,
+    notice: historyNotice,
+    dismissNotice: dismissHistoryNotice,
+  } = useUndoHistory({ core, actions, events, canWrite, applyFileEvents });
+
+  const handleHistoryKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+    // Leave text fields their native undo
+    const target = e.target as HTMLElement;
+    if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+    e.preventDefault();
+    if (e.shiftKey) redo();
+    else undo();
+  }, [undo, redo]);
+
+  // Task file modification time (host or fileTree metadata), for the 'modified' sort
+  const getModifiedTime = useCallback(
+    (task: Task) => (task.filePath ? fileMetadata.get(task.filePath.replace(/^\/+/, ''))?.mtime.getTime() : undefined),
+    [fileMetadata]
+  );
 
-  // Filter tasks by search query
+  // Filter tasks by the search query and apply the view's sort order
   const filteredTasksByStatus = useMemo(() => {
-    if (!searchQuery.trim()) {
+    if (!isQueryActive && boardSort === 'default') {
       return tasksByStatus;
     }
 
-    const query = searchQuery.toLowerCase().trim();
+    const matches = (task: Task) => matchesTaskQuery(task, parsedQuery);
+
     const filtered = new Map<StatusColumn, { tasks: Task[]; count: number }>();
+    const loadedIds = new Set<string>();
 
     for (const [status, state] of tasksByStatus) {
-      const filteredTasks = state.tasks.filter((task) => {
-        // Search in title
-        if (task.title.toLowerCase().includes(query)) return true;
-        // Search in description
-        if (task.description?.toLowerCase().includes(query)) return true;
-        // Search in labels
-        if (task.labels?.some((label) => label.toLowerCase().includes(query))) return true;
-        // Search in assignees
-        if (task.assignee?.some((a) => a.toLowerCase().includes(query))) return true;
-        // Search in milestone
-        if (task.milestone?.toLowerCase().includes(query)) return true;
-        return false;
-      });
-      filtered.set(status, { tasks: filteredTasks, count: filteredTasks.length });
+      state.tasks.forEach((task) => loadedIds.add(task.id));
+      const filteredTasks = isQueryActive ? state.tasks.filter(matches) : state.tasks;
+      filtered.set(status, { tasks: filteredTasks, count: isQueryActive ? filteredTasks.length : state.count });
+    }
+
+    // Add indexed matches that have not been paged in yet
+    if (isQueryActive) {
+      const unloaded = searchTasks(parsedQuery.terms).filter((task) => !loadedIds.has(task.id) && matches(task));
+      const { groupedTasks } = buildKanbanStatusGroups(unloaded, configuredStatuses);
+      for (const [status, extraTasks] of groupedTasks) {
+        const column = filtered.get(status);
+        if (!column || extraTasks.length === 0) continue;
+        const tasks = sortTasks([...column.tasks, ...extraTasks]);
+        filtered.set(status, { tasks, count: tasks.length });
+      }
+    }
+
+    if (boardSort !== 'default') {
+      for (const [status, column] of filtered) {
+        filtered.set(status, { ...column, tasks: sortBoardTasks(column.tasks, boardSort, getModifiedTime) });
+      }
     }
 
     return filtered;
-  }, [tasksByStatus, searchQuery]);
+  }, [tasksByStatus, isQueryActive, parsedQuery, searchTasks, configuredStatuses, boardSort, getModifiedTime]);
+
+  const searchMatchCount = useMemo(() => {
+    let count = 0;
+    for (const state of filteredTasksByStatus.values()) {
+      count += state.count;
+    }
+    return count;
+  }, [filteredTasksByStatus]);
+
+  // Apply a filter query to the board (filter_tasks tool), resolving to the number of matches
+  const applyTaskFilter = useCallback(async (query: string): Promise<number> => {
+    const parsed = parseTaskQuery(query);
+    const isEmpty = isTaskQueryEmpty(parsed);
+    setSearchQuery(query);
+    if (!isEmpty) setIsSearchVisible(true);
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('board.interaction');
+    span.addEvent(isEmpty ? 'filter.cleared' : 'filter.applied', {
+      'filter.query': query,
+      'filter.qualifiers': parsed.filters.length,
+    });
+    span.setStatus({ code: SpanStatusCode.OK });
+    span.end();
+
+    const loaded = Array.from(tasksByStatus.values()).flatMap((state) => state.tasks);
+    if (isEmpty) return loaded.length;
+
+    // Count across every task file, not just the loaded pages
+    await whenHydrated();
+    const matchingIds = new Set<string>();
+    for (const task of [...loaded, ...searchTasks(parsed.terms)]) {
+      if (matchesTaskQuery(task, parsed)) matchingIds.add(task.id);
+    }
+    return matchingIds.size;
+  }, [tasksByStatus, whenHydrated, searchTasks]);
+
+  // Remove a qualifier chip from the search query
+  const handleRemoveFilter = useCallback((index: number) => {
+    setSearchQuery((query) => removeTaskQueryFilter(query, index));
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('board.interaction');
+    span.addEvent('filter.cleared', { 'filter.index': index });
+    span.setStatus({ code: SpanStatusCode.OK });
+    span.end();
+  }, []);
+
+  // Saved views shared through backlog/views.json
+  const {
+    views: savedViews,
+    error: savedViewsError,
+    saveView,
+    updateView,
+    deleteView,
+  } = useSavedViews({ actions, events, filePaths, canWrite });
+  const [isSavingView, setIsSavingView] = useState(false);
+
+  const activeView = useMemo(
+    () => savedViews.find((view) => view.id === activeViewId) ?? null,
+    [savedViews, activeViewId]
+  );
+
+  const currentViewState = useMemo<BoardViewState>(() => ({
+    query: searchQuery,
+    sort: boardSort,
+    grouping: boardGrouping,
+    labelPrefix: boardLabelPrefix,
+    visibleColumns,
+  }), [searchQuery, boardSort, boardGrouping, boardLabelPrefix, visibleColumns]);
+
+  const isViewModified = activeView !== null && !isSameBoardViewState(activeView, currentViewState);
+
+  // Columns shown on the board (a view may hide some)
+  const displayedColumns = useMemo(
+    () => (visibleColumns ? statusColumns.filter((status) => visibleColumns.includes(status)) : statusColumns),
+    [statusColumns, visibleColumns]
+  );
+
+  // WIP of each limited column: loaded tasks plus indexed tasks not paged in yet
+  const wipByStatus = useMemo(() => {
+    if (!hasWipLimits) return new Map<string, WipStatus>();
+    const counts = new Map<string, number>();
+    const loadedIds = new Set<string>();
+    for (const [status, state] of tasksByStatus) {
+      counts.set(status, state.tasks.length);
+      state.tasks.forEach((task) => loadedIds.add(task.id));
+    }
+    const unloaded = searchTasks([]).filter((task) => !loadedIds.has(task.id));
+    const { groupedTasks } = buildKanbanStatusGroups(unloaded, configuredStatuses);
+    for (const [status, extraTasks] of groupedTasks) {
+      counts.set(status, (counts.get(status) ?? 0) + extraTasks.length);
+    }
+    return buildWipStatuses(counts, wipLimits.limits);
+  }, [hasWipLimits, tasksByStatus, searchTasks, configuredStatuses, wipLimits.limits]);
+
+  // Loaded and indexed tasks (loaded copies win), for resolving task links
+  const linkedTasks = useMemo(() => {
+    if (!hasTaskLinks && viewMode !== 'graph') return [];
+    const loaded = Array.from(tasksByStatus.values()).flatMap((state) => state.tasks);
+    return mergeIndexedTasks(loaded, searchTasks([]));
+  }, [hasTaskLinks, viewMode, searchTasks, tasksByStatus]);
+
+  // Subtasks by parent ID
+  const subtaskIndex = useMemo(() => buildSubtaskIndex(linkedTasks), [linkedTasks]);
+
+  // Unfinished dependencies by blocked task ID
+  const blockerIndex = useMemo(() => buildDependencyIndex(linkedTasks).blockers, [linkedTasks]);
+  const getBlockers = useCallback((taskId: string) => blockerIndex.get(taskId) ?? [], [blockerIndex]);
+
+  // Swimlanes for the current grouping (null = flat columns)
+  const swimlanes = useMemo(() => {
+    if (boardGrouping === 'none') return null;
+    const milestoneTitles = new Map(milestones.map((m) => [m.milestone.id, m.milestone.title]));
+    return buildSwimlanes(filteredTasksByStatus, {
+      grouping: boardGrouping,
+      labelPrefix: boardLabelPrefix,
+      statusColumns: displayedColumns,
+      knownLaneKeys: boardGrouping === 'milestone' ? Array.from(milestoneTitles.keys()) : [],
+      getLaneTitle: (key) => milestoneTitles.get(key) ?? key,
+    });
+  }, [boardGrouping, boardLabelPrefix, filteredTasksByStatus, displayedColumns, milestones]);
+
+  // Card IDs in board order (column by column, lanes top to bottom), for range selection
+  const boardTaskIds = useMemo(() => {
+    if (viewMode !== 'board') return [];
+    const ids: string[] = [];
+    for (const status of displayedColumns) {
+      const cells = swimlanes
+        ? swimlanes.map((lane) => lane.tasksByStatus.get(status) ?? [])
+        : [filteredTasksByStatus.get(status)?.tasks ?? []];
+      cells.forEach((tasks) => tasks.forEach((task) => ids.push(task.id)));
+    }
+    return ids;
+  }, [viewMode, displayedColumns, swimlanes, filteredTasksByStatus]);
+
+  // Shift/ctrl-click multi-selection for bulk actions and multi-card drags
+  const {
+    selectedIds: multiSelectedIds,
+    selectTask: handleTaskMultiSelect,
+    clearSelection,
+  } = useTaskSelection({ orderedIds: boardTaskIds, focusedTaskId: selectedTaskId });
+  const multiSelectedTasks = useMemo(
+    () => boardTaskIds.filter((id) => multiSelectedIds.has(id)).flatMap((id) => {
+      const task = findTask(id);
+      return task ? [task] : [];
+    }),
+    [boardTaskIds, multiSelectedIds, findTask]
+  );
+
+  // Esc clears the multi-selection before anything else
+  const handlePanelKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !e.defaultPrevented && multiSelectedIds.size > 0) {
+      clearSelection();
+      return;
+    }
+    handleHistoryKeyDown(e);
+  }, [multiSelectedIds, clearSelection, handleHistoryKeyDown]);
+
+  // Error from a drop the board can't apply
+  const [dropError, setDropError] = useState<string | null>(null);
+
+  // Apply a saved view's state to the board (null = all tasks)
+  const applyView = useCallback((view: SavedBoardView | null) => {
+    const state = view ?? DEFAULT_BOARD_VIEW_STATE;
+    setActiveViewId(view?.id ?? null);
+    setSearchQuery(state.query);
+    setIsSearchVisible(Boolean(state.query.trim()));
+    setBoardSort(state.sort);
+    setBoardGrouping(state.grouping);
+    setBoardLabelPrefix(state.labelPrefix);
+    setVisibleColumns(state.visibleColumns);
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('board.interaction', {
+      attributes: { 'view.id': view?.id ?? 'all' },
+    });
+    span.addEvent('view.switched', {
+      'view.id': view?.id ?? 'all',
+      'view.query': state.query,
+      'view.sort': state.sort,
+    });
+    span.setStatus({ code: SpanStatusCode.OK });
+    span.end();
+  }, []);
+
+  const handleToggleColumn = useCallback((status: string) => {
+    setVisibleColumns((current) => {
+      const shown = current ?? statusColumns;
+      const next = shown.includes(status)
+        ? shown.filter((s) => s !== status)
+        : statusColumns.filter((s) => s === status || shown.includes(s));
+      // Keep at least one column; showing every column is the default
+      if (next.length === 0) return current;
+      return next.length === statusColumns.length ? null : next;
+    });
+  }, [statusColumns]);
+
+  const handleSaveView = useCallback(async (name: string) => {
+    setIsSavingView(true);
+    const view = await saveView(name, currentViewState);
+    setIsSavingView(false);
+    if (view) setActiveViewId(view.id);
+  }, [saveView, currentViewState]);
+
+  const handleUpdateView = useCallback(async () => {
+    if (!activeView) return;
+    setIsSavingView(true);
+    await updateView(activeView.id, currentViewState);
+    setIsSavingView(false);
+  }, [activeView, updateView, currentViewState]);
+
+  const handleDeleteView = useCallback(async (view: SavedBoardView) => {
+    setIsSavingView(true);
+    const deleted = await deleteView(view.id);
+    setIsSavingView(false);
+    // Keep the board as it is, just detached from the deleted view
+    if (deleted && activeViewId === view.id) setActiveViewId(null);
+  }, [deleteView, activeViewId]);
 
   // Track active drag span for context propagation
   const dragSpanRef = useRef<ReturnType<ReturnType<typeof getTracer>['startSpan']> | null>(null);
 
+  // Drop over a WIP limit, waiting for confirmation
+  const [pendingWipMove, setPendingWipMove] = useState<PendingDragMove | null>(null);
+
+  // Persist a drag move to another column or lane and close its span
+  const commitDragMove = useCallback((move: PendingDragMove) => {
+    const { span, task, targetColumn, laneFields, laneKey, subtasks = [], companions = [] } = move;
+    const changesLane = Object.keys(laneFields).length > 0;
+    // With a multi-selection the dragged card may already be where it was dropped
+    const movesTask = (task.status || defaultStatus) !== targetColumn || changesLane;
+
+    const label = companions.length > 0
+      ? `Move ${companions.length + 1} tasks to ${task.status === targetColumn ? `lane ${laneKey || 'none'}` : targetColumn}`
+      : task.status === targetColumn
+      ? `Move ${task.id} to lane ${laneKey || 'none'}`
+      : `Move ${task.id}${subtasks.length > 0 ? ` and ${subtasks.length} subtask${subtasks.length !== 1 ? 's' : ''}` : ''} to ${targetColumn}`;
+
+    const taskIds = [task.id, ...subtasks.map((subtask) => subtask.id), ...companions.map((c) => c.task.id)];
+
+    // updateTaskStatus emits task.moved / task.updated (or task.save.error) on the active span
+    const persist = () => trackMutation(label, taskIds, async () => {
+      const saved = movesTask ? await updateTaskStatus(task.id, targetColumn, laneFields) : true;
+
+      // Every selected card is moved, even if one of them fails
+      if (companions.length > 0) {
+        const failed: string[] = [];
+        for (const companion of companions) {
+          if (!await updateTaskStatus(companion.task.id, targetColumn, companion.laneFields)) {
+            failed.push(companion.task.id);
+          }
+        }
+        getActiveSpan()?.addEvent('selection.moved', {
+          'task.id': task.id,
+          'selection.moved': companions.length - failed.length,
+          'selection.failed': failed.length,
+        });
+        if (failed.length > 0) {
+          setDropError(`Could not move ${failed.join(', ')} to ${targetColumn}`);
+        }
+      }
+
+      if (!saved || subtasks.length === 0) return saved;
+
+      // Subtasks only change status; they keep their own lane fields
+      let movedSubtasks = 0;
+      for (const subtask of subtasks) {
+        if (await updateTaskStatus(subtask.id, targetColumn)) movedSubtasks++;
+      }
+      getActiveSpan()?.addEvent('subtasks.moved', {
+        'task.id': task.id,
+        'subtasks.moved': movedSubtasks,
+        'subtasks.failed': subtasks.length - movedSubtasks,
+      });
+      return saved;
+    });
+    const savePromise = span ? withSpan(span, persist) : persist();
+
+    savePromise.then((saved) => {
+      if (!span) return;
+      span.setAttributes({
+        'output.toStatus': targetColumn,
+        'output.moved': saved,
+        ...(changesLane ? { 'output.toLane': laneKey ?? '', 'output.grouping': boardGrouping } : {}),
+        ...(subtasks.length > 0 ? { 'output.subtasks': subtasks.length } : {}),
+        ...(companions.length > 0 ? { 'output.selection': companions.length + 1 } : {}),
+      });
+      span.setStatus(
+        saved
+          ? { code: SpanStatusCode.OK }
+          : { code: SpanStatusCode.ERROR, message: 'Failed to save task status' }
+      );
+      span.end();
+    });
+  }, [updateTaskStatus, trackMutation, boardGrouping, defaultStatus]);
+
+  // Check the target column's WIP limit, then persist the move
+  const continueDragMove = useCallback((move: PendingDragMove) => {
+    const { span, task, targetColumn } = move;
+    const incoming = countIncoming(move, defaultStatus);
+
+    // Moves within a column don't change its WIP
+    const wip = incoming > 0 ? wipByStatus.get(targetColumn) : undefined;
+    if (wip && wip.count + incoming > wip.limit) {
+      if (wipLimits.mode === 'block') {
+        setDropError(`${targetColumn} is at its WIP limit (${wip.count} / ${wip.limit})`);
+        if (span) {
+          span.addEvent('wip.limit.breached', {
+            'task.id': task.id,
+            'wip.status': targetColumn,
+            'wip.count': wip.count + incoming,
+            'wip.limit': wip.limit,
+            'wip.action': 'blocked',
+          });
+          span.setAttributes({ 'output.cancelled': true, 'output.reason': 'wip_limit' });
+          span.setStatus({ code: SpanStatusCode.OK });
+          span.end();
+        }
+        return;
+      }
+      setPendingWipMove({ ...move, wip });
+      return;
+    }
+
+    commitDragMove(move);
+  }, [defaultStatus, wipByStatus, wipLimits.mode, commitDragMove]);
+
+  // Parent drop waiting for a decision about its subtasks
+  const [pendingSubtaskMove, setPendingSubtaskMove] = useState<PendingDragMove | null>(null);
+
+  // Offer to bring along subtasks that would be left behind in the old column
+  const checkDragSubtasks = useCallback((move: PendingDragMove) => {
+    const fromStatus = move.task.status || defaultStatus;
+    const subtasks = fromStatus !== move.targetColumn ? getSameStatusSubtasks(move.task, subtaskIndex) : [];
+    if (subtasks.length > 0) {
+      setPendingSubtaskMove({ ...move, subtasks });
+      return;
+    }
+    continueDragMove(move);
+  }, [defaultStatus, subtaskIndex, continueDragMove]);
+
+  // Blocked task waiting for confirmation before it is started
+  const [pendingBlockedMove, setPendingBlockedMove] = useState<PendingBlockedMove | null>(null);
+
+  const resolveBlockedMove = useCallback((confirmed: boolean) => {
+    const move = pendingBlockedMove;
+    if (!move) return;
+    setPendingBlockedMove(null);
+
+    move.span?.addEvent('task.blocked.warning', {
+      'task.id': move.task.id,
+      'blocked.by': move.blockers.map((blocker) => blocker.id).join(','),
+      'blocked.action': confirmed ? 'confirmed' : 'cancelled',
+    });
+
+    if (confirmed) {
+      move.onConfirm();
+    } else {
+      move.onCancel();
+    }
+  }, [pendingBlockedMove]);
+
+  const resolveSubtaskMove = useCallback((choice: 'with-subtasks' | 'task-only' | 'cancel') => {
+    const move = pendingSubtaskMove;
+    if (!move) return;
+    setPendingSubtaskMove(null);
+
+    move.span?.addEvent('subtasks.prompt.resolved', {
+      'task.id': move.task.id,
+      'subtasks.count': move.subtasks?.length ?? 0,
+      'subtasks.choice': choice,
+    });
+
+    if (choice === 'cancel') {
+      if (move.span) {
+        move.span.setAttributes({ 'output.cancelled': true, 'output.reason': 'subtasks_prompt' });
+        move.span.setStatus({ code: SpanStatusCode.OK });
+        move.span.end();
+      }
+      return;
+    }
+
+    continueDragMove(choice === 'with-subtasks' ? move : { ...move, subtasks: [] });
+  }, [pendingSubtaskMove, continueDragMove]);
+
   // Drag event handlers
   const handleDragStart = useCallback((event: DragStartEvent) => {
     const { active } = event;
-    const task = getTaskById(active.id as string);
+    const task = findTask(active.id as string);
     if (task) {
       setActiveTask(task);
+      setDropError(null);
 
       // Start a span for the drag operation
       const tracer = getTracer();
@@ -312,7 +897,7 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
         'from.status': task.status || 'unknown',
       });
     }
-  }, [getTaskById]);
+  }, [findTask]);
 
   const handleDragEnd = useCallback((event: DragEndEvent) => {
     const { active, over } = event;
@@ -333,10 +918,11 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
     }
 
     const taskId = active.id as string;
-    const targetColumn = over.id as StatusColumn;
+    const dropTarget = over.data.current as BoardDropTarget | undefined;
+    const targetColumn = (dropTarget?.status ?? over.id) as StatusColumn;
 
     // Find current column for the task
-    const task = getTaskById(taskId);
+    const task = findTask(taskId);
     if (!task) {
       if (span) {
         span.setStatus({ code: SpanStatusCode.ERROR, message: 'Task not found' });
@@ -347,26 +933,115 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
     }
 
     // Current column IS the task status (no mapping needed)
-    const currentColumn = task.status || DEFAULT_TASK_STATUSES.TODO;
+    const currentColumn = task.status || defaultStatus;
 
-    // Only move if dropping in a different column
-    if (currentColumn !== targetColumn) {
-      // moveTaskOptimistic will emit task.moved event using the active span
+    // Dropping into another swimlane also changes the lane field
+    const laneFields = dropTarget?.laneKey !== undefined && boardGrouping !== 'none'
+      ? buildLaneFields(task, boardGrouping, boardLabelPrefix, dropTarget.laneKey)
+      : {};
+
+    if (!laneFields) {
+      setDropError(`Cannot clear the ${boardGrouping} of ${task.title}`);
       if (span) {
-        // Set the span in context for moveTaskOptimistic to use
-        withSpan(span, async () => {
-          moveTaskOptimistic(taskId, targetColumn);
-        });
-        span.setAttributes({
-          'output.toStatus': targetColumn,
-          'output.moved': true,
-        });
+        span.addEvent('task.drag.cancelled');
+        span.setAttributes({ 'output.cancelled': true, 'output.reason': 'lane_unsupported' });
         span.setStatus({ code: SpanStatusCode.OK });
         span.end();
         dragSpanRef.current = null;
-      } else {
-        moveTaskOptimistic(taskId, targetColumn);
       }
+      return;
+    }
+
+    const changesLane = Object.keys(laneFields).length > 0;
+
+    // Dragging a multi-selected card brings the rest of the selection along;
+    // cards already in place (or whose lane can't be set) stay where they are
+    const companions = multiSelectedIds.has(taskId)
+      ? multiSelectedTasks.flatMap((selected) => {
+          if (selected.id === taskId) return [];
+          const fields = dropTarget?.laneKey !== undefined && boardGrouping !== 'none'
+            ? buildLaneFields(selected, boardGrouping, boardLabelPrefix, dropTarget.laneKey)
+            : {};
+          if (!fields) return [];
+          const moves = (selected.status || defaultStatus) !== targetColumn || Object.keys(fields).length > 0;
+          return moves ? [{ task: selected, laneFields: fields }] : [];
+        })
+      : [];
+
+    // Dropped onto another card in the same column and lane: reorder by ordinal
+    const overTask = (over.data.current as { task?: Task } | undefined)?.task;
+    if (
+      currentColumn === targetColumn && !changesLane && companions.length === 0 &&
+      overTask && overTask.id !== taskId && boardSort === 'default'
+    ) {
+      dragSpanRef.current = null;
+
+      // Ordinals are computed over the whole status column, not just the cards
+      // shown: tasks hidden by the query, other lanes or unloaded pages keep
+      // their place. The card lands where it was dropped relative to overTask.
+      const savePromise = loadColumnTasks(targetColumn).then((columnTasks) => {
+        const toIndex = columnTasks.findIndex((t) => t.id === overTask.id);
+        const updates = computeReorderOrdinals(columnTasks, taskId, toIndex);
+
+        // reorderTasks emits task.reordered (or task.save.error) on the active span
+        const persist = () => trackMutation(
+          `Reorder ${taskId}`,
+          updates.map((update) => update.taskId),
+          () => reorderTasks(updates)
+        );
+        return (span ? withSpan(span, persist) : persist()).then((saved) => ({ saved, toIndex, writes: updates.length }));
+      });
+
+      savePromise.catch((err) => {
+        console.error('[KanbanPanel] Failed to reorder tasks:', err);
+        return { saved: false, toIndex: -1, writes: 0 };
+      }).then(({ saved, toIndex, writes }) => {
+        if (!span) return;
+        span.setAttributes({
+          'output.reordered': saved,
+          'output.toIndex': toIndex,
+          'output.ordinalWrites': writes,
+        });
+        span.setStatus(
+          saved
+            ? { code: SpanStatusCode.OK }
+            : { code: SpanStatusCode.ERROR, message: 'Failed to save task order' }
+        );
+        span.end();
+      });
+      return;
+    }
+
+    // Only move if dropping in a different column or lane
+    if (currentColumn !== targetColumn || changesLane || companions.length > 0) {
+      const move: PendingDragMove = { span, task, targetColumn, laneFields, laneKey: dropTarget?.laneKey, companions };
+      dragSpanRef.current = null;
+
+      // Warn before starting tasks whose dependencies aren't done
+      const blockedTasks = isInProgressStatus(targetColumn)
+        ? [task, ...companions.map((c) => c.task)].filter((t) =>
+            (t.status || defaultStatus) !== targetColumn && getBlockers(t.id).length > 0
+          )
+        : [];
+      if (blockedTasks.length > 0) {
+        const blockers = new Map(blockedTasks.flatMap((t) => getBlockers(t.id)).map((b) => [b.id, b]));
+        setPendingBlockedMove({
+          task: blockedTasks[0],
+          targetColumn,
+          blockers: Array.from(blockers.values()),
+          span,
+          onConfirm: () => checkDragSubtasks(move),
+          onCancel: () => {
+            if (!span) return;
+            span.setAttributes({ 'output.cancelled': true, 'output.reason': 'blocked' });
+            span.setStatus({ code: SpanStatusCode.OK });
+            span.end();
+          },
+        });
+        return;
+      }
+
+      checkDragSubtasks(move);
     } else {
       // Dropped in same column - effectively cancelled
       if (span) {
@@ -377,7 +1052,42 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
         dragSpanRef.current = null;
       }
     }
-  }, [getTaskById, moveTaskOptimistic]);
+  }, [
+    findTask,
+    checkDragSubtasks,
+    getBlockers,
+    reorderTasks,
+    loadColumnTasks,
+    trackMutation,
+    defaultStatus,
+    boardGrouping,
+    boardLabelPrefix,
+    boardSort,
+    multiSelectedIds,
+    multiSelectedTasks,
+  ]);
+
+  const resolveWipMove = useCallback((confirmed: boolean) => {
+    const move = pendingWipMove;
+    if (!move?.wip) return;
+    setPendingWipMove(null);
+
+    move.span?.addEvent('wip.limit.breached', {
+      'task.id': move.task.id,
+      'wip.status': move.targetColumn,
+      'wip.count': move.wip.count + countIncoming(move, defaultStatus),
+      'wip.limit': move.wip.limit,
+      'wip.action': confirmed ? 'confirmed' : 'cancelled',
+    });
+
+    if (confirmed) {
+      commitDragMove(move);
+    } else if (move.span) {
+      move.span.setAttributes({ 'output.cancelled': true, 'output.reason': 'wip_limit' });
+      move.span.setStatus({ code: SpanStatusCode.OK });
+      move.span.end();
+    }
+  }, [pendingWipMove, commitDragMove, defaultStatus]);
 
   const handleTaskClick = useCallback((task: Task) => {
     setSelectedTaskId(task.id);
@@ -412,6 +1122,12 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
     span.end();
   }, [events]);
 
+  // A plain click on a card replaces the multi-selection
+  const handleCardClick = useCallback((task: Task) => {
+    clearSelection();
+    handleTaskClick(task);
+  }, [clearSelection, handleTaskClick]);
+
   // Subscribe to task:selected and task:deselected events from other panels
   // This triggers the same flow as a user click, including telemetry
   useEffect(() => {
@@ -444,6 +1160,178 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
     };
   }, [events, getTaskById, handleTaskClick]);
 
+  // Tasks on the filtered board across every task file, in board order
+  const getBoardTasks = useCallback(async () => {
+    await whenHydrated();
+    const byId = new Map(searchTasks(parsedQuery.terms).map((task) => [task.id, task]));
+    for (const state of tasksByStatus.values()) {
+      state.tasks.forEach((task) => byId.set(task.id, task));
+    }
+    const tasks = Array.from(byId.values()).filter((task) => !isQueryActive || matchesTaskQuery(task, parsedQuery));
+
+    const { groupedTasks } = buildKanbanStatusGroups(tasks, displayedColumns);
+    return displayedColumns.flatMap((status) => {
+      const column = groupedTasks.get(status) ?? [];
+      return boardSort === 'default' ? sortTasks(column) : sortBoardTasks(column, boardSort, getModifiedTime);
+    });
+  }, [whenHydrated, searchTasks, parsedQuery, tasksByStatus, isQueryActive, displayedColumns, boardSort, getModifiedTime]);
+
+  // Export the filtered board (header menu and export_board tool)
+  const { exportBoard, isExporting, canExportToFile } = useBoardExport({
+    actions,
+    getBoardTasks,
+    statuses: displayedColumns,
+    projectName: context.currentScope.repository?.name || 'Backlog',
+  });
+
+  // Tasks another panel moved in or out of backlog/archive/tasks (this panel's moves are applied by useTaskArchive)
+  useEffect(() => {
+    if (!events) return;
+
+    const handleTaskMoved = (event: { source: string; payload?: unknown }) => {
+      if (event.source === 'kanban-panel') return;
+      const { task, previousPath } = (event.payload ?? {}) as { task?: Task; previousPath?: string };
+      if (!task?.filePath || !previousPath) return;
+      applyTaskMoves([{ from: previousPath, to: task.filePath }]);
+    };
+    const unsubscribeArchived = events.on('task:archived', handleTaskMoved);
+    const unsubscribeRestored = events.on('task:restored', handleTaskMoved);
+
+    return () => {
+      unsubscribeArchived();
+      unsubscribeRestored();
+    };
+  }, [events, applyTaskMoves]);
+
+  // Archive or restore programmatically (e.g. from another panel or a guided tour)
+  useEffect(() => {
+    if (!events) return;
+
+    const unsubscribeArchive = events.on('task:archive', (event) => {
+      const taskId = (event.payload as { taskId?: string } | undefined)?.taskId;
+      const task = taskId ? findTask(taskId) : undefined;
+      if (!task) {
+        console.warn('[KanbanPanel] task:archive for unknown task:', taskId);
+        return;
+      }
+      archiveTask(task, 'event');
+    });
+    const unsubscribeRestore = events.on('task:restore', async (event) => {
+      const taskId = (event.payload as { taskId?: string } | undefined)?.taskId;
+      const task = taskId ? await findArchivedTask(taskId) : null;
+      if (!task) {
+        console.warn('[KanbanPanel] task:restore for unknown archived task:', taskId);
+        return;
+      }
+      restoreTask(task, 'event');
+    });
+
+    return () => {
+      unsubscribeArchive();
+      unsubscribeRestore();
+    };
+  }, [events, findTask, findArchivedTask, archiveTask, restoreTask]);
+
+  // Bulk "archive Done tasks older than N days", confirmed in a dialog
+  const [pendingStaleArchive, setPendingStaleArchive] = useState<{ days: number; tasks: Task[] } | null>(null);
+  const [isArchivingStale, setIsArchivingStale] = useState(false);
+  const [staleArchiveMessage, setStaleArchiveMessage] = useState<string | null>(null);
+
+  const handleArchiveStale = useCallback(async (days: number) => {
+    setStaleArchiveMessage(null);
+    await whenHydrated();
+    const byId = new Map(searchTasks([]).map((task) => [task.id, task]));
+    for (const state of tasksByStatus.values()) {
+      state.tasks.forEach((task) => byId.set(task.id, task));
+    }
+    // Core doesn't read Backlog.md's created_date / updated_date, so the dates come from the files
+    const readFile = actions.readFile;
+    const stale = readFile ? await findStaleDoneTasks(Array.from(byId.values()), days, readFile) : [];
+    if (stale.length === 0) {
+      setStaleArchiveMessage(`No Done tasks older than ${days} day${days !== 1 ? 's' : ''}`);
+      return;
+    }
+    setPendingStaleArchive({ days, tasks: stale });
+  }, [whenHydrated, searchTasks, tasksByStatus, actions]);
+
+  const confirmStaleArchive = useCallback(async () => {
+    if (!pendingStaleArchive) return;
+    setIsArchivingStale(true);
+    try {
+      const { moved, failed } = await archiveTasks(pendingStaleArchive.tasks, 'bulk-archive');
+      setStaleArchiveMessage(
+        `Archived ${moved.length} task${moved.length !== 1 ? 's' : ''}` +
+        (failed.length > 0 ? `; failed: ${failed.map((f) => `${f.task.id} (${f.error})`).join(', ')}` : '')
+      );
+    } finally {
+      setIsArchivingStale(false);
+      setPendingStaleArchive(null);
+    }
+  }, [pendingStaleArchive, archiveTasks]);
+
+  const handleRestoreTask = useCallback((task: Task) => {
+    restoreTask(task, 'archived-view');
+  }, [restoreTask]);
+
+  // Bulk actions over the multi-selection (bulk action bar)
+  const {
+    updateTasks: bulkUpdateTasks,
+    archiveTasks: bulkArchiveTasks,
+    deleteTasks: bulkDeleteTasks,
+    progress: bulkProgress,
+    summary: bulkSummary,
+    failures: bulkFailures,
+    clearResult: clearBulkResult,
+  } = useBulkTaskActions({
+    core,
+    events,
+    canWrite,
+    applyTaskChanges,
+    archiveTasks,
+    trackMutation,
+  });
+
+  const handleBulkUpdate = useCallback((input: TaskUpdateInput, describe: (count: string) => string) => {
+    const count = multiSelectedTasks.length;
+    if (count === 0) return;
+    bulkUpdateTasks(multiSelectedTasks, input, describe(`${count} task${count !== 1 ? 's' : ''}`));
+  }, [multiSelectedTasks, bulkUpdateTasks]);
+
+  // Selection awaiting delete confirmation
+  const [pendingBulkDelete, setPendingBulkDelete] = useState<Task[] | null>(null);
+  const [isBulkDeleting, setIsBulkDeleting] = useState(false);
+
+  const confirmBulkDelete = useCallback(async () => {
+    if (!pendingBulkDelete) return;
+    setIsBulkDeleting(true);
+    try {
+      await bulkDeleteTasks(pendingBulkDelete);
+    } finally {
+      setIsBulkDeleting(false);
+      setPendingBulkDelete(null);
+    }
+  }, [pendingBulkDelete, bulkDeleteTasks]);
+
+  // Handle UTCP tool events (move_task, select_task, refresh_board, filter_tasks, switch_view, export_board, undo, redo)
+  useKanbanToolEvents({
+    events,
+    core,
+    statusColumns,
+    getTaskById,
+    selectTask: handleTaskClick,
+    applyFilter: applyTaskFilter,
+    refreshData,
+    applyTaskChanges,
+    views: savedViews,
+    applyView,
+    getBlockers,
+    exportBoard,
+    canExportToFile,
+    trackMutation,
+    undo,
+    redo,
+  });
+
   // Check if we can initialize (need file operations on actions)
   const canInitialize = Boolean(
     actions.writeFile && actions.createDir && context.currentScope.repository?.path
@@ -537,6 +1425,33 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
     });
   }, []);
 
+  const handleOpenEditTask = useCallback((task: Task) => {
+    if (!canWrite) return;
+
+    // A copy: Core updates its task in place as the file changes, and the
+    // save needs the task as the form showed it to spot those changes
+    setEditingTask({ ...task });
+    setIsTaskModalOpen(true);
+    taskSaveCompletedRef.current = false;
+
+    // Start a span for the task edit operation
+    const tracer = getTracer();
+    const span = tracer.startSpan('task.edit', {
+      attributes: {
+        'input.taskId': task.id,
+        'input.source': 'modal',
+      },
+    });
+    taskModalSpanRef.current = span;
+
+    // Emit modal opened event
+    span.addEvent('modal.opened', {
+      'modal.type': 'task',
+      'modal.mode': 'edit',
+      'task.id': task.id,
+    });
+  }, [canWrite]);
+
   const handleCloseTaskModal = useCallback(() => {
     const span = taskModalSpanRef.current;
 
@@ -564,24 +1479,45 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
     const isEditing = !!editingTask;
 
     try {
+      let changes: TaskChanges;
       if (isEditing) {
         // Update existing task
-        await core.updateTask(editingTask.id, input as TaskUpdateInput);
+        const updatedTask = await trackMutation(`Edit ${editingTask.id}`, [editingTask.id], () =>
+          core.updateTask(editingTask.id, input as TaskUpdateInput, editingTask)
+        );
+        if (!updatedTask) {
+          throw new Error(`Task ${editingTask.id} not found`);
+        }
+
+        // Let other panels (e.g. TaskDetailPanel) pick up the new content
+        events?.emit({
+          type: 'task:updated',
+          source: 'kanban-panel',
+          timestamp: Date.now(),
+          payload: { taskId: updatedTask.id, task: updatedTask },
+        });
 
         // Emit task updated event
         span?.addEvent('task.updated', {
           'task.id': editingTask.id,
           'updated.fields': Object.keys(input).join(', '),
         });
+        changes = { updated: [editingTask.id] };
       } else {
         // Create new task
-        const newTask = await core.createTask(input as TaskCreateInput);
+        const newTask = await trackMutation(
+          `Create "${(input as TaskCreateInput).title}"`,
+          [],
+          () => core.createTask(input as TaskCreateInput),
+          (created) => (created ? [created.id] : [])
+        );
 
         // Emit task created event
         span?.addEvent('task.created', {
           'task.id': newTask?.id || 'unknown',
-          'task.status': (input as TaskCreateInput).status || 'To Do',
+          'task.status': (input as TaskCreateInput).status || defaultStatus,
         });
+        changes = { added: newTask ? [newTask.id] : [] };
       }
 
       taskSaveCompletedRef.current = true;
@@ -597,8 +1533,8 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
         taskModalSpanRef.current = null;
       }
 
-      // Refresh to show the new/updated task
-      await refreshData();
+      // Show the new/updated task
+      await applyTaskChanges(changes);
     } catch (err) {
       // Emit error event
       const errorMessage = err instanceof Error ? err.message : 'Failed to save task';
@@ -611,7 +1547,86 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
 
       throw err; // Re-throw so TaskModal can show the error
     }
-  }, [core, editingTask, refreshData]);
+  }, [core, editingTask, applyTaskChanges, defaultStatus, events, trackMutation]);
+
+  // Open the edit modal programmatically (e.g. from TaskDetailPanel's Edit button)
+  useEffect(() => {
+    if (!events) return;
+
+    return events.on('task:edit-open-modal', async (event) => {
+      // Skip events emitted by this panel
+      if (event.source === 'kanban-panel') return;
+
+      const payload = event.payload as { taskId?: string } | undefined;
+      const taskId = payload?.taskId ?? selectedTaskId;
+      if (!taskId) return;
+
+      const task = getTaskById(taskId) ?? (await core?.loadTask(taskId));
+      if (task) {
+        handleOpenEditTask(task);
+      }
+    });
+  }, [events, core, selectedTaskId, getTaskById, handleOpenEditTask]);
+
+  // Task card context menu actions
+  const {
+    handleMenuAction,
+    pendingDelete,
+    isDeleting,
+    deleteError,
+    confirmDelete,
+    cancelDelete,
+    error: menuActionError,
+  } = useTaskMenuActions({
+    core,
+    actions,
+    events,
+    canWrite,
+    updateTaskStatus,
+    applyTaskChanges,
+    onEdit: handleOpenEditTask,
+    archiveTask,
+    trackMutation,
+  });
+
+  // Context menu moves warn about blocked tasks like drag and drop does
+  const handleGuardedMenuAction = useCallback((task: Task, action: TaskMenuAction) => {
+    const blockers = action.type === 'move' && task.status !== action.status && isInProgressStatus(action.status)
+      ? getBlockers(task.id)
+      : [];
+    if (action.type !== 'move' || blockers.length === 0) {
+      handleMenuAction(task, action);
+      return;
+    }
+
+    const span = getTracer().startSpan('board.interaction', {
+      attributes: { 'task.id': task.id },
+    });
+    const endSpan = () => {
+      span.setStatus({ code: SpanStatusCode.OK });
+      span.end();
+    };
+    setPendingBlockedMove({
+      task,
+      targetColumn: action.status,
+      blockers,
+      span,
+      onConfirm: () => {
+        endSpan();
+        handleMenuAction(task, action);
+      },
+      onCancel: endSpan,
+    });
+  }, [getBlockers, handleMenuAction]);
+
+  const menuOptions = useMemo((): TaskMenuOptions => ({
+    statuses: configuredStatuses,
+    milestones: milestones.map((m) => ({ id: m.milestone.id, title: m.milestone.title })),
+    canWrite,
+    canOpenFile: Boolean(actions.openFile),
+    canArchive,
+    onAction: handleGuardedMenuAction,
+  }), [configuredStatuses, milestones, canWrite, actions.openFile, canArchive, handleGuardedMenuAction]);
 
   // Milestone modal handlers
   const handleOpenNewMilestone = useCallback(() => {
@@ -660,19 +1675,29 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
   };
 
   // Get available statuses and milestones for task modal
-  const availableStatuses = [
-    DEFAULT_TASK_STATUSES.TODO,
-    DEFAULT_TASK_STATUSES.IN_PROGRESS,
-    DEFAULT_TASK_STATUSES.DONE
-  ];
+  const availableStatuses = configuredStatuses;
+
+  // Selected tab in narrow view, falling back to the first column if the
+  // selected status is no longer on the board
+  const activeTab = displayedColumns.includes(selectedTab) ? selectedTab : displayedColumns[0];
+
+  // Cards can be reordered while the board shows the ordinal order
+  const isManualOrder = canWrite && boardSort === 'default';
+
+  // Cards moving with the current drag (the whole selection when a selected card is dragged)
+  const dragSelectionCount = activeTask && multiSelectedIds.has(activeTask.id) ? multiSelectedIds.size : 1;
 
   // Determine which error to show based on view mode
-  const currentError = viewMode === 'board' ? error : milestonesError;
+  const currentError = viewMode === 'board'
+    ? error ?? menuActionError ?? archiveError ?? dropError ?? savedViewsError
+    : viewMode === 'graph' ? error
+    : viewMode === 'archived' ? archiveError : milestonesError;
 
   return (
     <div
       ref={kanbanPanelRef}
       tabIndex={-1}
+      onKeyDown={handlePanelKeyDown}
       style={{
         padding: 'clamp(12px, 3vw, 20px)', // Responsive padding for mobile
         fontFamily: theme.fonts.body,
@@ -724,7 +1749,7 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
         </div>
 
         {/* View mode toggle - centered, only show when there are tasks */}
-        {isBacklogProject && totalTasksState.total > 0 && (
+        {isBacklogProject && (totalTasksState.total > 0 || hasArchivedTasks) && (
           <div
             style={{
               display: 'flex',
@@ -784,6 +1809,56 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
             >
               Status
             </button>
+            <button
+              onClick={() => {
+                setViewMode('graph');
+                setIsSearchVisible(false);
+                setSearchQuery('');
+              }}
+              style={{
+                padding: '6px 12px',
+                border: 'none',
+                borderRadius: theme.radii[1],
+                background: 'transparent',
+                color: viewMode === 'graph' ? theme.colors.primary : theme.colors.textSecondary,
+                fontSize: theme.fontSizes[2],
+                fontWeight: theme.fontWeights.medium,
+                cursor: 'pointer',
+                transition: 'all 0.2s ease',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '6px',
+                minWidth: '91px',
+              }}
+            >
+              Graph
+            </button>
+            <button
+              onClick={() => {
+                setViewMode('archived');
+                setIsSearchVisible(false);
+                setSearchQuery('');
+              }}
+              style={{
+                padding: '6px 12px',
+                border: 'none',
+                borderRadius: theme.radii[1],
+                background: 'transparent',
+                color: viewMode === 'archived' ? theme.colors.primary : theme.colors.textSecondary,
+                fontSize: theme.fontSizes[2],
+                fontWeight: theme.fontWeights.medium,
+                cursor: 'pointer',
+                transition: 'all 0.2s ease',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '6px',
+                minWidth: '91px',
+              }}
+            >
+              Archived
+            </button>
           </div>
         )}
 
@@ -816,6 +1891,31 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
                   </button>
                 )}
 
+                {/* Export the filtered board */}
+                <ExportMenu canExportToFile={canExportToFile} isExporting={isExporting} onExport={exportBoard} />
+
+                {/* Saved views, sort order and visible columns */}
+                <ViewSwitcher
+                  views={savedViews}
+                  activeView={activeView}
+                  isModified={isViewModified}
+                  sort={boardSort}
+                  grouping={boardGrouping}
+                  labelPrefix={boardLabelPrefix}
+                  statusColumns={statusColumns}
+                  visibleColumns={visibleColumns}
+                  canWrite={canWrite}
+                  isSaving={isSavingView}
+                  onSelectView={applyView}
+                  onSortChange={setBoardSort}
+                  onGroupingChange={setBoardGrouping}
+                  onLabelPrefixChange={setBoardLabelPrefix}
+                  onToggleColumn={handleToggleColumn}
+                  onSaveAs={handleSaveView}
+                  onUpdate={handleUpdateView}
+                  onDelete={handleDeleteView}
+                />
+
                 {/* Search toggle button */}
                 <button
                   onClick={() => {
@@ -841,7 +1941,7 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
                   <Search size={16} />
                 </button>
               </>
-            ) : (
+            ) : viewMode === 'milestones' ? (
               <>
                 {/* Add Milestone button */}
                 {canWrite && (
@@ -920,7 +2020,7 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
                   />
                 </button>
               </>
-            )}
+            ) : null}
           </div>
         )}
       </div>
@@ -954,7 +2054,7 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
             />
             <input
               type="text"
-              placeholder="Search tasks..."
+              placeholder="Search or filter, e.g. label:bug -status:Done"
               value={searchQuery}
               onChange={(e) => handleSearchChange(e.target.value)}
               style={{
@@ -994,8 +2094,23 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
             )}
           </div>
 
-          {/* Load more tasks button */}
-          {totalTasksState.hasMore && (
+          {/* Search status - matches come from the index, not the loaded pages */}
+          {isQueryActive && (
+            <span
+              style={{
+                flexShrink: 0,
+                fontSize: theme.fontSizes[1],
+                color: theme.colors.textSecondary,
+              }}
+            >
+              {searchIndex.isHydrating
+                ? `Indexing ${searchIndex.indexedCount}/${searchIndex.totalCount}...`
+                : `${searchMatchCount} match${searchMatchCount !== 1 ? 'es' : ''}`}
+            </span>
+          )}
+
+          {/* Load more tasks button (all matches are shown while searching) */}
+          {totalTasksState.hasMore && !isQueryActive && (
             <button
               onClick={loadMoreTasks}
               disabled={totalTasksState.isLoadingMore}
@@ -1021,6 +2136,15 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
         </div>
       )}
 
+      {/* Active query qualifiers as removable chips */}
+      {isBacklogProject && viewMode === 'board' && parsedQuery.filters.length > 0 && (
+        <FilterChips
+          filters={parsedQuery.filters}
+          onRemove={handleRemoveFilter}
+          onClearAll={handleClearSearch}
+        />
+      )}
+
       {/* Error Message */}
       {currentError && (
         <div
@@ -1042,6 +2166,38 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
         </div>
       )}
 
+      {/* Bulk actions for the multi-selection (kept up to show the last batch's outcome) */}
+      {viewMode === 'board' && canWrite && (multiSelectedIds.size > 0 || bulkProgress || bulkSummary) && (
+        <BulkActionBar
+          count={multiSelectedTasks.length}
+          statuses={configuredStatuses}
+          milestones={menuOptions.milestones}
+          canArchive={canArchive}
+          progress={bulkProgress}
+          summary={bulkSummary}
+          failures={bulkFailures}
+          onSetStatus={(status) => handleBulkUpdate({ status }, (n) => `Move ${n} to ${status}`)}
+          onSetPriority={(priority) => handleBulkUpdate({ priority }, (n) => `Set priority of ${n}`)}
+          onSetAssignee={(assignee) => handleBulkUpdate(
+            { assignee },
+            (n) => assignee.length > 0 ? `Assign ${n} to ${assignee.join(', ')}` : `Unassign ${n}`
+          )}
+          onSetMilestone={(milestone) => handleBulkUpdate({ milestone }, (n) => `Set milestone of ${n}`)}
+          onAddLabels={(labels) => handleBulkUpdate({ addLabels: labels }, (n) => `Label ${n} ${labels.join(', ')}`)}
+          onRemoveLabels={(labels) => handleBulkUpdate(
+            { removeLabels: labels },
+            (n) => `Remove ${labels.join(', ')} from ${n}`
+          )}
+          onArchive={() => bulkArchiveTasks(multiSelectedTasks)}
+          onDelete={() => setPendingBulkDelete(multiSelectedTasks)}
+          onClearSelection={() => {
+            clearSelection();
+            clearBulkResult();
+          }}
+          onDismissResult={clearBulkResult}
+        />
+      )}
+
       {/* Content Container or Empty State */}
       {!isBacklogProject ? (
         <EmptyState
@@ -1084,10 +2240,11 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
                 padding: '4px',
               }}
             >
-              {statusColumns.map((status) => {
-                const isSelected = status === selectedTab;
+              {displayedColumns.map((status) => {
+                const isSelected = status === activeTab;
                 const statusState = filteredTasksByStatus.get(status);
-                const count = statusState?.count || 0;
+                const wip = wipByStatus.get(status);
+                const count = wip ? `${wip.count} / ${wip.limit}` : statusState?.count || 0;
                 return (
                   <button
                     key={status}
@@ -1113,6 +2270,7 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
                     <span
                       style={{
                         background: isSelected ? 'rgba(255,255,255,0.2)' : theme.colors.background,
+                        color: wip?.isOver && !isSelected ? theme.colors.warning : undefined,
                         padding: '2px 6px',
                         borderRadius: theme.radii[1],
                         fontSize: theme.fontSizes[0],
@@ -1126,7 +2284,26 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
             </div>
           )}
 
-          {/* Columns scroll container */}
+          {swimlanes ? (
+            <SwimlaneBoard
+              lanes={swimlanes}
+              statusColumns={displayedColumns.filter((status) => !isNarrowView || status === activeTab)}
+              grouping={boardGrouping}
+              onTaskClick={handleCardClick}
+              onTaskEdit={canWrite ? handleOpenEditTask : undefined}
+              fullWidth={isNarrowView}
+              selectedTaskId={selectedTaskId}
+              multiSelectedIds={multiSelectedIds}
+              onTaskMultiSelect={handleTaskMultiSelect}
+              pendingTaskIds={pendingTaskIds}
+              menuOptions={menuOptions}
+              isSortable={isManualOrder}
+              wipByStatus={wipByStatus}
+              subtaskIndex={subtaskIndex}
+              blockerIndex={blockerIndex}
+            />
+          ) : (
+          /* Columns scroll container */
           <div
             style={{
               flex: '1 1 0',
@@ -1147,8 +2324,8 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
                 alignItems: 'stretch',
               }}
             >
-              {statusColumns
-                .filter((status) => !isNarrowView || status === selectedTab)
+              {displayedColumns
+                .filter((status) => !isNarrowView || status === activeTab)
                 .map((status) => {
                   const statusState = filteredTasksByStatus.get(status);
                   const columnTasks = statusState?.tasks || [];
@@ -1158,14 +2335,24 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
                       columnId={status}
                       status={status}
                       tasks={columnTasks}
-                      onTaskClick={handleTaskClick}
+                      onTaskClick={handleCardClick}
+                      onTaskEdit={canWrite ? handleOpenEditTask : undefined}
                       fullWidth={isNarrowView}
                       selectedTaskId={selectedTaskId}
+                      multiSelectedIds={multiSelectedIds}
+                      onTaskMultiSelect={handleTaskMultiSelect}
+                      pendingTaskIds={pendingTaskIds}
+                      menuOptions={menuOptions}
+                      isSortable={isManualOrder}
+                      wip={wipByStatus.get(status)}
+                      subtaskIndex={subtaskIndex}
+                      blockerIndex={blockerIndex}
                     />
                   );
                 })}
             </div>
           </div>
+          )}
           </div>
 
           {/* Drag overlay - rendered in portal to avoid layout shifts */}
@@ -1181,7 +2368,28 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
                   style={{ zIndex: 99999 }}
                 >
                   {activeTask ? (
-                    <TaskCard task={activeTask} isDragOverlay />
+                    <div style={{ position: 'relative' }}>
+                      <TaskCard task={activeTask} isDragOverlay isMultiSelected={dragSelectionCount > 1} />
+                      {dragSelectionCount > 1 && (
+                        <span
+                          style={{
+                            position: 'absolute',
+                            top: '-8px',
+                            right: '-8px',
+                            minWidth: '20px',
+                            padding: '2px 6px',
+                            borderRadius: '10px',
+                            background: theme.colors.primary,
+                            color: theme.colors.textOnPrimary,
+                            fontSize: theme.fontSizes[0],
+                            fontWeight: theme.fontWeights.semibold,
+                            textAlign: 'center',
+                          }}
+                        >
+                          {dragSelectionCount}
+                        </span>
+                      )}
+                    </div>
                   ) : null}
                 </DragOverlay>
               </ThemeProvider>,
@@ -1189,6 +2397,27 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
             )}
         </DndContext>
         )
+      ) : viewMode === 'graph' ? (
+        <TaskGraphView
+          tasks={linkedTasks}
+          statuses={configuredStatuses}
+          selectedTaskId={selectedTaskId}
+          onTaskClick={handleTaskClick}
+          isLoading={isLoading || searchIndex.isHydrating}
+        />
+      ) : viewMode === 'archived' ? (
+        <ArchivedTasksView
+          tasks={archivedTasks}
+          isLoading={isLoadingArchived}
+          selectedTaskId={selectedTaskId}
+          onTaskClick={handleTaskClick}
+          canArchive={canArchive}
+          pendingIds={archivePendingIds}
+          onRestore={handleRestoreTask}
+          onArchiveStale={handleArchiveStale}
+          isArchivingStale={isArchivingStale}
+          bulkMessage={staleArchiveMessage}
+        />
       ) : (
         /* Milestones View - Two Column Layout */
         <div
@@ -1378,23 +2607,21 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
                     }
                   };
 
-                  // Calculate status breakdown
-                  const todoCount = tasks.filter((t) => t.status === 'To Do').length;
-                  const inProgressCount = tasks.filter((t) => t.status === 'In Progress').length;
-                  const doneCount = tasks.filter((t) =>
-                    t.status?.toLowerCase().includes('done') || t.status?.toLowerCase().includes('complete')
-                  ).length;
+                  // Calculate status breakdown over the configured statuses
+                  // (plus any unknown statuses used by this milestone's tasks)
+                  const { orderedStatuses, groupedTasks } = buildKanbanStatusGroups(tasks, configuredStatuses);
 
                   // Filter tasks based on selected status filter
                   const filteredTasks = milestoneStatusFilter
-                    ? tasks.filter((t) => {
-                        if (milestoneStatusFilter === 'Done') {
-                          return t.status?.toLowerCase().includes('done') || t.status?.toLowerCase().includes('complete');
-                        }
-                        return t.status === milestoneStatusFilter;
-                      })
+                    ? groupedTasks.get(milestoneStatusFilter) ?? []
                     : tasks;
 
+                  const getStatusColor = (status: string, index: number) => {
+                    if (isDoneStatus(status)) return theme.colors.success;
+                    if (index === 0) return theme.colors.textSecondary;
+                    return theme.colors.warning;
+                  };
+
                   // Status filter button styles
                   const getFilterButtonStyle = (status: string, count: number, color: string) => {
                     const isActive = milestoneStatusFilter === status;
@@ -1428,24 +2655,18 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
                           display: 'flex',
                         }}
                       >
-                        <button
-                          onClick={() => handleFilterClick('To Do', todoCount)}
-                          style={getFilterButtonStyle('To Do', todoCount, theme.colors.textSecondary)}
-                        >
-                          {todoCount} To Do
-                        </button>
-                        <button
-                          onClick={() => handleFilterClick('In Progress', inProgressCount)}
-                          style={getFilterButtonStyle('In Progress', inProgressCount, theme.colors.warning)}
-                        >
-                          {inProgressCount} In Progress
-                        </button>
-                        <button
-                          onClick={() => handleFilterClick('Done', doneCount)}
-                          style={getFilterButtonStyle('Done', doneCount, theme.colors.success)}
-                        >
-                          {doneCount} Done
-                        </button>
+                        {orderedStatuses.map((status, index) => {
+                          const count = groupedTasks.get(status)?.length ?? 0;
+                          return (
+                            <button
+                              key={status}
+                              onClick={() => handleFilterClick(status, count)}
+                              style={getFilterButtonStyle(status, count, getStatusColor(status, index))}
+                            >
+                              {count} {status}
+                            </button>
+                          );
+                        })}
                       </div>
                       <div
                         style={{
@@ -1548,12 +2769,124 @@ export const KanbanPanel: React.FC<KanbanPanelPropsTyped> = ({
         onClose={handleCloseTaskModal}
         onSave={handleSaveTask}
         task={editingTask}
-        defaultStatus="To Do"
+        defaultStatus={defaultStatus}
         defaultMilestone={viewMode === 'milestones' ? selectedMilestoneId || '' : ''}
         availableStatuses={availableStatuses}
         availableMilestones={milestones.map((m) => ({ id: m.milestone.id, title: m.milestone.title }))}
       />
 
+      {/* Delete confirmation (context menu) */}
+      <ConfirmDialog
+        isOpen={pendingBlockedMove !== null}
+        title="Start a blocked task?"
+        message={
+          <>
+            <strong style={{ color: theme.colors.primary }}>"{pendingBlockedMove?.task.title}"</strong> is blocked by{' '}
+            {pendingBlockedMove?.blockers.map((blocker) => `${blocker.id} (${blocker.status})`).join(', ')}. Move it to{' '}
+            {pendingBlockedMove?.targetColumn} anyway?
+          </>
+        }
+        confirmLabel="Move anyway"
+        variant="warning"
+        onConfirm={() => resolveBlockedMove(true)}
+        onCancel={() => resolveBlockedMove(false)}
+      />
+
+      <ConfirmDialog
+        isOpen={pendingSubtaskMove !== null}
+        title="Move subtasks too?"
+        message={
+          <>
+            <strong style={{ color: theme.colors.primary }}>"{pendingSubtaskMove?.task.title}"</strong> has{' '}
+            {pendingSubtaskMove?.subtasks?.length} subtask{pendingSubtaskMove?.subtasks?.length !== 1 ? 's' : ''} in{' '}
+            {pendingSubtaskMove?.task.status}. Move {pendingSubtaskMove?.subtasks?.length !== 1 ? 'them' : 'it'} to{' '}
+            {pendingSubtaskMove?.targetColumn} as well?
+          </>
+        }
+        confirmLabel="Move with subtasks"
+        secondaryLabel="Only this task"
+        onConfirm={() => resolveSubtaskMove('with-subtasks')}
+        onSecondary={() => resolveSubtaskMove('task-only')}
+        onCancel={() => resolveSubtaskMove('cancel')}
+      />
+
+      <ConfirmDialog
+        isOpen={pendingWipMove !== null}
+        title="Exceed WIP limit?"
+        message={
+          <>
+            Moving <strong style={{ color: theme.colors.primary }}>"{pendingWipMove?.task.title}"</strong> to{' '}
+            {pendingWipMove?.targetColumn} takes it to{' '}
+            {(pendingWipMove?.wip?.count ?? 0) + 1 + (pendingWipMove?.subtasks?.length ?? 0)} tasks, over its
+            limit of {pendingWipMove?.wip?.limit}.
+          </>
+        }
+        confirmLabel="Move anyway"
+        variant="warning"
+        onConfirm={() => resolveWipMove(true)}
+        onCancel={() => resolveWipMove(false)}
+      />
+
+      <UndoToast
+        notice={historyNotice}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        isBusy={isApplyingHistory}
+        onUndo={undo}
+        onRedo={redo}
+        onDismiss={dismissHistoryNotice}
+      />
+
+      <ConfirmDialog
+        isOpen={pendingStaleArchive !== null}
+        title="Archive old Done tasks?"
+        message={
+          <>
+            Move {pendingStaleArchive?.tasks.length} Done task{pendingStaleArchive?.tasks.length !== 1 ? 's' : ''} not
+            updated in {pendingStaleArchive?.days} days to backlog/archive/tasks? They can be restored from this view.
+          </>
+        }
+        confirmLabel="Archive"
+        isBusy={isArchivingStale}
+        onConfirm={confirmStaleArchive}
+        onCancel={() => setPendingStaleArchive(null)}
+      />
+
+      <ConfirmDialog
+        isOpen={pendingDelete !== null}
+        title="Delete Task?"
+        message={
+          <>
+            Are you sure you want to delete{' '}
+            <strong style={{ color: theme.colors.primary }}>"{pendingDelete?.title}"</strong>? This action cannot be undone.
+          </>
+        }
+        confirmLabel="Delete"
+        variant="danger"
+        isBusy={isDeleting}
+        error={deleteError}
+        onConfirm={confirmDelete}
+        onCancel={cancelDelete}
+      />
+
+      <ConfirmDialog
+        isOpen={pendingBulkDelete !== null}
+        title={`Delete ${pendingBulkDelete?.length} task${pendingBulkDelete?.length !== 1 ? 's' : ''}?`}
+        message={
+          <>
+            Delete {pendingBulkDelete?.map((task) => task.id).join(', ')}? Use Undo right after to bring them back.
+          </>
+        }
+        confirmLabel="Delete"
+        variant="danger"
+        isBusy={isBulkDeleting}
+        onConfirm={confirmBulkDelete}
+        onCancel={() => setPendingBulkDelete(null)}
+      />
+
+      {/* Task write that ran into a change on disk */}
+      <TaskConflictDialog conflict={conflict} onResolve={resolveConflict} />
+
       {/* Milestone Modal */}
       <MilestoneModal
         isOpen={isMilestoneModalOpen}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { FileText, X, Bot, Loader2, CheckCircle, AlertCircle, ExternalLink, Trash2 } from 'lucide-react';
+import { FileText, X, Bot, Loader2, CheckCircle, AlertCircle, ExternalLink, Trash2, Pencil, FilePen, Archive, RotateCcw, RefreshCw } from 'lucide-react';
 import { useTheme } from '@principal-ade/industry-theme';
 import { usePanelFocusListener } from '@principal-ade/panel-layouts';
 import { DocumentView } from 'themed-markdown';
@@ -8,6 +8,16 @@ import type { TaskDetailPanelPropsTyped, PanelEventEmitter } from '../types';
 import type { Task, Core } from '@backlog-md/core';
 import { getTracer, SpanStatusCode, type Span } from '../telemetry';
 import { useBacklogCore } from '../hooks/useBacklogCore';
+import { useAcceptanceCriteriaToggle } from './task-detail/hooks/useAcceptanceCriteriaToggle';
+import { useTaskBodyEditor } from './task-detail/hooks/useTaskBodyEditor';
+import { TaskBodyEditor } from './task-detail/components/TaskBodyEditor';
+import { useTaskRelations } from './task-detail/hooks/useTaskRelations';
+import { useExternalTaskChanges } from './task-detail/hooks/useExternalTaskChanges';
+import { TaskRelations } from './task-detail/components/TaskRelations';
+import { ConfirmDialog } from './kanban/components/ConfirmDialog';
+import { TaskConflictDialog } from './kanban/components/TaskConflictDialog';
+import { useTaskArchive } from './kanban/hooks/useTaskArchive';
+import { isArchivedTaskPath } from './kanban/utils/taskArchive';
 
 /** Extract GitHub issue info from a task's references */
 function getGitHubIssueFromRefs(references?: string[]): { number: number; url: string } | null {
@@ -189,14 +199,51 @@ export const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ context, event
   const [deleteState, setDeleteState] = useState<DeleteState>({ status: 'idle' });
   const panelRef = useRef<HTMLDivElement>(null);
   const deleteSpanRef = useRef<Span | null>(null);
+  // Task from an incoming task:selected event, held while unsaved edits are confirmed
+  const [pendingSelection, setPendingSelection] = useState<Task | null>(null);
+  const hasUnsavedEditsRef = useRef(false);
 
   // Extract config options
   const { editable = false } = config ?? {};
 
   // Use shared Core instance from prop, or create our own via useBacklogCore
-  const { core: hookCore } = useBacklogCore({ context, actions });
+  const {
+    core: hookCore,
+    fileSystem,
+    canWrite,
+    applyTaskMoves,
+    modifiedPaths,
+    fileChanges,
+    conflict,
+    resolveConflict,
+  } = useBacklogCore({
+    context,
+    actions,
+    events,
+  });
   const core = coreProp ?? hookCore;
 
+  // Archive / restore the displayed task (backlog/archive/tasks)
+  const taskArchive = useTaskArchive({
+    actions,
+    fileSystem,
+    events,
+    source: 'task-detail-panel',
+    canWrite,
+    onTasksMoved: applyTaskMoves,
+  });
+  const isArchived = isArchivedTaskPath(selectedTask?.filePath);
+
+  const handleArchiveToggle = useCallback(async () => {
+    if (!selectedTask) return;
+    const moved = isArchived
+      ? await taskArchive.restoreTask(selectedTask, 'detail-panel')
+      : await taskArchive.archiveTask(selectedTask, 'detail-panel');
+    if (moved) {
+      setSelectedTask(moved);
+    }
+  }, [selectedTask, isArchived, taskArchive]);
+
   // Listen for panel focus events
   usePanelFocusListener(
     'task-detail',
@@ -251,6 +298,28 @@ export const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ context, event
     });
   }, [events, selectedTask]);
 
+  // Handle "Edit" button click - the KanbanPanel owns the task modal
+  const handleEditTask = useCallback(() => {
+    if (!selectedTask || !events) return;
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('detail.interaction', {
+      attributes: { 'task.id': selectedTask.id },
+    });
+    span.addEvent('task.edit.requested', {
+      'task.id': selectedTask.id,
+    });
+    span.setStatus({ code: SpanStatusCode.OK });
+    span.end();
+
+    (events as PanelEventEmitter).emit({
+      type: 'task:edit-open-modal',
+      source: 'task-detail-panel',
+      timestamp: Date.now(),
+      payload: { taskId: selectedTask.id },
+    });
+  }, [events, selectedTask]);
+
   // Handle opening delete modal
   const handleOpenDeleteModal = useCallback(() => {
     if (!selectedTask) return;
@@ -371,18 +440,58 @@ export const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ context, event
     if (!events) return;
 
     const handleTaskSelected = (event: { payload: TaskSelectedPayload }) => {
+      // Ask before switching away from unsaved body edits
+      if (hasUnsavedEditsRef.current) {
+        setPendingSelection(event.payload.task);
+        return;
+      }
       setSelectedTask(event.payload.task);
       // Reset claude assignment state when a new task is selected
       setClaudeAssignment({ status: 'idle' });
     };
 
+    // Refresh the displayed task when it is edited elsewhere
+    const handleTaskUpdated = (event: { payload: TaskSelectedPayload }) => {
+      const { taskId, task } = event.payload;
+      if (!task) return;
+      setSelectedTask((current) => (current?.id === taskId ? task : current));
+    };
+
+    // Close the view when the displayed task is deleted elsewhere
+    const handleTaskDeleted = (event: { source: string; payload: { taskId?: string } }) => {
+      if (event.source === 'task-detail-panel') return;
+      setSelectedTask((current) => (current?.id === event.payload?.taskId ? null : current));
+    };
+
+    // Follow the displayed task into and out of the archive
+    const handleTaskMoved = (event: { source: string; payload: TaskSelectedPayload }) => {
+      if (event.source === 'task-detail-panel') return;
+      handleTaskUpdated(event);
+    };
+
     // Subscribe to task:selected events
     const unsubscribe = (events as PanelEventEmitter).on('task:selected', handleTaskSelected);
+    const unsubscribeUpdated = (events as PanelEventEmitter).on('task:updated', handleTaskUpdated);
+    const unsubscribeDeleted = (events as PanelEventEmitter).on('task:deleted', handleTaskDeleted);
+    const unsubscribeArchived = (events as PanelEventEmitter).on('task:archived', handleTaskMoved);
+    const unsubscribeRestored = (events as PanelEventEmitter).on('task:restored', handleTaskMoved);
 
     return () => {
       if (typeof unsubscribe === 'function') {
         unsubscribe();
       }
+      if (typeof unsubscribeUpdated === 'function') {
+        unsubscribeUpdated();
+      }
+      if (typeof unsubscribeDeleted === 'function') {
+        unsubscribeDeleted();
+      }
+      if (typeof unsubscribeArchived === 'function') {
+        unsubscribeArchived();
+      }
+      if (typeof unsubscribeRestored === 'function') {
+        unsubscribeRestored();
+      }
     };
   }, [events]);
 
@@ -496,6 +605,89 @@ export const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ context, event
     }
   }, [selectedTask, events]);
 
+  // Reload the task when its file is edited outside the panels, close it when the file is gone
+  const hasUnsavedEdits = useCallback(() => hasUnsavedEditsRef.current, []);
+  const externalChange = useExternalTaskChanges({
+    task: selectedTask,
+    modifiedPaths,
+    fileChanges,
+    core: hookCore,
+    fileSystem,
+    actions,
+    hasUnsavedEdits,
+    onReload: setSelectedTask,
+    onRemoved: handleBack,
+  });
+
+  // Get markdown body for rendering
+  const bodyMarkdown = selectedTask ? getTaskBodyMarkdown(selectedTask, { includeTitle: false }) : '';
+
+  // Persist acceptance criteria checkbox toggles (debounced)
+  const { handleCheckboxChange, error: criteriaError } = useAcceptanceCriteriaToggle({
+    core,
+    events,
+    task: selectedTask,
+    content: bodyMarkdown,
+    canWrite: editable && canWrite,
+    onSaved: (task) => setSelectedTask((current) => (current?.id === task.id ? task : current)),
+  });
+
+  // Inline editing of the description and implementation sections
+  const bodyEditor = useTaskBodyEditor({
+    core,
+    events,
+    task: selectedTask,
+    onSaved: (task) => setSelectedTask((current) => (current?.id === task.id ? task : current)),
+  });
+  hasUnsavedEditsRef.current = bodyEditor.isDirty;
+
+  // Parent task, subtasks and dependencies
+  const relations = useTaskRelations({ core, events, task: selectedTask });
+
+  const getRelationKind = useCallback((taskId: string) => {
+    if (taskId === relations.parent?.id) return 'parent';
+    if (relations.subtasks.some((task) => task.id === taskId)) return 'subtask';
+    if (relations.blockedBy.some((task) => task.id === taskId)) return 'blocked-by';
+    return 'blocks';
+  }, [relations]);
+
+  // Navigate to a related task; the task:selected listener above shows it
+  const handleSelectRelated = useCallback((task: Task) => {
+    if (!selectedTask || !events) return;
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('detail.interaction', {
+      attributes: { 'task.id': selectedTask.id },
+    });
+    span.addEvent('task.related.selected', {
+      'task.id': selectedTask.id,
+      'related.id': task.id,
+      'related.kind': getRelationKind(task.id),
+    });
+    span.setStatus({ code: SpanStatusCode.OK });
+    span.end();
+
+    (events as PanelEventEmitter).emit({
+      type: 'task:selected',
+      source: 'task-detail-panel',
+      timestamp: Date.now(),
+      payload: { taskId: task.id, task },
+    });
+  }, [events, selectedTask, getRelationKind]);
+
+  const { discard: discardBodyEdits } = bodyEditor;
+  const handleConfirmSwitch = useCallback(() => {
+    if (!pendingSelection) return;
+    discardBodyEdits();
+    setSelectedTask(pendingSelection);
+    setClaudeAssignment({ status: 'idle' });
+    setPendingSelection(null);
+  }, [pendingSelection, discardBodyEdits]);
+
+  const handleCancelSwitch = useCallback(() => {
+    setPendingSelection(null);
+  }, []);
+
   // Empty state when no task is selected
   if (!selectedTask) {
     return (
@@ -540,9 +732,6 @@ export const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ context, event
     );
   }
 
-  // Get markdown body for rendering
-  const bodyMarkdown = getTaskBodyMarkdown(selectedTask, { includeTitle: false });
-
   return (
     <div
       ref={panelRef}
@@ -589,8 +778,108 @@ export const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ context, event
           )}
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-          {/* Delete button */}
-          {deleteState.status === 'idle' && (
+          {/* Edit button */}
+          {canWrite && events && !isArchived && deleteState.status === 'idle' && (
+            <button
+              onClick={handleEditTask}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: '28px',
+                height: '28px',
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: theme.radii[1],
+                background: 'transparent',
+                cursor: 'pointer',
+                color: theme.colors.textSecondary,
+                transition: 'all 0.2s ease',
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.borderColor = theme.colors.primary;
+                e.currentTarget.style.color = theme.colors.primary;
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.borderColor = theme.colors.border;
+                e.currentTarget.style.color = theme.colors.textSecondary;
+              }}
+              title="Edit task"
+            >
+              <Pencil size={14} />
+            </button>
+          )}
+
+          {/* Edit content button */}
+          {canWrite && core && !isArchived && !bodyEditor.isEditing && deleteState.status === 'idle' && (
+            <button
+              onClick={bodyEditor.startEditing}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: '28px',
+                height: '28px',
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: theme.radii[1],
+                background: 'transparent',
+                cursor: 'pointer',
+                color: theme.colors.textSecondary,
+                transition: 'all 0.2s ease',
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.borderColor = theme.colors.primary;
+                e.currentTarget.style.color = theme.colors.primary;
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.borderColor = theme.colors.border;
+                e.currentTarget.style.color = theme.colors.textSecondary;
+              }}
+              title="Edit description and notes"
+            >
+              <FilePen size={14} />
+            </button>
+          )}
+
+          {/* Archive / restore button */}
+          {taskArchive.canArchive && !bodyEditor.isEditing && deleteState.status === 'idle' && (
+            <button
+              onClick={handleArchiveToggle}
+              disabled={taskArchive.pendingIds.has(selectedTask.id)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: '28px',
+                height: '28px',
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: theme.radii[1],
+                background: 'transparent',
+                cursor: 'pointer',
+                color: theme.colors.textSecondary,
+                transition: 'all 0.2s ease',
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.borderColor = theme.colors.primary;
+                e.currentTarget.style.color = theme.colors.primary;
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.borderColor = theme.colors.border;
+                e.currentTarget.style.color = theme.colors.textSecondary;
+              }}
+              title={isArchived ? 'Restore task' : 'Archive task'}
+            >
+              {taskArchive.pendingIds.has(selectedTask.id) ? (
+                <Loader2 size={14} style={{ animation: 'spin 1s linear infinite' }} />
+              ) : isArchived ? (
+                <RotateCcw size={14} />
+              ) : (
+                <Archive size={14} />
+              )}
+            </button>
+          )}
+
+          {/* Delete button - archived tasks are outside Core, restore them first */}
+          {deleteState.status === 'idle' && !isArchived && (
             <button
               onClick={handleOpenDeleteModal}
               style={{
@@ -671,6 +960,60 @@ export const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ context, event
         </div>
       </div>
 
+      {/* Archived banner / archive errors */}
+      {(isArchived || taskArchive.error) && (
+        <div
+          style={{
+            flexShrink: 0,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '8px 16px',
+            borderBottom: `1px solid ${theme.colors.border}`,
+            background: taskArchive.error ? `${theme.colors.error}15` : theme.colors.backgroundSecondary,
+            color: taskArchive.error ? theme.colors.error : theme.colors.textSecondary,
+            fontSize: theme.fontSizes[1],
+          }}
+        >
+          {taskArchive.error ? <AlertCircle size={14} /> : <Archive size={14} />}
+          <span>{taskArchive.error ?? 'This task is archived. Restore it to edit it on the board.'}</span>
+        </div>
+      )}
+
+      {/* Edited outside the panels */}
+      {externalChange.change && (
+        <div
+          role="status"
+          style={{
+            flexShrink: 0,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '8px 16px',
+            borderBottom: `1px solid ${theme.colors.border}`,
+            background: externalChange.change === 'reloaded' ? theme.colors.backgroundSecondary : `${theme.colors.warning}15`,
+            color: externalChange.change === 'reloaded' ? theme.colors.textSecondary : theme.colors.warning,
+            fontSize: theme.fontSizes[1],
+          }}
+        >
+          <RefreshCw size={14} />
+          <span style={{ flex: 1 }}>
+            {externalChange.change === 'removed'
+              ? 'The task file was deleted outside this panel. Your unsaved edits are kept here but can no longer be saved.'
+              : externalChange.change === 'kept-edits'
+                ? 'The task file changed on disk. Your unsaved edits are kept; saving them replaces the other change.'
+                : 'The task file changed outside this panel and has been reloaded.'}
+          </span>
+          <button
+            onClick={externalChange.dismiss}
+            aria-label="Dismiss"
+            style={{ display: 'flex', padding: '2px', border: 'none', background: 'transparent', color: 'inherit', cursor: 'pointer' }}
+          >
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
       {/* Task metadata section */}
       <div
         style={{
@@ -868,6 +1211,16 @@ export const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ context, event
           {selectedTask.title}
         </h1>
 
+        <TaskRelations
+          parent={relations.parent}
+          subtasks={relations.subtasks}
+          blockedBy={relations.blockedBy}
+          missingDependencies={relations.missingDependencies}
+          blocks={relations.blocks}
+          isLoading={relations.isLoading}
+          onSelect={handleSelectRelated}
+        />
+
       </div>
 
       {/* Body Content */}
@@ -879,28 +1232,61 @@ export const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ context, event
           flexDirection: 'column',
         }}
       >
-        {bodyMarkdown ? (
-          <DocumentView
-            content={bodyMarkdown}
-            theme={theme}
-            maxWidth="100%"
-            transparentBackground
-            editable={editable}
+        {bodyEditor.isEditing ? (
+          <TaskBodyEditor
+            activeSection={bodyEditor.activeSection}
+            onSectionChange={bodyEditor.setActiveSection}
+            drafts={bodyEditor.drafts}
+            onDraftChange={bodyEditor.setDraft}
+            dirtySections={bodyEditor.dirtySections}
+            isSaving={bodyEditor.isSaving}
+            error={bodyEditor.error}
+            onSave={bodyEditor.save}
+            onCancel={bodyEditor.discard}
           />
         ) : (
-          <div
-            style={{
-              flex: 1,
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              color: theme.colors.textMuted,
-              fontStyle: 'italic',
-              padding: '40px',
-            }}
-          >
-            No description or content available
-          </div>
+          <>
+            {criteriaError && (
+              <div
+                style={{
+                  margin: '12px 24px 0',
+                  padding: '10px 12px',
+                  backgroundColor: `${theme.colors.error}15`,
+                  border: `1px solid ${theme.colors.error}`,
+                  borderRadius: theme.radii[2],
+                  fontFamily: theme.fonts.body,
+                  fontSize: theme.fontSizes[1],
+                  color: theme.colors.error,
+                }}
+              >
+                Could not save acceptance criteria: {criteriaError}
+              </div>
+            )}
+            {bodyMarkdown ? (
+              <DocumentView
+                content={bodyMarkdown}
+                theme={theme}
+                maxWidth="100%"
+                transparentBackground
+                editable={editable}
+                onCheckboxChange={editable && canWrite && !isArchived ? handleCheckboxChange : undefined}
+              />
+            ) : (
+              <div
+                style={{
+                  flex: 1,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  color: theme.colors.textMuted,
+                  fontStyle: 'italic',
+                  padding: '40px',
+                }}
+              >
+                No description or content available
+              </div>
+            )}
+          </>
         )}
       </div>
 
@@ -1069,6 +1455,26 @@ export const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ context, event
           </div>,
           document.body
         )}
+
+      {/* Unsaved edits confirmation when another task is selected */}
+      <ConfirmDialog
+        isOpen={pendingSelection !== null}
+        title="Discard unsaved changes?"
+        message={
+          <>
+            You have unsaved changes to <strong>{selectedTask.title}</strong>. Switching to{' '}
+            <strong>{pendingSelection?.title}</strong> will discard them.
+          </>
+        }
+        confirmLabel="Discard changes"
+        cancelLabel="Keep editing"
+        variant="warning"
+        onConfirm={handleConfirmSwitch}
+        onCancel={handleCancelSwitch}
+      />
+
+      {/* Task write that ran into a change on disk */}
+      <TaskConflictDialog conflict={conflict} onResolve={resolveConflict} />
     </div>
   );
 };
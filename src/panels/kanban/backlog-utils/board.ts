@@ -1,6 +1,7 @@
-import { mkdir } from 'node:fs/promises';
-import { dirname } from 'node:path';
 import type { Task } from '@backlog-md/core';
+import { buildKanbanStatusGroups } from './status-groups';
+
+export { buildKanbanStatusGroups };
 
 export interface BoardOptions {
   statuses?: string[];
@@ -9,61 +10,6 @@ export interface BoardOptions {
 export type BoardLayout = 'horizontal' | 'vertical';
 export type BoardFormat = 'terminal' | 'markdown';
 
-export function buildKanbanStatusGroups(
-  tasks: Task[],
-  statuses: string[]
-): { orderedStatuses: string[]; groupedTasks: Map<string, Task[]> } {
-  const canonicalByLower = new Map<string, string>();
-  const orderedConfiguredStatuses: string[] = [];
-  const configuredSeen = new Set<string>();
-
-  for (const status of statuses ?? []) {
-    if (typeof status !== 'string') continue;
-    const trimmed = status.trim();
-    if (!trimmed) continue;
-    const lower = trimmed.toLowerCase();
-    if (!canonicalByLower.has(lower)) {
-      canonicalByLower.set(lower, trimmed);
-    }
-    if (!configuredSeen.has(trimmed)) {
-      orderedConfiguredStatuses.push(trimmed);
-      configuredSeen.add(trimmed);
-    }
-  }
-
-  const groupedTasks = new Map<string, Task[]>();
-  for (const status of orderedConfiguredStatuses) {
-    groupedTasks.set(status, []);
-  }
-
-  for (const task of tasks) {
-    const raw = (task.status ?? '').trim();
-    if (!raw) continue;
-    const canonical = canonicalByLower.get(raw.toLowerCase()) ?? raw;
-    if (!groupedTasks.has(canonical)) {
-      groupedTasks.set(canonical, []);
-    }
-    groupedTasks.get(canonical)?.push(task);
-  }
-
-  const orderedStatuses: string[] = [];
-  const seen = new Set<string>();
-
-  for (const status of orderedConfiguredStatuses) {
-    if (seen.has(status)) continue;
-    orderedStatuses.push(status);
-    seen.add(status);
-  }
-
-  for (const status of groupedTasks.keys()) {
-    if (seen.has(status)) continue;
-    orderedStatuses.push(status);
-    seen.add(status);
-  }
-
-  return { orderedStatuses, groupedTasks };
-}
-
 export function generateKanbanBoardWithMetadata(
   tasks: Task[],
   statuses: string[],
@@ -190,22 +136,37 @@ Project: ${projectName}
   return `${header}${table}\n`;
 }
 
+/**
+ * File operations provided by the host (e.g. the panel's `actions`). The
+ * panel runs in the browser, so files can't be written with node:fs or Bun.
+ */
+export interface BoardFileOps {
+  writeFile: (path: string, content: string) => Promise<void>;
+  createDir?: (path: string) => Promise<void>;
+}
+
+export async function writeBoardFile(filePath: string, content: string, fileOps: BoardFileOps): Promise<void> {
+  // Ensure directory exists
+  const dir = filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '';
+  if (dir && fileOps.createDir) {
+    try {
+      await fileOps.createDir(dir);
+    } catch {
+      // Directory might already exist
+    }
+  }
+
+  // Write the content (overwrite mode)
+  await fileOps.writeFile(filePath, content);
+}
+
 export async function exportKanbanBoardToFile(
   tasks: Task[],
   statuses: string[],
   filePath: string,
   projectName: string,
-  _overwrite = false
+  fileOps: BoardFileOps
 ): Promise<void> {
   const board = generateKanbanBoardWithMetadata(tasks, statuses, projectName);
-
-  // Ensure directory exists
-  try {
-    await mkdir(dirname(filePath), { recursive: true });
-  } catch {
-    // Directory might already exist
-  }
-
-  // Write the content (overwrite mode)
-  await Bun.write(filePath, board);
+  await writeBoardFile(filePath, board, fileOps);
 }
@@ -0,0 +1,56 @@
+import type { Task } from '@backlog-md/core';
+
+export function buildKanbanStatusGroups(
+  tasks: Task[],
+  statuses: string[]
+): { orderedStatuses: string[]; groupedTasks: Map<string, Task[]> } {
+  const canonicalByLower = new Map<string, string>();
+  const orderedConfiguredStatuses: string[] = [];
+  const configuredSeen = new Set<string>();
+
+  for (const status of statuses ?? []) {
+    if (typeof status !== 'string') continue;
+    const trimmed = status.trim();
+    if (!trimmed) continue;
+    const lower = trimmed.toLowerCase();
+    if (!canonicalByLower.has(lower)) {
+      canonicalByLower.set(lower, trimmed);
+    }
+    if (!configuredSeen.has(trimmed)) {
+      orderedConfiguredStatuses.push(trimmed);
+      configuredSeen.add(trimmed);
+    }
+  }
+
+  const groupedTasks = new Map<string, Task[]>();
+  for (const status of orderedConfiguredStatuses) {
+    groupedTasks.set(status, []);
+  }
+
+  for (const task of tasks) {
+    const raw = (task.status ?? '').trim();
+    if (!raw) continue;
+    const canonical = canonicalByLower.get(raw.toLowerCase()) ?? raw;
+    if (!groupedTasks.has(canonical)) {
+      groupedTasks.set(canonical, []);
+    }
+    groupedTasks.get(canonical)?.push(task);
+  }
+
+  const orderedStatuses: string[] = [];
+  const seen = new Set<string>();
+
+  for (const status of orderedConfiguredStatuses) {
+    if (seen.has(status)) continue;
+    orderedStatuses.push(status);
+    seen.add(status);
+  }
+
+  for (const status of groupedTasks.keys()) {
+    if (seen.has(status)) continue;
+    orderedStatuses.push(status);
+    seen.add(status);
+  }
+
+  return { orderedStatuses, groupedTasks };
+}
@@ -0,0 +1,266 @@
+import React, { useMemo, useState } from 'react';
+import { Archive, Loader2, RotateCcw, Search } from 'lucide-react';
+import { useTheme } from '@principal-ade/industry-theme';
+import type { Task } from '@backlog-md/core';
+import { matchesTaskQuery, parseTaskQuery } from '../utils/taskQuery';
+import { DEFAULT_ARCHIVE_AFTER_DAYS } from '../utils/taskArchive';
+
+interface ArchivedTasksViewProps {
+  /** Tasks in `backlog/archive/tasks` */
+  tasks: Task[];
+  isLoading?: boolean;
+  selectedTaskId?: string | null;
+  onTaskClick?: (task: Task) => void;
+  /** Whether archive and restore are available */
+  canArchive: boolean;
+  /** IDs of tasks being archived or restored */
+  pendingIds: Set<string>;
+  onRestore: (task: Task) => void;
+  /** Archive Done tasks not updated in the given number of days */
+  onArchiveStale: (days: number) => void;
+  isArchivingStale?: boolean;
+  /** Outcome of the last bulk archive */
+  bulkMessage?: string | null;
+}
+
+/**
+ * List of archived tasks with search, restore and bulk archiving of old Done tasks
+ */
+export const ArchivedTasksView: React.FC<ArchivedTasksViewProps> = ({
+  tasks,
+  isLoading = false,
+  selectedTaskId,
+  onTaskClick,
+  canArchive,
+  pendingIds,
+  onRestore,
+  onArchiveStale,
+  isArchivingStale = false,
+  bulkMessage,
+}) => {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState('');
+  const [days, setDays] = useState(DEFAULT_ARCHIVE_AFTER_DAYS);
+
+  const visibleTasks = useMemo(() => {
+    const parsed = parseTaskQuery(query);
+    return tasks.filter((task) => matchesTaskQuery(task, parsed));
+  }, [tasks, query]);
+
+  const inputStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: theme.colors.backgroundSecondary,
+    color: theme.colors.text,
+    outline: 'none',
+  };
+
+  const buttonStyle = (disabled: boolean): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 10px',
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: theme.colors.backgroundSecondary,
+    color: theme.colors.text,
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[1],
+    fontWeight: theme.fontWeights.medium,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.6 : 1,
+    whiteSpace: 'nowrap',
+  });
+
+  return (
+    <div style={{ flex: 1, minHeight: 0, display: 'flex', flexDirection: 'column', gap: '12px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+        <div style={{ position: 'relative', flex: '1 1 220px' }}>
+          <Search
+            size={14}
+            color={theme.colors.textMuted}
+            style={{ position: 'absolute', left: '8px', top: '50%', transform: 'translateY(-50%)' }}
+          />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search archived tasks..."
+            aria-label="Search archived tasks"
+            style={{ ...inputStyle, width: '100%', paddingLeft: '28px', boxSizing: 'border-box' }}
+          />
+        </div>
+
+        {canArchive && (
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              fontSize: theme.fontSizes[1],
+              color: theme.colors.textSecondary,
+            }}
+          >
+            <span>Archive Done tasks older than</span>
+            <input
+              type="number"
+              min={1}
+              value={days}
+              onChange={(e) => setDays(Math.max(1, Number(e.target.value) || 1))}
+              aria-label="Days since last update"
+              style={{ ...inputStyle, width: '64px' }}
+            />
+            <span>days</span>
+            <button
+              onClick={() => onArchiveStale(days)}
+              disabled={isArchivingStale}
+              style={buttonStyle(isArchivingStale)}
+            >
+              {isArchivingStale ? (
+                <Loader2 size={14} style={{ animation: 'spin 1s linear infinite' }} />
+              ) : (
+                <Archive size={14} />
+              )}
+              Archive
+            </button>
+          </div>
+        )}
+      </div>
+
+      {bulkMessage && (
+        <div role="status" style={{ fontSize: theme.fontSizes[1], color: theme.colors.textSecondary }}>
+          {bulkMessage}
+        </div>
+      )}
+
+      {visibleTasks.length === 0 ? (
+        <div
+          style={{
+            flex: 1,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '16px',
+            color: theme.colors.textSecondary,
+          }}
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={32} style={{ animation: 'spin 1s linear infinite' }} />
+              <p style={{ margin: 0, fontSize: theme.fontSizes[2] }}>Loading archived tasks...</p>
+            </>
+          ) : (
+            <>
+              <Archive size={48} color={theme.colors.border} />
+              <div style={{ textAlign: 'center' }}>
+                <p style={{ margin: 0, fontSize: theme.fontSizes[2] }}>
+                  {tasks.length === 0 ? 'No archived tasks' : 'No archived tasks match your search'}
+                </p>
+                {tasks.length === 0 && (
+                  <p style={{ margin: '8px 0 0 0', fontSize: theme.fontSizes[1] }}>
+                    Archived tasks are kept in backlog/archive/tasks
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      ) : (
+        <div
+          style={{
+            flex: 1,
+            minHeight: 0,
+            overflowY: 'auto',
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: theme.radii[2],
+          }}
+        >
+          {visibleTasks.map((task, index) => {
+            const isPending = pendingIds.has(task.id);
+            const isSelected = task.id === selectedTaskId;
+            return (
+              <div
+                key={task.filePath ?? task.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '12px',
+                  padding: '8px 12px',
+                  borderTop: index > 0 ? `1px solid ${theme.colors.border}` : 'none',
+                  background: isSelected ? `${theme.colors.primary}15` : 'transparent',
+                }}
+              >
+                <button
+                  onClick={() => onTaskClick?.(task)}
+                  title={`${task.id} - ${task.title}`}
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '12px',
+                    padding: 0,
+                    border: 'none',
+                    background: 'transparent',
+                    cursor: 'pointer',
+                    textAlign: 'left',
+                    fontFamily: theme.fonts.body,
+                  }}
+                >
+                  <span
+                    style={{
+                      flexShrink: 0,
+                      fontFamily: theme.fonts.monospace,
+                      fontSize: theme.fontSizes[0],
+                      color: theme.colors.textMuted,
+                    }}
+                  >
+                    {task.id}
+                  </span>
+                  <span
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                      fontSize: theme.fontSizes[1],
+                      color: theme.colors.text,
+                    }}
+                  >
+                    {task.title}
+                  </span>
+                  <span style={{ flexShrink: 0, fontSize: theme.fontSizes[0], color: theme.colors.textSecondary }}>
+                    {task.status}
+                  </span>
+                  <span style={{ flexShrink: 0, fontSize: theme.fontSizes[0], color: theme.colors.textMuted }}>
+                    {task.updatedDate ?? task.createdDate}
+                  </span>
+                </button>
+                {canArchive && (
+                  <button
+                    onClick={() => onRestore(task)}
+                    disabled={isPending}
+                    title="Restore to backlog/tasks"
+                    style={buttonStyle(isPending)}
+                  >
+                    {isPending ? (
+                      <Loader2 size={14} style={{ animation: 'spin 1s linear infinite' }} />
+                    ) : (
+                      <RotateCcw size={14} />
+                    )}
+                    Restore
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
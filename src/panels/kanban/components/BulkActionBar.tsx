@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { Archive, Loader2, Tag, Trash2, UserPlus, X } from 'lucide-react';
+import type { BulkProgress, BulkTaskFailure } from '../hooks/useBulkTaskActions';
+
+/** Select value standing for "clear the milestone" */
+const NO_MILESTONE = '__none__';
+
+const PRIORITIES = ['high', 'medium', 'low'] as const;
+
+// Comma-separated input, e.g. "bug, ui" -> ['bug', 'ui']
+const splitList = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+
+interface BulkActionBarProps {
+  /** Number of selected tasks (0 while only the last outcome is shown) */
+  count: number;
+  statuses: string[];
+  milestones: Array<{ id: string; title: string }>;
+  /** Whether the selection can be archived (host supports file moves) */
+  canArchive: boolean;
+  /** Batch in flight; actions are disabled while set */
+  progress: BulkProgress | null;
+  /** Outcome of the last batch */
+  summary: string | null;
+  failures: BulkTaskFailure[];
+  onSetStatus: (status: string) => void;
+  onSetPriority: (priority: 'high' | 'medium' | 'low') => void;
+  onSetAssignee: (assignee: string[]) => void;
+  onSetMilestone: (milestoneId: string | null) => void;
+  onAddLabels: (labels: string[]) => void;
+  onRemoveLabels: (labels: string[]) => void;
+  onArchive: () => void;
+  /** Ask to delete the selection (the panel confirms first) */
+  onDelete: () => void;
+  onClearSelection: () => void;
+  onDismissResult: () => void;
+}
+
+/**
+ * Toolbar shown while several cards are selected, applying one change to
+ * every selected task, with batch progress and per-task errors
+ */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count,
+  statuses,
+  milestones,
+  canArchive,
+  progress,
+  summary,
+  failures,
+  onSetStatus,
+  onSetPriority,
+  onSetAssignee,
+  onSetMilestone,
+  onAddLabels,
+  onRemoveLabels,
+  onArchive,
+  onDelete,
+  onClearSelection,
+  onDismissResult,
+}) => {
+  const { theme } = useTheme();
+  const [assignee, setAssignee] = useState('');
+  const [labels, setLabels] = useState('');
+
+  // The bar stays up after a batch empties the selection, to show its outcome
+  const isDisabled = progress !== null || count === 0;
+  const hasLabels = splitList(labels).length > 0;
+
+  const controlStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: theme.colors.background,
+    color: theme.colors.text,
+    outline: 'none',
+  };
+
+  const buttonStyle = (disabled: boolean, color = theme.colors.text): React.CSSProperties => ({
+    ...controlStyle,
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    color,
+    fontWeight: theme.fontWeights.medium,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.6 : 1,
+    whiteSpace: 'nowrap',
+  });
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      style={{
+        flexShrink: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '8px 12px',
+        background: `${theme.colors.primary}10`,
+        border: `1px solid ${theme.colors.primary}`,
+        borderRadius: theme.radii[2],
+        fontSize: theme.fontSizes[1],
+        color: theme.colors.text,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+        <span style={{ fontWeight: theme.fontWeights.semibold, whiteSpace: 'nowrap' }}>
+          {count} selected
+        </span>
+
+        <select
+          value=""
+          disabled={isDisabled}
+          onChange={(e) => e.target.value && onSetStatus(e.target.value)}
+          aria-label="Set status"
+          style={controlStyle}
+        >
+          <option value="">Status…</option>
+          {statuses.map((status) => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+
+        <select
+          value=""
+          disabled={isDisabled}
+          onChange={(e) => e.target.value && onSetPriority(e.target.value as typeof PRIORITIES[number])}
+          aria-label="Set priority"
+          style={controlStyle}
+        >
+          <option value="">Priority…</option>
+          {PRIORITIES.map((priority) => (
+            <option key={priority} value={priority}>{priority}</option>
+          ))}
+        </select>
+
+        <select
+          value=""
+          disabled={isDisabled}
+          onChange={(e) => {
+            if (!e.target.value) return;
+            onSetMilestone(e.target.value === NO_MILESTONE ? null : e.target.value);
+          }}
+          aria-label="Set milestone"
+          style={controlStyle}
+        >
+          <option value="">Milestone…</option>
+          <option value={NO_MILESTONE}>No milestone</option>
+          {milestones.map((milestone) => (
+            <option key={milestone.id} value={milestone.id}>{milestone.title}</option>
+          ))}
+        </select>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSetAssignee(splitList(assignee));
+            setAssignee('');
+          }}
+          style={{ display: 'flex', gap: '4px' }}
+        >
+          <input
+            type="text"
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            placeholder="@assignee, …"
+            aria-label="Assignees"
+            style={{ ...controlStyle, width: '120px' }}
+          />
+          <button
+            type="submit"
+            disabled={isDisabled}
+            title="Replace the assignees (leave empty to unassign)"
+            style={buttonStyle(isDisabled)}
+          >
+            <UserPlus size={14} />
+            Assign
+          </button>
+        </form>
+
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <input
+            type="text"
+            value={labels}
+            onChange={(e) => setLabels(e.target.value)}
+            placeholder="label, …"
+            aria-label="Labels"
+            style={{ ...controlStyle, width: '110px' }}
+          />
+          <button
+            onClick={() => {
+              onAddLabels(splitList(labels));
+              setLabels('');
+            }}
+            disabled={isDisabled || !hasLabels}
+            title="Add these labels"
+            style={buttonStyle(isDisabled || !hasLabels)}
+          >
+            <Tag size={14} />
+            Add
+          </button>
+          <button
+            onClick={() => {
+              onRemoveLabels(splitList(labels));
+              setLabels('');
+            }}
+            disabled={isDisabled || !hasLabels}
+            title="Remove these labels"
+            style={buttonStyle(isDisabled || !hasLabels)}
+          >
+            Remove
+          </button>
+        </div>
+
+        {canArchive && (
+          <button onClick={onArchive} disabled={isDisabled} style={buttonStyle(isDisabled)}>
+            <Archive size={14} />
+            Archive
+          </button>
+        )}
+        <button onClick={onDelete} disabled={isDisabled} style={buttonStyle(isDisabled, theme.colors.error)}>
+          <Trash2 size={14} />
+          Delete
+        </button>
+
+        <div style={{ flex: 1 }} />
+
+        {progress && (
+          <span
+            role="status"
+            style={{ display: 'flex', alignItems: 'center', gap: '6px', color: theme.colors.textSecondary }}
+          >
+            <Loader2 size={14} style={{ animation: 'spin 1s linear infinite' }} />
+            {progress.label}: {progress.done}/{progress.total}
+          </span>
+        )}
+        <button
+          onClick={onClearSelection}
+          disabled={progress !== null}
+          aria-label="Clear selection"
+          title="Clear selection (Esc)"
+          style={{ ...buttonStyle(progress !== null, theme.colors.textMuted), border: 'none', background: 'transparent' }}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {!progress && summary && (
+        <div style={{ display: 'flex', alignItems: 'flex-start', gap: '8px' }}>
+          <div role="status" style={{ flex: 1, color: failures.length > 0 ? theme.colors.error : theme.colors.textSecondary }}>
+            {summary}
+            {failures.length > 0 && (
+              <ul style={{ margin: '4px 0 0 0', paddingLeft: '18px' }}>
+                {failures.map(({ task, error }) => (
+                  <li key={task.id}>
+                    <strong>{task.id}</strong>: {error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <button
+            onClick={onDismissResult}
+            aria-label="Dismiss"
+            style={{ display: 'flex', padding: '2px', border: 'none', background: 'transparent', color: theme.colors.textMuted, cursor: 'pointer' }}
+          >
+            <X size={12} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Loader2 } from 'lucide-react';
+import { useTheme } from '@principal-ade/industry-theme';
+
+export interface ConfirmDialogProps {
+  isOpen: boolean;
+  title: string;
+  /** Body content - plain text or rich content */
+  message: React.ReactNode;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  /** Colors the title and confirm button */
+  variant?: 'danger' | 'warning' | 'primary';
+  /** Disables the buttons and shows a spinner on confirm */
+  isBusy?: boolean;
+  error?: string | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+  /** Optional third choice, shown between cancel and confirm */
+  secondaryLabel?: string;
+  onSecondary?: () => void;
+  /** Dialog width cap (default 400px) */
+  maxWidth?: string;
+}
+
+/**
+ * Themed confirmation dialog for destructive or unusual board actions
+ */
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  isOpen,
+  title,
+  message,
+  confirmLabel = 'Confirm',
+  cancelLabel = 'Cancel',
+  variant = 'primary',
+  isBusy = false,
+  error,
+  onConfirm,
+  onCancel,
+  secondaryLabel,
+  onSecondary,
+  maxWidth = '400px',
+}) => {
+  const { theme } = useTheme();
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isBusy) {
+        onCancel();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, isBusy, onCancel]);
+
+  if (!isOpen) return null;
+
+  const accentColor =
+    variant === 'danger'
+      ? theme.colors.error
+      : variant === 'warning'
+        ? theme.colors.warning
+        : theme.colors.primary;
+
+  return createPortal(
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10002,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '16px',
+      }}
+    >
+      {/* Backdrop */}
+      <div
+        onClick={isBusy ? undefined : onCancel}
+        style={{
+          position: 'absolute',
+          inset: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        }}
+      />
+
+      {/* Dialog */}
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-label={title}
+        style={{
+          position: 'relative',
+          width: '100%',
+          maxWidth,
+          maxHeight: '100%',
+          overflowY: 'auto',
+          backgroundColor: theme.colors.background,
+          borderRadius: theme.radii[3],
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)',
+          border: `1px solid ${theme.colors.border}`,
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            padding: '16px 20px',
+            borderBottom: `1px solid ${theme.colors.border}`,
+          }}
+        >
+          <h2
+            style={{
+              margin: 0,
+              fontFamily: theme.fonts.body,
+              fontSize: theme.fontSizes[4],
+              fontWeight: theme.fontWeights.semibold,
+              color: variant === 'primary' ? theme.colors.text : accentColor,
+            }}
+          >
+            {title}
+          </h2>
+          <button
+            onClick={onCancel}
+            disabled={isBusy}
+            aria-label="Close"
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: isBusy ? 'not-allowed' : 'pointer',
+              padding: '4px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              borderRadius: theme.radii[1],
+              color: theme.colors.textMuted,
+            }}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{ padding: '20px' }}>
+          <div
+            style={{
+              margin: 0,
+              fontFamily: theme.fonts.body,
+              fontSize: theme.fontSizes[2],
+              color: theme.colors.text,
+              lineHeight: 1.5,
+            }}
+          >
+            {message}
+          </div>
+
+          {error && (
+            <div
+              style={{
+                marginTop: '16px',
+                padding: '10px 12px',
+                backgroundColor: `${theme.colors.error}15`,
+                border: `1px solid ${theme.colors.error}`,
+                borderRadius: theme.radii[2],
+                fontFamily: theme.fonts.body,
+                fontSize: theme.fontSizes[1],
+                color: theme.colors.error,
+              }}
+            >
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '12px',
+            padding: '16px 20px',
+            borderTop: `1px solid ${theme.colors.border}`,
+          }}
+        >
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isBusy}
+            style={{
+              padding: '10px 20px',
+              fontFamily: theme.fonts.body,
+              fontSize: theme.fontSizes[2],
+              fontWeight: theme.fontWeights.medium,
+              border: `1px solid ${theme.colors.border}`,
+              borderRadius: theme.radii[2],
+              backgroundColor: 'transparent',
+              color: theme.colors.text,
+              cursor: isBusy ? 'not-allowed' : 'pointer',
+              opacity: isBusy ? 0.5 : 1,
+            }}
+          >
+            {cancelLabel}
+          </button>
+          {secondaryLabel && onSecondary && (
+            <button
+              type="button"
+              onClick={onSecondary}
+              disabled={isBusy}
+              style={{
+                padding: '10px 20px',
+                fontFamily: theme.fonts.body,
+                fontSize: theme.fontSizes[2],
+                fontWeight: theme.fontWeights.medium,
+                border: `1px solid ${accentColor}`,
+                borderRadius: theme.radii[2],
+                backgroundColor: 'transparent',
+                color: accentColor,
+                cursor: isBusy ? 'not-allowed' : 'pointer',
+                opacity: isBusy ? 0.5 : 1,
+              }}
+            >
+              {secondaryLabel}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={isBusy}
+            autoFocus
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '10px 20px',
+              fontFamily: theme.fonts.body,
+              fontSize: theme.fontSizes[2],
+              fontWeight: theme.fontWeights.medium,
+              border: 'none',
+              borderRadius: theme.radii[2],
+              backgroundColor: accentColor,
+              color: theme.colors.textOnPrimary,
+              cursor: isBusy ? 'not-allowed' : 'pointer',
+              opacity: isBusy ? 0.7 : 1,
+            }}
+          >
+            {isBusy && <Loader2 size={16} style={{ animation: 'spin 1s linear infinite' }} />}
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { Check, Clipboard, Download, Loader2, Save } from 'lucide-react';
+import { BOARD_EXPORT_FORMATS, getDefaultExportPath, type BoardExportFormat } from '../utils/boardExport';
+import type { BoardExportRequest, BoardExportResult } from '../hooks/useBoardExport';
+
+export interface ExportMenuProps {
+  /** Whether the host can write export files */
+  canExportToFile: boolean;
+  isExporting: boolean;
+  onExport: (request: BoardExportRequest) => Promise<BoardExportResult>;
+}
+
+/**
+ * Header dropdown for exporting the filtered board to a file or the clipboard
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ canExportToFile, isExporting, onExport }) => {
+  const { theme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<BoardExportFormat>('markdown');
+  const [path, setPath] = useState(() => getDefaultExportPath('markdown'));
+  const [result, setResult] = useState<BoardExportResult | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleFormatChange = (next: BoardExportFormat) => {
+    setFormat(next);
+    setPath(getDefaultExportPath(next));
+    setResult(null);
+  };
+
+  const handleExport = async (request: BoardExportRequest) => {
+    setResult(null);
+    setResult(await onExport(request));
+  };
+
+  const sectionLabelStyle: React.CSSProperties = {
+    padding: '8px 12px 4px',
+    fontSize: theme.fontSizes[0],
+    fontWeight: theme.fontWeights.semibold,
+    color: theme.colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: '0.04em',
+  };
+
+  const itemStyle = (isActive: boolean): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    width: '100%',
+    padding: '6px 12px',
+    border: 'none',
+    background: isActive ? theme.colors.backgroundHover : 'transparent',
+    color: theme.colors.text,
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[1],
+    textAlign: 'left',
+    cursor: 'pointer',
+  });
+
+  const actionButtonStyle = (isPrimary: boolean): React.CSSProperties => ({
+    flex: 1,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '6px',
+    padding: '6px 10px',
+    border: isPrimary ? '1px solid transparent' : `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: isPrimary ? theme.colors.primary : theme.colors.backgroundSecondary,
+    color: isPrimary ? theme.colors.textOnPrimary : theme.colors.text,
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[1],
+    fontWeight: theme.fontWeights.medium,
+    cursor: isExporting ? 'wait' : 'pointer',
+    opacity: isExporting ? 0.6 : 1,
+  });
+
+  return (
+    <div ref={containerRef} style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Export board"
+        style={{
+          background: theme.colors.backgroundSecondary,
+          border: `1px solid ${theme.colors.border}`,
+          borderRadius: theme.radii[1],
+          padding: '6px',
+          cursor: 'pointer',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+        }}
+      >
+        <Download size={16} color={theme.colors.textSecondary} />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 4px)',
+            right: 0,
+            zIndex: 1000,
+            width: '280px',
+            padding: '4px 0',
+            background: theme.colors.background,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: theme.radii[2],
+            boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.2)',
+          }}
+        >
+          <div style={sectionLabelStyle}>Export format</div>
+          {BOARD_EXPORT_FORMATS.map((option) => (
+            <button
+              key={option.value}
+              role="menuitemradio"
+              aria-checked={format === option.value}
+              onClick={() => handleFormatChange(option.value)}
+              style={itemStyle(format === option.value)}
+            >
+              <span style={{ width: '14px', display: 'flex', color: theme.colors.primary }}>
+                {format === option.value && <Check size={14} />}
+              </span>
+              {option.label}
+            </button>
+          ))}
+
+          <div style={{ height: '1px', margin: '4px 0', background: theme.colors.border }} />
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', padding: '8px 12px' }}>
+            {canExportToFile && (
+              <input
+                type="text"
+                value={path}
+                onChange={(e) => setPath(e.target.value)}
+                aria-label="Export file path"
+                style={{
+                  padding: '4px 8px',
+                  fontSize: theme.fontSizes[1],
+                  fontFamily: theme.fonts.monospace,
+                  border: `1px solid ${theme.colors.border}`,
+                  borderRadius: theme.radii[1],
+                  background: theme.colors.backgroundSecondary,
+                  color: theme.colors.text,
+                  outline: 'none',
+                }}
+              />
+            )}
+            <div style={{ display: 'flex', gap: '8px' }}>
+              {canExportToFile && (
+                <button
+                  onClick={() => handleExport({ format, destination: 'file', path })}
+                  disabled={isExporting || !path.trim()}
+                  style={actionButtonStyle(true)}
+                >
+                  {isExporting ? <Loader2 size={14} style={{ animation: 'spin 1s linear infinite' }} /> : <Save size={14} />}
+                  Save file
+                </button>
+              )}
+              <button
+                onClick={() => handleExport({ format, destination: 'clipboard' })}
+                disabled={isExporting}
+                style={actionButtonStyle(!canExportToFile)}
+              >
+                <Clipboard size={14} />
+                Copy
+              </button>
+            </div>
+            {result && (
+              <div
+                role="status"
+                style={{
+                  fontSize: theme.fontSizes[0],
+                  color: result.success ? theme.colors.success : theme.colors.error,
+                }}
+              >
+                {result.message}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
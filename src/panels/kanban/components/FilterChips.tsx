@@ -0,0 +1,93 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { formatTaskQueryFilter, type TaskQueryFilter } from '../utils/taskQuery';
+
+export interface FilterChipsProps {
+  /** Qualifiers parsed from the search query */
+  filters: TaskQueryFilter[];
+  /** Remove the qualifier at this index */
+  onRemove: (index: number) => void;
+  /** Clear the whole query */
+  onClearAll: () => void;
+}
+
+/**
+ * Removable chips for the qualifiers in the board's filter query
+ */
+export const FilterChips: React.FC<FilterChipsProps> = ({ filters, onRemove, onClearAll }) => {
+  const { theme } = useTheme();
+
+  return (
+    <div
+      style={{
+        flexShrink: 0,
+        display: 'flex',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: '6px',
+        fontSize: theme.fontSizes[1],
+        color: theme.colors.textSecondary,
+      }}
+    >
+      <span>Filtered by</span>
+      {filters.map((filter, index) => {
+        const label = formatTaskQueryFilter(filter);
+        const accent = filter.negated ? theme.colors.error : theme.colors.primary;
+        return (
+          <span
+            key={`${label}-${index}`}
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: '4px',
+              padding: '2px 4px 2px 8px',
+              borderRadius: theme.radii[1],
+              border: `1px solid ${accent}`,
+              background: `${accent}15`,
+              color: theme.colors.text,
+              fontFamily: theme.fonts.monospace,
+              fontSize: theme.fontSizes[0],
+            }}
+          >
+            {label}
+            <button
+              onClick={() => onRemove(index)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                background: 'transparent',
+                border: 'none',
+                padding: '2px',
+                cursor: 'pointer',
+                color: theme.colors.textSecondary,
+              }}
+              aria-label={`Remove filter ${label}`}
+            >
+              <X size={12} />
+            </button>
+          </span>
+        );
+      })}
+      <button
+        onClick={onClearAll}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '4px',
+          background: 'transparent',
+          border: `1px solid ${theme.colors.border}`,
+          borderRadius: theme.radii[1],
+          padding: '2px 8px',
+          cursor: 'pointer',
+          color: theme.colors.textSecondary,
+          fontSize: theme.fontSizes[0],
+        }}
+        aria-label="Clear filter"
+      >
+        <X size={12} />
+        Clear
+      </button>
+    </div>
+  );
+};
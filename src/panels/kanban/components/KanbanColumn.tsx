@@ -1,9 +1,15 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { useTheme } from '@principal-ade/industry-theme';
 import type { Task } from '@backlog-md/core';
 import { TaskCard } from './TaskCard';
+import type { TaskMenuOptions } from './TaskContextMenu';
 import type { StatusColumn } from '../hooks/useKanbanData';
+import { getLaneDropId, type BoardDropTarget } from '../utils/swimlanes';
+import type { WipStatus } from '../utils/wipLimits';
+import { hideNestedSubtasks } from '../utils/subtasks';
+import type { SelectionMode } from '../utils/taskSelection';
 
 interface KanbanColumnProps {
   /** The column status key (used as droppable ID) */
@@ -20,10 +26,30 @@ interface KanbanColumnProps {
   /** Callback to load more tasks */
   onLoadMore?: () => void;
   onTaskClick?: (task: Task) => void;
+  /** Open a task for editing (omit to disable editing) */
+  onTaskEdit?: (task: Task) => void;
   /** Whether column should take full width (for narrow/mobile views) */
   fullWidth?: boolean;
   /** Currently selected task ID */
   selectedTaskId?: string | null;
+  /** IDs of the board's multi-selected tasks */
+  multiSelectedIds?: ReadonlySet<string>;
+  /** Shift/ctrl-click on a card (omit to disable multi-select) */
+  onTaskMultiSelect?: (task: Task, mode: SelectionMode) => void;
+  /** IDs of tasks with a status write in flight */
+  pendingTaskIds?: ReadonlySet<string>;
+  /** Board actions offered in each card's context menu */
+  menuOptions?: TaskMenuOptions;
+  /** Swimlane this cell belongs to (omit for a full-height column) */
+  laneKey?: string;
+  /** Allow reordering cards by dropping them onto each other */
+  isSortable?: boolean;
+  /** Work in progress against the column's WIP limit (omit when unlimited) */
+  wip?: WipStatus;
+  /** Subtasks by parent ID; subtasks whose parent is in this column are nested under it */
+  subtaskIndex?: Map<string, Task[]>;
+  /** Unfinished dependencies by blocked task ID */
+  blockerIndex?: Map<string, Task[]>;
 }
 
 export const KanbanColumn: React.FC<KanbanColumnProps> = ({
@@ -35,16 +61,40 @@ export const KanbanColumn: React.FC<KanbanColumnProps> = ({
   isLoadingMore = false,
   onLoadMore,
   onTaskClick,
+  onTaskEdit,
   fullWidth = false,
   selectedTaskId,
+  multiSelectedIds,
+  onTaskMultiSelect,
+  pendingTaskIds,
+  menuOptions,
+  laneKey,
+  isSortable = false,
+  wip,
+  subtaskIndex,
+  blockerIndex,
 }) => {
   const { theme } = useTheme();
+  const isLaneCell = laneKey !== undefined;
 
-  const { setNodeRef, isOver } = useDroppable({
-    id: columnId,
+  // Stable, so the memoized cards don't re-render for it
+  const dropTarget = useMemo((): BoardDropTarget => ({ status: columnId, laneKey }), [columnId, laneKey]);
+  const { setNodeRef, active, over } = useDroppable({
+    id: isLaneCell ? getLaneDropId(columnId, laneKey) : columnId,
+    data: dropTarget,
   });
 
+  // Highlight drops from other columns, whether over the column or one of its cards
+  const overTarget = over?.data.current as BoardDropTarget | undefined;
+  const activeSource = active?.data.current as BoardDropTarget | undefined;
+  const isOver =
+    overTarget?.status === columnId &&
+    overTarget.laneKey === laneKey &&
+    (activeSource?.status !== columnId || activeSource.laneKey !== laneKey);
+
   const remaining = total !== undefined ? total - tasks.length : 0;
+  const cardTasks = subtaskIndex ? hideNestedSubtasks(tasks, subtaskIndex) : tasks;
+  const isOverLimit = wip?.isOver ?? false;
 
   return (
     <div
@@ -53,23 +103,25 @@ export const KanbanColumn: React.FC<KanbanColumnProps> = ({
         flex: fullWidth ? '1 1 auto' : '1 1 0', // Grow to fill available width equally
         minWidth: fullWidth ? undefined : '280px',
         alignSelf: 'stretch', // Fill parent height via flexbox
-        minHeight: 0, // Allow shrinking
+        minHeight: isLaneCell ? '72px' : 0, // Allow shrinking; lane cells stay droppable when empty
         display: 'flex',
         flexDirection: 'column',
         gap: '12px',
         background: isOver
           ? `${theme.colors.primary}10`
-          : theme.colors.backgroundSecondary,
+          : isOverLimit
+            ? `${theme.colors.warning}10`
+            : theme.colors.backgroundSecondary,
         borderRadius: theme.radii[2],
         padding: 'clamp(12px, 3vw, 16px)', // Responsive padding for mobile
         border: isOver
           ? `2px dashed ${theme.colors.primary}`
-          : `1px solid ${theme.colors.border}`,
+          : `1px solid ${isOverLimit ? theme.colors.warning : theme.colors.border}`,
         transition: 'background-color 0.2s ease, border 0.2s ease',
       }}
     >
-      {/* Column Header - hidden in narrow/mobile view (tabs show this info) */}
-      {!fullWidth && (
+      {/* Column Header - hidden in narrow/mobile view (tabs show this info) and in lanes */}
+      {!fullWidth && !isLaneCell && (
         <div
           style={{
             display: 'flex',
@@ -88,15 +140,19 @@ export const KanbanColumn: React.FC<KanbanColumnProps> = ({
             {status}
           </h3>
           <span
+            title={wip ? `WIP limit ${wip.limit}` : undefined}
             style={{
               fontSize: theme.fontSizes[1],
-              color: theme.colors.textSecondary,
+              color: isOverLimit ? theme.colors.warning : theme.colors.textSecondary,
+              fontWeight: isOverLimit ? theme.fontWeights.semibold : undefined,
               background: theme.colors.background,
               padding: '2px 8px',
               borderRadius: theme.radii[1],
             }}
           >
-            {total !== undefined ? `${tasks.length}/${total}` : tasks.length}
+            {wip
+              ? `${wip.count} / ${wip.limit}`
+              : total !== undefined ? `${tasks.length}/${total}` : tasks.length}
           </span>
         </div>
       )}
@@ -117,14 +173,28 @@ export const KanbanColumn: React.FC<KanbanColumnProps> = ({
           marginRight: '-4px',
         }}
       >
-        {tasks.map((task) => (
-          <TaskCard
-            key={task.id}
-            task={task}
-            onClick={onTaskClick}
-            isSelected={selectedTaskId === task.id}
-          />
-        ))}
+        <SortableContext
+          items={cardTasks.map((task) => task.id)}
+          strategy={verticalListSortingStrategy}
+          disabled={{ draggable: false, droppable: !isSortable }}
+        >
+          {cardTasks.map((task) => (
+            <TaskCard
+              key={task.id}
+              task={task}
+              onClick={onTaskClick}
+              onEdit={onTaskEdit}
+              isSelected={selectedTaskId === task.id}
+              isMultiSelected={multiSelectedIds?.has(task.id) ?? false}
+              onMultiSelect={onTaskMultiSelect}
+              isSaving={pendingTaskIds?.has(task.id) ?? false}
+              menuOptions={menuOptions}
+              dropTarget={dropTarget}
+              subtasks={subtaskIndex?.get(task.id)}
+              blockers={blockerIndex?.get(task.id)}
+            />
+          ))}
+        </SortableContext>
 
         {/* Load More Button */}
         {hasMore && onLoadMore && (
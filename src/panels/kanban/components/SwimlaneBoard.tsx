@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { Task } from '@backlog-md/core';
+import { KanbanColumn } from './KanbanColumn';
+import type { TaskMenuOptions } from './TaskContextMenu';
+import type { BoardGrouping } from '../utils/boardViews';
+import type { Swimlane } from '../utils/swimlanes';
+import type { WipStatus } from '../utils/wipLimits';
+import type { SelectionMode } from '../utils/taskSelection';
+
+interface SwimlaneBoardProps {
+  lanes: Swimlane[];
+  /** Status columns to render in each lane */
+  statusColumns: string[];
+  /** Current grouping (collapsed lanes reset when it changes) */
+  grouping: BoardGrouping;
+  onTaskClick?: (task: Task) => void;
+  onTaskEdit?: (task: Task) => void;
+  /** Single full-width column per lane (narrow/mobile views) */
+  fullWidth?: boolean;
+  selectedTaskId?: string | null;
+  multiSelectedIds?: ReadonlySet<string>;
+  onTaskMultiSelect?: (task: Task, mode: SelectionMode) => void;
+  pendingTaskIds?: ReadonlySet<string>;
+  menuOptions?: TaskMenuOptions;
+  /** Allow reordering cards within a lane cell */
+  isSortable?: boolean;
+  /** WIP of each limited column, across all lanes */
+  wipByStatus?: Map<string, WipStatus>;
+  /** Subtasks by parent ID */
+  subtaskIndex?: Map<string, Task[]>;
+  /** Unfinished dependencies by blocked task ID */
+  blockerIndex?: Map<string, Task[]>;
+}
+
+/**
+ * Board split into horizontal swimlanes, one droppable cell per status column
+ */
+export const SwimlaneBoard: React.FC<SwimlaneBoardProps> = ({
+  lanes,
+  statusColumns,
+  grouping,
+  onTaskClick,
+  onTaskEdit,
+  fullWidth = false,
+  selectedTaskId,
+  multiSelectedIds,
+  onTaskMultiSelect,
+  pendingTaskIds,
+  menuOptions,
+  isSortable = false,
+  wipByStatus,
+  subtaskIndex,
+  blockerIndex,
+}) => {
+  const { theme } = useTheme();
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setCollapsedLanes(new Set());
+  }, [grouping]);
+
+  const toggleLane = (key: string) => {
+    setCollapsedLanes((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const cellMinWidth = fullWidth ? undefined : '280px';
+
+  return (
+    <div
+      style={{
+        flex: '1 1 0',
+        minHeight: 0,
+        overflow: 'auto',
+        WebkitOverflowScrolling: 'touch',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '12px',
+        paddingBottom: '8px',
+      }}
+    >
+      {/* Status headers, shared by every lane */}
+      {!fullWidth && (
+        <div style={{ display: 'flex', gap: '16px', flexShrink: 0 }}>
+          {statusColumns.map((status) => {
+            const count = lanes.reduce((sum, lane) => sum + (lane.tasksByStatus.get(status)?.length ?? 0), 0);
+            const wip = wipByStatus?.get(status);
+            return (
+              <div
+                key={status}
+                style={{
+                  flex: '1 1 0',
+                  minWidth: cellMinWidth,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  padding: '0 4px',
+                }}
+              >
+                <h3
+                  style={{
+                    margin: 0,
+                    fontSize: theme.fontSizes[3],
+                    color: theme.colors.text,
+                    fontWeight: theme.fontWeights.semibold,
+                  }}
+                >
+                  {status}
+                </h3>
+                <span
+                  title={wip ? `WIP limit ${wip.limit}` : undefined}
+                  style={{
+                    fontSize: theme.fontSizes[1],
+                    color: wip?.isOver ? theme.colors.warning : theme.colors.textSecondary,
+                    fontWeight: wip?.isOver ? theme.fontWeights.semibold : undefined,
+                    background: theme.colors.backgroundSecondary,
+                    padding: '2px 8px',
+                    borderRadius: theme.radii[1],
+                  }}
+                >
+                  {wip ? `${wip.count} / ${wip.limit}` : count}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {lanes.map((lane) => {
+        const isCollapsed = collapsedLanes.has(lane.key);
+        return (
+          <section key={lane.key} style={{ flexShrink: 0, display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <button
+              onClick={() => toggleLane(lane.key)}
+              aria-expanded={!isCollapsed}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '6px 8px',
+                background: 'transparent',
+                border: 'none',
+                borderBottom: `1px solid ${theme.colors.border}`,
+                color: theme.colors.text,
+                fontFamily: theme.fonts.body,
+                fontSize: theme.fontSizes[2],
+                fontWeight: theme.fontWeights.semibold,
+                textAlign: 'left',
+                cursor: 'pointer',
+              }}
+            >
+              {isCollapsed ? (
+                <ChevronRight size={16} color={theme.colors.textSecondary} />
+              ) : (
+                <ChevronDown size={16} color={theme.colors.textSecondary} />
+              )}
+              <span
+                style={{
+                  color: lane.key ? theme.colors.text : theme.colors.textSecondary,
+                  fontStyle: lane.key ? 'normal' : 'italic',
+                }}
+              >
+                {lane.title}
+              </span>
+              <span
+                style={{
+                  fontSize: theme.fontSizes[0],
+                  fontWeight: theme.fontWeights.medium,
+                  color: theme.colors.textSecondary,
+                  background: theme.colors.backgroundSecondary,
+                  padding: '2px 8px',
+                  borderRadius: theme.radii[1],
+                }}
+              >
+                {lane.count}
+              </span>
+            </button>
+
+            {!isCollapsed && (
+              <div style={{ display: 'flex', gap: '16px', alignItems: 'stretch' }}>
+                {statusColumns.map((status) => (
+                  <KanbanColumn
+                    key={status}
+                    columnId={status}
+                    status={status}
+                    laneKey={lane.key}
+                    tasks={lane.tasksByStatus.get(status) ?? []}
+                    onTaskClick={onTaskClick}
+                    onTaskEdit={onTaskEdit}
+                    fullWidth={fullWidth}
+                    selectedTaskId={selectedTaskId}
+                    multiSelectedIds={multiSelectedIds}
+                    onTaskMultiSelect={onTaskMultiSelect}
+                    pendingTaskIds={pendingTaskIds}
+                    menuOptions={menuOptions}
+                    isSortable={isSortable}
+                    subtaskIndex={subtaskIndex}
+                    blockerIndex={blockerIndex}
+                  />
+                ))}
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
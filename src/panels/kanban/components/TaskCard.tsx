@@ -1,9 +1,14 @@
 import React, { useState } from 'react';
-import { useDraggable } from '@dnd-kit/core';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
 import { useTheme } from '@principal-ade/industry-theme';
-import { ExternalLink, GitBranch } from 'lucide-react';
-import type { Task } from '@backlog-md/core';
-import { TaskContextMenu } from './TaskContextMenu';
+import { ChevronDown, ChevronRight, ExternalLink, GitBranch, Link2, ListChecks, ListTree, Lock } from 'lucide-react';
+import { isDoneStatus, type Task } from '@backlog-md/core';
+import { TaskContextMenu, type TaskMenuAction, type TaskMenuOptions } from './TaskContextMenu';
+import { getTracer, SpanStatusCode } from '../../../telemetry';
+import type { BoardDropTarget } from '../utils/swimlanes';
+import { getSubtaskProgress } from '../utils/subtasks';
+import type { SelectionMode } from '../utils/taskSelection';
 
 /** Extract GitHub issue info from a task's references */
 function getGitHubIssueFromRefs(references?: string[]): { number: number; url: string } | null {
@@ -21,30 +26,57 @@ function getGitHubIssueFromRefs(references?: string[]): { number: number; url: s
 export interface TaskCardProps {
   task: Task;
   onClick?: (task: Task) => void;
+  /** Open the task for editing (double-click / context menu) */
+  onEdit?: (task: Task) => void;
   isDragOverlay?: boolean;
   isSelected?: boolean;
+  /** Whether the card is part of the board's multi-selection */
+  isMultiSelected?: boolean;
+  /** Shift-click (range) or ctrl/cmd-click (toggle) on the card (omit to disable multi-select) */
+  onMultiSelect?: (task: Task, mode: SelectionMode) => void;
+  /** Whether a status change for this task is being saved (dragging is disabled) */
+  isSaving?: boolean;
+  /** Board actions offered in the context menu */
+  menuOptions?: TaskMenuOptions;
+  /** Column (and lane) the card sits in, for drops onto the card */
+  dropTarget?: BoardDropTarget;
+  /** Child tasks (parentTaskId), shown as progress and an expandable list */
+  subtasks?: Task[];
+  /** Unfinished dependencies; the card is shown as blocked while there are any */
+  blockers?: Task[];
 }
 
-export const TaskCard: React.FC<TaskCardProps> = ({
+const TaskCardComponent: React.FC<TaskCardProps> = ({
   task,
   onClick,
+  onEdit,
   isDragOverlay = false,
   isSelected = false,
+  isMultiSelected = false,
+  onMultiSelect,
+  isSaving = false,
+  menuOptions,
+  dropTarget,
+  subtasks = [],
+  blockers = [],
 }) => {
   const { theme } = useTheme();
   const [contextMenuPosition, setContextMenuPosition] = useState<{ x: number; y: number } | null>(null);
-  const [copyFeedback, setCopyFeedback] = useState(false);
+  const [copyFeedback, setCopyFeedback] = useState<string | null>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
 
-  // Only use draggable hook for non-overlay cards
+  // Sortable within its column; disabled for overlay cards
   const {
     attributes,
     listeners,
     setNodeRef,
+    transform,
+    transition,
     isDragging,
-  } = useDraggable({
+  } = useSortable({
     id: task.id,
-    data: { task },
-    disabled: isDragOverlay,
+    data: { task, ...dropTarget },
+    disabled: isDragOverlay || isSaving,
   });
 
   const getPriorityColor = (priority?: string) => {
@@ -60,24 +92,28 @@ export const TaskCard: React.FC<TaskCardProps> = ({
     }
   };
 
+  const restingBorderLeft = `4px solid ${isMultiSelected ? theme.colors.primary : 'transparent'}`;
+
   // Base styles for the card
   const style: React.CSSProperties = {
     flexShrink: 0,
-    background: theme.colors.surface,
+    background: isMultiSelected ? `${theme.colors.primary}15` : theme.colors.surface,
     borderRadius: theme.radii[2],
     padding: '12px',
-    border: `1px solid ${theme.colors.border}`,
-    borderLeft: `4px solid transparent`,
+    border: `1px solid ${isMultiSelected ? theme.colors.primary : theme.colors.border}`,
+    borderLeft: restingBorderLeft,
     borderRight: `4px solid ${getPriorityColor(task.priority)}`,
-    cursor: isDragOverlay ? 'grabbing' : 'grab',
-    transition: isDragging ? 'none' : 'all 0.2s ease',
+    cursor: isDragOverlay ? 'grabbing' : isSaving ? 'progress' : 'grab',
+    // Cards make room for the dragged card while sorting
+    transform: CSS.Transform.toString(transform),
+    transition: isDragging ? 'none' : transition ?? 'all 0.2s ease',
     minHeight: '44px',
     touchAction: 'none',
     userSelect: 'none',
     fontFamily: theme.fonts.body,
     // When dragging, the original card stays in place but becomes a placeholder
     // The DragOverlay handles the visual movement
-    opacity: isDragging ? 0.4 : 1,
+    opacity: isDragging ? 0.4 : isSaving ? 0.7 : 1,
     // Overlay card styling
     ...(isDragOverlay && {
       boxShadow: `0 8px 16px rgba(0, 0, 0, 0.15)`,
@@ -87,11 +123,24 @@ export const TaskCard: React.FC<TaskCardProps> = ({
     }),
   };
 
-  const handleClick = (_e: React.MouseEvent) => {
+  const handleClick = (e: React.MouseEvent) => {
     // Only trigger click if not dragging
-    if (!isDragging && onClick) {
-      onClick(task);
+    if (isDragging) return;
+
+    if (onMultiSelect && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onMultiSelect(task, e.shiftKey ? 'range' : 'toggle');
+      return;
     }
+    onClick?.(task);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (isDragging || isDragOverlay || !onEdit) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    onEdit(task);
   };
 
   const handleContextMenu = (e: React.MouseEvent) => {
@@ -103,15 +152,53 @@ export const TaskCard: React.FC<TaskCardProps> = ({
     setContextMenuPosition({ x: e.clientX, y: e.clientY });
   };
 
+  // Copy task details to the clipboard and show a confirmation toast
+  const copyToClipboard = async (kind: 'id' | 'link' | 'path', text: string, feedback: string) => {
+    const tracer = getTracer();
+    const span = tracer.startSpan('board.interaction', {
+      attributes: { 'task.id': task.id },
+    });
+
+    try {
+      await navigator.clipboard.writeText(text);
+      span.addEvent('task.copied', {
+        'task.id': task.id,
+        'copy.kind': kind,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+      setCopyFeedback(feedback);
+      setTimeout(() => setCopyFeedback(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: 'Clipboard write failed' });
+    } finally {
+      span.end();
+    }
+  };
+
   const handleCopyPath = async (task: Task) => {
     if (task.filePath) {
-      try {
-        await navigator.clipboard.writeText(task.filePath);
-        setCopyFeedback(true);
-        setTimeout(() => setCopyFeedback(false), 2000);
-      } catch (err) {
-        console.error('Failed to copy task path:', err);
-      }
+      await copyToClipboard('path', task.filePath, 'Task path copied to clipboard!');
+    }
+  };
+
+  const handleMenuAction = (task: Task, action: TaskMenuAction) => {
+    switch (action.type) {
+      case 'copy-id':
+        copyToClipboard('id', task.id, 'Task ID copied to clipboard!');
+        return;
+      case 'copy-link':
+        if (task.filePath) {
+          copyToClipboard(
+            'link',
+            `[${task.id} - ${task.title}](${encodeURI(task.filePath)})`,
+            'Markdown link copied to clipboard!'
+          );
+        }
+        return;
+      default:
+        menuOptions?.onAction(task, action);
     }
   };
 
@@ -124,6 +211,7 @@ export const TaskCard: React.FC<TaskCardProps> = ({
         ref={setNodeRef}
         style={style}
         onClick={handleClick}
+        onDoubleClick={handleDoubleClick}
         onContextMenu={handleContextMenu}
         {...listeners}
         {...attributes}
@@ -134,7 +222,7 @@ export const TaskCard: React.FC<TaskCardProps> = ({
         }}
         onMouseLeave={(e) => {
           if (!isDragging && !isDragOverlay) {
-            e.currentTarget.style.borderLeft = `4px solid transparent`;
+            e.currentTarget.style.borderLeft = restingBorderLeft;
           }
         }}
       >
@@ -151,6 +239,26 @@ export const TaskCard: React.FC<TaskCardProps> = ({
         >
           {displayTitle}
         </h4>
+        {blockers.length > 0 && (
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '3px',
+              padding: '2px 6px',
+              borderRadius: theme.radii[1],
+              background: `${theme.colors.error}20`,
+              color: theme.colors.error,
+              fontSize: theme.fontSizes[0],
+              fontWeight: theme.fontWeights.medium,
+              flexShrink: 0,
+            }}
+            title={`Blocked by ${blockers.map((blocker) => blocker.id).join(', ')}`}
+          >
+            <Lock size={10} />
+            Blocked
+          </div>
+        )}
         {getGitHubIssueFromRefs(task.references) && (
           <div
             style={{
@@ -258,6 +366,40 @@ export const TaskCard: React.FC<TaskCardProps> = ({
               </a>
             );
           })()}
+          {task.dependencies && task.dependencies.length > 0 && (
+            <span
+              style={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: '3px',
+                color: blockers.length > 0 ? theme.colors.error : theme.colors.textMuted,
+              }}
+              title={`Depends on ${task.dependencies.join(', ')}`}
+            >
+              <Link2 size={10} />
+              {task.dependencies.length}
+            </span>
+          )}
+          {(() => {
+            const criteria = task.acceptanceCriteriaItems ?? [];
+            if (criteria.length === 0) return null;
+            const checked = criteria.filter((item) => item.checked).length;
+            const isComplete = checked === criteria.length;
+            return (
+              <span
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: '3px',
+                  color: isComplete ? theme.colors.success : theme.colors.textMuted,
+                }}
+                title={`${checked} of ${criteria.length} acceptance criteria complete`}
+              >
+                <ListChecks size={10} />
+                {checked}/{criteria.length}
+              </span>
+            );
+          })()}
         </div>
         {task.assignee && task.assignee.length > 0 && (
           <span
@@ -270,6 +412,111 @@ export const TaskCard: React.FC<TaskCardProps> = ({
           </span>
         )}
       </div>
+
+      {/* Subtask progress and nested list */}
+      {subtasks.length > 0 && (() => {
+        const { done, total } = getSubtaskProgress(subtasks);
+        const isComplete = done === total;
+        return (
+          <div style={{ marginTop: '8px' }}>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsExpanded((expanded) => !expanded);
+              }}
+              aria-expanded={isExpanded}
+              title={`${done} of ${total} subtasks done`}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                width: '100%',
+                padding: 0,
+                background: 'transparent',
+                border: 'none',
+                cursor: 'pointer',
+                fontSize: theme.fontSizes[0],
+                color: isComplete ? theme.colors.success : theme.colors.textSecondary,
+              }}
+            >
+              {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              <ListTree size={12} />
+              <span>
+                {done}/{total} subtask{total !== 1 ? 's' : ''}
+              </span>
+              <span
+                style={{
+                  flex: 1,
+                  height: '4px',
+                  borderRadius: theme.radii[1],
+                  background: theme.colors.backgroundSecondary,
+                  overflow: 'hidden',
+                }}
+              >
+                <span
+                  style={{
+                    display: 'block',
+                    height: '100%',
+                    width: `${(done / total) * 100}%`,
+                    background: isComplete ? theme.colors.success : theme.colors.primary,
+                    transition: 'width 0.2s ease',
+                  }}
+                />
+              </span>
+            </button>
+
+            {isExpanded && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '2px', marginTop: '6px' }}>
+                {subtasks.map((child) => (
+                  <button
+                    key={child.id}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onClick?.(child);
+                    }}
+                    title={`${child.id} - ${child.title} (${child.status})`}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '6px',
+                      padding: '4px 6px',
+                      background: theme.colors.backgroundSecondary,
+                      border: 'none',
+                      borderRadius: theme.radii[1],
+                      cursor: 'pointer',
+                      textAlign: 'left',
+                      fontSize: theme.fontSizes[0],
+                      color: theme.colors.text,
+                    }}
+                  >
+                    <span
+                      style={{
+                        width: '6px',
+                        height: '6px',
+                        flexShrink: 0,
+                        borderRadius: '50%',
+                        background: isDoneStatus(child.status) ? theme.colors.success : theme.colors.textMuted,
+                      }}
+                    />
+                    <span style={{ fontFamily: theme.fonts.monospace, color: theme.colors.textMuted }}>{child.id}</span>
+                    <span
+                      style={{
+                        flex: 1,
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                        textDecoration: isDoneStatus(child.status) ? 'line-through' : 'none',
+                      }}
+                    >
+                      {child.title}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })()}
       </div>
 
       {contextMenuPosition && (
@@ -278,6 +525,9 @@ export const TaskCard: React.FC<TaskCardProps> = ({
           position={contextMenuPosition}
           onClose={() => setContextMenuPosition(null)}
           onCopyPath={handleCopyPath}
+          onEdit={onEdit}
+          options={menuOptions}
+          onAction={handleMenuAction}
         />
       )}
 
@@ -297,9 +547,15 @@ export const TaskCard: React.FC<TaskCardProps> = ({
             fontWeight: theme.fontWeights.medium,
           }}
         >
-          Task path copied to clipboard!
+          {copyFeedback}
         </div>
       )}
     </>
   );
 };
+
+/**
+ * Memoized so that reloading some tasks (e.g. files changed on disk) only
+ * re-renders their cards; unchanged tasks keep the same object
+ */
+export const TaskCard = React.memo(TaskCardComponent);
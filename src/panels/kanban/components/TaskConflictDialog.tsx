@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useTheme } from '@principal-ade/industry-theme';
+import type { TaskUpdateInput } from '@backlog-md/core';
+import { ConfirmDialog } from './ConfirmDialog';
+import type { TaskWriteConflict } from '../../../adapters/PanelCore';
+import {
+  MERGE_FIELD_LABELS,
+  buildMergedUpdate,
+  resolveFieldValue,
+  type MergeChoice,
+  type MergeField,
+  type MergeFieldValue,
+} from '../../../adapters/taskMerge';
+
+export interface TaskConflictDialogProps {
+  /** The write waiting on the user, or null when there is none */
+  conflict: TaskWriteConflict | null;
+  /** The update to write over theirs, or null to drop mine */
+  onResolve: (input: TaskUpdateInput | null) => void;
+}
+
+const CHOICE_LABELS: Record<MergeChoice, string> = {
+  keep: 'Keep mine',
+  take: 'Take theirs',
+  merge: 'Merge',
+};
+
+// One line per list item or criterion; text as is
+function formatValue(value: MergeFieldValue): string {
+  if (value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    return value
+      .map((item) => (typeof item === 'string' ? item : `[${item.checked ? 'x' : ' '}] ${item.text}`))
+      .join('\n');
+  }
+  return String(value);
+}
+
+/**
+ * Merge dialog for a task write that ran into a change made on disk since the
+ * task was loaded: per field, what it was (base), what it is now (theirs) and
+ * what the edit wanted (mine), with a keep/take/merge choice.
+ */
+export const TaskConflictDialog: React.FC<TaskConflictDialogProps> = ({ conflict, onResolve }) => {
+  const { theme } = useTheme();
+  const [choices, setChoices] = useState<Partial<Record<MergeField, MergeChoice>>>({});
+
+  // Start each conflict from the suggested choices
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const fields = conflict?.fields ?? [];
+  const overlapping = fields.filter((diff) => diff.conflicting).length;
+
+  const columnStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 8px',
+    borderRadius: theme.radii[1],
+    border: `1px solid ${theme.colors.border}`,
+    backgroundColor: theme.colors.backgroundSecondary,
+    fontFamily: theme.fonts.monospace,
+    fontSize: theme.fontSizes[0],
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+    maxHeight: '120px',
+    overflowY: 'auto',
+  };
+
+  const captionStyle: React.CSSProperties = {
+    fontSize: theme.fontSizes[0],
+    color: theme.colors.textMuted,
+    marginBottom: '2px',
+  };
+
+  return (
+    <ConfirmDialog
+      isOpen={conflict !== null}
+      title="Task changed elsewhere"
+      maxWidth="720px"
+      variant="warning"
+      confirmLabel="Save merged"
+      cancelLabel="Discard my change"
+      onConfirm={() => onResolve(buildMergedUpdate(fields, choices))}
+      onCancel={() => onResolve(null)}
+      message={
+        <>
+          <p style={{ margin: '0 0 12px 0' }}>
+            <strong style={{ color: theme.colors.primary }}>"{conflict?.base.title}"</strong> was changed on disk
+            after it was loaded. {overlapping} field{overlapping !== 1 ? 's were' : ' was'} changed on both sides;
+            choose what to save for each.
+          </p>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {fields.map((diff) => {
+              const choice = choices[diff.field] ?? diff.defaultChoice;
+              const options: MergeChoice[] = diff.mergeable ? ['keep', 'take', 'merge'] : ['keep', 'take'];
+
+              return (
+                <div
+                  key={diff.field}
+                  style={{
+                    padding: '10px',
+                    borderRadius: theme.radii[2],
+                    border: `1px solid ${diff.conflicting ? theme.colors.warning : theme.colors.border}`,
+                  }}
+                >
+                  <div
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'space-between',
+                      gap: '8px',
+                      marginBottom: '8px',
+                    }}
+                  >
+                    <span
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '6px',
+                        fontWeight: theme.fontWeights.semibold,
+                      }}
+                    >
+                      {diff.conflicting && <AlertTriangle size={14} color={theme.colors.warning} />}
+                      {MERGE_FIELD_LABELS[diff.field]}
+                    </span>
+                    <div role="radiogroup" aria-label={MERGE_FIELD_LABELS[diff.field]} style={{ display: 'flex', gap: '4px' }}>
+                      {options.map((option) => (
+                        <button
+                          key={option}
+                          type="button"
+                          role="radio"
+                          aria-checked={choice === option}
+                          onClick={() => setChoices((prev) => ({ ...prev, [diff.field]: option }))}
+                          style={{
+                            padding: '4px 10px',
+                            fontFamily: theme.fonts.body,
+                            fontSize: theme.fontSizes[0],
+                            borderRadius: theme.radii[1],
+                            border: `1px solid ${choice === option ? theme.colors.primary : theme.colors.border}`,
+                            backgroundColor: choice === option ? theme.colors.primary : 'transparent',
+                            color: choice === option ? theme.colors.textOnPrimary : theme.colors.text,
+                            cursor: 'pointer',
+                          }}
+                        >
+                          {CHOICE_LABELS[option]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={captionStyle}>Base</div>
+                      <div style={{ ...columnStyle, color: theme.colors.textMuted }}>{formatValue(diff.base)}</div>
+                    </div>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={captionStyle}>Theirs</div>
+                      <div style={columnStyle}>{formatValue(diff.theirs)}</div>
+                    </div>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={captionStyle}>Mine</div>
+                      <div style={columnStyle}>{formatValue(diff.mine)}</div>
+                    </div>
+                  </div>
+
+                  {choice === 'merge' && (
+                    <div style={{ marginTop: '8px' }}>
+                      <div style={captionStyle}>Merged</div>
+                      <div style={columnStyle}>{formatValue(resolveFieldValue(diff, choice))}</div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      }
+    />
+  );
+};
@@ -1,21 +1,260 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { Task } from '@backlog-md/core';
+import { useTheme } from '@principal-ade/industry-theme';
+import {
+  Archive,
+  ArrowRightLeft,
+  Check,
+  ChevronRight,
+  Copy,
+  ExternalLink,
+  Flag,
+  Hash,
+  Link,
+  Pencil,
+  Target,
+  Trash2,
+} from 'lucide-react';
+import type { Task } from '@backlog-md/core';
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+/** Actions the context menu can request for a task */
+export type TaskMenuAction =
+  | { type: 'edit' }
+  | { type: 'move'; status: string }
+  | { type: 'set-priority'; priority: TaskPriority }
+  | { type: 'set-milestone'; milestoneId: string | null }
+  | { type: 'duplicate' }
+  | { type: 'archive' }
+  | { type: 'delete' }
+  | { type: 'open-file' }
+  | { type: 'copy-id' }
+  | { type: 'copy-link' }
+  | { type: 'copy-path' };
+
+/** Board-level options shared by every card's context menu */
+export interface TaskMenuOptions {
+  /** Status columns offered in the "Move to" submenu */
+  statuses: string[];
+  /** Milestones offered in the "Milestone" submenu */
+  milestones: Array<{ id: string; title: string }>;
+  /** Whether write actions are available */
+  canWrite: boolean;
+  /** Whether the host can open files */
+  canOpenFile: boolean;
+  /** Whether tasks can be moved to the archive folder (defaults to `canWrite`) */
+  canArchive?: boolean;
+  onAction: (task: Task, action: TaskMenuAction) => void;
+}
 
 export interface TaskContextMenuProps {
   task: Task;
   position: { x: number; y: number };
   onClose: () => void;
   onCopyPath: (task: Task) => void;
+  /** Open the task in the edit modal (item hidden when not provided) */
+  onEdit?: (task: Task) => void;
+  /** Board actions - when omitted only the edit and copy actions are offered */
+  options?: TaskMenuOptions;
+  /** Handle a selected action (defaults to options.onAction) */
+  onAction?: (task: Task, action: TaskMenuAction) => void;
+}
+
+interface MenuItem {
+  key: string;
+  label: string;
+  icon?: React.ReactNode;
+  disabled?: boolean;
+  danger?: boolean;
+  checked?: boolean;
+  /** Draw a divider above this item */
+  separator?: boolean;
+  action?: TaskMenuAction;
+  submenu?: MenuItem[];
 }
 
+const PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+const nextEnabledIndex = (items: MenuItem[], from: number, step: 1 | -1): number => {
+  for (let i = 1; i <= items.length; i++) {
+    const index = (from + step * i + items.length) % items.length;
+    if (!items[index].disabled) return index;
+  }
+  return from;
+};
+
+/**
+ * Themed, keyboard-navigable context menu for a task card.
+ *
+ * Arrow keys move between items, Right/Enter opens a submenu, Left/Escape
+ * closes it, and Escape on the root menu closes the menu.
+ */
 export const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
   task,
   position,
   onClose,
   onCopyPath,
+  onEdit,
+  options,
+  onAction,
 }) => {
+  const { theme } = useTheme();
   const menuRef = useRef<HTMLDivElement>(null);
+  const [adjustedPosition, setAdjustedPosition] = useState(position);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [openSubmenu, setOpenSubmenu] = useState<string | null>(null);
+  const [subActiveIndex, setSubActiveIndex] = useState(-1);
+
+  const canWrite = options?.canWrite ?? false;
+
+  const items = useMemo((): MenuItem[] => {
+    const result: MenuItem[] = [];
+
+    if (onEdit || options) {
+      result.push({
+        key: 'edit',
+        label: 'Edit Task',
+        icon: <Pencil size={14} />,
+        disabled: options ? !canWrite : false,
+        action: { type: 'edit' },
+      });
+    }
+
+    if (options) {
+      result.push(
+        {
+          key: 'move',
+          label: 'Move to',
+          icon: <ArrowRightLeft size={14} />,
+          disabled: !canWrite,
+          submenu: options.statuses.map((status) => ({
+            key: `move:${status}`,
+            label: status,
+            checked: task.status === status,
+            disabled: task.status === status,
+            action: { type: 'move', status },
+          })),
+        },
+        {
+          key: 'priority',
+          label: 'Priority',
+          icon: <Flag size={14} />,
+          disabled: !canWrite,
+          submenu: PRIORITIES.map((priority) => ({
+            key: `priority:${priority}`,
+            label: priority.charAt(0).toUpperCase() + priority.slice(1),
+            checked: task.priority === priority,
+            disabled: task.priority === priority,
+            action: { type: 'set-priority', priority },
+          })),
+        },
+        {
+          key: 'milestone',
+          label: 'Milestone',
+          icon: <Target size={14} />,
+          disabled: !canWrite,
+          submenu: [
+            {
+              key: 'milestone:none',
+              label: 'No milestone',
+              checked: !task.milestone,
+              disabled: !task.milestone,
+              action: { type: 'set-milestone', milestoneId: null },
+            },
+            ...options.milestones.map((milestone) => ({
+              key: `milestone:${milestone.id}`,
+              label: milestone.title,
+              checked: task.milestone === milestone.id,
+              disabled: task.milestone === milestone.id,
+              action: { type: 'set-milestone', milestoneId: milestone.id } as TaskMenuAction,
+            })),
+          ],
+        },
+        {
+          key: 'duplicate',
+          label: 'Duplicate',
+          icon: <Copy size={14} />,
+          disabled: !canWrite,
+          action: { type: 'duplicate' },
+        },
+        {
+          key: 'archive',
+          label: 'Archive',
+          icon: <Archive size={14} />,
+          disabled: !(options.canArchive ?? canWrite),
+          action: { type: 'archive' },
+        }
+      );
+
+      if (options.canOpenFile) {
+        result.push({
+          key: 'open-file',
+          label: 'Open File',
+          icon: <ExternalLink size={14} />,
+          disabled: !task.filePath,
+          separator: true,
+          action: { type: 'open-file' },
+        });
+      }
+    }
+
+    result.push(
+      {
+        key: 'copy-id',
+        label: 'Copy ID',
+        icon: <Hash size={14} />,
+        separator: Boolean(options) && !options?.canOpenFile,
+        action: { type: 'copy-id' },
+      },
+      {
+        key: 'copy-link',
+        label: 'Copy Markdown Link',
+        icon: <Link size={14} />,
+        disabled: !task.filePath,
+        action: { type: 'copy-link' },
+      },
+      {
+        key: 'copy-path',
+        label: 'Copy Task Path',
+        icon: <Copy size={14} />,
+        disabled: !task.filePath,
+        action: { type: 'copy-path' },
+      }
+    );
+
+    if (options) {
+      result.push({
+        key: 'delete',
+        label: 'Delete…',
+        icon: <Trash2 size={14} />,
+        danger: true,
+        disabled: !canWrite,
+        separator: true,
+        action: { type: 'delete' },
+      });
+    }
+
+    return result;
+  }, [task, options, onEdit, canWrite]);
+
+  const openItem = openSubmenu ? items.find((item) => item.key === openSubmenu) : undefined;
+  const submenuItems = openItem?.submenu ?? [];
+
+  // Focus the menu so it receives keyboard events
+  useEffect(() => {
+    menuRef.current?.focus();
+  }, []);
+
+  // Keep the menu inside the viewport
+  useLayoutEffect(() => {
+    const rect = menuRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setAdjustedPosition({
+      x: Math.max(8, Math.min(position.x, window.innerWidth - rect.width - 8)),
+      y: Math.max(8, Math.min(position.y, window.innerHeight - rect.height - 8)),
+    });
+  }, [position]);
 
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -24,64 +263,225 @@ export const TaskContextMenu: React.FC<TaskContextMenuProps> = ({
       }
     };
 
-    const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
-        onClose();
-      }
-    };
-
     document.addEventListener('mousedown', handleClickOutside);
-    document.addEventListener('keydown', handleEscape);
-
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
-      document.removeEventListener('keydown', handleEscape);
     };
   }, [onClose]);
 
-  const handleCopyPath = () => {
-    onCopyPath(task);
+  const runItem = (item: MenuItem) => {
+    if (item.disabled || !item.action) return;
+
+    if (item.action.type === 'copy-path') {
+      onCopyPath(task);
+    } else if (item.action.type === 'edit' && onEdit) {
+      onEdit(task);
+    } else {
+      (onAction ?? options?.onAction)?.(task, item.action);
+    }
     onClose();
   };
 
-  const menuStyle: React.CSSProperties = {
-    position: 'fixed',
-    top: position.y,
-    left: position.x,
-    backgroundColor: '#ffffff',
-    border: '1px solid #e0e0e0',
-    borderRadius: '4px',
-    boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15)',
-    padding: '4px 0',
-    minWidth: '180px',
-    zIndex: 10000,
+  const openSubmenuFor = (item: MenuItem, focusFirst: boolean) => {
+    if (item.disabled || !item.submenu) return;
+    setOpenSubmenu(item.key);
+    setSubActiveIndex(focusFirst ? nextEnabledIndex(item.submenu, -1, 1) : -1);
   };
 
-  const menuItemStyle: React.CSSProperties = {
-    padding: '8px 16px',
-    cursor: 'pointer',
-    fontSize: '14px',
-    color: '#333',
-    transition: 'background-color 0.15s ease',
+  const activateItem = (item: MenuItem) => {
+    if (item.submenu) {
+      openSubmenuFor(item, true);
+    } else {
+      runItem(item);
+    }
   };
 
-  const menuItemHoverStyle: React.CSSProperties = {
-    ...menuItemStyle,
-    backgroundColor: '#f5f5f5',
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const inSubmenu = openSubmenu !== null && subActiveIndex >= 0;
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        if (inSubmenu) {
+          setSubActiveIndex(nextEnabledIndex(submenuItems, subActiveIndex, step));
+        } else {
+          setOpenSubmenu(null);
+          setActiveIndex(nextEnabledIndex(items, activeIndex, step));
+        }
+        break;
+      }
+      case 'Home':
+      case 'End': {
+        const list = inSubmenu ? submenuItems : items;
+        const index = e.key === 'Home'
+          ? nextEnabledIndex(list, -1, 1)
+          : nextEnabledIndex(list, list.length, -1);
+        if (inSubmenu) setSubActiveIndex(index);
+        else setActiveIndex(index);
+        break;
+      }
+      case 'ArrowRight': {
+        const item = items[activeIndex];
+        if (!inSubmenu && item?.submenu) openSubmenuFor(item, true);
+        break;
+      }
+      case 'ArrowLeft':
+        if (openSubmenu) {
+          setOpenSubmenu(null);
+          setSubActiveIndex(-1);
+        }
+        break;
+      case 'Enter':
+      case ' ': {
+        if (inSubmenu) {
+          const item = submenuItems[subActiveIndex];
+          if (item) runItem(item);
+        } else {
+          const item = items[activeIndex];
+          if (item) activateItem(item);
+        }
+        break;
+      }
+      case 'Escape':
+        if (openSubmenu) {
+          setOpenSubmenu(null);
+          setSubActiveIndex(-1);
+        } else {
+          onClose();
+        }
+        break;
+      case 'Tab':
+        onClose();
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    e.stopPropagation();
   };
 
-  const [isHovering, setIsHovering] = React.useState(false);
+  const panelStyle: React.CSSProperties = {
+    backgroundColor: theme.colors.background,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[2],
+    boxShadow: '0 4px 16px rgba(0, 0, 0, 0.2)',
+    padding: '4px 0',
+    minWidth: '200px',
+    fontFamily: theme.fonts.body,
+    outline: 'none',
+  };
 
-  return createPortal(
-    <div ref={menuRef} style={menuStyle}>
+  const renderItem = (
+    item: MenuItem,
+    isActive: boolean,
+    onHover: () => void,
+    onSelect: () => void
+  ) => {
+    const color = item.danger ? theme.colors.error : theme.colors.text;
+    return (
       <div
-        style={isHovering ? menuItemHoverStyle : menuItemStyle}
-        onMouseEnter={() => setIsHovering(true)}
-        onMouseLeave={() => setIsHovering(false)}
-        onClick={handleCopyPath}
+        key={item.key}
+        role="menuitem"
+        aria-disabled={item.disabled || undefined}
+        aria-haspopup={item.submenu ? 'menu' : undefined}
+        aria-expanded={item.submenu ? openSubmenu === item.key : undefined}
+        onMouseEnter={onHover}
+        onClick={(e) => {
+          e.stopPropagation();
+          onSelect();
+        }}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '7px 12px',
+          fontSize: theme.fontSizes[1],
+          color: item.disabled ? theme.colors.textMuted : color,
+          backgroundColor: isActive && !item.disabled ? theme.colors.backgroundHover : 'transparent',
+          cursor: item.disabled ? 'default' : 'pointer',
+          opacity: item.disabled ? 0.6 : 1,
+          transition: 'background-color 0.15s ease',
+        }}
       >
-        Copy Task Path
+        <span style={{ display: 'flex', width: '14px', color: item.danger ? theme.colors.error : theme.colors.textSecondary }}>
+          {item.checked ? <Check size={14} /> : item.icon}
+        </span>
+        <span style={{ flex: 1, whiteSpace: 'nowrap' }}>{item.label}</span>
+        {item.submenu && <ChevronRight size={14} style={{ color: theme.colors.textSecondary }} />}
       </div>
+    );
+  };
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      role="menu"
+      aria-label={`Actions for ${task.id}`}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      onContextMenu={(e) => e.preventDefault()}
+      style={{
+        ...panelStyle,
+        position: 'fixed',
+        top: adjustedPosition.y,
+        left: adjustedPosition.x,
+        zIndex: 10000,
+      }}
+    >
+      {items.map((item, index) => (
+        <div key={item.key} style={{ position: 'relative' }}>
+          {item.separator && index > 0 && (
+            <div style={{ height: '1px', margin: '4px 0', background: theme.colors.border }} />
+          )}
+          {renderItem(
+            item,
+            index === activeIndex,
+            () => {
+              setActiveIndex(index);
+              if (item.submenu) {
+                openSubmenuFor(item, false);
+              } else {
+                setOpenSubmenu(null);
+              }
+            },
+            () => activateItem(item)
+          )}
+
+          {/* Submenu */}
+          {openSubmenu === item.key && item.submenu && (
+            <div
+              role="menu"
+              aria-label={item.label}
+              style={{
+                ...panelStyle,
+                position: 'absolute',
+                top: item.separator ? '5px' : '-4px',
+                left: '100%',
+                marginLeft: '2px',
+                maxHeight: '320px',
+                overflowY: 'auto',
+              }}
+            >
+              {item.submenu.length === 0 ? (
+                <div style={{ padding: '7px 12px', fontSize: theme.fontSizes[1], color: theme.colors.textMuted }}>
+                  None available
+                </div>
+              ) : (
+                item.submenu.map((subItem, subIndex) =>
+                  renderItem(
+                    subItem,
+                    subIndex === subActiveIndex,
+                    () => setSubActiveIndex(subIndex),
+                    () => runItem(subItem)
+                  )
+                )
+              )}
+            </div>
+          )}
+        </div>
+      ))}
     </div>,
     document.body
   );
@@ -0,0 +1,286 @@
+import React, { useMemo } from 'react';
+import { TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch';
+import { AlertTriangle, Loader2, Maximize2, Network, ZoomIn, ZoomOut } from 'lucide-react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { isDoneStatus, type Task } from '@backlog-md/core';
+import { buildTaskGraph, GRAPH_NODE_HEIGHT, GRAPH_NODE_WIDTH, type TaskGraphEdge, type TaskGraphNode } from '../utils/taskGraph';
+
+interface TaskGraphViewProps {
+  /** Tasks to graph; only tasks with dependency or parent links are shown */
+  tasks: Task[];
+  /** Configured statuses, in board order (node colours) */
+  statuses: string[];
+  selectedTaskId?: string | null;
+  onTaskClick?: (task: Task) => void;
+  /** Whether tasks are still being indexed */
+  isLoading?: boolean;
+}
+
+/** Bulge of edges between tasks in the same column (cycles) */
+const SAME_COLUMN_BULGE = 48;
+
+const edgePath = (from: TaskGraphNode, to: TaskGraphNode) => {
+  const midY = GRAPH_NODE_HEIGHT / 2;
+  if (from.layer === to.layer) {
+    const x = from.x + GRAPH_NODE_WIDTH;
+    return `M ${x} ${from.y + midY} C ${x + SAME_COLUMN_BULGE} ${from.y + midY}, ${x + SAME_COLUMN_BULGE} ${to.y + midY}, ${x} ${to.y + midY}`;
+  }
+  const startX = from.x + GRAPH_NODE_WIDTH;
+  const endX = to.x;
+  const controlX = (startX + endX) / 2;
+  return `M ${startX} ${from.y + midY} C ${controlX} ${from.y + midY}, ${controlX} ${to.y + midY}, ${endX} ${to.y + midY}`;
+};
+
+/**
+ * Dependency graph of the board's tasks, with zoom and pan
+ */
+export const TaskGraphView: React.FC<TaskGraphViewProps> = ({
+  tasks,
+  statuses,
+  selectedTaskId,
+  onTaskClick,
+  isLoading = false,
+}) => {
+  const { theme } = useTheme();
+  const graph = useMemo(() => buildTaskGraph(tasks), [tasks]);
+  const nodesById = useMemo(() => new Map(graph.nodes.map((node) => [node.task.id, node])), [graph]);
+
+  // Same colours as the milestone status filters
+  const getStatusColor = (status?: string) => {
+    if (isDoneStatus(status)) return theme.colors.success;
+    if (!status || status === statuses[0]) return theme.colors.textSecondary;
+    return theme.colors.warning;
+  };
+
+  const getEdgeColor = (edge: TaskGraphEdge) => (edge.inCycle ? theme.colors.error : theme.colors.textMuted);
+
+  if (graph.nodes.length === 0) {
+    return (
+      <div
+        style={{
+          flex: 1,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '16px',
+          color: theme.colors.textSecondary,
+        }}
+      >
+        {isLoading ? (
+          <>
+            <Loader2 size={32} style={{ animation: 'spin 1s linear infinite' }} />
+            <p style={{ margin: 0, fontSize: theme.fontSizes[2] }}>Loading tasks...</p>
+          </>
+        ) : (
+          <>
+            <Network size={48} color={theme.colors.border} />
+            <div style={{ textAlign: 'center' }}>
+              <p style={{ margin: 0, fontSize: theme.fontSizes[2] }}>No linked tasks</p>
+              <p style={{ margin: '8px 0 0 0', fontSize: theme.fontSizes[1] }}>
+                Tasks appear here once they have dependencies or subtasks
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const controlButtonStyle: React.CSSProperties = {
+    background: theme.colors.backgroundSecondary,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    padding: '6px',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    color: theme.colors.textSecondary,
+  };
+
+  return (
+    <div
+      style={{
+        flex: 1,
+        minHeight: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+      }}
+    >
+      {graph.cycles.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '8px 12px',
+            background: `${theme.colors.error}15`,
+            border: `1px solid ${theme.colors.error}`,
+            borderRadius: theme.radii[2],
+            fontSize: theme.fontSizes[1],
+            color: theme.colors.error,
+          }}
+        >
+          <AlertTriangle size={14} style={{ flexShrink: 0 }} />
+          <span>
+            {graph.cycles.length} dependency cycle{graph.cycles.length !== 1 ? 's' : ''}:{' '}
+            {graph.cycles.map((cycle) => cycle.join(' → ')).join('; ')}
+          </span>
+        </div>
+      )}
+
+      <div
+        style={{
+          flex: 1,
+          minHeight: 0,
+          position: 'relative',
+          border: `1px solid ${theme.colors.border}`,
+          borderRadius: theme.radii[2],
+          background: theme.colors.background,
+          overflow: 'hidden',
+        }}
+      >
+        <TransformWrapper minScale={0.2} maxScale={2} limitToBounds={false} doubleClick={{ disabled: true }}>
+          {({ zoomIn, zoomOut, resetTransform }) => (
+            <>
+              <div
+                style={{
+                  position: 'absolute',
+                  top: '8px',
+                  right: '8px',
+                  zIndex: 1,
+                  display: 'flex',
+                  gap: '4px',
+                }}
+              >
+                <button onClick={() => zoomIn()} style={controlButtonStyle} title="Zoom in">
+                  <ZoomIn size={14} />
+                </button>
+                <button onClick={() => zoomOut()} style={controlButtonStyle} title="Zoom out">
+                  <ZoomOut size={14} />
+                </button>
+                <button onClick={() => resetTransform()} style={controlButtonStyle} title="Reset view">
+                  <Maximize2 size={14} />
+                </button>
+              </div>
+
+              <TransformComponent wrapperStyle={{ width: '100%', height: '100%' }}>
+                <div style={{ position: 'relative', width: graph.width, height: graph.height }}>
+                  <svg
+                    width={graph.width}
+                    height={graph.height}
+                    style={{ position: 'absolute', inset: 0, overflow: 'visible' }}
+                  >
+                    <defs>
+                      {(['normal', 'cycle'] as const).map((kind) => (
+                        <marker
+                          key={kind}
+                          id={`task-graph-arrow-${kind}`}
+                          viewBox="0 0 10 10"
+                          refX="9"
+                          refY="5"
+                          markerWidth="7"
+                          markerHeight="7"
+                          orient="auto-start-reverse"
+                        >
+                          <path
+                            d="M 0 0 L 10 5 L 0 10 z"
+                            fill={kind === 'cycle' ? theme.colors.error : theme.colors.textMuted}
+                          />
+                        </marker>
+                      ))}
+                    </defs>
+                    {graph.edges.map((edge) => {
+                      const from = nodesById.get(edge.from);
+                      const to = nodesById.get(edge.to);
+                      if (!from || !to) return null;
+                      return (
+                        <path
+                          key={`${edge.from}->${edge.to}`}
+                          d={edgePath(from, to)}
+                          fill="none"
+                          stroke={getEdgeColor(edge)}
+                          strokeWidth={edge.inCycle ? 2 : 1.5}
+                          strokeDasharray={edge.kind === 'parent' ? '5 4' : undefined}
+                          markerEnd={`url(#task-graph-arrow-${edge.inCycle ? 'cycle' : 'normal'})`}
+                        >
+                          <title>
+                            {edge.kind === 'parent'
+                              ? `${edge.to} is a subtask of ${edge.from}`
+                              : `${edge.to} depends on ${edge.from}`}
+                          </title>
+                        </path>
+                      );
+                    })}
+                  </svg>
+
+                  {graph.nodes.map(({ task, x, y, inCycle }) => {
+                    const statusColor = getStatusColor(task.status);
+                    const isSelected = task.id === selectedTaskId;
+                    return (
+                      <button
+                        key={task.id}
+                        onClick={() => onTaskClick?.(task)}
+                        title={`${task.id} - ${task.title} (${task.status})`}
+                        style={{
+                          position: 'absolute',
+                          left: x,
+                          top: y,
+                          width: GRAPH_NODE_WIDTH,
+                          height: GRAPH_NODE_HEIGHT,
+                          display: 'flex',
+                          flexDirection: 'column',
+                          justifyContent: 'center',
+                          gap: '4px',
+                          padding: '8px 10px',
+                          background: isSelected ? `${theme.colors.primary}15` : theme.colors.surface,
+                          border: `1px solid ${inCycle ? theme.colors.error : isSelected ? theme.colors.primary : theme.colors.border}`,
+                          borderLeft: `4px solid ${statusColor}`,
+                          borderRadius: theme.radii[2],
+                          cursor: 'pointer',
+                          textAlign: 'left',
+                          fontFamily: theme.fonts.body,
+                          boxSizing: 'border-box',
+                        }}
+                      >
+                        <span
+                          style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'space-between',
+                            gap: '6px',
+                            fontSize: theme.fontSizes[0],
+                          }}
+                        >
+                          <span style={{ fontFamily: theme.fonts.monospace, color: theme.colors.textMuted }}>
+                            {task.id}
+                          </span>
+                          <span style={{ color: statusColor, fontWeight: theme.fontWeights.medium }}>{task.status}</span>
+                        </span>
+                        <span
+                          style={{
+                            width: '100%',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                            fontSize: theme.fontSizes[1],
+                            color: theme.colors.text,
+                            textDecoration: isDoneStatus(task.status) ? 'line-through' : 'none',
+                          }}
+                        >
+                          {task.title}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </TransformComponent>
+            </>
+          )}
+        </TransformWrapper>
+      </div>
+    </div>
+  );
+};
@@ -36,6 +36,11 @@ export const TaskModal: React.FC<TaskModalProps> = ({
   const { theme } = useTheme();
   const isEditing = !!task;
 
+  // Keep a task's current status selectable even if config.yml no longer lists it
+  const statusOptions = task?.status && !availableStatuses.includes(task.status)
+    ? [...availableStatuses, task.status]
+    : availableStatuses;
+
   // Form state
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
@@ -95,15 +100,16 @@ export const TaskModal: React.FC<TaskModalProps> = ({
         .filter(Boolean);
 
       if (isEditing) {
-        // Update existing task
+        // Update existing task - send cleared fields explicitly so Core
+        // removes them instead of keeping the previous values
         const input: TaskUpdateInput = {
           title: title.trim(),
-          description: description.trim() || undefined,
+          description: description.trim(),
           status,
           priority,
-          labels: labelsArray.length > 0 ? labelsArray : undefined,
-          assignee: assigneeArray.length > 0 ? assigneeArray : undefined,
-          milestone: milestone || undefined,
+          labels: labelsArray,
+          assignee: assigneeArray,
+          milestone: milestone || null,
         };
         await onSave(input);
       } else {
@@ -304,7 +310,7 @@ export const TaskModal: React.FC<TaskModalProps> = ({
                     cursor: 'pointer',
                   }}
                 >
-                  {availableStatuses.map((s) => (
+                  {statusOptions.map((s) => (
                     <option key={s} value={s}>
                       {s}
                     </option>
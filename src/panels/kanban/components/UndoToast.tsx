@@ -0,0 +1,114 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { useTheme } from '@principal-ade/industry-theme';
+import { Redo2, Undo2, X } from 'lucide-react';
+import type { HistoryNotice } from '../hooks/useUndoHistory';
+
+/** How long the toast stays up, in ms */
+const TOAST_DURATION = 5000;
+
+interface UndoToastProps {
+  notice: HistoryNotice | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  isBusy?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Transient toast after each board mutation, offering to undo it (or to
+ * redo a mutation that was just undone)
+ */
+export const UndoToast: React.FC<UndoToastProps> = ({
+  notice,
+  canUndo,
+  canRedo,
+  isBusy = false,
+  onUndo,
+  onRedo,
+  onDismiss,
+}) => {
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(onDismiss, TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [notice, onDismiss]);
+
+  if (!notice) return null;
+
+  const offersRedo = notice.kind === 'undone';
+  const isActionAvailable = offersRedo ? canRedo : canUndo;
+  const text = notice.kind === 'undone'
+    ? `Undid: ${notice.label}`
+    : notice.kind === 'redone' ? `Redid: ${notice.label}` : notice.label;
+
+  return createPortal(
+    <div
+      role="status"
+      style={{
+        position: 'fixed',
+        left: '50%',
+        bottom: '24px',
+        transform: 'translateX(-50%)',
+        zIndex: 10001,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        maxWidth: 'calc(100vw - 32px)',
+        padding: '8px 8px 8px 14px',
+        background: theme.colors.surface,
+        border: `1px solid ${theme.colors.border}`,
+        borderRadius: theme.radii[2],
+        boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.2)',
+        fontFamily: theme.fonts.body,
+        fontSize: theme.fontSizes[1],
+        color: theme.colors.text,
+      }}
+    >
+      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{text}</span>
+      {isActionAvailable && (
+        <button
+          onClick={offersRedo ? onRedo : onUndo}
+          disabled={isBusy}
+          title={offersRedo ? 'Redo (Ctrl+Shift+Z)' : 'Undo (Ctrl+Z)'}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            padding: '4px 8px',
+            border: 'none',
+            borderRadius: theme.radii[1],
+            background: 'transparent',
+            color: theme.colors.primary,
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[1],
+            fontWeight: theme.fontWeights.semibold,
+            cursor: isBusy ? 'wait' : 'pointer',
+          }}
+        >
+          {offersRedo ? <Redo2 size={14} /> : <Undo2 size={14} />}
+          {offersRedo ? 'Redo' : 'Undo'}
+        </button>
+      )}
+      <button
+        onClick={onDismiss}
+        aria-label="Dismiss"
+        style={{
+          display: 'flex',
+          padding: '4px',
+          border: 'none',
+          background: 'transparent',
+          color: theme.colors.textMuted,
+          cursor: 'pointer',
+        }}
+      >
+        <X size={14} />
+      </button>
+    </div>,
+    document.body
+  );
+};
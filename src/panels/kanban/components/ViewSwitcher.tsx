@@ -0,0 +1,335 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { Bookmark, Check, ChevronDown, Save, Trash2 } from 'lucide-react';
+import {
+  BOARD_SORT_ORDERS,
+  type BoardGrouping,
+  type BoardSortOrder,
+  type SavedBoardView,
+} from '../utils/boardViews';
+import { BOARD_GROUPINGS } from '../utils/swimlanes';
+
+export interface ViewSwitcherProps {
+  views: SavedBoardView[];
+  /** Applied saved view (null = default board) */
+  activeView: SavedBoardView | null;
+  /** Board state differs from the active view */
+  isModified: boolean;
+  sort: BoardSortOrder;
+  grouping: BoardGrouping;
+  /** Label prefix for 'label' swimlanes */
+  labelPrefix: string;
+  /** All status columns, in board order */
+  statusColumns: string[];
+  /** Shown columns (null = all) */
+  visibleColumns: string[] | null;
+  canWrite: boolean;
+  isSaving: boolean;
+  onSelectView: (view: SavedBoardView | null) => void;
+  onSortChange: (sort: BoardSortOrder) => void;
+  onGroupingChange: (grouping: BoardGrouping) => void;
+  onLabelPrefixChange: (prefix: string) => void;
+  onToggleColumn: (status: string) => void;
+  onSaveAs: (name: string) => void;
+  onUpdate: () => void;
+  onDelete: (view: SavedBoardView) => void;
+}
+
+/**
+ * Header dropdown for switching, saving and configuring board views
+ */
+export const ViewSwitcher: React.FC<ViewSwitcherProps> = ({
+  views,
+  activeView,
+  isModified,
+  sort,
+  grouping,
+  labelPrefix,
+  statusColumns,
+  visibleColumns,
+  canWrite,
+  isSaving,
+  onSelectView,
+  onSortChange,
+  onGroupingChange,
+  onLabelPrefixChange,
+  onToggleColumn,
+  onSaveAs,
+  onUpdate,
+  onDelete,
+}) => {
+  const { theme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newViewName, setNewViewName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleSaveAs = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newViewName.trim()) return;
+    onSaveAs(newViewName.trim());
+    setNewViewName('');
+  };
+
+  const sectionLabelStyle: React.CSSProperties = {
+    padding: '8px 12px 4px',
+    fontSize: theme.fontSizes[0],
+    fontWeight: theme.fontWeights.semibold,
+    color: theme.colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: '0.04em',
+  };
+
+  const itemStyle = (isActive: boolean): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    width: '100%',
+    padding: '6px 12px',
+    border: 'none',
+    background: isActive ? theme.colors.backgroundHover : 'transparent',
+    color: theme.colors.text,
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[1],
+    textAlign: 'left',
+    cursor: 'pointer',
+  });
+
+  const dividerStyle: React.CSSProperties = {
+    height: '1px',
+    margin: '4px 0',
+    background: theme.colors.border,
+  };
+
+  const inputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px 8px',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: theme.colors.backgroundSecondary,
+    color: theme.colors.text,
+    outline: 'none',
+  };
+
+  const renderCheck = (checked: boolean) => (
+    <span style={{ width: '14px', display: 'flex', color: theme.colors.primary }}>
+      {checked && <Check size={14} />}
+    </span>
+  );
+
+  return (
+    <div ref={containerRef} style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Board views"
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          background: theme.colors.backgroundSecondary,
+          color: theme.colors.text,
+          border: `1px solid ${theme.colors.border}`,
+          borderRadius: theme.radii[2],
+          padding: '6px 10px',
+          fontSize: theme.fontSizes[1],
+          fontWeight: theme.fontWeights.medium,
+          cursor: 'pointer',
+          maxWidth: '200px',
+        }}
+      >
+        <Bookmark size={14} color={theme.colors.textSecondary} />
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {activeView ? activeView.name : 'All tasks'}
+          {isModified && <span style={{ color: theme.colors.warning }}> •</span>}
+        </span>
+        <ChevronDown size={14} color={theme.colors.textSecondary} />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 4px)',
+            right: 0,
+            zIndex: 1000,
+            width: '240px',
+            maxHeight: '70vh',
+            overflowY: 'auto',
+            padding: '4px 0',
+            background: theme.colors.background,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: theme.radii[2],
+            boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.2)',
+          }}
+        >
+          <div style={sectionLabelStyle}>Views</div>
+          <button
+            role="menuitemradio"
+            aria-checked={!activeView}
+            onClick={() => onSelectView(null)}
+            style={itemStyle(!activeView)}
+          >
+            {renderCheck(!activeView)}
+            All tasks
+          </button>
+          {views.map((view) => (
+            <div key={view.id} style={{ display: 'flex', alignItems: 'center' }}>
+              <button
+                role="menuitemradio"
+                aria-checked={activeView?.id === view.id}
+                onClick={() => onSelectView(view)}
+                style={{ ...itemStyle(activeView?.id === view.id), flex: 1, minWidth: 0 }}
+              >
+                {renderCheck(activeView?.id === view.id)}
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {view.name}
+                </span>
+              </button>
+              {canWrite && (
+                <button
+                  onClick={() => onDelete(view)}
+                  disabled={isSaving}
+                  aria-label={`Delete view ${view.name}`}
+                  title="Delete view"
+                  style={{
+                    display: 'flex',
+                    padding: '6px 10px',
+                    border: 'none',
+                    background: 'transparent',
+                    color: theme.colors.textMuted,
+                    cursor: isSaving ? 'wait' : 'pointer',
+                  }}
+                >
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </div>
+          ))}
+
+          <div style={dividerStyle} />
+          <div style={sectionLabelStyle}>Sort</div>
+          {BOARD_SORT_ORDERS.map((option) => (
+            <button
+              key={option.value}
+              role="menuitemradio"
+              aria-checked={sort === option.value}
+              onClick={() => onSortChange(option.value)}
+              style={itemStyle(false)}
+            >
+              {renderCheck(sort === option.value)}
+              {option.label}
+            </button>
+          ))}
+
+          <div style={dividerStyle} />
+          <div style={sectionLabelStyle}>Swimlanes</div>
+          {BOARD_GROUPINGS.map((option) => (
+            <button
+              key={option.value}
+              role="menuitemradio"
+              aria-checked={grouping === option.value}
+              onClick={() => onGroupingChange(option.value)}
+              style={itemStyle(false)}
+            >
+              {renderCheck(grouping === option.value)}
+              {option.label}
+            </button>
+          ))}
+          {grouping === 'label' && (
+            <div style={{ display: 'flex', padding: '6px 12px' }}>
+              <input
+                type="text"
+                value={labelPrefix}
+                onChange={(e) => onLabelPrefixChange(e.target.value)}
+                placeholder="Label prefix, e.g. area:"
+                aria-label="Label prefix"
+                style={inputStyle}
+              />
+            </div>
+          )}
+
+          <div style={dividerStyle} />
+          <div style={sectionLabelStyle}>Columns</div>
+          {statusColumns.map((status) => {
+            const isVisible = !visibleColumns || visibleColumns.includes(status);
+            return (
+              <button
+                key={status}
+                role="menuitemcheckbox"
+                aria-checked={isVisible}
+                onClick={() => onToggleColumn(status)}
+                style={itemStyle(false)}
+              >
+                {renderCheck(isVisible)}
+                {status}
+              </button>
+            );
+          })}
+
+          {canWrite && (
+            <>
+              <div style={dividerStyle} />
+              {activeView && isModified && (
+                <button onClick={onUpdate} disabled={isSaving} style={itemStyle(false)}>
+                  <Save size={14} color={theme.colors.textSecondary} />
+                  Update "{activeView.name}"
+                </button>
+              )}
+              <form onSubmit={handleSaveAs} style={{ display: 'flex', gap: '6px', padding: '6px 12px' }}>
+                <input
+                  type="text"
+                  value={newViewName}
+                  onChange={(e) => setNewViewName(e.target.value)}
+                  placeholder="Save current view as..."
+                  aria-label="New view name"
+                  style={inputStyle}
+                />
+                <button
+                  type="submit"
+                  disabled={!newViewName.trim() || isSaving}
+                  style={{
+                    padding: '4px 8px',
+                    border: 'none',
+                    borderRadius: theme.radii[1],
+                    background: theme.colors.primary,
+                    color: theme.colors.textOnPrimary,
+                    fontSize: theme.fontSizes[0],
+                    cursor: !newViewName.trim() || isSaving ? 'not-allowed' : 'pointer',
+                    opacity: !newViewName.trim() || isSaving ? 0.6 : 1,
+                  }}
+                >
+                  Save
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Task } from '@backlog-md/core';
+import type { KanbanPanelActions } from '../../../types';
+import { getTracer, SpanStatusCode } from '../../../telemetry';
+import { writeBoardFile } from '../backlog-utils/board';
+import { formatBoardExport, getDefaultExportPath, type BoardExportFormat } from '../utils/boardExport';
+
+export type BoardExportDestination = 'file' | 'clipboard';
+
+export interface BoardExportRequest {
+  format: BoardExportFormat;
+  destination: BoardExportDestination;
+  /** File to write (default: `backlog/exports/board-<date>.<ext>`) */
+  path?: string;
+}
+
+export interface BoardExportResult {
+  success: boolean;
+  message: string;
+  /** Number of exported tasks */
+  count: number;
+  /** Written file, for file exports */
+  path?: string;
+}
+
+interface UseBoardExportOptions {
+  actions?: KanbanPanelActions;
+  /** Resolve the tasks on the current filtered board, in board order */
+  getBoardTasks: () => Promise<Task[]>;
+  /** Status columns shown on the board */
+  statuses: string[];
+  projectName: string;
+}
+
+export interface UseBoardExportResult {
+  exportBoard: (request: BoardExportRequest) => Promise<BoardExportResult>;
+  isExporting: boolean;
+  /** Whether the host can write export files */
+  canExportToFile: boolean;
+}
+
+/**
+ * Hook exporting the filtered board as markdown, CSV or JSON.
+ *
+ * Files are written through the host's `writeFile` action; the clipboard is
+ * used when the host can't write files or the user asks for it.
+ */
+export function useBoardExport(options: UseBoardExportOptions): UseBoardExportResult {
+  const { actions, getBoardTasks, statuses, projectName } = options;
+  const [isExporting, setIsExporting] = useState(false);
+
+  const actionsRef = useRef(actions);
+  useEffect(() => {
+    actionsRef.current = actions;
+  }, [actions]);
+
+  const exportBoard = useCallback(async (request: BoardExportRequest): Promise<BoardExportResult> => {
+    const { format, destination } = request;
+    const path = request.path?.trim() || getDefaultExportPath(format);
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('board.interaction', {
+      attributes: { 'export.format': format, 'export.destination': destination },
+    });
+
+    setIsExporting(true);
+    try {
+      const tasks = await getBoardTasks();
+      const content = formatBoardExport(format, tasks, statuses, projectName);
+
+      let message: string;
+      if (destination === 'file') {
+        const writeFile = actionsRef.current?.writeFile;
+        if (!writeFile) {
+          throw new Error('Writing files is not available; copy the export to the clipboard instead');
+        }
+        await writeBoardFile(path, content, { writeFile, createDir: actionsRef.current?.createDir });
+        message = `Exported ${tasks.length} task${tasks.length !== 1 ? 's' : ''} to ${path}`;
+      } else {
+        await navigator.clipboard.writeText(content);
+        message = `Copied ${tasks.length} task${tasks.length !== 1 ? 's' : ''} to the clipboard`;
+      }
+
+      span.addEvent('board.exported', {
+        'export.format': format,
+        'export.destination': destination,
+        'export.count': tasks.length,
+        'export.bytes': content.length,
+        ...(destination === 'file' ? { 'export.path': path } : {}),
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+      return {
+        success: true,
+        message,
+        count: tasks.length,
+        ...(destination === 'file' ? { path } : {}),
+      };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to export board';
+      console.error('[useBoardExport] Export failed:', err);
+      span.addEvent('board.export.error', {
+        'export.format': format,
+        'export.destination': destination,
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': errorMessage,
+      });
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+      return { success: false, message: errorMessage, count: 0 };
+    } finally {
+      setIsExporting(false);
+      span.end();
+    }
+  }, [getBoardTasks, statuses, projectName]);
+
+  return {
+    exportBoard,
+    isExporting,
+    canExportToFile: Boolean(actions?.writeFile),
+  };
+}
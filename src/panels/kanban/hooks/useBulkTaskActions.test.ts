@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'bun:test';
+import type { Task } from '@backlog-md/core';
+import { SpanStatusCode, type Span } from '../../../telemetry';
+import { describeBulkResult, runTaskBatch } from './useBulkTaskActions';
+import { createProject, loadCore } from '../../../mocks/memoryProject';
+import { createTask } from '../../../mocks/taskFixtures';
+
+const TASK_FILE = `---
+id: task-1
+title: One
+status: To Do
+assignee: []
+created_date: '2025-01-01'
+labels: []
+dependencies: []
+---
+
+## Description
+
+<!-- SECTION:DESCRIPTION:BEGIN -->
+Hello
+<!-- SECTION:DESCRIPTION:END -->
+`;
+
+// A span recording the events and status it gets
+function createSpan() {
+  const events: Array<[string, Record<string, unknown> | undefined]> = [];
+  const statuses: Array<{ code: SpanStatusCode; message?: string }> = [];
+  const span = {
+    addEvent: (name: string, attributes?: Record<string, unknown>) => {
+      events.push([name, attributes]);
+      return span;
+    },
+    setStatus: (status: { code: SpanStatusCode; message?: string }) => {
+      statuses.push(status);
+      return span;
+    },
+  };
+  return { span: span as unknown as Span, events, statuses };
+}
+
+describe('runTaskBatch', () => {
+  it('writes every task through Core, one after another, past failures', async () => {
+    const project = createProject({
+      'backlog/tasks/task-1 - One.md': TASK_FILE,
+      'backlog/tasks/task-2 - Two.md': TASK_FILE.replace('id: task-1', 'id: task-2').replace('title: One', 'title: Two'),
+    });
+    const core = await loadCore(project);
+    const { span, events, statuses } = createSpan();
+    const progress: string[] = [];
+    const tasks = ['task-1', 'task-9', 'task-2'].map((id) => createTask(id));
+
+    const result = await runTaskBatch(tasks, span, 'update', async (task) => {
+      const updated = await core.updateTask(task.id, { status: 'Done' });
+      if (!updated) throw new Error(`Task ${task.id} not found`);
+      return updated;
+    }, (done, total) => progress.push(`${done}/${total}`));
+
+    expect(result.succeeded.map((task: Task) => task.id)).toEqual(['task-1', 'task-2']);
+    expect(result.failed).toEqual([{ task: tasks[1], error: 'Task task-9 not found' }]);
+    expect(project.calls).toEqual(['write backlog/tasks/task-1 - One.md', 'write backlog/tasks/task-2 - Two.md']);
+    expect(progress).toEqual(['0/3', '1/3', '2/3', '3/3']);
+    expect(events).toEqual([['task.save.error', expect.objectContaining({ 'task.id': 'task-9', operation: 'update' })]]);
+    expect(statuses).toEqual([{ code: SpanStatusCode.ERROR, message: 'Failed to update task-9' }]);
+  });
+
+  it('does not start a step before the previous one finished', async () => {
+    const { span, statuses } = createSpan();
+    const log: string[] = [];
+
+    await runTaskBatch([createTask('task-1'), createTask('task-2')], span, 'delete', async (task) => {
+      log.push(`start ${task.id}`);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      log.push(`end ${task.id}`);
+      return task;
+    });
+
+    expect(log).toEqual(['start task-1', 'end task-1', 'start task-2', 'end task-2']);
+    expect(statuses).toEqual([{ code: SpanStatusCode.OK }]);
+  });
+});
+
+describe('describeBulkResult', () => {
+  it('counts successes and failures', () => {
+    const task = createTask('task-1');
+    expect(describeBulkResult('Deleted', { succeeded: [task], failed: [] })).toBe('Deleted 1 task');
+    expect(describeBulkResult('Updated', {
+      succeeded: [task, createTask('task-2')],
+      failed: [{ task: createTask('task-3'), error: 'Not found' }],
+    })).toBe('Updated 2 tasks, 1 failed');
+  });
+});
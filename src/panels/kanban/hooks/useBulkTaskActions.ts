@@ -0,0 +1,279 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Core, Task, TaskUpdateInput } from '@backlog-md/core';
+import type { PanelEventEmitter } from '../../../types';
+import type { TrackMutation } from './useUndoHistory';
+import type { UseTaskArchiveResult } from './useTaskArchive';
+import type { TaskChanges } from './useKanbanData';
+import { getTracer, SpanStatusCode, type Span } from '../../../telemetry';
+
+interface UseBulkTaskActionsOptions {
+  /** Shared Core instance from useBacklogCore */
+  core: Core | null;
+  events?: PanelEventEmitter;
+  /** Whether write actions are available */
+  canWrite: boolean;
+  /** Show the written tasks on the board once a batch is done (useKanbanData) */
+  applyTaskChanges: (changes: TaskChanges) => Promise<void>;
+  /** Bulk archive from useTaskArchive */
+  archiveTasks: UseTaskArchiveResult['archiveTasks'];
+  /** Record batches for undo (useUndoHistory) */
+  trackMutation: TrackMutation;
+}
+
+export interface BulkTaskFailure {
+  task: Task;
+  error: string;
+}
+
+export interface BulkTaskResult {
+  succeeded: Task[];
+  failed: BulkTaskFailure[];
+}
+
+/** Batch in flight, for the progress indicator */
+export interface BulkProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+export interface UseBulkTaskActionsResult {
+  /** Apply the same update to every task (one undo step) */
+  updateTasks: (tasks: Task[], input: TaskUpdateInput, label: string) => Promise<BulkTaskResult>;
+  /** Move every task to backlog/archive/tasks */
+  archiveTasks: (tasks: Task[]) => Promise<BulkTaskResult>;
+  /** Delete every task (one undo step) */
+  deleteTasks: (tasks: Task[]) => Promise<BulkTaskResult>;
+  progress: BulkProgress | null;
+  /** Outcome of the last batch */
+  summary: string | null;
+  /** Per-task errors of the last batch */
+  failures: BulkTaskFailure[];
+  clearResult: () => void;
+}
+
+const plural = (count: number) => `${count} task${count !== 1 ? 's' : ''}`;
+
+/** Outcome of a batch, e.g. `Updated 3 tasks, 1 failed` */
+export function describeBulkResult(verb: string, result: BulkTaskResult): string {
+  return result.failed.length > 0
+    ? `${verb} ${plural(result.succeeded.length)}, ${result.failed.length} failed`
+    : `${verb} ${plural(result.succeeded.length)}`;
+}
+
+// Record a failed task on the batch span; returns the error message
+function recordFailure(span: Span, err: unknown, task: Task, operation: string): string {
+  const errorMessage = err instanceof Error ? err.message : `Failed to ${operation} task`;
+  span.addEvent('task.save.error', {
+    'task.id': task.id,
+    'operation': operation,
+    'error.type': err instanceof Error ? err.name : 'Unknown',
+    'error.message': errorMessage,
+  });
+  return errorMessage;
+}
+
+/**
+ * Run one step per task, one after another, collecting per-task errors
+ * instead of stopping at the first failure. Failures are recorded on the
+ * span, which gets an error status naming them.
+ */
+export async function runTaskBatch(
+  tasks: Task[],
+  span: Span,
+  operation: string,
+  step: (task: Task) => Promise<Task>,
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkTaskResult> {
+  const result: BulkTaskResult = { succeeded: [], failed: [] };
+  onProgress?.(0, tasks.length);
+
+  for (const task of tasks) {
+    try {
+      result.succeeded.push(await step(task));
+    } catch (err) {
+      result.failed.push({ task, error: recordFailure(span, err, task, operation) });
+    }
+    onProgress?.(result.succeeded.length + result.failed.length, tasks.length);
+  }
+
+  if (result.failed.length > 0) {
+    console.error(`[useBulkTaskActions] Failed to ${operation} tasks:`, result.failed);
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: `Failed to ${operation} ${result.failed.map((f) => f.task.id).join(', ')}`,
+    });
+  } else {
+    span.setStatus({ code: SpanStatusCode.OK });
+  }
+  return result;
+}
+
+/**
+ * Hook running board actions over a multi-selection of tasks.
+ *
+ * Tasks are written one after another through Core (hosts may not handle
+ * concurrent writes), reporting progress and collecting per-task errors
+ * instead of stopping at the first failure. Updates and deletes are traced
+ * on a single `task.edit` / `task.delete` span per batch and recorded as one
+ * undo step; the board picks up the written tasks once at the end.
+ */
+export function useBulkTaskActions(options: UseBulkTaskActionsOptions): UseBulkTaskActionsResult {
+  const { core, events, canWrite, applyTaskChanges, archiveTasks: archiveTaskFiles, trackMutation } = options;
+
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [failures, setFailures] = useState<BulkTaskFailure[]>([]);
+  const runningRef = useRef(false);
+
+  // Batches outlive re-renders; always write through the current Core
+  const coreRef = useRef(core);
+  useEffect(() => {
+    coreRef.current = core;
+  }, [core]);
+
+  // Run one step per task, showing progress
+  const runBatch = useCallback((
+    label: string,
+    tasks: Task[],
+    span: Span,
+    operation: string,
+    step: (task: Task) => Promise<Task>
+  ): Promise<BulkTaskResult> =>
+    runTaskBatch(tasks, span, operation, step, (done, total) => setProgress({ label, done, total })),
+  []);
+
+  // Guard against overlapping batches and publish the outcome
+  const runExclusive = useCallback(async (
+    verb: string,
+    run: () => Promise<BulkTaskResult>
+  ): Promise<BulkTaskResult> => {
+    if (!canWrite || runningRef.current) return { succeeded: [], failed: [] };
+
+    runningRef.current = true;
+    setSummary(null);
+    setFailures([]);
+    try {
+      const result = await run();
+      setSummary(describeBulkResult(verb, result));
+      setFailures(result.failed);
+      return result;
+    } finally {
+      runningRef.current = false;
+      setProgress(null);
+    }
+  }, [canWrite]);
+
+  const updateTasks = useCallback((tasks: Task[], input: TaskUpdateInput, label: string) =>
+    runExclusive('Updated', async () => {
+      const tracer = getTracer();
+      const span = tracer.startSpan('task.edit', {
+        attributes: {
+          'input.taskCount': tasks.length,
+          'input.source': 'bulk-action',
+        },
+      });
+      const fields = Object.keys(input).join(', ');
+
+      try {
+        const result = await trackMutation(label, tasks.map((task) => task.id), () =>
+          runBatch(label, tasks, span, 'update', async (task) => {
+            const current = coreRef.current;
+            if (!current) throw new Error('Cannot update task - backlog not loaded');
+            const updated = await current.updateTask(task.id, input);
+            if (!updated) throw new Error(`Task ${task.id} not found`);
+            span.addEvent('task.updated', { 'task.id': task.id, 'updated.fields': fields });
+            return updated;
+          })
+        );
+
+        span.addEvent('tasks.updated', {
+          'bulk.count': result.succeeded.length,
+          'bulk.failed': result.failed.length,
+          'updated.fields': fields,
+        });
+        for (const task of result.succeeded) {
+          events?.emit({
+            type: 'task:updated',
+            source: 'kanban-panel',
+            timestamp: Date.now(),
+            payload: { taskId: task.id, task },
+          });
+        }
+        await applyTaskChanges({ updated: result.succeeded.map((task) => task.id) });
+        return result;
+      } finally {
+        span.end();
+      }
+    }),
+  [runExclusive, runBatch, trackMutation, events, applyTaskChanges]);
+
+  const deleteTasks = useCallback((tasks: Task[]) =>
+    runExclusive('Deleted', async () => {
+      const tracer = getTracer();
+      const span = tracer.startSpan('task.delete', {
+        attributes: {
+          'input.taskCount': tasks.length,
+          'input.source': 'bulk-action',
+        },
+      });
+      const label = `Delete ${plural(tasks.length)}`;
+
+      try {
+        const result = await trackMutation(label, tasks.map((task) => task.id), () =>
+          runBatch(label, tasks, span, 'delete', async (task) => {
+            const current = coreRef.current;
+            if (!current) throw new Error('Cannot delete task - backlog not loaded');
+            if (!await current.deleteTask(task.id)) throw new Error(`Task ${task.id} not found`);
+            span.addEvent('task.deleted', { 'task.id': task.id, 'delete.method': 'core' });
+            return task;
+          })
+        );
+
+        span.addEvent('tasks.deleted', {
+          'bulk.count': result.succeeded.length,
+          'bulk.failed': result.failed.length,
+        });
+        for (const task of result.succeeded) {
+          events?.emit({
+            type: 'task:deleted',
+            source: 'kanban-panel',
+            timestamp: Date.now(),
+            payload: { taskId: task.id },
+          });
+        }
+        await applyTaskChanges({ removed: result.succeeded.map((task) => task.id) });
+        return result;
+      } finally {
+        span.end();
+      }
+    }),
+  [runExclusive, runBatch, trackMutation, events, applyTaskChanges]);
+
+  // Archive moves files outside Core, so it isn't an undo step (like the context menu)
+  const archiveTasks = useCallback((tasks: Task[]) =>
+    runExclusive('Archived', async () => {
+      const label = `Archive ${plural(tasks.length)}`;
+      setProgress({ label, done: 0, total: tasks.length });
+      const { moved, failed } = await archiveTaskFiles(tasks, 'bulk-action', (done, total) =>
+        setProgress({ label, done, total })
+      );
+      return { succeeded: moved, failed };
+    }),
+  [runExclusive, archiveTaskFiles]);
+
+  const clearResult = useCallback(() => {
+    setSummary(null);
+    setFailures([]);
+  }, []);
+
+  return {
+    updateTasks,
+    archiveTasks,
+    deleteTasks,
+    progress,
+    summary,
+    failures,
+    clearResult,
+  };
+}
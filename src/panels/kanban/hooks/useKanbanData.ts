@@ -1,7 +1,18 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { Core, type Task, type PaginatedResult, DEFAULT_TASK_STATUSES } from '@backlog-md/core';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  Core,
+  type Task,
+  type PaginatedResult,
+  DEFAULT_TASK_STATUSES,
+  parseTaskMarkdown,
+  sortTasks,
+} from '@backlog-md/core';
 import type { KanbanPanelActions, PanelEventEmitter } from '../../../types';
+import type { TaskFileChanges } from '../../../hooks/useBacklogCore';
 import { getTracer, getActiveSpan, SpanStatusCode, trace, context as otelContext, type Span } from '../../../telemetry';
+import { buildKanbanStatusGroups } from '../backlog-utils/status-groups';
+import type { LaneFields } from '../utils/swimlanes';
+import type { TaskOrdinalUpdate } from '../utils/taskOrdinals';
 
 /** Per-column pagination state */
 export interface ColumnState {
@@ -12,12 +23,12 @@ export interface ColumnState {
 }
 
 /**
- * Status column identifiers - now using actual status values directly
+ * Status column identifiers - the actual status values from config.yml
  * This eliminates the need for status-to-column mapping
  */
-export type StatusColumn = typeof DEFAULT_TASK_STATUSES[keyof typeof DEFAULT_TASK_STATUSES];
+export type StatusColumn = string;
 
-/** All status columns in order for rendering */
+/** Fallback status columns, used when config.yml lists no statuses */
 export const STATUS_COLUMNS: StatusColumn[] = [
   DEFAULT_TASK_STATUSES.TODO,
   DEFAULT_TASK_STATUSES.IN_PROGRESS,
@@ -30,6 +41,13 @@ export interface StatusColumnState {
   count: number;
 }
 
+/** Tasks saved, created or deleted through Core, by ID */
+export interface TaskChanges {
+  added?: string[];
+  updated?: string[];
+  removed?: string[];
+}
+
 /** Active tasks pagination state */
 export interface ActiveTasksState {
   total: number;
@@ -47,17 +65,51 @@ export interface UseKanbanDataResult {
   /** Load more tasks for a specific status column */
   loadMore: (status: StatusColumn) => Promise<void>;
   refreshData: () => Promise<void>;
-  updateTaskStatus: (taskId: string, newStatus: string) => Promise<void>;
-  /** Status columns: To Do, In Progress, Done */
+  /**
+   * Show tasks saved through Core without a full reload: the given tasks are
+   * read from Core and regrouped, the rest of the board stays as loaded.
+   * Added or removed tasks reload the pages instead when not every task is
+   * loaded, as they shift them.
+   */
+  applyTaskChanges: (changes: TaskChanges) => Promise<void>;
+  /**
+   * Move a task to a new status and persist it through Core, optionally
+   * changing its swimlane fields in the same write.
+   * The move is applied optimistically and rolled back if the write fails.
+   * Resolves to false if the write failed or the task already has a save in flight.
+   */
+  updateTaskStatus: (taskId: string, newStatus: string, fields?: LaneFields) => Promise<boolean>;
+  /**
+   * Write new ordinals for tasks reordered within a column (see
+   * computeReorderOrdinals). Applied optimistically and rolled back if a write fails.
+   */
+  reorderTasks: (updates: TaskOrdinalUpdate[]) => Promise<boolean>;
+  /**
+   * Every task in a status column in display order, including tasks not
+   * loaded yet (pages not fetched), so ordinals can be computed over all of them
+   */
+  loadColumnTasks: (status: StatusColumn) => Promise<Task[]>;
+  /** IDs of tasks with a status write in flight */
+  pendingTaskIds: ReadonlySet<string>;
+  /** Whether a task has a status write in flight */
+  isTaskPending: (taskId: string) => boolean;
+  /**
+   * Status columns in render order: the configured statuses, followed by an
+   * overflow column for each unknown status found on loaded tasks
+   */
   statusColumns: StatusColumn[];
-  /** Tasks grouped by status (To Do, In Progress, Done) */
+  /** Statuses configured in config.yml (falls back to STATUS_COLUMNS) */
+  configuredStatuses: string[];
+  /** Default status for new tasks from config.yml */
+  defaultStatus: string;
+  /** Tasks grouped by status column */
   tasksByStatus: Map<StatusColumn, StatusColumnState>;
   /** Total tasks pagination state */
   totalTasksState: ActiveTasksState;
   /** Load more tasks */
   loadMoreTasks: () => Promise<void>;
   /** Move task to a new status column (optimistic update - no persistence) */
-  moveTaskOptimistic: (taskId: string, toColumn: StatusColumn) => void;
+  moveTaskOptimistic: (taskId: string, toColumn: StatusColumn, fields?: LaneFields) => void;
   /** Find a task by ID */
   getTaskById: (taskId: string) => Task | undefined;
 }
@@ -73,6 +125,11 @@ interface UseKanbanDataOptions {
   events?: PanelEventEmitter;
   /** Parent span for context propagation (e.g., board.session) */
   parentSpan?: Span;
+  /**
+   * Tasks changed on disk (file events and fileTree updates, from
+   * useBacklogCore); only those are reloaded
+   */
+  fileChanges?: TaskFileChanges | null;
 }
 
 const DEFAULT_TASKS_LIMIT = 20;
@@ -80,8 +137,12 @@ const DEFAULT_TASKS_LIMIT = 20;
 /**
  * Hook for managing kanban board data with lazy loading
  *
- * Uses 3-column view based on task status: To Do, In Progress, Done.
- * Only loads tasks from the tasks/ directory.
+ * Uses one column per status configured in backlog/config.yml, plus overflow
+ * columns for tasks whose status is not configured. Columns are ordered by
+ * ordinal, then priority, then date (Core's sortTasks).
+ * Only loads tasks from the tasks/ directory. File changes reported by
+ * useBacklogCore replace just the affected tasks, keeping the others (and
+ * their cards) as they are.
  *
  * Requires a shared Core instance from useBacklogCore.
  */
@@ -94,6 +155,7 @@ export function useKanbanData(
     tasksLimit = DEFAULT_TASKS_LIMIT,
     events,
     parentSpan,
+    fileChanges,
   } = options;
 
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -106,16 +168,33 @@ export function useKanbanData(
   const [totalCount, setTotalCount] = useState(0);
   const [hasMore, setHasMore] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [pendingTaskIds, setPendingTaskIds] = useState<ReadonlySet<string>>(new Set());
+
+  // Synchronous mirror of pendingTaskIds, so overlapping moves are rejected
+  // before React has re-rendered
+  const pendingTaskIdsRef = useRef<Set<string>>(new Set());
+
+  // Statuses from config.yml (ref mirror is read when regrouping tasks)
+  const [configuredStatuses, setConfiguredStatuses] = useState<string[]>(STATUS_COLUMNS);
+  const [defaultStatus, setDefaultStatus] = useState<string>(DEFAULT_TASK_STATUSES.TODO);
+  const configuredStatusesRef = useRef<string[]>(STATUS_COLUMNS);
 
   // Track whether we've loaded data for this Core instance
   const loadedCoreRef = useRef<Core | null>(null);
+  // Last file changes applied, so each is applied once
+  const appliedChangesRef = useRef<TaskFileChanges | null>(null);
 
   // Helper to group tasks by status and build column states
+  // (configured statuses first, then overflow columns for unknown statuses)
   const buildColumnStates = useCallback((allTasks: Task[]): Map<StatusColumn, ColumnState> => {
     const newColumnStates = new Map<StatusColumn, ColumnState>();
+    const { orderedStatuses, groupedTasks } = buildKanbanStatusGroups(
+      allTasks,
+      configuredStatusesRef.current
+    );
 
-    for (const column of STATUS_COLUMNS) {
-      const columnTasks = allTasks.filter(t => t.status === column);
+    for (const column of orderedStatuses) {
+      const columnTasks = sortTasks(groupedTasks.get(column) ?? []);
       newColumnStates.set(column, {
         tasks: columnTasks,
         total: columnTasks.length,
@@ -163,6 +242,13 @@ export function useKanbanData(
       try {
         console.log('[useKanbanData] Loading tasks...');
 
+        // Columns follow the statuses configured in config.yml
+        const config = core.getConfig();
+        const statuses = config.statuses.length > 0 ? config.statuses : STATUS_COLUMNS;
+        configuredStatusesRef.current = statuses;
+        setConfiguredStatuses(statuses);
+        setDefaultStatus(config.defaultStatus || statuses[0]);
+
         // Load tasks from tasks/ directory
         const paginatedResult = await core.loadMoreForSource('tasks', 0, {
           limit: tasksLimit,
@@ -225,23 +311,83 @@ export function useKanbanData(
     loadTasks();
   }, [loadTasks]);
 
-  // Listen for file write events and refresh when tasks are created/modified
+  // Patch tasks edited by other panels (e.g. acceptance criteria toggled in the detail panel)
   useEffect(() => {
     if (!events) return;
 
-    const unsubscribe = events.on('file:write-complete', (event: { payload?: { path?: string } }) => {
-      const payload = event.payload || {};
-      const filePath = payload.path || '';
-
-      if (filePath.includes('backlog/tasks/')) {
-        console.log('[useKanbanData] Task file written, refreshing data:', filePath);
-        loadedCoreRef.current = null; // Force reload
-        loadTasks();
+    const unsubscribe = events.on(
+      'task:updated',
+      (event: { source: string; payload?: { taskId?: string; task?: Task } }) => {
+        if (event.source === 'kanban-panel') return;
+        const updated = event.payload?.task;
+        if (!updated) return;
+
+        setTasks((prev) => {
+          if (!prev.some(t => t.id === updated.id)) return prev;
+          const newTasks = prev.map(t => (t.id === updated.id ? updated : t));
+          setColumnStates(buildColumnStates(newTasks));
+          return newTasks;
+        });
       }
-    });
+    );
 
     return unsubscribe;
-  }, [events, loadTasks]);
+  }, [events, buildColumnStates]);
+
+  // Reload the affected tasks only (pages shifted by added or removed tasks
+  // are reloaded instead, unless every task is already loaded)
+  const applyTaskChanges = useCallback(async ({ added = [], updated = [], removed = [] }: TaskChanges) => {
+    if (!core || loadedCoreRef.current !== core) return;
+    if (added.length + updated.length + removed.length === 0) return;
+
+    const index = core.getTaskIndex();
+    const isActive = (id: string) => index.get(id)?.source === 'tasks';
+    const left = updated.filter((id) => !isActive(id));
+    if (hasMore && (added.length > 0 || removed.length > 0 || left.length > 0)) {
+      loadedCoreRef.current = null;
+      await loadTasks();
+      return;
+    }
+
+    const loaded = await core.loadTasks([...added, ...updated].filter(isActive));
+    // Superseded by a full reload
+    if (loadedCoreRef.current !== core) return;
+
+    const byId = new Map(loaded.map((task) => [task.id, task]));
+    const gone = new Set([...removed, ...left]);
+    setTasks((prev) => {
+      const kept = prev.filter((t) => !gone.has(t.id)).map((t) => byId.get(t.id) ?? t);
+      const known = new Set(kept.map((t) => t.id));
+      // Everything is loaded (see above), so new tasks join the board
+      const newTasks = [...kept, ...loaded.filter((t) => !known.has(t.id))];
+      setColumnStates(buildColumnStates(newTasks));
+      setTotalLoaded(newTasks.length);
+      return newTasks;
+    });
+    setTotalCount(Array.from(index.values()).filter((entry) => entry.source === 'tasks').length);
+
+    getActiveSpan()?.addEvent('kanban.tasks.synced', {
+      'tasks.reloaded': loaded.length,
+      'tasks.removed': gone.size,
+    });
+  }, [core, hasMore, loadTasks, buildColumnStates]);
+
+  // Apply file changes the same way
+  useEffect(() => {
+    if (!core || !fileChanges || appliedChangesRef.current === fileChanges) return;
+    if (loadedCoreRef.current !== core) return;
+    appliedChangesRef.current = fileChanges;
+
+    // Tasks with a save in flight are reloaded once it completes
+    const settled = (ids: string[]) => ids.filter((id) => !pendingTaskIdsRef.current.has(id));
+    applyTaskChanges({
+      added: settled(fileChanges.added),
+      updated: settled(fileChanges.updated),
+      removed: fileChanges.removed,
+    }).catch((err) => {
+      console.error('[useKanbanData] Failed to apply file changes:', err);
+    });
+  }, [core, fileChanges, applyTaskChanges]);
 
   // Load more tasks (loads next page, then regroups by status)
   const loadMoreTasks = useCallback(async () => {
@@ -336,9 +482,74 @@ export function useKanbanData(
     await loadTasks();
   }, [loadTasks]);
 
-  // Update task status with persistence
+  // Move task to a new column (optimistic update - no persistence)
+  const moveTaskOptimistic = useCallback(
+    (taskId: string, toColumn: StatusColumn, fields: LaneFields = {}) => {
+      // Column IS the status now (no mapping needed)
+      const newStatus = toColumn;
+      const activeSpan = getActiveSpan();
+
+      // Update tasks with new status
+      setTasks((prev) => {
+        const task = prev.find(t => t.id === taskId);
+        const fromStatus = task?.status || 'unknown';
+
+        const newTasks = prev.map(t =>
+          t.id === taskId ? { ...t, ...fields, status: newStatus } : t
+        );
+
+        // Rebuild column states with updated tasks
+        const newColumnStates = buildColumnStates(newTasks);
+        setColumnStates(newColumnStates);
+
+        console.log(`[useKanbanData] Moved task ${taskId} to ${toColumn} (${newStatus})`);
+
+        // Emit task moved event
+        activeSpan?.addEvent('task.moved', {
+          'task.id': taskId,
+          'from.status': fromStatus,
+          'to.status': newStatus,
+        });
+
+        return newTasks;
+      });
+    },
+    [buildColumnStates]
+  );
+
+  // Set a single task's status (and lane fields) in local state and regroup the columns
+  const setLocalTaskStatus = useCallback(
+    (taskId: string, status: string, onlyIfStatus?: string, fields: LaneFields = {}) => {
+      setTasks((prev) => {
+        const newTasks = prev.map(t =>
+          t.id === taskId && (onlyIfStatus === undefined || t.status === onlyIfStatus)
+            ? { ...t, ...fields, status }
+            : t
+        );
+        setColumnStates(buildColumnStates(newTasks));
+        return newTasks;
+      });
+    },
+    [buildColumnStates]
+  );
+
+  const setTaskPending = useCallback((taskId: string, pending: boolean) => {
+    if (pending) {
+      pendingTaskIdsRef.current.add(taskId);
+    } else {
+      pendingTaskIdsRef.current.delete(taskId);
+    }
+    setPendingTaskIds(new Set(pendingTaskIdsRef.current));
+  }, []);
+
+  const isTaskPending = useCallback(
+    (taskId: string) => pendingTaskIds.has(taskId),
+    [pendingTaskIds]
+  );
+
+  // Update task status with persistence (optimistic, rolled back on failure)
   const updateTaskStatus = useCallback(
-    async (taskId: string, newStatus: string) => {
+    async (taskId: string, newStatus: string, fields: LaneFields = {}): Promise<boolean> => {
       const activeSpan = getActiveSpan();
 
       if (!core) {
@@ -349,14 +560,38 @@ export function useKanbanData(
           'error.message': 'Cannot update task - backlog not loaded',
           'task.id': taskId,
         });
-        return;
+        return false;
+      }
+
+      // Block overlapping writes for the same task
+      if (pendingTaskIdsRef.current.has(taskId)) {
+        console.warn(`[useKanbanData] Task ${taskId} already has a save in flight`);
+        activeSpan?.addEvent('task.save.error', {
+          'error.type': 'SaveInFlight',
+          'error.message': 'Task is still being saved',
+          'task.id': taskId,
+        });
+        return false;
       }
 
+      const task = tasks.find(t => t.id === taskId);
+      const previousStatus = task?.status;
+      const fieldNames = Object.keys(fields) as (keyof LaneFields)[];
+      const previousFields = Object.fromEntries(fieldNames.map((key) => [key, task?.[key]])) as LaneFields;
+
       setError(null);
+      setTaskPending(taskId, true);
+      moveTaskOptimistic(taskId, newStatus, fields);
 
       try {
         console.log(`[useKanbanData] Updating task ${taskId} status to "${newStatus}"`);
-        const updatedTask = await core.updateTask(taskId, { status: newStatus });
+
+        const updatedTask = await core.updateTask(taskId, {
+          ...fields,
+          status: newStatus,
+          // Core clears the milestone on null, not undefined
+          ...('milestone' in fields ? { milestone: fields.milestone ?? null } : {}),
+        });
 
         if (!updatedTask) {
           throw new Error(`Task ${taskId} not found`);
@@ -367,59 +602,143 @@ export function useKanbanData(
         activeSpan?.addEvent('task.updated', {
           'task.id': taskId,
           'task.status': newStatus,
-          'updated.fields': 'status',
+          'updated.fields': ['status', ...fieldNames].join(','),
         });
 
-        // Refresh data to reflect changes
-        await refreshData();
+        await applyTaskChanges({ updated: [taskId] });
+        return true;
       } catch (err) {
         console.error('[useKanbanData] Failed to update task status:', err);
         const errorMessage = err instanceof Error ? err.message : 'Failed to update task';
-        setError(errorMessage);
+
+        // Roll back the optimistic move unless something else has moved it since
+        if (previousStatus !== undefined) {
+          setLocalTaskStatus(taskId, previousStatus, newStatus, previousFields);
+        }
+        setError(`Could not move ${task?.title ?? taskId} to ${newStatus}: ${errorMessage}`);
 
         activeSpan?.addEvent('task.save.error', {
           'error.type': err instanceof Error ? err.name : 'Unknown',
           'error.message': errorMessage,
           'task.id': taskId,
         });
+        return false;
+      } finally {
+        setTaskPending(taskId, false);
       }
     },
-    [core, refreshData]
+    [core, tasks, applyTaskChanges, moveTaskOptimistic, setLocalTaskStatus, setTaskPending]
   );
 
-  // Move task to a new column (optimistic update - no persistence)
-  const moveTaskOptimistic = useCallback(
-    (taskId: string, toColumn: StatusColumn) => {
-      // Column IS the status now (no mapping needed)
-      const newStatus = toColumn;
+  // Whole column in display order; board tasks win so in-flight moves are
+  // reflected. Tasks Core hasn't loaded are read from their files without
+  // loading them: only the tasks whose ordinal changes need to be.
+  const loadColumnTasks = useCallback(
+    async (status: StatusColumn): Promise<Task[]> => {
+      if (!core) return [];
+      const known = new Map([...core.listTasks(), ...tasks].map((task) => [task.id, task]));
+      const readFile = actions?.readFile;
+      const allTasks = await Promise.all(
+        Array.from(core.getTaskIndex().values())
+          .filter((entry) => entry.source === 'tasks')
+          .map(async (entry): Promise<Task | null> => {
+            const task = known.get(entry.id);
+            if (task) return task;
+            if (!readFile) return null;
+            try {
+              return { ...parseTaskMarkdown(await readFile(entry.filePath), entry.filePath), filePath: entry.filePath };
+            } catch (err) {
+              console.warn('[useKanbanData] Skipping unreadable task file:', entry.filePath, err);
+              return null;
+            }
+          })
+      );
+      const { groupedTasks } = buildKanbanStatusGroups(
+        allTasks.filter((task): task is Task => task !== null),
+        configuredStatusesRef.current
+      );
+      return sortTasks(groupedTasks.get(status) ?? []);
+    },
+    [core, tasks, actions]
+  );
+
+  // Persist new ordinals for a reordered column (optimistic, rolled back on failure)
+  const reorderTasks = useCallback(
+    async (updates: TaskOrdinalUpdate[]): Promise<boolean> => {
       const activeSpan = getActiveSpan();
+      if (updates.length === 0) return true;
 
-      // Update tasks with new status
-      setTasks((prev) => {
-        const task = prev.find(t => t.id === taskId);
-        const fromStatus = task?.status || 'unknown';
+      if (!core) {
+        console.warn('[useKanbanData] Core not available for reorderTasks');
+        setError('Cannot reorder tasks - backlog not loaded');
+        return false;
+      }
 
-        const newTasks = prev.map(t =>
-          t.id === taskId ? { ...t, status: newStatus } : t
-        );
+      const busy = updates.find((update) => pendingTaskIdsRef.current.has(update.taskId));
+      if (busy) {
+        console.warn(`[useKanbanData] Task ${busy.taskId} already has a save in flight`);
+        activeSpan?.addEvent('task.save.error', {
+          'error.type': 'SaveInFlight',
+          'error.message': 'Task is still being saved',
+          'task.id': busy.taskId,
+        });
+        return false;
+      }
 
-        // Rebuild column states with updated tasks
-        const newColumnStates = buildColumnStates(newTasks);
-        setColumnStates(newColumnStates);
+      const ordinals = new Map(updates.map((update) => [update.taskId, update.ordinal]));
+      const previousOrdinals = new Map(
+        tasks.filter((t) => ordinals.has(t.id)).map((t) => [t.id, t.ordinal])
+      );
+      const applyOrdinals = (values: Map<string, number | undefined>) => {
+        setTasks((prev) => {
+          const newTasks = prev.map((t) => (values.has(t.id) ? { ...t, ordinal: values.get(t.id) } : t));
+          setColumnStates(buildColumnStates(newTasks));
+          return newTasks;
+        });
+      };
 
-        console.log(`[useKanbanData] Moved task ${taskId} to ${toColumn} (${newStatus})`);
+      setError(null);
+      updates.forEach((update) => setTaskPending(update.taskId, true));
+      applyOrdinals(ordinals);
 
-        // Emit task moved event
-        activeSpan?.addEvent('task.moved', {
-          'task.id': taskId,
-          'from.status': fromStatus,
-          'to.status': newStatus,
+      let written = 0;
+      try {
+        // One file per task, changing only its ordinal line; sparse ordinals
+        // keep this to a single write for most moves
+        for (const { taskId, ordinal } of updates) {
+          const updatedTask = await core.updateTask(taskId, { ordinal });
+          if (!updatedTask) {
+            throw new Error(`Task ${taskId} not found`);
+          }
+          written++;
+        }
+
+        activeSpan?.addEvent('task.reordered', {
+          'task.ids': updates.map((update) => update.taskId).join(','),
+          'tasks.written': written,
         });
 
-        return newTasks;
-      });
+        await applyTaskChanges({ updated: updates.map((update) => update.taskId) });
+        return true;
+      } catch (err) {
+        console.error('[useKanbanData] Failed to reorder tasks:', err);
+        const errorMessage = err instanceof Error ? err.message : 'Failed to reorder tasks';
+
+        // Files already written keep their new ordinal; reload to show the actual order
+        applyOrdinals(previousOrdinals);
+        setError(`Could not save the new task order: ${errorMessage}`);
+        activeSpan?.addEvent('task.save.error', {
+          'error.type': err instanceof Error ? err.name : 'Unknown',
+          'error.message': errorMessage,
+          'tasks.written': written,
+        });
+        if (written > 0) await applyTaskChanges({ updated: updates.map((update) => update.taskId) });
+        return false;
+      } finally {
+        updates.forEach((update) => setTaskPending(update.taskId, false));
+      }
     },
-    [buildColumnStates]
+    [core, tasks, applyTaskChanges, buildColumnStates, setTaskPending]
   );
 
   // Find a task by ID
@@ -430,11 +749,14 @@ export function useKanbanData(
     [tasks]
   );
 
-  // Status columns for 3-column view (use constant array)
-  const statusColumns = STATUS_COLUMNS;
+  // Status columns in render order (configured + overflow)
+  const statusColumns = useMemo(
+    () => (columnStates.size > 0 ? Array.from(columnStates.keys()) : configuredStatuses),
+    [columnStates, configuredStatuses]
+  );
 
   // Compute tasks grouped by status from columnStates
-  const tasksByStatus = (() => {
+  const tasksByStatus = useMemo(() => {
     const result = new Map<StatusColumn, StatusColumnState>();
 
     for (const column of statusColumns) {
@@ -446,15 +768,15 @@ export function useKanbanData(
     }
 
     return result;
-  })();
+  }, [statusColumns, columnStates]);
 
   // Total tasks pagination state
-  const totalTasksState: ActiveTasksState = {
+  const totalTasksState = useMemo<ActiveTasksState>(() => ({
     total: totalCount,
     loaded: totalLoaded,
     hasMore,
     isLoadingMore,
-  };
+  }), [totalCount, totalLoaded, hasMore, isLoadingMore]);
 
   return {
     tasks,
@@ -463,8 +785,15 @@ export function useKanbanData(
     columnStates,
     loadMore,
     refreshData,
+    applyTaskChanges,
     updateTaskStatus,
+    reorderTasks,
+    loadColumnTasks,
+    pendingTaskIds,
+    isTaskPending,
     statusColumns,
+    configuredStatuses,
+    defaultStatus,
     tasksByStatus,
     totalTasksState,
     loadMoreTasks,
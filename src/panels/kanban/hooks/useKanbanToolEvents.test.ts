@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'bun:test';
+import type { Core, Task } from '@backlog-md/core';
+import type { PanelEvent } from '../../../types';
+import {
+  exportBoardTool,
+  filterTasksTool,
+  kanbanPanelTools,
+  moveTaskTool,
+  redoTool,
+  undoTool,
+  type KanbanToolResultPayload,
+} from '../../../tools';
+import { createKanbanToolHandlers } from './useKanbanToolEvents';
+import type { TaskChanges } from './useKanbanData';
+import { createProject, loadCore } from '../../../mocks/memoryProject';
+import { createTask } from '../../../mocks/taskFixtures';
+
+const TASK_PATH = 'backlog/tasks/task-1 - One.md';
+
+const TASK_FILE = `---
+id: task-1
+title: One
+status: To Do
+assignee: []
+created_date: '2025-01-01'
+labels: []
+dependencies: []
+---
+
+## Description
+
+<!-- SECTION:DESCRIPTION:BEGIN -->
+Hello
+<!-- SECTION:DESCRIPTION:END -->
+`;
+
+type HandlerOptions = Parameters<typeof createKanbanToolHandlers>[1];
+
+const fail = (message: string) => async (): Promise<never> => {
+  throw new Error(message);
+};
+
+const defaults: HandlerOptions = {
+  core: null,
+  statusColumns: ['To Do', 'In Progress', 'Done'],
+  getTaskById: () => undefined,
+  selectTask: () => undefined,
+  applyFilter: async () => 0,
+  refreshData: async () => undefined,
+  applyTaskChanges: async () => undefined,
+  views: [],
+  applyView: () => undefined,
+  getBlockers: () => [],
+  exportBoard: async () => ({ success: true, message: 'Exported', count: 0 }),
+  canExportToFile: true,
+  trackMutation: (_label, _ids, mutate) => mutate(),
+  undo: async () => ({ success: true, message: 'Undone' }),
+  redo: async () => ({ success: true, message: 'Redone' }),
+};
+
+// Call a tool's handler and collect the result payloads it emits
+async function callTool(
+  eventType: string,
+  payload: Record<string, unknown>,
+  options: Partial<HandlerOptions> = {}
+): Promise<KanbanToolResultPayload[]> {
+  const results: KanbanToolResultPayload[] = [];
+  const handlers = createKanbanToolHandlers(
+    { emit: (event) => results.push(event.payload as KanbanToolResultPayload) },
+    { ...defaults, ...options }
+  );
+  const handler = handlers.find(([type]) => type === eventType)?.[1];
+  if (!handler) throw new Error(`No handler for ${eventType}`);
+  const event: PanelEvent<unknown> = { type: eventType, source: 'test', timestamp: 0, payload };
+  await handler(event);
+  return results;
+}
+
+// Result keys every tool declares in its outputs schema
+const declaredOutputs = (toolName: string) => {
+  const tool = kanbanPanelTools.find((t) => t.name === toolName);
+  const properties = (tool?.outputs as { properties?: Record<string, unknown> } | undefined)?.properties;
+  return Object.keys(properties ?? {});
+};
+
+describe('createKanbanToolHandlers', () => {
+  it('answers with a failure when a call the tool makes throws', async () => {
+    const loadFails = { loadTask: fail('Disk unavailable') } as unknown as Core;
+    const cases: Array<[string, Record<string, unknown>, Partial<HandlerOptions>, string]> = [
+      [moveTaskTool.tool_call_template.event_type, { taskId: 'task-9', targetStatus: 'Done' }, { core: loadFails }, 'Disk unavailable'],
+      [filterTasksTool.tool_call_template.event_type, { query: 'label:ui' }, { applyFilter: fail('Index failed') }, 'Index failed'],
+      [exportBoardTool.tool_call_template.event_type, { format: 'csv' }, { exportBoard: fail('Write failed') }, 'Write failed'],
+      [undoTool.tool_call_template.event_type, {}, { undo: fail('Undo failed') }, 'Undo failed'],
+      [redoTool.tool_call_template.event_type, {}, { redo: fail('Redo failed') }, 'Redo failed'],
+    ];
+
+    for (const [eventType, payload, options, message] of cases) {
+      const results = await callTool(eventType, { ...payload, requestId: 'r1' }, options);
+      expect(results).toEqual([expect.objectContaining({ requestId: 'r1', success: false, message })]);
+    }
+  });
+
+  it('reports only fields declared in the tool outputs', async () => {
+    const [filtered] = await callTool(filterTasksTool.tool_call_template.event_type, {
+      labels: ['ui'],
+      query: 'login',
+    }, { applyFilter: async () => 3 });
+    expect(filtered).toMatchObject({ success: true, count: 3, filters: 1 });
+
+    const [exported] = await callTool(exportBoardTool.tool_call_template.event_type, { format: 'json' });
+    for (const result of [filtered, exported]) {
+      const extra = Object.keys(result).filter((key) => !['requestId', 'tool'].includes(key));
+      expect(extra.filter((key) => !declaredOutputs(result.tool).includes(key))).toEqual([]);
+    }
+  });
+
+  it('moves a task through Core and reports unfinished dependencies', async () => {
+    const project = createProject({ [TASK_PATH]: TASK_FILE });
+    const core = await loadCore(project);
+    const blocker: Task = createTask('task-2', { status: 'To Do' });
+    const applied: TaskChanges[] = [];
+
+    const results = await callTool(moveTaskTool.tool_call_template.event_type, {
+      taskId: 'task-1',
+      targetStatus: 'in progress',
+    }, { core, getBlockers: () => [blocker], applyTaskChanges: async (changes) => void applied.push(changes) });
+
+    expect(results).toEqual([expect.objectContaining({
+      success: true,
+      message: 'Moved task task-1 to In Progress',
+      warning: 'Task task-1 is blocked by task-2',
+    })]);
+    expect(project.files.get(TASK_PATH)).toContain('status: In Progress');
+    expect(applied).toEqual([{ updated: ['task-1'] }]);
+  });
+
+  it('rejects unknown statuses without writing', async () => {
+    const project = createProject({ [TASK_PATH]: TASK_FILE });
+    const core = await loadCore(project);
+
+    const [result] = await callTool(moveTaskTool.tool_call_template.event_type, {
+      taskId: 'task-1',
+      targetStatus: 'Blocked',
+    }, { core });
+
+    expect(result).toMatchObject({ success: false });
+    expect(result.message).toContain('Unknown status "Blocked"');
+    expect(project.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,450 @@
+import { useEffect } from 'react';
+import type { Core, Task } from '@backlog-md/core';
+import type { PanelEvent, PanelEventEmitter } from '../../../types';
+import type { PanelTool } from '@principal-ade/utcp-panel-event';
+import {
+  moveTaskTool,
+  selectTaskTool,
+  refreshBoardTool,
+  filterTasksTool,
+  switchViewTool,
+  exportBoardTool,
+  undoTool,
+  redoTool,
+  getToolResultEventType,
+  type KanbanToolRequestPayload,
+  type KanbanToolResultPayload,
+} from '../../../tools';
+import { parseTaskQuery, taskFilterToQuery, type TaskFilter } from '../utils/taskQuery';
+import { findBoardView, type SavedBoardView } from '../utils/boardViews';
+import { isInProgressStatus } from '../utils/dependencies';
+import { isBoardExportFormat } from '../utils/boardExport';
+import type { BoardExportRequest, BoardExportResult } from './useBoardExport';
+import type { HistoryResult, TrackMutation } from './useUndoHistory';
+import type { TaskChanges } from './useKanbanData';
+import { getTracer, SpanStatusCode } from '../../../telemetry';
+
+interface MoveTaskPayload extends KanbanToolRequestPayload {
+  taskId?: string;
+  targetStatus?: string;
+}
+
+interface SelectTaskPayload extends KanbanToolRequestPayload {
+  taskId?: string;
+}
+
+interface FilterTasksPayload extends KanbanToolRequestPayload, TaskFilter {
+  query?: string;
+}
+
+interface SwitchViewPayload extends KanbanToolRequestPayload {
+  view?: string;
+}
+
+interface ExportBoardPayload extends KanbanToolRequestPayload {
+  format?: string;
+  destination?: string;
+  path?: string;
+}
+
+interface UseKanbanToolEventsOptions {
+  events?: PanelEventEmitter;
+  /** Shared Core instance from useBacklogCore */
+  core: Core | null;
+  /** Status columns currently shown on the board */
+  statusColumns: string[];
+  /** Find a loaded task by ID */
+  getTaskById: (taskId: string) => Task | undefined;
+  /** Run the board's selection flow for a task */
+  selectTask: (task: Task) => void;
+  /** Apply a filter query to the board, resolving to the number of matching tasks */
+  applyFilter: (query: string) => Promise<number>;
+  /** Reload board data */
+  refreshData: () => Promise<void>;
+  /** Show saved tasks on the board (useKanbanData) */
+  applyTaskChanges: (changes: TaskChanges) => Promise<void>;
+  /** Saved board views */
+  views: SavedBoardView[];
+  /** Apply a saved view (null = all tasks) */
+  applyView: (view: SavedBoardView | null) => void;
+  /** Unfinished dependencies of a task */
+  getBlockers: (taskId: string) => Task[];
+  /** Export the filtered board */
+  exportBoard: (request: BoardExportRequest) => Promise<BoardExportResult>;
+  /** Whether the host can write export files */
+  canExportToFile: boolean;
+  /** Record mutations for undo (useUndoHistory) */
+  trackMutation: TrackMutation;
+  undo: () => Promise<HistoryResult>;
+  redo: () => Promise<HistoryResult>;
+}
+
+export type KanbanToolHandler = (event: PanelEvent<unknown>) => Promise<void> | void;
+
+// Message of a failed call, for the result payload
+const getErrorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+/**
+ * Handlers for the tool events, by event type, answering through `events`.
+ * Every request gets a result, including when a call it makes fails.
+ */
+export function createKanbanToolHandlers(
+  events: Pick<PanelEventEmitter, 'emit'>,
+  options: Omit<UseKanbanToolEventsOptions, 'events'>
+): Array<[string, KanbanToolHandler]> {
+  const {
+    core,
+    statusColumns,
+    getTaskById,
+    selectTask,
+    applyFilter,
+    refreshData,
+    applyTaskChanges,
+    views,
+    applyView,
+    getBlockers,
+    exportBoard,
+    canExportToFile,
+    trackMutation,
+    undo,
+    redo,
+  } = options;
+
+  const emitResult = (
+    tool: PanelTool,
+    request: PanelEvent<unknown>,
+    result: { success: boolean; message?: string; [key: string]: unknown }
+  ) => {
+    const requestId = (request.payload as KanbanToolRequestPayload | undefined)?.requestId;
+    events.emit<KanbanToolResultPayload>({
+      type: getToolResultEventType(tool),
+      source: 'kanban-panel',
+      timestamp: Date.now(),
+      payload: { requestId, tool: tool.name, ...result },
+    });
+  };
+
+  // Resolve a task from the loaded page, falling back to Core's lazy loader
+  const resolveTask = async (taskId: string): Promise<Task | undefined> => {
+    return getTaskById(taskId) ?? (await core?.loadTask(taskId));
+  };
+
+  const handleMoveTask = async (event: PanelEvent<unknown>) => {
+    const { taskId, targetStatus } = (event.payload ?? {}) as MoveTaskPayload;
+
+    if (!taskId || !targetStatus) {
+      emitResult(moveTaskTool, event, {
+        success: false,
+        message: 'taskId and targetStatus are required',
+      });
+      return;
+    }
+
+    if (!core) {
+      emitResult(moveTaskTool, event, { success: false, message: 'Backlog not loaded' });
+      return;
+    }
+
+    const status = statusColumns.find(
+      (s) => s.toLowerCase() === targetStatus.trim().toLowerCase()
+    );
+    if (!status) {
+      emitResult(moveTaskTool, event, {
+        success: false,
+        message: `Unknown status "${targetStatus}". Expected one of: ${statusColumns.join(', ')}`,
+      });
+      return;
+    }
+
+    let task: Task | undefined;
+    try {
+      task = await resolveTask(taskId);
+    } catch (err) {
+      emitResult(moveTaskTool, event, { success: false, message: getErrorMessage(err, 'Failed to load task') });
+      return;
+    }
+    if (!task) {
+      emitResult(moveTaskTool, event, { success: false, message: `Task ${taskId} not found` });
+      return;
+    }
+
+    if (task.status === status) {
+      emitResult(moveTaskTool, event, {
+        success: true,
+        message: `Task ${taskId} is already in ${status}`,
+      });
+      return;
+    }
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('task.edit', {
+      attributes: {
+        'input.taskId': taskId,
+        'input.fromStatus': task.status || 'unknown',
+        'input.source': 'tool',
+      },
+    });
+    span.addEvent('task.moved', {
+      'task.id': taskId,
+      'from.status': task.status || 'unknown',
+      'to.status': status,
+    });
+
+    // Starting a blocked task is allowed, but reported back to the caller
+    const blockers = isInProgressStatus(status) ? getBlockers(task.id) : [];
+    const warning = blockers.length > 0
+      ? `Task ${taskId} is blocked by ${blockers.map((blocker) => blocker.id).join(', ')}`
+      : undefined;
+    if (warning) {
+      span.addEvent('task.blocked.warning', {
+        'task.id': taskId,
+        'blocked.by': blockers.map((blocker) => blocker.id).join(','),
+        'blocked.action': 'ignored',
+      });
+    }
+
+    try {
+      const updated = await trackMutation(`Move ${taskId} to ${status}`, [task.id], () =>
+        core.updateTask(task.id, { status })
+      );
+      if (!updated) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+
+      span.addEvent('task.updated', {
+        'task.id': taskId,
+        'task.status': status,
+        'updated.fields': 'status',
+      });
+      span.setAttributes({ 'output.toStatus': status, 'output.moved': true });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      await applyTaskChanges({ updated: [task.id] });
+      emitResult(moveTaskTool, event, {
+        success: true,
+        message: `Moved task ${taskId} to ${status}`,
+        ...(warning ? { warning } : {}),
+      });
+    } catch (err) {
+      const errorMessage = getErrorMessage(err, 'Failed to move task');
+      span.addEvent('task.save.error', {
+        'task.id': taskId,
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': errorMessage,
+      });
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+      emitResult(moveTaskTool, event, { success: false, message: errorMessage });
+    } finally {
+      span.end();
+    }
+  };
+
+  const handleSelectTask = async (event: PanelEvent<unknown>) => {
+    const { taskId } = (event.payload ?? {}) as SelectTaskPayload;
+
+    if (!taskId) {
+      emitResult(selectTaskTool, event, { success: false, message: 'taskId is required' });
+      return;
+    }
+
+    try {
+      const task = await resolveTask(taskId);
+      if (!task) {
+        emitResult(selectTaskTool, event, { success: false, message: `Task ${taskId} not found` });
+        return;
+      }
+
+      selectTask(task);
+      emitResult(selectTaskTool, event, { success: true, task });
+    } catch (err) {
+      emitResult(selectTaskTool, event, {
+        success: false,
+        message: getErrorMessage(err, 'Failed to select task'),
+      });
+    }
+  };
+
+  const handleRefreshBoard = async (event: PanelEvent<unknown>) => {
+    try {
+      await refreshData();
+      emitResult(refreshBoardTool, event, { success: true });
+    } catch (err) {
+      emitResult(refreshBoardTool, event, {
+        success: false,
+        message: getErrorMessage(err, 'Failed to refresh board'),
+      });
+    }
+  };
+
+  const handleFilterTasks = async (event: PanelEvent<unknown>) => {
+    const { labels, assignee, priority, query } = (event.payload ?? {}) as FilterTasksPayload;
+    const filterQuery = [taskFilterToQuery({ labels, assignee, priority }), query?.trim() ?? '']
+      .filter(Boolean)
+      .join(' ');
+
+    try {
+      const count = await applyFilter(filterQuery);
+      emitResult(filterTasksTool, event, {
+        success: true,
+        count,
+        filters: parseTaskQuery(filterQuery).filters.length,
+      });
+    } catch (err) {
+      emitResult(filterTasksTool, event, { success: false, message: getErrorMessage(err, 'Failed to filter tasks') });
+    }
+  };
+
+  const handleSwitchView = (event: PanelEvent<unknown>) => {
+    const { view: requested } = (event.payload ?? {}) as SwitchViewPayload;
+
+    if (!requested?.trim()) {
+      applyView(null);
+      emitResult(switchViewTool, event, { success: true, message: 'Showing all tasks' });
+      return;
+    }
+
+    const view = findBoardView(views, requested);
+    if (!view) {
+      emitResult(switchViewTool, event, {
+        success: false,
+        message: views.length > 0
+          ? `Unknown view "${requested}". Expected one of: ${views.map((v) => v.name).join(', ')}`
+          : `Unknown view "${requested}". No saved views exist yet`,
+      });
+      return;
+    }
+
+    applyView(view);
+    emitResult(switchViewTool, event, {
+      success: true,
+      message: `Switched to view "${view.name}"`,
+      view,
+    });
+  };
+
+  const handleExportBoard = async (event: PanelEvent<unknown>) => {
+    const { format = 'markdown', destination, path } = (event.payload ?? {}) as ExportBoardPayload;
+
+    if (!isBoardExportFormat(format)) {
+      emitResult(exportBoardTool, event, {
+        success: false,
+        message: `Unknown format "${format}". Expected one of: markdown, csv, json`,
+      });
+      return;
+    }
+    if (destination !== undefined && destination !== 'file' && destination !== 'clipboard') {
+      emitResult(exportBoardTool, event, {
+        success: false,
+        message: `Unknown destination "${destination}". Expected "file" or "clipboard"`,
+      });
+      return;
+    }
+
+    try {
+      const result = await exportBoard({
+        format,
+        destination: destination ?? (canExportToFile ? 'file' : 'clipboard'),
+        path,
+      });
+      emitResult(exportBoardTool, event, { ...result });
+    } catch (err) {
+      emitResult(exportBoardTool, event, { success: false, message: getErrorMessage(err, 'Failed to export board') });
+    }
+  };
+
+  const handleHistory = async (tool: PanelTool, event: PanelEvent<unknown>) => {
+    try {
+      const result = await (tool === undoTool ? undo() : redo());
+      emitResult(tool, event, { ...result });
+    } catch (err) {
+      emitResult(tool, event, {
+        success: false,
+        message: getErrorMessage(err, tool === undoTool ? 'Failed to undo' : 'Failed to redo'),
+      });
+    }
+  };
+
+  return [
+    [moveTaskTool.tool_call_template.event_type, handleMoveTask],
+    [selectTaskTool.tool_call_template.event_type, handleSelectTask],
+    [refreshBoardTool.tool_call_template.event_type, handleRefreshBoard],
+    [filterTasksTool.tool_call_template.event_type, handleFilterTasks],
+    [switchViewTool.tool_call_template.event_type, handleSwitchView],
+    [exportBoardTool.tool_call_template.event_type, handleExportBoard],
+    [undoTool.tool_call_template.event_type, (event) => handleHistory(undoTool, event)],
+    [redoTool.tool_call_template.event_type, (event) => handleHistory(redoTool, event)],
+  ];
+}
+
+/**
+ * Hook that handles the UTCP tool events declared in `src/tools`.
+ *
+ * Every handled event is answered with a `<event_type>:result` event whose
+ * payload follows the tool's `outputs` schema and echoes the request's
+ * `requestId`, so agent hosts can await the outcome.
+ */
+export function useKanbanToolEvents(options: UseKanbanToolEventsOptions): void {
+  const {
+    events,
+    core,
+    statusColumns,
+    getTaskById,
+    selectTask,
+    applyFilter,
+    refreshData,
+    applyTaskChanges,
+    views,
+    applyView,
+    getBlockers,
+    exportBoard,
+    canExportToFile,
+    trackMutation,
+    undo,
+    redo,
+  } = options;
+
+  useEffect(() => {
+    if (!events) return;
+
+    const handlers = createKanbanToolHandlers(events, {
+      core,
+      statusColumns,
+      getTaskById,
+      selectTask,
+      applyFilter,
+      refreshData,
+      applyTaskChanges,
+      views,
+      applyView,
+      getBlockers,
+      exportBoard,
+      canExportToFile,
+      trackMutation,
+      undo,
+      redo,
+    });
+    const unsubscribers = handlers.map(([type, handler]) => events.on(type, handler));
+
+    return () => {
+      unsubscribers.forEach((unsub) => unsub());
+    };
+  }, [
+    events,
+    core,
+    statusColumns,
+    getTaskById,
+    selectTask,
+    applyFilter,
+    refreshData,
+    applyTaskChanges,
+    views,
+    applyView,
+    getBlockers,
+    exportBoard,
+    canExportToFile,
+    trackMutation,
+    undo,
+    redo,
+  ]);
+}
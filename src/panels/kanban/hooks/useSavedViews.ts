@@ -0,0 +1,179 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { KanbanPanelActions, PanelEventEmitter } from '../../../types';
+import { getTracer, SpanStatusCode } from '../../../telemetry';
+import {
+  BOARD_VIEWS_FILE,
+  createBoardViewId,
+  parseBoardViewsFile,
+  serializeBoardViewsFile,
+  type BoardViewState,
+  type SavedBoardView,
+} from '../utils/boardViews';
+
+interface UseSavedViewsOptions {
+  actions?: KanbanPanelActions;
+  events?: PanelEventEmitter;
+  /** All file paths in the project (from useBacklogCore) */
+  filePaths: string[];
+  /** Whether write actions are available */
+  canWrite: boolean;
+}
+
+export interface UseSavedViewsResult {
+  views: SavedBoardView[];
+  isLoading: boolean;
+  /** Error from the last load or save */
+  error: string | null;
+  /** Save the state as a new named view */
+  saveView: (name: string, state: BoardViewState) => Promise<SavedBoardView | null>;
+  /** Overwrite an existing view's state */
+  updateView: (id: string, state: BoardViewState) => Promise<boolean>;
+  deleteView: (id: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+/**
+ * Hook for the team's saved board views.
+ *
+ * Views are stored in `backlog/views.json` so they are shared through the
+ * repository. The file is re-read when it is written by another panel or
+ * changes in the file tree.
+ */
+export function useSavedViews(options: UseSavedViewsOptions): UseSavedViewsResult {
+  const { actions, events, filePaths, canWrite } = options;
+
+  const [views, setViews] = useState<SavedBoardView[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Latest views for writes issued from stale closures
+  const viewsRef = useRef<SavedBoardView[]>([]);
+  viewsRef.current = views;
+
+  const actionsRef = useRef(actions);
+  useEffect(() => {
+    actionsRef.current = actions;
+  }, [actions]);
+
+  const hasViewsFile = filePaths.includes(BOARD_VIEWS_FILE);
+
+  const loadViews = useCallback(async () => {
+    const readFile = actionsRef.current?.readFile;
+    if (!readFile) return;
+
+    setIsLoading(true);
+    try {
+      const content = await readFile(BOARD_VIEWS_FILE);
+      setViews(parseBoardViewsFile(content));
+      setError(null);
+    } catch (err) {
+      console.warn('[useSavedViews] Failed to load saved views:', err);
+      setError(`Could not read ${BOARD_VIEWS_FILE}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (hasViewsFile) {
+      loadViews();
+    } else {
+      setViews([]);
+    }
+  }, [hasViewsFile, loadViews]);
+
+  // Pick up edits written by other panels or teammates
+  useEffect(() => {
+    if (!events) return;
+
+    const unsubscribe = events.on('file:write-complete', (event: { payload?: { path?: string } }) => {
+      if (event.payload?.path === BOARD_VIEWS_FILE) {
+        loadViews();
+      }
+    });
+
+    return unsubscribe;
+  }, [events, loadViews]);
+
+  // Write the full list and trace the change on a board.interaction span
+  const writeViews = useCallback(async (
+    next: SavedBoardView[],
+    eventName: string,
+    view: SavedBoardView
+  ): Promise<boolean> => {
+    const writeFile = actionsRef.current?.writeFile;
+    if (!canWrite || !writeFile) {
+      setError('Saving views requires write access');
+      return false;
+    }
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('board.interaction', {
+      attributes: { 'view.id': view.id },
+    });
+
+    try {
+      await writeFile(BOARD_VIEWS_FILE, serializeBoardViewsFile(next));
+      setViews(next);
+      setError(null);
+      span.addEvent(eventName, {
+        'view.id': view.id,
+        'view.name': view.name,
+        'views.count': next.length,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save views';
+      setError(`Could not save views: ${errorMessage}`);
+      span.addEvent('view.save.error', {
+        'view.id': view.id,
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': errorMessage,
+      });
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+      return false;
+    } finally {
+      span.end();
+    }
+  }, [canWrite]);
+
+  const saveView = useCallback(async (name: string, state: BoardViewState) => {
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+
+    const current = viewsRef.current;
+    const view: SavedBoardView = { id: createBoardViewId(trimmed, current), name: trimmed, ...state };
+    const saved = await writeViews([...current, view], 'view.saved', view);
+    return saved ? view : null;
+  }, [writeViews]);
+
+  const updateView = useCallback(async (id: string, state: BoardViewState) => {
+    const current = viewsRef.current;
+    const existing = current.find((view) => view.id === id);
+    if (!existing) return false;
+
+    const view: SavedBoardView = { ...existing, ...state };
+    return writeViews(current.map((v) => (v.id === id ? view : v)), 'view.updated', view);
+  }, [writeViews]);
+
+  const deleteView = useCallback(async (id: string) => {
+    const current = viewsRef.current;
+    const existing = current.find((view) => view.id === id);
+    if (!existing) return false;
+
+    return writeViews(current.filter((v) => v.id !== id), 'view.deleted', existing);
+  }, [writeViews]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    views,
+    isLoading,
+    error,
+    saveView,
+    updateView,
+    deleteView,
+    clearError,
+  };
+}
@@ -0,0 +1,376 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { parseTaskMarkdown, type Task } from '@backlog-md/core';
+import type { KanbanPanelActions, PanelEventEmitter } from '../../../types';
+import type { PanelFileSystemAdapter } from '../../../adapters/PanelFileSystemAdapter';
+import type { TaskFileMove } from '../../../hooks/useBacklogCore';
+import { getTracer, SpanStatusCode, type Span } from '../../../telemetry';
+import { getArchivedTaskPath, getRestoredTaskPath, isArchivedTaskPath } from '../utils/taskArchive';
+
+interface UseTaskArchiveOptions {
+  actions?: KanbanPanelActions;
+  /** File system adapter behind Core; task files are moved with its `rename` */
+  fileSystem?: PanelFileSystemAdapter | null;
+  events?: PanelEventEmitter;
+  /** Source of emitted `task:archived` / `task:restored` events */
+  source: 'kanban-panel' | 'task-detail-panel';
+  /** Whether write actions are available */
+  canWrite: boolean;
+  /** Paths in the host's file tree (archived tasks are listed from these) */
+  filePaths?: string[];
+  /** Read archived tasks; only needed while they are displayed */
+  loadArchived?: boolean;
+  /** Called once per archive, restore or bulk archive with the files moved (see useBacklogCore's `applyTaskMoves`) */
+  onTasksMoved?: (moves: TaskFileMove[]) => Promise<void> | void;
+}
+
+export interface TaskArchiveFailure {
+  task: Task;
+  error: string;
+}
+
+export interface TaskArchiveResult {
+  /** Tasks moved, with their new `filePath` */
+  moved: Task[];
+  failed: TaskArchiveFailure[];
+}
+
+export interface UseTaskArchiveResult {
+  /** Move a task to `backlog/archive/tasks`; returns the archived task */
+  archiveTask: (task: Task, inputSource: string) => Promise<Task | null>;
+  /** Archive several tasks one after another, collecting per-task errors */
+  archiveTasks: (
+    tasks: Task[],
+    inputSource: string,
+    onProgress?: (done: number, total: number) => void
+  ) => Promise<TaskArchiveResult>;
+  /** Move an archived task back to `backlog/tasks`; returns the restored task */
+  restoreTask: (task: Task, inputSource: string) => Promise<Task | null>;
+  /** Whether the host supports the file operations archiving needs */
+  canArchive: boolean;
+  /** IDs of tasks currently being archived or restored */
+  pendingIds: Set<string>;
+  /** Find an archived task by ID, reading its file if it isn't listed yet */
+  findArchivedTask: (taskId: string) => Promise<Task | null>;
+  /** Archived tasks (when `loadArchived` is set), sorted by ID */
+  archivedTasks: Task[];
+  isLoadingArchived: boolean;
+  /** Error from the last archive or restore */
+  error: string | null;
+  clearError: () => void;
+}
+
+const compareIds = (a: Task, b: Task) =>
+  a.id.localeCompare(b.id, undefined, { numeric: true, sensitivity: 'base' });
+
+// Record a failed move on the span; returns the error message
+function recordError(span: Span, err: unknown, task: Task, operation: string): string {
+  const errorMessage = err instanceof Error ? err.message : `Failed to ${operation} task`;
+  span.addEvent('task.save.error', {
+    'task.id': task.id,
+    'operation': operation,
+    'error.type': err instanceof Error ? err.name : 'Unknown',
+    'error.message': errorMessage,
+  });
+  return errorMessage;
+}
+
+/**
+ * Hook archiving tasks the Backlog.md way: the task file moves to
+ * `backlog/archive/tasks` and back to `backlog/tasks` on restore.
+ *
+ * Core's own `archiveTask` moves files to `backlog/completed` instead, so
+ * moves go through the adapter's `rename` (the host's `renameFile`, or a copy
+ * and delete). Core doesn't index the archive folder, so the moves are
+ * handed to `onTasksMoved` to update it; other panels hear about them
+ * through `task:archived` / `task:restored`.
+ */
+export function useTaskArchive(options: UseTaskArchiveOptions): UseTaskArchiveResult {
+  const { actions, fileSystem, events, source, canWrite, filePaths = [], loadArchived = false, onTasksMoved } = options;
+
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [archivedByPath, setArchivedByPath] = useState<Map<string, Task>>(new Map());
+  const [isLoadingArchived, setIsLoadingArchived] = useState(false);
+  // Moves made here, until the host's file tree catches up
+  const [movedIn, setMovedIn] = useState<Map<string, Task>>(new Map());
+  const [movedOut, setMovedOut] = useState<Set<string>>(new Set());
+
+  const actionsRef = useRef(actions);
+  useEffect(() => {
+    actionsRef.current = actions;
+  }, [actions]);
+
+  const fileSystemRef = useRef(fileSystem);
+  useEffect(() => {
+    fileSystemRef.current = fileSystem;
+  }, [fileSystem]);
+
+  const onTasksMovedRef = useRef(onTasksMoved);
+  useEffect(() => {
+    onTasksMovedRef.current = onTasksMoved;
+  }, [onTasksMoved]);
+
+  // Hand the moves to Core in one go (a reload at worst, not one per task)
+  const applyMoves = useCallback(async (from: Task[], moved: Task[]) => {
+    const moves = moved.map((task, i) => ({ from: from[i].filePath ?? '', to: task.filePath ?? '' }));
+    if (moves.length === 0) return;
+    try {
+      await onTasksMovedRef.current?.(moves);
+    } catch (err) {
+      console.error('[useTaskArchive] Failed to apply moved task files:', err);
+    }
+  }, []);
+
+  const canArchive = canWrite && Boolean(fileSystem?.canRename);
+
+  const setPending = useCallback((taskId: string, pending: boolean) => {
+    setPendingIds((prev) => {
+      const next = new Set(prev);
+      if (pending) next.add(taskId);
+      else next.delete(taskId);
+      return next;
+    });
+  }, []);
+
+  // Move the file; returns its content for the moved task
+  const moveTaskFile = useCallback(async (from: string, to: string): Promise<string> => {
+    const fs = fileSystemRef.current;
+    if (!fs?.canRename) {
+      throw new Error('Archiving is not available');
+    }
+    if (await fs.exists(to)) {
+      throw new Error(`${to} already exists`);
+    }
+
+    const content = await fs.readFile(from);
+    await fs.rename(from, to);
+    return content;
+  }, []);
+
+  const moveTask = useCallback(async (
+    task: Task,
+    operation: 'archive' | 'restore',
+    span: Span
+  ): Promise<Task> => {
+    if (!task.filePath) {
+      throw new Error(`Task ${task.id} has no file`);
+    }
+    const from = task.filePath;
+    const target = operation === 'archive' ? getArchivedTaskPath(from) : getRestoredTaskPath(from);
+    if (!target) {
+      throw new Error(operation === 'archive'
+        ? `Task ${task.id} is not in backlog/tasks or backlog/completed`
+        : `Task ${task.id} is not archived`);
+    }
+
+    setPending(task.id, true);
+    try {
+      const content = await moveTaskFile(from, target);
+      const moved = { ...parseTaskMarkdown(content, target), filePath: target };
+
+      span.addEvent(operation === 'archive' ? 'task.archived' : 'task.restored', {
+        'task.id': task.id,
+        'file.from': from,
+        'file.to': target,
+      });
+
+      if (operation === 'archive') {
+        setMovedIn((prev) => new Map(prev).set(target, moved));
+        setMovedOut((prev) => {
+          const next = new Set(prev);
+          next.delete(target);
+          return next;
+        });
+      } else {
+        setMovedIn((prev) => {
+          const next = new Map(prev);
+          next.delete(from);
+          return next;
+        });
+        setMovedOut((prev) => new Set(prev).add(from));
+      }
+
+      events?.emit({
+        type: operation === 'archive' ? 'task:archived' : 'task:restored',
+        source,
+        timestamp: Date.now(),
+        payload: { taskId: task.id, task: moved, previousPath: from },
+      });
+      return moved;
+    } finally {
+      setPending(task.id, false);
+    }
+  }, [events, source, moveTaskFile, setPending]);
+
+  const runSingle = useCallback(async (
+    task: Task,
+    operation: 'archive' | 'restore',
+    inputSource: string
+  ): Promise<Task | null> => {
+    if (!canArchive) return null;
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('task.edit', {
+      attributes: {
+        'input.taskId': task.id,
+        'input.source': inputSource,
+      },
+    });
+
+    setError(null);
+    try {
+      const moved = await moveTask(task, operation, span);
+      await applyMoves([task], [moved]);
+      span.setStatus({ code: SpanStatusCode.OK });
+      return moved;
+    } catch (err) {
+      const errorMessage = recordError(span, err, task, operation);
+      console.error(`[useTaskArchive] Failed to ${operation} ${task.id}:`, err);
+      setError(errorMessage);
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+      return null;
+    } finally {
+      span.end();
+    }
+  }, [canArchive, moveTask, applyMoves]);
+
+  const archiveTask = useCallback(
+    (task: Task, inputSource: string) => runSingle(task, 'archive', inputSource),
+    [runSingle]
+  );
+
+  const restoreTask = useCallback(
+    (task: Task, inputSource: string) => runSingle(task, 'restore', inputSource),
+    [runSingle]
+  );
+
+  const archiveTasks = useCallback(async (
+    tasks: Task[],
+    inputSource: string,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<TaskArchiveResult> => {
+    const result: TaskArchiveResult = { moved: [], failed: [] };
+    if (!canArchive || tasks.length === 0) return result;
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('task.edit', {
+      attributes: {
+        'input.taskCount': tasks.length,
+        'input.source': inputSource,
+      },
+    });
+
+    setError(null);
+    const archived: Task[] = [];
+    // Sequential: hosts may not handle concurrent writes to the same folder
+    for (const task of tasks) {
+      try {
+        result.moved.push(await moveTask(task, 'archive', span));
+        archived.push(task);
+      } catch (err) {
+        result.failed.push({ task, error: recordError(span, err, task, 'archive') });
+      }
+      onProgress?.(result.moved.length + result.failed.length, tasks.length);
+    }
+    await applyMoves(archived, result.moved);
+
+    span.addEvent('tasks.archived', {
+      'archive.count': result.moved.length,
+      'archive.failed': result.failed.length,
+    });
+    if (result.failed.length > 0) {
+      const errorMessage = `Failed to archive ${result.failed.map((f) => f.task.id).join(', ')}`;
+      console.error('[useTaskArchive] Bulk archive failures:', result.failed);
+      setError(errorMessage);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+    } else {
+      span.setStatus({ code: SpanStatusCode.OK });
+    }
+    span.end();
+    return result;
+  }, [canArchive, moveTask, applyMoves]);
+
+  // Archived files: the file tree plus moves the tree hasn't picked up yet
+  const archivedPaths = useMemo(() => {
+    const paths = new Set(filePaths.filter((path) => isArchivedTaskPath(path)));
+    for (const path of movedIn.keys()) paths.add(path);
+    for (const path of movedOut) paths.delete(path);
+    return Array.from(paths).sort();
+  }, [filePaths, movedIn, movedOut]);
+
+  const archivedPathsKey = archivedPaths.join('\n');
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    if (!loadArchived) return;
+
+    const readFile = actionsRef.current?.readFile;
+    const paths = archivedPathsKey ? archivedPathsKey.split('\n') : [];
+    const request = ++requestRef.current;
+
+    setIsLoadingArchived(true);
+    (async () => {
+      const next = new Map<string, Task>();
+      for (const path of paths) {
+        const known = archivedByPath.get(path) ?? movedIn.get(path);
+        if (known) {
+          next.set(path, known);
+          continue;
+        }
+        if (!readFile) continue;
+        try {
+          next.set(path, { ...parseTaskMarkdown(await readFile(path), path), filePath: path });
+        } catch (err) {
+          console.warn('[useTaskArchive] Skipping unreadable archived task:', path, err);
+        }
+      }
+      if (request !== requestRef.current) return;
+      setArchivedByPath(next);
+      setIsLoadingArchived(false);
+    })();
+    // Only the path list triggers a reload; known tasks are reused
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadArchived, archivedPathsKey]);
+
+  const archivedTasks = useMemo(
+    () => Array.from(archivedByPath.values()).sort(compareIds),
+    [archivedByPath]
+  );
+
+  const findArchivedTask = useCallback(async (taskId: string): Promise<Task | null> => {
+    const id = taskId.toLowerCase();
+    const known = [...archivedByPath.values(), ...movedIn.values()].find((task) => task.id.toLowerCase() === id);
+    if (known) return known;
+
+    // Backlog.md names task files `<id> - <title>.md`
+    const readFile = actionsRef.current?.readFile;
+    if (!readFile) return null;
+    for (const path of archivedPaths) {
+      const fileName = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+      if (!fileName.startsWith(`${id} `) && !fileName.startsWith(`${id}.`)) continue;
+      try {
+        const task = parseTaskMarkdown(await readFile(path), path);
+        if (task.id.toLowerCase() === id) return { ...task, filePath: path };
+      } catch (err) {
+        console.warn('[useTaskArchive] Skipping unreadable archived task:', path, err);
+      }
+    }
+    return null;
+  }, [archivedByPath, movedIn, archivedPaths]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    archiveTask,
+    archiveTasks,
+    restoreTask,
+    canArchive,
+    pendingIds,
+    findArchivedTask,
+    archivedTasks,
+    isLoadingArchived,
+    error,
+    clearError,
+  };
+}
@@ -0,0 +1,354 @@
+import { useState, useCallback, useRef } from 'react';
+import type { Core, Task, TaskUpdateInput } from '@backlog-md/core';
+import type { KanbanPanelActions, PanelEventEmitter } from '../../../types';
+import type { TaskMenuAction } from '../components/TaskContextMenu';
+import type { TrackMutation } from './useUndoHistory';
+import type { TaskChanges } from './useKanbanData';
+import { getTracer, withSpan, SpanStatusCode, type Span } from '../../../telemetry';
+
+interface UseTaskMenuActionsOptions {
+  /** Shared Core instance from useBacklogCore */
+  core: Core | null;
+  actions?: KanbanPanelActions;
+  events?: PanelEventEmitter;
+  /** Whether write actions are available */
+  canWrite: boolean;
+  /** Persisting status move from useKanbanData */
+  updateTaskStatus: (taskId: string, newStatus: string) => Promise<boolean>;
+  /** Show saved tasks on the board (useKanbanData) */
+  applyTaskChanges: (changes: TaskChanges) => Promise<void>;
+  /** Open the task modal in edit mode */
+  onEdit: (task: Task) => void;
+  /** Move a task to the archive folder (useTaskArchive) */
+  archiveTask: (task: Task, inputSource: string) => Promise<Task | null>;
+  /** Record mutations for undo (useUndoHistory) */
+  trackMutation: TrackMutation;
+}
+
+export interface UseTaskMenuActionsResult {
+  /** Handle an action chosen in a card's context menu */
+  handleMenuAction: (task: Task, action: TaskMenuAction) => void;
+  /** Task awaiting delete confirmation */
+  pendingDelete: Task | null;
+  /** Whether the confirmed delete is in progress */
+  isDeleting: boolean;
+  /** Error from the last delete attempt (shown in the dialog) */
+  deleteError: string | null;
+  confirmDelete: () => Promise<void>;
+  cancelDelete: () => void;
+  /** Error from the last menu action */
+  error: string | null;
+  clearError: () => void;
+}
+
+const WRITE_ACTIONS = new Set<TaskMenuAction['type']>([
+  'edit',
+  'move',
+  'set-priority',
+  'set-milestone',
+  'duplicate',
+  'archive',
+  'delete',
+]);
+
+/**
+ * Hook implementing the task card context menu actions.
+ *
+ * Write actions are gated by `canWrite` and traced on the same spans as the
+ * equivalent UI flows: `task.edit` for updates and moves, `task.create` for
+ * duplicates and `task.delete` for deletes (opened when confirmation is shown).
+ */
+export function useTaskMenuActions(options: UseTaskMenuActionsOptions): UseTaskMenuActionsResult {
+  const {
+    core,
+    actions,
+    events,
+    canWrite,
+    updateTaskStatus,
+    applyTaskChanges,
+    onEdit,
+    archiveTask,
+    trackMutation,
+  } = options;
+
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Task | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const deleteSpanRef = useRef<Span | null>(null);
+
+  const emitTaskUpdated = useCallback((task: Task) => {
+    events?.emit({
+      type: 'task:updated',
+      source: 'kanban-panel',
+      timestamp: Date.now(),
+      payload: { taskId: task.id, task },
+    });
+  }, [events]);
+
+  // Run a Core update inside a task.edit span
+  const runTaskUpdate = useCallback(async (
+    task: Task,
+    input: TaskUpdateInput,
+    eventName: string,
+    label: string
+  ) => {
+    if (!core) return;
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('task.edit', {
+      attributes: {
+        'input.taskId': task.id,
+        'input.source': 'context-menu',
+      },
+    });
+
+    try {
+      const updated = await trackMutation(label, [task.id], () => core.updateTask(task.id, input));
+      if (!updated) {
+        throw new Error(`Task ${task.id} not found`);
+      }
+
+      span.addEvent(eventName, { 'task.id': task.id });
+      span.addEvent('task.updated', {
+        'task.id': task.id,
+        'updated.fields': Object.keys(input).join(', '),
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      emitTaskUpdated(updated);
+      await applyTaskChanges({ updated: [task.id] });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update task';
+      setError(errorMessage);
+      span.addEvent('task.save.error', {
+        'task.id': task.id,
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': errorMessage,
+      });
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+    } finally {
+      span.end();
+    }
+  }, [core, applyTaskChanges, emitTaskUpdated, trackMutation]);
+
+  const moveTask = useCallback(async (task: Task, status: string) => {
+    const tracer = getTracer();
+    const span = tracer.startSpan('task.edit', {
+      attributes: {
+        'input.taskId': task.id,
+        'input.fromStatus': task.status || 'unknown',
+        'input.source': 'context-menu',
+      },
+    });
+
+    // updateTaskStatus records task.moved / task.updated on the active span
+    const saved = await withSpan(span, () =>
+      trackMutation(`Move ${task.id} to ${status}`, [task.id], () => updateTaskStatus(task.id, status))
+    );
+    span.setAttributes({ 'output.toStatus': status, 'output.moved': saved });
+    span.setStatus(
+      saved
+        ? { code: SpanStatusCode.OK }
+        : { code: SpanStatusCode.ERROR, message: 'Failed to save task status' }
+    );
+    span.end();
+  }, [updateTaskStatus, trackMutation]);
+
+  const duplicateTask = useCallback(async (task: Task) => {
+    if (!core) return;
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('task.create', {
+      attributes: {
+        'input.sourceTaskId': task.id,
+        'input.source': 'context-menu',
+      },
+    });
+
+    try {
+      const copy = await trackMutation(`Duplicate ${task.id}`, [], () => core.createTask({
+        title: `${task.title} (copy)`,
+        description: task.description,
+        status: task.status,
+        priority: task.priority,
+        milestone: task.milestone,
+        labels: task.labels,
+        assignee: task.assignee,
+        dependencies: task.dependencies,
+        references: task.references,
+        parentTaskId: task.parentTaskId,
+        implementationPlan: task.implementationPlan,
+        implementationNotes: task.implementationNotes,
+        acceptanceCriteria: task.acceptanceCriteriaItems?.map((item) => ({
+          text: item.text,
+          checked: false,
+        })),
+      }), (created) => [created.id]);
+
+      span.addEvent('task.created', {
+        'task.id': copy.id,
+        'task.status': copy.status,
+        'duplicated.from': task.id,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+      await applyTaskChanges({ added: [copy.id] });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to duplicate task';
+      setError(errorMessage);
+      span.addEvent('task.save.error', {
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': errorMessage,
+      });
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+    } finally {
+      span.end();
+    }
+  }, [core, applyTaskChanges, trackMutation]);
+
+  const requestDelete = useCallback((task: Task) => {
+    // Start task.delete span (will be ended on confirm or cancel)
+    const tracer = getTracer();
+    const span = tracer.startSpan('task.delete', {
+      attributes: { 'task.id': task.id },
+    });
+    span.addEvent('delete.modal.opened', {
+      'task.id': task.id,
+    });
+    deleteSpanRef.current = span;
+
+    setDeleteError(null);
+    setPendingDelete(task);
+  }, []);
+
+  const confirmDelete = useCallback(async () => {
+    const task = pendingDelete;
+    if (!task || !core) return;
+
+    const span = deleteSpanRef.current;
+    setIsDeleting(true);
+    setDeleteError(null);
+
+    try {
+      const deleted = await trackMutation(`Delete ${task.id}`, [task.id], () => core.deleteTask(task.id));
+      if (!deleted) {
+        throw new Error(`Task ${task.id} not found`);
+      }
+
+      span?.addEvent('task.deleted', {
+        'task.id': task.id,
+        'delete.method': 'core',
+      });
+      span?.setStatus({ code: SpanStatusCode.OK });
+      span?.end();
+      deleteSpanRef.current = null;
+
+      setPendingDelete(null);
+
+      events?.emit({
+        type: 'task:deleted',
+        source: 'kanban-panel',
+        timestamp: Date.now(),
+        payload: { taskId: task.id },
+      });
+
+      await applyTaskChanges({ removed: [task.id] });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete task';
+      setDeleteError(errorMessage);
+      span?.addEvent('task.save.error', {
+        'task.id': task.id,
+        'operation': 'delete',
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': errorMessage,
+      });
+      span?.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+      span?.end();
+      deleteSpanRef.current = null;
+    } finally {
+      setIsDeleting(false);
+    }
+  }, [core, events, pendingDelete, applyTaskChanges, trackMutation]);
+
+  const cancelDelete = useCallback(() => {
+    const span = deleteSpanRef.current;
+    if (span) {
+      span.addEvent('delete.modal.cancelled', {
+        'task.id': pendingDelete?.id,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+      span.end();
+      deleteSpanRef.current = null;
+    }
+    setPendingDelete(null);
+    setDeleteError(null);
+  }, [pendingDelete]);
+
+  const openTaskFile = useCallback((task: Task) => {
+    if (!task.filePath || !actions?.openFile) return;
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('board.interaction', {
+      attributes: { 'task.id': task.id },
+    });
+    span.addEvent('task.file.opened', {
+      'task.id': task.id,
+      'file.path': task.filePath,
+    });
+    span.setStatus({ code: SpanStatusCode.OK });
+    span.end();
+
+    actions.openFile(task.filePath);
+  }, [actions]);
+
+  const handleMenuAction = useCallback((task: Task, action: TaskMenuAction) => {
+    if (WRITE_ACTIONS.has(action.type) && !canWrite) return;
+
+    setError(null);
+
+    switch (action.type) {
+      case 'edit':
+        onEdit(task);
+        break;
+      case 'move':
+        moveTask(task, action.status);
+        break;
+      case 'set-priority':
+        runTaskUpdate(task, { priority: action.priority }, 'task.priority.changed', `Set priority of ${task.id}`);
+        break;
+      case 'set-milestone':
+        runTaskUpdate(task, { milestone: action.milestoneId }, 'task.milestone.changed', `Set milestone of ${task.id}`);
+        break;
+      case 'duplicate':
+        duplicateTask(task);
+        break;
+      case 'archive':
+        archiveTask(task, 'context-menu');
+        break;
+      case 'delete':
+        requestDelete(task);
+        break;
+      case 'open-file':
+        openTaskFile(task);
+        break;
+      default:
+        // Copy actions are handled by the card itself
+        break;
+    }
+  }, [canWrite, onEdit, moveTask, runTaskUpdate, duplicateTask, archiveTask, requestDelete, openTaskFile]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    handleMenuAction,
+    pendingDelete,
+    isDeleting,
+    deleteError,
+    confirmDelete,
+    cancelDelete,
+    error,
+    clearError,
+  };
+}
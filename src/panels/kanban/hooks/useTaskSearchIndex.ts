@@ -0,0 +1,244 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { parseTaskMarkdown } from '@backlog-md/core';
+import type { Task } from '@backlog-md/core';
+import type { KanbanPanelActions, PanelEventEmitter } from '../../../types';
+import { getTracer, SpanStatusCode } from '../../../telemetry';
+import {
+  isTaskFilePath,
+  pruneIndexEntries,
+  removeIndexedTask,
+  searchIndexEntries,
+  setIndexEntry,
+  type SearchIndexEntries,
+} from '../utils/taskSearch';
+
+/** Task files read in parallel while hydrating */
+const HYDRATE_BATCH_SIZE = 8;
+
+interface UseTaskSearchIndexOptions {
+  actions?: KanbanPanelActions;
+  events?: PanelEventEmitter;
+  /** All file paths in the project (from useBacklogCore) */
+  filePaths: string[];
+  /** Hydrate the index (set while a search query is active) */
+  enabled: boolean;
+}
+
+export interface UseTaskSearchIndexResult {
+  /** Indexed tasks containing every term (all indexed tasks when there are no terms) */
+  searchTasks: (terms: string[]) => Task[];
+  /** Look up an indexed task by ID */
+  getIndexedTask: (taskId: string) => Task | undefined;
+  /** Start hydrating if needed and resolve once every task file is indexed */
+  whenHydrated: () => Promise<void>;
+  /** Whether every task file has been indexed */
+  isHydrated: boolean;
+  isHydrating: boolean;
+  /** Number of task files indexed so far */
+  indexedCount: number;
+  /** Number of task files in the project */
+  totalCount: number;
+}
+
+/**
+ * Hook maintaining a search index over every task file in the project.
+ *
+ * The board only pages in a few tasks per column, so searching loaded tasks
+ * misses most matches. This index reads each task file once, the first time
+ * it is enabled or `whenHydrated` is called, and then follows `file:write-complete`, `task:updated`,
+ * `task:deleted`, `task:archived` and `task:restored` events and file tree
+ * changes to stay current.
+ */
+export function useTaskSearchIndex(options: UseTaskSearchIndexOptions): UseTaskSearchIndexResult {
+  const { actions, events, filePaths, enabled } = options;
+
+  // Entries keyed by file path; version bumps re-render consumers
+  const entriesRef = useRef<SearchIndexEntries>(new Map());
+  const [version, setVersion] = useState(0);
+  const [isHydrating, setIsHydrating] = useState(false);
+  const [hasStarted, setHasStarted] = useState(false);
+  const hydratePromiseRef = useRef<Promise<void> | null>(null);
+
+  const actionsRef = useRef(actions);
+  useEffect(() => {
+    actionsRef.current = actions;
+  }, [actions]);
+
+  const taskPathsRef = useRef<string[]>([]);
+  const taskPaths = filePaths.filter(isTaskFilePath);
+  taskPathsRef.current = taskPaths;
+
+  const setEntry = useCallback((path: string, task: Task) => {
+    setIndexEntry(entriesRef.current, path, task);
+  }, []);
+
+  const indexFile = useCallback(async (path: string): Promise<boolean> => {
+    const readFile = actionsRef.current?.readFile;
+    if (!readFile) return false;
+
+    try {
+      const content = await readFile(path);
+      setEntry(path, parseTaskMarkdown(content, path));
+      return true;
+    } catch (err) {
+      console.warn(`[useTaskSearchIndex] Failed to index ${path}:`, err);
+      return false;
+    }
+  }, [setEntry]);
+
+  // Read every task file that is not indexed yet
+  const runHydration = useCallback(async () => {
+    setIsHydrating(true);
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('kanban.load', {
+      attributes: { 'load.source': 'search-index' },
+    });
+
+    let indexed = 0;
+    let failed = 0;
+    const attempted = new Set<string>();
+
+    try {
+      span.addEvent('kanban.loading', {
+        'files.total': taskPathsRef.current.length,
+        'files.indexed': entriesRef.current.size,
+      });
+
+      // Re-check the path list each batch so files added meanwhile are picked up
+      for (;;) {
+        const missing = taskPathsRef.current.filter(
+          (path) => !entriesRef.current.has(path) && !attempted.has(path)
+        );
+        if (missing.length === 0) break;
+
+        const batch = missing.slice(0, HYDRATE_BATCH_SIZE);
+        batch.forEach((path) => attempted.add(path));
+        const results = await Promise.all(batch.map(indexFile));
+        indexed += results.filter(Boolean).length;
+        failed += results.filter((ok) => !ok).length;
+        setVersion((v) => v + 1);
+      }
+
+      span.addEvent('kanban.loaded', {
+        'files.indexed': indexed,
+        'files.failed': failed,
+        'index.size': entriesRef.current.size,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+    } catch (err) {
+      span.addEvent('kanban.load.error', {
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': err instanceof Error ? err.message : String(err),
+      });
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    } finally {
+      span.end();
+      setIsHydrating(false);
+    }
+  }, [indexFile]);
+
+  // Share one hydration run between callers
+  const hydrate = useCallback((): Promise<void> => {
+    if (!actionsRef.current?.readFile) return Promise.resolve();
+    if (!hydratePromiseRef.current) {
+      hydratePromiseRef.current = runHydration().finally(() => {
+        hydratePromiseRef.current = null;
+      });
+    }
+    return hydratePromiseRef.current;
+  }, [runHydration]);
+
+  const whenHydrated = useCallback(async () => {
+    setHasStarted(true);
+    await hydrate();
+  }, [hydrate]);
+
+  // Start hydrating the first time search is used
+  useEffect(() => {
+    if (enabled && !hasStarted) {
+      setHasStarted(true);
+    }
+  }, [enabled, hasStarted]);
+
+  // Keep the index in step with the file tree once hydration has started
+  const taskPathsKey = taskPaths.join('\n');
+  useEffect(() => {
+    if (!hasStarted) return;
+
+    const current = new Set(taskPathsKey ? taskPathsKey.split('\n') : []);
+    if (pruneIndexEntries(entriesRef.current, current)) setVersion((v) => v + 1);
+
+    hydrate();
+  }, [hasStarted, taskPathsKey, hydrate]);
+
+  // Incremental updates from writes and task events
+  useEffect(() => {
+    if (!events) return;
+
+    const unsubscribeWrite = events.on('file:write-complete', (event: { payload?: { path?: string } }) => {
+      const path = event.payload?.path || '';
+      if (!hasStarted || !isTaskFilePath(path)) return;
+      indexFile(path).then((ok) => {
+        if (ok) setVersion((v) => v + 1);
+      });
+    });
+
+    const unsubscribeUpdated = events.on('task:updated', (event: { payload?: { task?: Task } }) => {
+      const task = event.payload?.task;
+      if (!hasStarted || !task?.filePath) return;
+      setEntry(task.filePath, task);
+      setVersion((v) => v + 1);
+    });
+
+    const removeTask = (event: { payload?: { taskId?: string } }) => {
+      const taskId = event.payload?.taskId;
+      if (taskId && removeIndexedTask(entriesRef.current, taskId)) {
+        setVersion((v) => v + 1);
+      }
+    };
+    const unsubscribeDeleted = events.on('task:deleted', removeTask);
+    // Archived tasks leave the board; restored ones come back under a new path
+    const unsubscribeArchived = events.on('task:archived', removeTask);
+    const unsubscribeRestored = events.on('task:restored', (event: { payload?: { task?: Task } }) => {
+      const task = event.payload?.task;
+      if (!hasStarted || !task?.filePath) return;
+      setEntry(task.filePath, task);
+      setVersion((v) => v + 1);
+    });
+
+    return () => {
+      unsubscribeWrite();
+      unsubscribeUpdated();
+      unsubscribeDeleted();
+      unsubscribeArchived();
+      unsubscribeRestored();
+    };
+  }, [events, hasStarted, indexFile, setEntry]);
+
+  const searchTasks = useCallback((terms: string[]): Task[] => {
+    return searchIndexEntries(entriesRef.current, terms);
+    // version invalidates consumers' memoized results when the index changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [version]);
+
+  const getIndexedTask = useCallback((taskId: string): Task | undefined => {
+    for (const entry of entriesRef.current.values()) {
+      if (entry.task.id === taskId) return entry.task;
+    }
+    return undefined;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [version]);
+
+  const indexedCount = taskPaths.filter((path) => entriesRef.current.has(path)).length;
+
+  return {
+    searchTasks,
+    getIndexedTask,
+    whenHydrated,
+    isHydrated: hasStarted && !isHydrating && indexedCount >= taskPaths.length,
+    isHydrating,
+    indexedCount,
+    totalCount: taskPaths.length,
+  };
+}
@@ -0,0 +1,61 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+import type { Task } from '@backlog-md/core';
+import { getSelectionRange, toggleSelected, type SelectionMode } from '../utils/taskSelection';
+
+interface UseTaskSelectionOptions {
+  /** IDs of the cards on the board, in display order (columns, then lanes) */
+  orderedIds: string[];
+  /** Task open in the detail panel; a first ctrl-click selects it too */
+  focusedTaskId?: string | null;
+}
+
+export interface UseTaskSelectionResult {
+  /** Selected IDs still on the board (hidden by a filter = not selected) */
+  selectedIds: Set<string>;
+  /** Handle a shift- (range) or ctrl/cmd-click (toggle) on a card */
+  selectTask: (task: Task, mode: SelectionMode) => void;
+  clearSelection: () => void;
+}
+
+/**
+ * Hook holding the board's multi-selection of task cards. Range selections
+ * run from the last toggled card (the anchor) in board order and are added to
+ * the current selection.
+ */
+export function useTaskSelection(options: UseTaskSelectionOptions): UseTaskSelectionResult {
+  const { orderedIds, focusedTaskId } = options;
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  const selectedIds = useMemo(() => {
+    const onBoard = new Set(orderedIds);
+    const visible = new Set(Array.from(selected).filter((id) => onBoard.has(id)));
+    return visible.size === selected.size ? selected : visible;
+  }, [selected, orderedIds]);
+
+  const selectTask = useCallback((task: Task, mode: SelectionMode) => {
+    const seed = focusedTaskId && focusedTaskId !== task.id ? focusedTaskId : null;
+
+    if (mode === 'toggle') {
+      setSelected((prev) => {
+        const base = prev.size === 0 && seed ? new Set([seed]) : prev;
+        return toggleSelected(base, task.id);
+      });
+      anchorRef.current = task.id;
+      return;
+    }
+
+    const anchor = anchorRef.current ?? seed ?? task.id;
+    const range = getSelectionRange(orderedIds, anchor, task.id);
+    setSelected((prev) => new Set([...prev, ...range]));
+    anchorRef.current = anchor;
+  }, [orderedIds, focusedTaskId]);
+
+  const clearSelection = useCallback(() => {
+    setSelected((prev) => (prev.size === 0 ? prev : new Set()));
+    anchorRef.current = null;
+  }, []);
+
+  return { selectedIds, selectTask, clearSelection };
+}
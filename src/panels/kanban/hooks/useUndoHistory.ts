@@ -0,0 +1,272 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { parseTaskMarkdown, type Core } from '@backlog-md/core';
+import type { KanbanPanelActions, PanelEventEmitter } from '../../../types';
+import type { BacklogFileEvent } from '../../../hooks/useBacklogFileWatcher';
+import { getTracer, SpanStatusCode } from '../../../telemetry';
+import {
+  applySnapshots,
+  findChangedSnapshots,
+  isUnchanged,
+  readTaskSnapshot,
+  UNDO_HISTORY_LIMIT,
+  type TaskSnapshot,
+  type UndoCommand,
+} from '../utils/undoHistory';
+
+/**
+ * Run a board mutation and record it for undo. `taskIds` are the tasks it
+ * changes or deletes; `getCreatedIds` picks tasks it creates from its result.
+ * Mutations that leave every task unchanged (e.g. failed saves) aren't recorded.
+ */
+export type TrackMutation = <T>(
+  label: string,
+  taskIds: string[],
+  mutate: () => Promise<T>,
+  getCreatedIds?: (result: T) => string[]
+) => Promise<T>;
+
+export interface HistoryResult {
+  success: boolean;
+  message: string;
+  /** Label of the undone or redone mutation */
+  label?: string;
+}
+
+/** Latest history change, shown in the undo toast */
+export interface HistoryNotice {
+  id: number;
+  kind: 'recorded' | 'undone' | 'redone';
+  label: string;
+}
+
+interface UseUndoHistoryOptions {
+  /** Shared Core instance from useBacklogCore */
+  core: Core | null;
+  actions?: KanbanPanelActions;
+  events?: PanelEventEmitter;
+  /** Whether write actions are available */
+  canWrite: boolean;
+  /** Apply the rewritten task files to Core (from useBacklogCore) */
+  applyFileEvents: (batch: BacklogFileEvent[]) => Promise<void>;
+}
+
+export interface UseUndoHistoryResult {
+  trackMutation: TrackMutation;
+  undo: () => Promise<HistoryResult>;
+  redo: () => Promise<HistoryResult>;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Label of the mutation `undo` would revert */
+  undoLabel: string | null;
+  redoLabel: string | null;
+  isApplying: boolean;
+  notice: HistoryNotice | null;
+  dismissNotice: () => void;
+}
+
+/**
+ * Hook keeping an undo/redo stack of board mutations (command pattern).
+ *
+ * Each command holds the content of every affected task file, read through
+ * the host's `readFile` before and after the mutation, so deletes and creates
+ * are reverted by restoring or removing whole task files, byte for byte.
+ * A command whose files were changed since (by another panel, an agent or an
+ * untracked edit) is refused and dropped rather than overwriting that change.
+ * Files are written through the host's `writeFile` / `deleteFile` actions and
+ * handed to Core as file events afterwards.
+ */
+export function useUndoHistory(options: UseUndoHistoryOptions): UseUndoHistoryResult {
+  const { core, actions, events, canWrite, applyFileEvents } = options;
+
+  const [undoStack, setUndoStack] = useState<UndoCommand[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoCommand[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [notice, setNotice] = useState<HistoryNotice | null>(null);
+  const nextIdRef = useRef(1);
+  const applyingRef = useRef(false);
+
+  // Mutations finish after re-renders; always snapshot through the current Core
+  const coreRef = useRef(core);
+  const actionsRef = useRef(actions);
+  useEffect(() => {
+    coreRef.current = core;
+    actionsRef.current = actions;
+  }, [core, actions]);
+
+  const canApply = canWrite && Boolean(actions?.readFile && actions?.writeFile && actions?.deleteFile);
+
+  // The files as they are on disk, not as Core would re-serialize them
+  const snapshot = useCallback(async (taskIds: string[], readFile: (path: string) => Promise<string>) => {
+    const current = coreRef.current;
+    return Promise.all(taskIds.map(async (taskId) => {
+      const task = await current?.loadTask(taskId);
+      return readTaskSnapshot(taskId, task?.filePath, readFile);
+    }));
+  }, []);
+
+  const trackMutation = useCallback(async <T>(
+    label: string,
+    taskIds: string[],
+    mutate: () => Promise<T>,
+    getCreatedIds?: (result: T) => string[]
+  ): Promise<T> => {
+    const readFile = actionsRef.current?.readFile;
+    if (!coreRef.current || !readFile) return mutate();
+
+    let before: TaskSnapshot[];
+    try {
+      before = await snapshot(taskIds, readFile);
+    } catch (err) {
+      console.warn('[useUndoHistory] Failed to read task files, not recording:', label, err);
+      return mutate();
+    }
+    const result = await mutate();
+
+    try {
+      const createdIds = (getCreatedIds?.(result) ?? []).filter((id) => !taskIds.includes(id));
+      const after = await snapshot([...taskIds, ...createdIds], readFile);
+      const fullBefore = [...before, ...createdIds.map((taskId) => ({ taskId, path: null, markdown: null }))];
+      if (!isUnchanged(fullBefore, after)) {
+        const command: UndoCommand = { id: nextIdRef.current++, label, before: fullBefore, after };
+        setUndoStack((prev) => [...prev, command].slice(-UNDO_HISTORY_LIMIT));
+        setRedoStack([]);
+        setNotice({ id: command.id, kind: 'recorded', label });
+      }
+    } catch (err) {
+      console.warn('[useUndoHistory] Failed to record mutation:', label, err);
+    }
+    return result;
+  }, [snapshot]);
+
+  const apply = useCallback(async (direction: 'undo' | 'redo'): Promise<HistoryResult> => {
+    const stack = direction === 'undo' ? undoStack : redoStack;
+    const command = stack[stack.length - 1];
+    if (!command) {
+      return { success: false, message: direction === 'undo' ? 'Nothing to undo' : 'Nothing to redo' };
+    }
+
+    const current = actionsRef.current;
+    if (!canApply || !current?.readFile || !current.writeFile || !current.deleteFile) {
+      return { success: false, message: 'Undo is not available without write access', label: command.label };
+    }
+    if (applyingRef.current) {
+      return { success: false, message: `Still applying the last ${direction}`, label: command.label };
+    }
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('board.interaction', {
+      attributes: { 'history.action': direction, 'history.label': command.label },
+    });
+
+    applyingRef.current = true;
+    setIsApplying(true);
+    try {
+      const [target, from] = direction === 'undo'
+        ? [command.before, command.after]
+        : [command.after, command.before];
+
+      // Applying it now would overwrite those changes, and so would every older command
+      const changedIds = await findChangedSnapshots(from, current.readFile);
+      if (changedIds.length > 0) {
+        if (direction === 'undo') {
+          setUndoStack((prev) => prev.filter((c) => c.id !== command.id));
+        } else {
+          setRedoStack((prev) => prev.filter((c) => c.id !== command.id));
+        }
+        span.addEvent('history.stale', {
+          'history.label': command.label,
+          'history.tasks': changedIds.join(','),
+        });
+        span.setStatus({ code: SpanStatusCode.OK });
+        return {
+          success: false,
+          message: `Can't ${direction} "${command.label}": ${changedIds.join(', ')} changed since, so it was dropped from the history`,
+          label: command.label,
+        };
+      }
+
+      const { written, removedIds, deletedPaths } = await applySnapshots(target, from, {
+        writeFile: current.writeFile,
+        deleteFile: current.deleteFile,
+      });
+
+      if (direction === 'undo') {
+        setUndoStack((prev) => prev.slice(0, -1));
+        setRedoStack((prev) => [...prev, command]);
+      } else {
+        setRedoStack((prev) => prev.slice(0, -1));
+        setUndoStack((prev) => [...prev, command]);
+      }
+      setNotice({ id: nextIdRef.current++, kind: direction === 'undo' ? 'undone' : 'redone', label: command.label });
+
+      span.addEvent(direction === 'undo' ? 'history.undone' : 'history.redone', {
+        'history.label': command.label,
+        'history.tasks': command.before.map((s) => s.taskId).join(','),
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      await applyFileEvents([
+        ...deletedPaths.map((path): BacklogFileEvent => ({ kind: 'delete', path })),
+        ...written.flatMap(({ path, markdown }): BacklogFileEvent[] =>
+          path && markdown !== null ? [{ kind: 'write', path, content: markdown }] : []),
+      ]);
+
+      // Let other panels (and the search index) pick up the restored files
+      for (const { taskId, path, markdown } of written) {
+        if (!path || markdown === null) continue;
+        events?.emit({
+          type: 'task:updated',
+          source: 'kanban-panel',
+          timestamp: Date.now(),
+          payload: { taskId, task: { ...parseTaskMarkdown(markdown, path), filePath: path } },
+        });
+      }
+      for (const taskId of removedIds) {
+        events?.emit({
+          type: 'task:deleted',
+          source: 'kanban-panel',
+          timestamp: Date.now(),
+          payload: { taskId },
+        });
+      }
+
+      return {
+        success: true,
+        message: `${direction === 'undo' ? 'Undid' : 'Redid'} "${command.label}"`,
+        label: command.label,
+      };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : `Failed to ${direction}`;
+      console.error(`[useUndoHistory] Failed to ${direction}:`, err);
+      span.addEvent('history.error', {
+        'history.label': command.label,
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': errorMessage,
+      });
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+      return { success: false, message: errorMessage, label: command.label };
+    } finally {
+      applyingRef.current = false;
+      setIsApplying(false);
+      span.end();
+    }
+  }, [undoStack, redoStack, canApply, events, applyFileEvents]);
+
+  const undo = useCallback(() => apply('undo'), [apply]);
+  const redo = useCallback(() => apply('redo'), [apply]);
+  const dismissNotice = useCallback(() => setNotice(null), []);
+
+  return {
+    trackMutation,
+    undo,
+    redo,
+    canUndo: canApply && undoStack.length > 0,
+    canRedo: canApply && redoStack.length > 0,
+    undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+    isApplying,
+    notice,
+    dismissNotice,
+  };
+}
@@ -0,0 +1,64 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { KanbanPanelActions, PanelEventEmitter } from '../../../types';
+import { BACKLOG_CONFIG_FILE, parseWipLimits, type WipLimitsConfig } from '../utils/wipLimits';
+
+interface UseWipLimitsOptions {
+  actions?: KanbanPanelActions;
+  events?: PanelEventEmitter;
+  /** All file paths in the project (from useBacklogCore) */
+  filePaths: string[];
+}
+
+const NO_WIP_LIMITS: WipLimitsConfig = { limits: new Map(), mode: 'confirm' };
+
+/**
+ * Hook for the per-status WIP limits configured in `backlog/config.yml`.
+ *
+ * The config is re-read when it is written by another panel, so limits
+ * changed by a teammate apply without reloading the board.
+ */
+export function useWipLimits(options: UseWipLimitsOptions): WipLimitsConfig {
+  const { actions, events, filePaths } = options;
+  const [config, setConfig] = useState<WipLimitsConfig>(NO_WIP_LIMITS);
+
+  const actionsRef = useRef(actions);
+  useEffect(() => {
+    actionsRef.current = actions;
+  }, [actions]);
+
+  const hasConfigFile = filePaths.includes(BACKLOG_CONFIG_FILE);
+
+  const loadLimits = useCallback(async () => {
+    const readFile = actionsRef.current?.readFile;
+    if (!readFile) return;
+
+    try {
+      setConfig(parseWipLimits(await readFile(BACKLOG_CONFIG_FILE)));
+    } catch (err) {
+      console.warn('[useWipLimits] Failed to read WIP limits:', err);
+      setConfig(NO_WIP_LIMITS);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (hasConfigFile) {
+      loadLimits();
+    } else {
+      setConfig(NO_WIP_LIMITS);
+    }
+  }, [hasConfigFile, loadLimits]);
+
+  useEffect(() => {
+    if (!events) return;
+
+    const unsubscribe = events.on('file:write-complete', (event: { payload?: { path?: string } }) => {
+      if (event.payload?.path === BACKLOG_CONFIG_FILE) {
+        loadLimits();
+      }
+    });
+
+    return unsubscribe;
+  }, [events, loadLimits]);
+
+  return config;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { formatBoardExport, getDefaultExportPath, isBoardExportFormat } from './boardExport';
+import { createTask } from '../../../mocks/taskFixtures';
+
+const STATUSES = ['To Do', 'Done'];
+
+describe('getDefaultExportPath', () => {
+  it('names the file after the date and format', () => {
+    const date = new Date('2026-10-19T12:00:00Z');
+    expect(getDefaultExportPath('markdown', date)).toBe('backlog/exports/board-2026-10-19.md');
+    expect(getDefaultExportPath('csv', date)).toBe('backlog/exports/board-2026-10-19.csv');
+  });
+});
+
+describe('isBoardExportFormat', () => {
+  it('accepts only the known formats', () => {
+    expect(isBoardExportFormat('json')).toBe(true);
+    expect(isBoardExportFormat('xml')).toBe(false);
+    expect(isBoardExportFormat(undefined)).toBe(false);
+  });
+});
+
+describe('formatBoardExport', () => {
+  it('writes CSV rows in board order, quoting values that need it', () => {
+    const csv = formatBoardExport(
+      'csv',
+      [
+        createTask('task-2', { title: 'Say "hi", then leave', assignee: ['@alice', '@bob'], labels: ['ui'] }),
+        createTask('task-1', { status: 'Done', priority: 'high', updatedDate: '2025-01-02' }),
+      ],
+      STATUSES,
+      'Test'
+    );
+    expect(csv.split('\r\n')).toEqual([
+      'id,title,status,priority,assignee,labels,milestone,dependencies,parent,created,updated',
+      'task-2,"Say ""hi"", then leave",To Do,,@alice; @bob,ui,,,,2025-01-01,',
+      'task-1,task-1,Done,high,,,,,,2025-01-01,2025-01-02',
+      '',
+    ]);
+  });
+
+  it('writes JSON with the project, statuses and task fields', () => {
+    const json = JSON.parse(formatBoardExport('json', [createTask('task-1', { milestone: 'v1' })], STATUSES, 'Test'));
+    expect(json.project).toBe('Test');
+    expect(json.statuses).toEqual(STATUSES);
+    expect(json.tasks).toEqual([
+      {
+        id: 'task-1',
+        title: 'task-1',
+        status: 'To Do',
+        assignee: [],
+        labels: [],
+        milestone: 'v1',
+        dependencies: [],
+        createdDate: '2025-01-01',
+      },
+    ]);
+  });
+
+  it('writes a markdown table with a column per status', () => {
+    const markdown = formatBoardExport('markdown', [createTask('task-1', { title: 'First' })], STATUSES, 'Test');
+    expect(markdown).toContain('| To Do | Done |');
+    expect(markdown).toContain('First');
+  });
+});
@@ -0,0 +1,91 @@
+import type { Task } from '@backlog-md/core';
+import { generateKanbanBoardWithMetadata } from '../backlog-utils/board';
+
+export type BoardExportFormat = 'markdown' | 'csv' | 'json';
+
+export const BOARD_EXPORT_FORMATS: { value: BoardExportFormat; label: string; extension: string }[] = [
+  { value: 'markdown', label: 'Markdown table', extension: 'md' },
+  { value: 'csv', label: 'CSV', extension: 'csv' },
+  { value: 'json', label: 'JSON', extension: 'json' },
+];
+
+export function isBoardExportFormat(value: unknown): value is BoardExportFormat {
+  return BOARD_EXPORT_FORMATS.some((format) => format.value === value);
+}
+
+/** Default export file, e.g. `backlog/exports/board-2026-10-19.csv` */
+export function getDefaultExportPath(format: BoardExportFormat, date = new Date()): string {
+  const extension = BOARD_EXPORT_FORMATS.find((option) => option.value === format)?.extension ?? format;
+  return `backlog/exports/board-${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+const CSV_COLUMNS: { header: string; value: (task: Task) => string }[] = [
+  { header: 'id', value: (task) => task.id },
+  { header: 'title', value: (task) => task.title },
+  { header: 'status', value: (task) => task.status },
+  { header: 'priority', value: (task) => task.priority ?? '' },
+  { header: 'assignee', value: (task) => (task.assignee ?? []).join('; ') },
+  { header: 'labels', value: (task) => (task.labels ?? []).join('; ') },
+  { header: 'milestone', value: (task) => task.milestone ?? '' },
+  { header: 'dependencies', value: (task) => (task.dependencies ?? []).join('; ') },
+  { header: 'parent', value: (task) => task.parentTaskId ?? '' },
+  { header: 'created', value: (task) => task.createdDate },
+  { header: 'updated', value: (task) => task.updatedDate ?? '' },
+];
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+function toCsv(tasks: Task[]): string {
+  const rows = [
+    CSV_COLUMNS.map((column) => column.header),
+    ...tasks.map((task) => CSV_COLUMNS.map((column) => escapeCsv(column.value(task)))),
+  ];
+  return `${rows.map((row) => row.join(',')).join('\r\n')}\r\n`;
+}
+
+function toJson(tasks: Task[], statuses: string[], projectName: string): string {
+  return `${JSON.stringify(
+    {
+      project: projectName,
+      exportedAt: new Date().toISOString(),
+      statuses,
+      tasks: tasks.map((task) => ({
+        id: task.id,
+        title: task.title,
+        status: task.status,
+        priority: task.priority,
+        assignee: task.assignee,
+        labels: task.labels,
+        milestone: task.milestone,
+        dependencies: task.dependencies,
+        parentTaskId: task.parentTaskId,
+        createdDate: task.createdDate,
+        updatedDate: task.updatedDate,
+        filePath: task.filePath,
+      })),
+    },
+    null,
+    2
+  )}\n`;
+}
+
+/**
+ * Render board tasks in an export format. `tasks` should be in board order;
+ * the markdown table (Backlog.md's `board export` layout) sorts each column
+ * itself and nests subtasks under their parents.
+ */
+export function formatBoardExport(
+  format: BoardExportFormat,
+  tasks: Task[],
+  statuses: string[],
+  projectName: string
+): string {
+  switch (format) {
+    case 'markdown':
+      return generateKanbanBoardWithMetadata(tasks, statuses, projectName);
+    case 'csv':
+      return toCsv(tasks);
+    case 'json':
+      return toJson(tasks, statuses, projectName);
+  }
+}
@@ -0,0 +1,172 @@
+import { sortTasksByTitle, type Task } from '@backlog-md/core';
+
+/** Shared file the saved views are stored in */
+export const BOARD_VIEWS_FILE = 'backlog/views.json';
+
+const BOARD_VIEWS_FILE_VERSION = 1;
+
+/** Task order within a column */
+export type BoardSortOrder = 'default' | 'priority' | 'createdDate' | 'updatedDate' | 'modified' | 'title';
+
+export const BOARD_SORT_ORDERS: { value: BoardSortOrder; label: string }[] = [
+  { value: 'default', label: 'Manual order' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'createdDate', label: 'Newest first' },
+  { value: 'updatedDate', label: 'Recently updated' },
+  { value: 'modified', label: 'Recently modified file' },
+  { value: 'title', label: 'Title' },
+];
+
+/** Field the board is split into swimlanes by ('none' = a single lane) */
+export type BoardGrouping = 'none' | 'assignee' | 'milestone' | 'priority' | 'label';
+
+const BOARD_GROUPING_VALUES: BoardGrouping[] = ['none', 'assignee', 'milestone', 'priority', 'label'];
+
+/**
+ * Board state captured by a saved view
+ */
+export interface BoardViewState {
+  /** Filter query for the search box (see parseTaskQuery) */
+  query: string;
+  sort: BoardSortOrder;
+  grouping: BoardGrouping;
+  /** Label prefix for 'label' swimlanes, e.g. "area:" */
+  labelPrefix: string;
+  /** Status columns to show, in board order (null = all columns) */
+  visibleColumns: string[] | null;
+}
+
+export interface SavedBoardView extends BoardViewState {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_BOARD_VIEW_STATE: BoardViewState = {
+  query: '',
+  sort: 'default',
+  grouping: 'none',
+  labelPrefix: '',
+  visibleColumns: null,
+};
+
+const PRIORITY_ORDER: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+const isSortOrder = (value: unknown): value is BoardSortOrder =>
+  BOARD_SORT_ORDERS.some((option) => option.value === value);
+
+const isGrouping = (value: unknown): value is BoardGrouping =>
+  BOARD_GROUPING_VALUES.includes(value as BoardGrouping);
+
+const byUpdatedDate = (a: Task, b: Task) =>
+  (b.updatedDate ?? b.createdDate ?? '').localeCompare(a.updatedDate ?? a.createdDate ?? '');
+
+/**
+ * Sort a column's tasks. 'default' keeps the board's manual order
+ * (ordinal, then priority, then date). 'modified' orders by the task file's
+ * modification time; tasks without one follow, by updated date.
+ */
+export function sortBoardTasks(
+  tasks: Task[],
+  sort: BoardSortOrder,
+  getModifiedTime?: (task: Task) => number | undefined
+): Task[] {
+  switch (sort) {
+    case 'priority':
+      return [...tasks].sort((a, b) => {
+        const aPri = a.priority ? PRIORITY_ORDER[a.priority] ?? 3 : 3;
+        const bPri = b.priority ? PRIORITY_ORDER[b.priority] ?? 3 : 3;
+        if (aPri !== bPri) return aPri - bPri;
+        return (b.createdDate ?? '').localeCompare(a.createdDate ?? '');
+      });
+    case 'createdDate':
+      return [...tasks].sort((a, b) => (b.createdDate ?? '').localeCompare(a.createdDate ?? ''));
+    case 'updatedDate':
+      return [...tasks].sort(byUpdatedDate);
+    case 'modified':
+      return [...tasks].sort((a, b) => {
+        const aTime = getModifiedTime?.(a);
+        const bTime = getModifiedTime?.(b);
+        if (aTime !== undefined && bTime !== undefined && aTime !== bTime) return bTime - aTime;
+        if ((aTime === undefined) !== (bTime === undefined)) return aTime === undefined ? 1 : -1;
+        return byUpdatedDate(a, b);
+      });
+    case 'title':
+      return sortTasksByTitle(tasks);
+    default:
+      return tasks;
+  }
+}
+
+/**
+ * Check whether two view states would render the same board
+ */
+export function isSameBoardViewState(a: BoardViewState, b: BoardViewState): boolean {
+  return (
+    a.query.trim() === b.query.trim() &&
+    a.sort === b.sort &&
+    a.grouping === b.grouping &&
+    (a.grouping !== 'label' || a.labelPrefix === b.labelPrefix) &&
+    (a.visibleColumns ?? []).join('\n') === (b.visibleColumns ?? []).join('\n') &&
+    (a.visibleColumns === null) === (b.visibleColumns === null)
+  );
+}
+
+/**
+ * Build a unique, file-friendly ID for a view name
+ */
+export function createBoardViewId(name: string, existing: SavedBoardView[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'view';
+  const taken = new Set(existing.map((view) => view.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * Find a view by ID or by case-insensitive name
+ */
+export function findBoardView(views: SavedBoardView[], idOrName: string): SavedBoardView | undefined {
+  const wanted = idOrName.trim().toLowerCase();
+  return (
+    views.find((view) => view.id === idOrName.trim()) ??
+    views.find((view) => view.name.trim().toLowerCase() === wanted)
+  );
+}
+
+/**
+ * Parse the saved views file. Entries that are not valid views are skipped.
+ */
+export function parseBoardViewsFile(content: string): SavedBoardView[] {
+  const data = JSON.parse(content) as { views?: unknown };
+  if (!data || !Array.isArray(data.views)) return [];
+
+  const views: SavedBoardView[] = [];
+  for (const entry of data.views as Record<string, unknown>[]) {
+    if (!entry || typeof entry.id !== 'string' || typeof entry.name !== 'string') continue;
+    views.push({
+      id: entry.id,
+      name: entry.name,
+      query: typeof entry.query === 'string' ? entry.query : '',
+      sort: isSortOrder(entry.sort) ? entry.sort : DEFAULT_BOARD_VIEW_STATE.sort,
+      grouping: isGrouping(entry.grouping) ? entry.grouping : DEFAULT_BOARD_VIEW_STATE.grouping,
+      labelPrefix: typeof entry.labelPrefix === 'string' ? entry.labelPrefix : '',
+      visibleColumns: Array.isArray(entry.visibleColumns)
+        ? entry.visibleColumns.filter((c): c is string => typeof c === 'string')
+        : null,
+    });
+  }
+  return views;
+}
+
+/**
+ * Serialize saved views for the shared views file
+ */
+export function serializeBoardViewsFile(views: SavedBoardView[]): string {
+  return `${JSON.stringify({ version: BOARD_VIEWS_FILE_VERSION, views }, null, 2)}\n`;
+}
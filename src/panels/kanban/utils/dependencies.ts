@@ -0,0 +1,73 @@
+import { isDoneStatus, type Task } from '@backlog-md/core';
+
+/** Status a blocked task should not be started in */
+export const IN_PROGRESS_STATUS = 'In Progress';
+
+/** Dependency IDs are matched case-insensitively (`task-7` / `TASK-7`) */
+export const normalizeTaskId = (id: string) => id.trim().toLowerCase();
+
+export function isInProgressStatus(status?: string): boolean {
+  return status?.trim().toLowerCase() === IN_PROGRESS_STATUS.toLowerCase();
+}
+
+export interface TaskDependencyIndex {
+  /** Unfinished dependencies of each blocked task, by task ID */
+  blockers: Map<string, Task[]>;
+  /** Tasks that depend on each task, by task ID */
+  dependents: Map<string, Task[]>;
+}
+
+/**
+ * Index the dependency links between tasks. A task is blocked while any of
+ * its dependencies is not Done; dependencies that aren't known (e.g. archived
+ * tasks) don't block.
+ */
+export function buildDependencyIndex(tasks: Task[]): TaskDependencyIndex {
+  const byId = new Map(tasks.map((task) => [normalizeTaskId(task.id), task]));
+  const blockers = new Map<string, Task[]>();
+  const dependents = new Map<string, Task[]>();
+
+  for (const task of tasks) {
+    for (const dependencyId of task.dependencies ?? []) {
+      const dependency = byId.get(normalizeTaskId(dependencyId));
+      if (!dependency || dependency.id === task.id) continue;
+
+      const taskDependents = dependents.get(dependency.id) ?? [];
+      if (!taskDependents.includes(task)) {
+        taskDependents.push(task);
+        dependents.set(dependency.id, taskDependents);
+      }
+
+      if (!isDoneStatus(dependency.status)) {
+        const taskBlockers = blockers.get(task.id) ?? [];
+        if (!taskBlockers.includes(dependency)) {
+          taskBlockers.push(dependency);
+          blockers.set(task.id, taskBlockers);
+        }
+      }
+    }
+  }
+
+  return { blockers, dependents };
+}
+
+/**
+ * Resolve a task's dependency IDs against the known tasks. IDs that match no
+ * task are returned separately so they can still be shown.
+ */
+export function resolveDependencies(task: Task, tasks: Task[]): { dependencies: Task[]; missing: string[] } {
+  const byId = new Map(tasks.map((candidate) => [normalizeTaskId(candidate.id), candidate]));
+  const dependencies: Task[] = [];
+  const missing: string[] = [];
+
+  for (const dependencyId of task.dependencies ?? []) {
+    const dependency = byId.get(normalizeTaskId(dependencyId));
+    if (dependency) {
+      if (!dependencies.includes(dependency)) dependencies.push(dependency);
+    } else {
+      missing.push(dependencyId);
+    }
+  }
+
+  return { dependencies, missing };
+}
@@ -0,0 +1,61 @@
+import { isDoneStatus, type Task } from '@backlog-md/core';
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Map each parent task ID to its subtasks. Children are found through their
+ * `parentTaskId` and through the parent's `subtasks` list.
+ */
+export function buildSubtaskIndex(tasks: Task[]): Map<string, Task[]> {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const index = new Map<string, Task[]>();
+
+  const addChild = (parentId: string, child: Task) => {
+    if (parentId === child.id) return;
+    const children = index.get(parentId) ?? [];
+    if (!children.some((existing) => existing.id === child.id)) {
+      children.push(child);
+      index.set(parentId, children);
+    }
+  };
+
+  for (const task of tasks) {
+    if (task.parentTaskId) addChild(task.parentTaskId, task);
+    for (const childId of task.subtasks ?? []) {
+      const child = byId.get(childId);
+      if (child) addChild(task.id, child);
+    }
+  }
+
+  return index;
+}
+
+export function getSubtaskProgress(subtasks: Task[]): SubtaskProgress {
+  return {
+    done: subtasks.filter((task) => isDoneStatus(task.status)).length,
+    total: subtasks.length,
+  };
+}
+
+/**
+ * Drop subtasks whose parent is in the same column; they are shown nested
+ * under the parent card instead (as in generateKanbanBoardWithMetadata).
+ */
+export function hideNestedSubtasks(columnTasks: Task[], subtaskIndex: Map<string, Task[]>): Task[] {
+  const ids = new Set(columnTasks.map((task) => task.id));
+  const nested = new Set<string>();
+  for (const task of columnTasks) {
+    for (const child of subtaskIndex.get(task.id) ?? []) {
+      if (ids.has(child.id)) nested.add(child.id);
+    }
+  }
+  return nested.size > 0 ? columnTasks.filter((task) => !nested.has(task.id)) : columnTasks;
+}
+
+/** Subtasks that share the parent's status and would be left behind by a move */
+export function getSameStatusSubtasks(task: Task, subtaskIndex: Map<string, Task[]>): Task[] {
+  return (subtaskIndex.get(task.id) ?? []).filter((child) => child.status === task.status);
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'bun:test';
+import type { Task } from '@backlog-md/core';
+import { buildLaneFields, buildSwimlanes, getTaskLaneKey, NO_LANE_KEY } from './swimlanes';
+import { createTask } from '../../../mocks/taskFixtures';
+
+const STATUSES = ['To Do', 'Done'];
+
+const columns = (tasks: Task[]) =>
+  new Map(STATUSES.map((status) => [status, { tasks: tasks.filter((t) => t.status === status) }]));
+
+// Lane keys with the task IDs per status
+const summarize = (lanes: ReturnType<typeof buildSwimlanes>) =>
+  lanes.map((lane) => ({
+    key: lane.key,
+    title: lane.title,
+    tasks: STATUSES.map((status) => (lane.tasksByStatus.get(status) ?? []).map((t) => t.id)),
+  }));
+
+describe('getTaskLaneKey', () => {
+  it('uses the first assignee and the first label with the prefix', () => {
+    const t = createTask('task-1', { assignee: ['@bob', '@alice'], labels: ['ui', 'team:web', 'team:api'] });
+    expect(getTaskLaneKey(t, 'assignee', '')).toBe('@bob');
+    expect(getTaskLaneKey(t, 'label', 'team:')).toBe('team:web');
+    expect(getTaskLaneKey(t, 'label', '')).toBe('ui');
+    expect(getTaskLaneKey(t, 'milestone', '')).toBe(NO_LANE_KEY);
+  });
+});
+
+describe('buildSwimlanes', () => {
+  it('sorts lanes by title with the empty lane last, keeping known lanes', () => {
+    const tasks = [
+      createTask('task-1', { assignee: ['@bob'] }),
+      createTask('task-2', { assignee: ['@alice'], status: 'Done' }),
+      createTask('task-3'),
+    ];
+    const lanes = buildSwimlanes(columns(tasks), {
+      grouping: 'assignee',
+      labelPrefix: '',
+      statusColumns: STATUSES,
+      knownLaneKeys: ['@carol'],
+    });
+    expect(summarize(lanes)).toEqual([
+      { key: '@alice', title: '@alice', tasks: [[], ['task-2']] },
+      { key: '@bob', title: '@bob', tasks: [['task-1'], []] },
+      { key: '@carol', title: '@carol', tasks: [[], []] },
+      { key: NO_LANE_KEY, title: 'Unassigned', tasks: [['task-3'], []] },
+    ]);
+  });
+
+  it('orders priority lanes high to low and shows the empty lane only when used', () => {
+    const options = { grouping: 'priority' as const, labelPrefix: '', statusColumns: STATUSES };
+    expect(buildSwimlanes(columns([createTask('task-1', { priority: 'low' })]), options).map((lane) => lane.key)).toEqual([
+      'high',
+      'medium',
+      'low',
+    ]);
+    expect(buildSwimlanes(columns([createTask('task-1')]), options).map((lane) => lane.key)).toEqual([
+      'high',
+      'medium',
+      'low',
+      NO_LANE_KEY,
+    ]);
+  });
+
+  it('titles lanes through getLaneTitle', () => {
+    const lanes = buildSwimlanes(columns([createTask('task-1', { milestone: 'm-1' })]), {
+      grouping: 'milestone',
+      labelPrefix: '',
+      statusColumns: STATUSES,
+      getLaneTitle: (key) => `Milestone ${key}`,
+    });
+    expect(lanes.map((lane) => [lane.title, lane.count])).toEqual([
+      ['Milestone m-1', 1],
+      ['No milestone', 0],
+    ]);
+  });
+});
+
+describe('buildLaneFields', () => {
+  it('swaps the lane assignee and keeps co-assignees', () => {
+    const t = createTask('task-1', { assignee: ['@bob', '@alice'] });
+    expect(buildLaneFields(t, 'assignee', '', '@carol')).toEqual({ assignee: ['@carol', '@alice'] });
+    expect(buildLaneFields(t, 'assignee', '', NO_LANE_KEY)).toEqual({ assignee: [] });
+    expect(buildLaneFields(t, 'assignee', '', '@bob')).toEqual({});
+  });
+
+  it('replaces labels with the prefix', () => {
+    const t = createTask('task-1', { labels: ['ui', 'team:web'] });
+    expect(buildLaneFields(t, 'label', 'team:', 'team:api')).toEqual({ labels: ['ui', 'team:api'] });
+    expect(buildLaneFields(t, 'label', 'team:', NO_LANE_KEY)).toEqual({ labels: ['ui'] });
+  });
+
+  it('cannot move a task out of its priority lane into the empty one', () => {
+    const t = createTask('task-1', { priority: 'high' });
+    expect(buildLaneFields(t, 'priority', '', 'low')).toEqual({ priority: 'low' });
+    expect(buildLaneFields(t, 'priority', '', NO_LANE_KEY)).toBeNull();
+  });
+
+  it('clears the milestone when moved to the empty lane', () => {
+    expect(buildLaneFields(createTask('task-1', { milestone: 'v1' }), 'milestone', '', NO_LANE_KEY)).toEqual({
+      milestone: undefined,
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import type { Task } from '@backlog-md/core';
+import type { BoardGrouping } from './boardViews';
+
+/** Lane key for tasks without a value for the grouping field */
+export const NO_LANE_KEY = '';
+
+export const BOARD_GROUPINGS: { value: BoardGrouping; label: string; emptyLabel: string }[] = [
+  { value: 'none', label: 'No swimlanes', emptyLabel: '' },
+  { value: 'assignee', label: 'Assignee', emptyLabel: 'Unassigned' },
+  { value: 'milestone', label: 'Milestone', emptyLabel: 'No milestone' },
+  { value: 'priority', label: 'Priority', emptyLabel: 'No priority' },
+  { value: 'label', label: 'Label prefix', emptyLabel: 'No matching label' },
+];
+
+const PRIORITY_LANES = ['high', 'medium', 'low'];
+
+/**
+ * A horizontal lane of the board: one cell per status column
+ */
+export interface Swimlane {
+  /** Value of the grouping field (NO_LANE_KEY for tasks without one) */
+  key: string;
+  title: string;
+  /** Tasks in this lane, per status column */
+  tasksByStatus: Map<string, Task[]>;
+  /** Number of tasks in the lane across all columns */
+  count: number;
+}
+
+/** Drop target data attached to each droppable column or lane cell */
+export interface BoardDropTarget {
+  status: string;
+  /** Set when the board is split into swimlanes */
+  laneKey?: string;
+}
+
+/** Task fields a lane change may write, alongside the status */
+export type LaneFields = Partial<Pick<Task, 'assignee' | 'labels' | 'milestone' | 'priority'>>;
+
+/**
+ * Get the lane a task belongs to. Tasks with several assignees are placed by
+ * their first assignee; for label lanes the first label with the prefix wins
+ * (the first label when there is no prefix).
+ */
+export function getTaskLaneKey(task: Task, grouping: BoardGrouping, labelPrefix: string): string {
+  switch (grouping) {
+    case 'assignee':
+      return task.assignee?.[0] ?? NO_LANE_KEY;
+    case 'milestone':
+      return task.milestone ?? NO_LANE_KEY;
+    case 'priority':
+      return task.priority ?? NO_LANE_KEY;
+    case 'label':
+      return task.labels?.find((label) => label.startsWith(labelPrefix)) ?? NO_LANE_KEY;
+    default:
+      return NO_LANE_KEY;
+  }
+}
+
+/** Unique droppable ID for a lane cell */
+export function getLaneDropId(status: string, laneKey: string): string {
+  return `lane:${JSON.stringify([laneKey, status])}`;
+}
+
+interface BuildSwimlanesOptions {
+  grouping: BoardGrouping;
+  labelPrefix: string;
+  /** Status columns in render order */
+  statusColumns: string[];
+  /** Lanes to show even when they have no tasks (e.g. every milestone) */
+  knownLaneKeys?: string[];
+  /** Display title for a lane key (defaults to the key itself) */
+  getLaneTitle?: (key: string) => string;
+}
+
+/**
+ * Split the board's columns into swimlanes.
+ *
+ * Lanes are ordered high → low for priority and alphabetically otherwise,
+ * with the "no value" lane last.
+ */
+export function buildSwimlanes(
+  tasksByStatus: Map<string, { tasks: Task[] }>,
+  options: BuildSwimlanesOptions
+): Swimlane[] {
+  const { grouping, labelPrefix, statusColumns, knownLaneKeys = [], getLaneTitle } = options;
+  const emptyLabel = BOARD_GROUPINGS.find((g) => g.value === grouping)?.emptyLabel ?? '';
+
+  const lanes = new Map<string, Swimlane>();
+  const ensureLane = (key: string): Swimlane => {
+    let lane = lanes.get(key);
+    if (!lane) {
+      lane = {
+        key,
+        title: key === NO_LANE_KEY ? emptyLabel : getLaneTitle?.(key) ?? key,
+        tasksByStatus: new Map(statusColumns.map((status) => [status, []])),
+        count: 0,
+      };
+      lanes.set(key, lane);
+    }
+    return lane;
+  };
+
+  const defaultKeys = grouping === 'priority' ? PRIORITY_LANES : knownLaneKeys;
+  defaultKeys.forEach(ensureLane);
+  // Priority can't be cleared through Core, so only show that lane when used
+  if (grouping !== 'priority') ensureLane(NO_LANE_KEY);
+
+  for (const status of statusColumns) {
+    for (const task of tasksByStatus.get(status)?.tasks ?? []) {
+      const lane = ensureLane(getTaskLaneKey(task, grouping, labelPrefix));
+      lane.tasksByStatus.get(status)?.push(task);
+      lane.count++;
+    }
+  }
+
+  const rank = (key: string) =>
+    grouping === 'priority' && PRIORITY_LANES.includes(key) ? PRIORITY_LANES.indexOf(key) : PRIORITY_LANES.length;
+
+  return Array.from(lanes.values()).sort((a, b) => {
+    if (a.key === NO_LANE_KEY || b.key === NO_LANE_KEY) {
+      return a.key === NO_LANE_KEY ? (b.key === NO_LANE_KEY ? 0 : 1) : -1;
+    }
+    return rank(a.key) - rank(b.key) || a.title.localeCompare(b.title);
+  });
+}
+
+/**
+ * Fields to write when a task is dropped into another lane, or null when the
+ * move can't be expressed through Core (clearing a priority).
+ */
+export function buildLaneFields(
+  task: Task,
+  grouping: BoardGrouping,
+  labelPrefix: string,
+  toLaneKey: string
+): LaneFields | null {
+  const fromLaneKey = getTaskLaneKey(task, grouping, labelPrefix);
+  if (fromLaneKey === toLaneKey) return {};
+
+  switch (grouping) {
+    case 'assignee': {
+      // Swap the lane assignee, keeping any co-assignees
+      const others = (task.assignee ?? []).filter((a) => a !== fromLaneKey && a !== toLaneKey);
+      return { assignee: toLaneKey === NO_LANE_KEY ? [] : [toLaneKey, ...others] };
+    }
+    case 'milestone':
+      return { milestone: toLaneKey === NO_LANE_KEY ? undefined : toLaneKey };
+    case 'priority':
+      return toLaneKey === NO_LANE_KEY ? null : { priority: toLaneKey as Task['priority'] };
+    case 'label': {
+      // Drop every label with the prefix; without a prefix only the lane label
+      const labels = (task.labels ?? []).filter((label) =>
+        labelPrefix ? !label.startsWith(labelPrefix) : label !== fromLaneKey
+      );
+      return { labels: toLaneKey === NO_LANE_KEY ? labels : [...labels, toLaneKey] };
+    }
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'bun:test';
+import { findStaleDoneTasks, readTaskFileDates } from './taskArchive';
+import { createTask } from '../../../mocks/taskFixtures';
+
+// As Backlog.md writes it
+const taskFile = (status: string, dates: string) => `---
+id: task-1
+title: One
+status: ${status}
+assignee: []
+${dates}
+labels: []
+dependencies: []
+---
+
+## Description
+
+<!-- SECTION:DESCRIPTION:BEGIN -->
+Hello
+<!-- SECTION:DESCRIPTION:END -->
+`;
+
+const NOW = new Date('2026-03-01T12:00:00');
+
+describe('readTaskFileDates', () => {
+  it('reads the snake_case and camelCase keys, unquoting values', () => {
+    expect(readTaskFileDates(taskFile('Done', "created_date: '2025-09-06 23:39'\nupdated_date: '2026-01-07'"))).toEqual({
+      createdDate: '2025-09-06 23:39',
+      updatedDate: '2026-01-07',
+    });
+    expect(readTaskFileDates('---\r\nstatus: Done\r\ncreatedDate: 2025-01-01\r\n---\r\n')).toEqual({
+      createdDate: '2025-01-01',
+    });
+  });
+
+  it('ignores dates outside the frontmatter', () => {
+    expect(readTaskFileDates('# One\n\ncreated_date: 2025-01-01\n')).toEqual({});
+  });
+});
+
+describe('findStaleDoneTasks', () => {
+  const files = new Map([
+    ['backlog/tasks/task-1 - One.md', taskFile('Done', "created_date: '2025-09-06 23:39'\nupdated_date: '2026-01-07 21:06'")],
+    ['backlog/tasks/task-2 - Two.md', taskFile('Done', "created_date: '2025-09-06 23:39'\nupdated_date: '2026-02-20 09:00'")],
+    ['backlog/tasks/task-3 - Three.md', taskFile('Done', "created_date: '2025-12-01'")],
+    ['backlog/tasks/task-4 - Four.md', taskFile('In Progress', "created_date: '2025-01-01'")],
+  ]);
+  const readFile = async (path: string) => {
+    const content = files.get(path);
+    if (content === undefined) throw new Error(`Not found: ${path}`);
+    return content;
+  };
+  const task = (id: string, status: string, filePath?: string) =>
+    // Core's parser gives every task today as its creation date
+    createTask(id, { status, filePath, createdDate: '2026-03-01' });
+
+  it('uses the file dates, falling back from the update to the creation date', async () => {
+    const stale = await findStaleDoneTasks(
+      [
+        task('task-1', 'Done', 'backlog/tasks/task-1 - One.md'),
+        task('task-2', 'Done', 'backlog/tasks/task-2 - Two.md'),
+        task('task-3', 'Done', 'backlog/tasks/task-3 - Three.md'),
+        task('task-4', 'In Progress', 'backlog/tasks/task-4 - Four.md'),
+      ],
+      30,
+      readFile,
+      NOW
+    );
+    expect(stale.map((t) => t.id)).toEqual(['task-1', 'task-3']);
+  });
+
+  it('skips archived, unsaved and unreadable tasks', async () => {
+    const stale = await findStaleDoneTasks(
+      [
+        task('task-5', 'Done', 'backlog/archive/tasks/task-5 - Five.md'),
+        task('task-6', 'Done'),
+        task('task-7', 'Done', 'backlog/tasks/task-7 - Missing.md'),
+      ],
+      30,
+      readFile,
+      NOW
+    );
+    expect(stale).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { isDoneStatus, type Task } from '@backlog-md/core';
+
+/** Backlog.md's archive folder (`backlog task archive`) */
+export const ARCHIVE_TASKS_DIR = 'backlog/archive/tasks';
+
+/** Default age for the "archive old Done tasks" operation */
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 30;
+
+const ACTIVE_TASK_DIR = /(^|\/)backlog\/(tasks|completed)\/([^/]+\.md)$/;
+const ARCHIVED_TASK_DIR = /(^|\/)backlog\/archive\/tasks\/([^/]+\.md)$/;
+
+export function isArchivedTaskPath(path?: string): boolean {
+  return Boolean(path && ARCHIVED_TASK_DIR.test(path));
+}
+
+/** Archive location of a task file in `backlog/tasks` or `backlog/completed` (null for other paths) */
+export function getArchivedTaskPath(filePath: string): string | null {
+  return ACTIVE_TASK_DIR.test(filePath) ? filePath.replace(ACTIVE_TASK_DIR, '$1backlog/archive/tasks/$3') : null;
+}
+
+/** Location an archived task file is restored to (always `backlog/tasks`) */
+export function getRestoredTaskPath(archivedPath: string): string | null {
+  return ARCHIVED_TASK_DIR.test(archivedPath) ? archivedPath.replace(ARCHIVED_TASK_DIR, '$1backlog/tasks/$2') : null;
+}
+
+/** Parse Backlog.md dates (`2026-01-07` or `2026-01-07 21:06`) */
+const parseTaskDate = (value?: string): number => (value ? new Date(value.trim().replace(' ', 'T')).getTime() : NaN);
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+/**
+ * Creation and last update dates from a task file's frontmatter. Backlog.md
+ * writes `created_date` / `updated_date`, which Core's parser doesn't read
+ * (parsed tasks get today as their creation date).
+ */
+export function readTaskFileDates(content: string): { createdDate?: string; updatedDate?: string } {
+  const dates: { createdDate?: string; updatedDate?: string } = {};
+  for (const line of content.match(FRONTMATTER)?.[1].split(/\r?\n/) ?? []) {
+    const match = line.match(/^(created_date|createdDate|updated_date|updatedDate):\s*(.+?)\s*$/);
+    if (!match) continue;
+    const value = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    if (match[1].startsWith('created')) dates.createdDate = value;
+    else dates.updatedDate = value;
+  }
+  return dates;
+}
+
+/**
+ * Done tasks whose last update (or creation, if never updated) is more than
+ * `days` days ago, by the dates in their files. Tasks whose file can't be
+ * read or has no readable date are skipped.
+ */
+export async function findStaleDoneTasks(
+  tasks: Task[],
+  days: number,
+  readFile: (path: string) => Promise<string>,
+  now = new Date()
+): Promise<Task[]> {
+  const cutoff = now.getTime() - days * 24 * 60 * 60 * 1000;
+  const stale: Task[] = [];
+  for (const task of tasks) {
+    if (!isDoneStatus(task.status) || !task.filePath || isArchivedTaskPath(task.filePath)) continue;
+    try {
+      const { createdDate, updatedDate } = readTaskFileDates(await readFile(task.filePath));
+      const changed = parseTaskDate(updatedDate ?? createdDate);
+      if (Number.isFinite(changed) && changed < cutoff) stale.push(task);
+    } catch (err) {
+      console.warn('[taskArchive] Skipping unreadable task file:', task.filePath, err);
+    }
+  }
+  return stale;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'bun:test';
+import type { Task } from '@backlog-md/core';
+import { buildTaskGraph } from './taskGraph';
+import { createTask } from '../../../mocks/taskFixtures';
+
+const layers = (tasks: Task[]) =>
+  Object.fromEntries(buildTaskGraph(tasks).nodes.map((node) => [node.task.id, node.layer]));
+
+describe('buildTaskGraph', () => {
+  it('places tasks by longest dependency path and leaves unlinked tasks out', () => {
+    const tasks = [
+      createTask('task-1'),
+      createTask('task-2', { dependencies: ['task-1'] }),
+      createTask('task-3', { dependencies: ['task-1', 'TASK-2'] }),
+      createTask('task-4'),
+    ];
+    expect(layers(tasks)).toEqual({ 'task-1': 0, 'task-2': 1, 'task-3': 2 });
+    expect(buildTaskGraph(tasks).cycles).toEqual([]);
+  });
+
+  it('reports a dependency cycle and marks its tasks and edges', () => {
+    const tasks = [
+      createTask('task-1', { dependencies: ['task-3'] }),
+      createTask('task-2', { dependencies: ['task-1'] }),
+      createTask('task-3', { dependencies: ['task-2'] }),
+      createTask('task-4', { dependencies: ['task-3'] }),
+    ];
+    const graph = buildTaskGraph(tasks);
+
+    expect(graph.cycles).toEqual([['task-1', 'task-2', 'task-3']]);
+    expect(graph.nodes.filter((node) => node.inCycle).map((node) => node.task.id).sort()).toEqual([
+      'task-1',
+      'task-2',
+      'task-3',
+    ]);
+    expect(graph.edges.find((edge) => edge.to === 'task-4')?.inCycle).toBe(false);
+    expect(graph.edges.filter((edge) => edge.inCycle)).toHaveLength(3);
+    // The cycle shares a column; what depends on it comes after
+    expect(layers(tasks)).toEqual({ 'task-1': 0, 'task-2': 0, 'task-3': 0, 'task-4': 1 });
+  });
+
+  it('counts a task depending on itself as a cycle', () => {
+    const graph = buildTaskGraph([createTask('task-1', { dependencies: ['task-1'] })]);
+    expect(graph.cycles).toEqual([['task-1']]);
+    expect(graph.nodes[0].inCycle).toBe(true);
+    expect(graph.edges).toEqual([]);
+  });
+
+  it('links subtasks to their parent, preferring a dependency edge between the same tasks', () => {
+    const graph = buildTaskGraph([
+      createTask('task-1', { subtasks: ['task-1.1', 'task-1.2'] }),
+      createTask('task-1.1', { parentTaskId: 'task-1' }),
+      createTask('task-1.2', { parentTaskId: 'task-1', dependencies: ['task-1'] }),
+    ]);
+    expect(graph.edges).toEqual([
+      { from: 'task-1', to: 'task-1.1', kind: 'parent', inCycle: false },
+      { from: 'task-1', to: 'task-1.2', kind: 'dependency', inCycle: false },
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+import type { Task } from '@backlog-md/core';
+import { normalizeTaskId } from './dependencies';
+
+export const GRAPH_NODE_WIDTH = 220;
+export const GRAPH_NODE_HEIGHT = 64;
+const COLUMN_GAP = 96;
+const ROW_GAP = 24;
+const PADDING = 32;
+
+/** `dependency` edges run from a dependency to the task waiting on it, `parent` edges from parent to subtask */
+export type TaskGraphEdgeKind = 'dependency' | 'parent';
+
+export interface TaskGraphEdge {
+  from: string;
+  to: string;
+  kind: TaskGraphEdgeKind;
+  /** Whether the edge is part of a dependency cycle */
+  inCycle: boolean;
+}
+
+export interface TaskGraphNode {
+  task: Task;
+  /** Column, counted from the tasks nothing points at */
+  layer: number;
+  x: number;
+  y: number;
+  inCycle: boolean;
+}
+
+export interface TaskGraph {
+  nodes: TaskGraphNode[];
+  edges: TaskGraphEdge[];
+  /** Task IDs of each cycle */
+  cycles: string[][];
+  width: number;
+  height: number;
+}
+
+const compareIds = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Strongly connected components (Tarjan). Components are returned in reverse
+ * topological order: every edge between components points to an earlier one.
+ */
+function findComponents(nodeIds: string[], successors: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  const visit = (id: string) => {
+    index.set(id, nextIndex);
+    lowLink.set(id, nextIndex);
+    nextIndex++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of successors.get(id) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  nodeIds.forEach((id) => {
+    if (!index.has(id)) visit(id);
+  });
+  return components;
+}
+
+/**
+ * Lay out tasks as a left-to-right DAG from their `dependencies` and parent
+ * links. Only tasks with at least one link are included.
+ *
+ * Tasks are placed in columns by longest path, so every edge points right.
+ * Tasks in a cycle share a column and are reported in `cycles`; within a
+ * column tasks are ordered by the position of the tasks pointing at them to
+ * keep edges short.
+ */
+export function buildTaskGraph(tasks: Task[]): TaskGraph {
+  const byId = new Map(tasks.map((task) => [normalizeTaskId(task.id), task]));
+  const edges = new Map<string, Omit<TaskGraphEdge, 'inCycle'>>();
+  const selfDependent = new Set<string>();
+
+  const addEdge = (from: Task | undefined, to: Task | undefined, kind: TaskGraphEdgeKind) => {
+    if (!from || !to) return;
+    if (from.id === to.id) {
+      if (kind === 'dependency') selfDependent.add(from.id);
+      return;
+    }
+    const key = `${from.id}->${to.id}`;
+    // A dependency edge wins over a parent edge between the same tasks
+    if (!edges.has(key) || kind === 'dependency') edges.set(key, { from: from.id, to: to.id, kind });
+  };
+
+  for (const task of tasks) {
+    for (const dependencyId of task.dependencies ?? []) {
+      addEdge(byId.get(normalizeTaskId(dependencyId)), task, 'dependency');
+    }
+    if (task.parentTaskId) addEdge(byId.get(normalizeTaskId(task.parentTaskId)), task, 'parent');
+    for (const subtaskId of task.subtasks ?? []) {
+      addEdge(task, byId.get(normalizeTaskId(subtaskId)), 'parent');
+    }
+  }
+
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const successors = new Map<string, string[]>();
+  const predecessors = new Map<string, string[]>();
+  const linked = new Set<string>(selfDependent);
+  for (const { from, to } of edges.values()) {
+    successors.set(from, [...(successors.get(from) ?? []), to]);
+    predecessors.set(to, [...(predecessors.get(to) ?? []), from]);
+    linked.add(from);
+    linked.add(to);
+  }
+
+  const nodeIds = Array.from(linked).sort(compareIds);
+  const components = findComponents(nodeIds, successors);
+
+  // Longest-path layering over the components, in topological order
+  const componentOf = new Map<string, number>();
+  components.forEach((component, i) => component.forEach((id) => componentOf.set(id, i)));
+  const componentLayer = new Array<number>(components.length).fill(0);
+  for (let i = components.length - 1; i >= 0; i--) {
+    for (const id of components[i]) {
+      for (const next of successors.get(id) ?? []) {
+        const target = componentOf.get(next)!;
+        if (target !== i) componentLayer[target] = Math.max(componentLayer[target], componentLayer[i] + 1);
+      }
+    }
+  }
+
+  const cycles = components
+    .filter((component) => component.length > 1 || selfDependent.has(component[0]))
+    .map((component) => component.sort(compareIds));
+  const cycleComponents = new Set(cycles.map((cycle) => componentOf.get(cycle[0])!));
+
+  // Order each column by the average row of the tasks pointing at it
+  const layers: string[][] = [];
+  nodeIds.forEach((id) => {
+    const layer = componentLayer[componentOf.get(id)!];
+    (layers[layer] ??= []).push(id);
+  });
+
+  const rowOf = new Map<string, number>();
+  const nodes: TaskGraphNode[] = [];
+  layers.forEach((layerIds, layer) => {
+    const weight = (id: string) => {
+      const rows = (predecessors.get(id) ?? []).map((from) => rowOf.get(from)).filter((row) => row !== undefined);
+      return rows.length > 0 ? rows.reduce((sum, row) => sum + row, 0) / rows.length : Infinity;
+    };
+    const ordered = layer === 0 ? layerIds : [...layerIds].sort((a, b) => weight(a) - weight(b) || compareIds(a, b));
+
+    ordered.forEach((id, row) => {
+      rowOf.set(id, row);
+      nodes.push({
+        task: tasksById.get(id)!,
+        layer,
+        x: PADDING + layer * (GRAPH_NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (GRAPH_NODE_HEIGHT + ROW_GAP),
+        inCycle: cycleComponents.has(componentOf.get(id)!),
+      });
+    });
+  });
+
+  const maxRows = Math.max(0, ...layers.map((layerIds) => layerIds.length));
+  return {
+    nodes,
+    edges: Array.from(edges.values()).map((edge) => ({
+      ...edge,
+      inCycle: componentOf.get(edge.from) === componentOf.get(edge.to),
+    })),
+    cycles,
+    width: PADDING * 2 + Math.max(0, layers.length * (GRAPH_NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP),
+    height: PADDING * 2 + Math.max(0, maxRows * (GRAPH_NODE_HEIGHT + ROW_GAP) - ROW_GAP),
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test';
+import { sortTasks, type Task } from '@backlog-md/core';
+import { computeReorderOrdinals, ORDINAL_STEP, type TaskOrdinalUpdate } from './taskOrdinals';
+import { createTask } from '../../../mocks/taskFixtures';
+
+const task = (id: string, ordinal?: number): Task => createTask(id, { ordinal });
+
+// Column order after applying the updates, as Core would sort it
+function orderAfter(tasks: Task[], updates: TaskOrdinalUpdate[]): string[] {
+  const ordinals = new Map(updates.map((update) => [update.taskId, update.ordinal]));
+  return sortTasks(tasks.map((t) => (ordinals.has(t.id) ? { ...t, ordinal: ordinals.get(t.id) } : t))).map((t) => t.id);
+}
+
+describe('computeReorderOrdinals', () => {
+  it('writes only the moved task when there is room between its neighbours', () => {
+    const column = [task('a', 1000), task('b', 2000), task('c', 3000)];
+    const updates = computeReorderOrdinals(column, 'c', 1);
+    expect(updates).toEqual([{ taskId: 'c', ordinal: 1500 }]);
+    expect(orderAfter(column, updates)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('moves a task down below the task it was dropped on', () => {
+    const column = [task('a', 1000), task('b', 2000), task('c', 3000)];
+    const updates = computeReorderOrdinals(column, 'a', 1);
+    expect(orderAfter(column, updates)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('renumbers only as far as needed when neighbours are adjacent', () => {
+    const column = [task('a', 1), task('b', 2), task('c', 3), task('d', 5000)];
+    const updates = computeReorderOrdinals(column, 'c', 1);
+    expect(updates.map((update) => update.taskId)).toEqual(['c', 'b']);
+    expect(orderAfter(column, updates)).toEqual(['a', 'c', 'b', 'd']);
+  });
+
+  it('gives ordinals to tasks above the drop point that have none', () => {
+    const column = [task('a'), task('b'), task('c')];
+    const updates = computeReorderOrdinals(column, 'c', 1);
+    expect(updates).toEqual([
+      { taskId: 'a', ordinal: ORDINAL_STEP },
+      { taskId: 'c', ordinal: 2 * ORDINAL_STEP },
+    ]);
+    expect(orderAfter(column, updates)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('keeps tasks hidden from the view in place when given the whole column', () => {
+    // b and d are hidden by a filter; c is dropped on e (after it, moving down)
+    const column = [task('a', 1000), task('b', 1001), task('c', 1002), task('d', 1003), task('e', 1004), task('f', 1005)];
+    const toIndex = column.findIndex((t) => t.id === 'e');
+    const updates = computeReorderOrdinals(column, 'c', toIndex);
+    expect(orderAfter(column, updates)).toEqual(['a', 'b', 'd', 'e', 'c', 'f']);
+    const ordinals = orderAfter(column, updates).map(
+      (id) => updates.find((update) => update.taskId === id)?.ordinal ?? column.find((t) => t.id === id)?.ordinal
+    );
+    expect(new Set(ordinals).size).toBe(column.length);
+  });
+
+  it('returns nothing when the task is missing or does not move', () => {
+    const column = [task('a', 1000), task('b', 2000)];
+    expect(computeReorderOrdinals(column, 'x', 0)).toEqual([]);
+    expect(computeReorderOrdinals(column, 'a', 0)).toEqual([]);
+  });
+});
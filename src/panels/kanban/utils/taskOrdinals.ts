@@ -0,0 +1,58 @@
+import type { Task } from '@backlog-md/core';
+
+/** Gap left between ordinals so most moves only write the moved task */
+export const ORDINAL_STEP = 1000;
+
+export interface TaskOrdinalUpdate {
+  taskId: string;
+  ordinal: number;
+}
+
+/**
+ * Compute the ordinal writes for moving a task to another position in a column.
+ *
+ * `tasks` is the column in display order (ordinal → priority → date, see
+ * Core's sortTasks). The moved task takes the midpoint between its new
+ * neighbours when there is room. Otherwise tasks are renumbered in steps of
+ * ORDINAL_STEP, but only as far as needed to restore the order: tasks above
+ * the drop point that have no ordinal yet, and tasks below it whose ordinal
+ * would no longer sort after the moved task.
+ *
+ * Returns an empty list when the task is not in the column or doesn't move.
+ */
+export function computeReorderOrdinals(tasks: Task[], taskId: string, toIndex: number): TaskOrdinalUpdate[] {
+  const fromIndex = tasks.findIndex((task) => task.id === taskId);
+  if (fromIndex === -1 || fromIndex === toIndex) return [];
+
+  const ordered = tasks.filter((task) => task.id !== taskId);
+  const targetIndex = Math.max(0, Math.min(toIndex, ordered.length));
+  ordered.splice(targetIndex, 0, tasks[fromIndex]);
+
+  const updates: TaskOrdinalUpdate[] = [];
+  const assign = (task: Task, ordinal: number) => {
+    if (task.ordinal !== ordinal) updates.push({ taskId: task.id, ordinal });
+    return ordinal;
+  };
+
+  let last = 0;
+  for (let i = 0; i < ordered.length; i++) {
+    const task = ordered[i];
+    const current = task.ordinal;
+
+    if (i < targetIndex) {
+      // Tasks above the drop point keep their ordinal while it is still ascending
+      last = current !== undefined && current > last ? current : assign(task, last + ORDINAL_STEP);
+    } else if (i === targetIndex) {
+      const next = ordered[i + 1]?.ordinal;
+      last = next !== undefined && next - last >= 2
+        ? assign(task, Math.floor((last + next) / 2))
+        : assign(task, last + ORDINAL_STEP);
+    } else {
+      // Tasks without an ordinal sort after every task with one
+      if (current === undefined || current > last) break;
+      last = assign(task, last + ORDINAL_STEP);
+    }
+  }
+
+  return updates;
+}
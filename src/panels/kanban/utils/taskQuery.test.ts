@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'bun:test';
+import type { Task } from '@backlog-md/core';
+import {
+  formatTaskQueryFilter,
+  matchesTaskQuery,
+  parseTaskQuery,
+  removeTaskQueryFilter,
+  taskFilterToQuery,
+  type TaskQueryFilter,
+} from './taskQuery';
+import { createTask } from '../../../mocks/taskFixtures';
+
+const task = (overrides: Partial<Task>): Task => createTask('task-1', { title: 'Login page', ...overrides });
+
+describe('parseTaskQuery', () => {
+  it('parses qualifiers, negation and free text', () => {
+    expect(parseTaskQuery('label:bug,ui -assignee:@alice status:"In Progress" Login')).toEqual({
+      filters: [
+        { key: 'label', values: ['bug', 'ui'], negated: false },
+        { key: 'assignee', values: ['@alice'], negated: true },
+        { key: 'status', values: ['In Progress'], negated: false },
+      ],
+      terms: ['login'],
+    });
+  });
+
+  it('keeps commas inside quotes as part of the value', () => {
+    expect(parseTaskQuery('label:"a,b",c').filters).toEqual([{ key: 'label', values: ['a,b', 'c'], negated: false }]);
+  });
+
+  it('reads escaped quotes inside quotes', () => {
+    expect(parseTaskQuery('label:"say \\"hi\\""').filters[0].values).toEqual(['say "hi"']);
+  });
+
+  it('treats unknown qualifiers and empty values as free text', () => {
+    expect(parseTaskQuery('foo:bar label:')).toEqual({ filters: [], terms: ['foo:bar', 'label:'] });
+  });
+});
+
+describe('formatTaskQueryFilter', () => {
+  const roundTrip = (filter: TaskQueryFilter) => parseTaskQuery(formatTaskQueryFilter(filter)).filters[0];
+
+  it('leaves plain values unquoted', () => {
+    expect(formatTaskQueryFilter({ key: 'label', values: ['bug', 'ui'], negated: true })).toBe('-label:bug,ui');
+  });
+
+  it('round-trips values with spaces, commas, quotes and backslashes', () => {
+    const filter: TaskQueryFilter = {
+      key: 'label',
+      values: ['In Progress', 'a,b', 'say "hi"', 'back\\slash "x"'],
+      negated: false,
+    };
+    expect(roundTrip(filter)).toEqual(filter);
+  });
+
+  it('builds tool queries that parse back to the same filter', () => {
+    expect(parseTaskQuery(taskFilterToQuery({ labels: ['a,b', 'c'], assignee: '@bob' })).filters).toEqual([
+      { key: 'label', values: ['a,b', 'c'], negated: false },
+      { key: 'assignee', values: ['@bob'], negated: false },
+    ]);
+  });
+});
+
+describe('removeTaskQueryFilter', () => {
+  it('removes one qualifier and keeps the rest as written', () => {
+    expect(removeTaskQueryFilter('label:"a, b" login status:Done', 0)).toBe('login status:Done');
+    expect(removeTaskQueryFilter('label:"a, b" login status:Done', 1)).toBe('label:"a, b" login');
+  });
+});
+
+describe('matchesTaskQuery', () => {
+  it('matches label values containing commas', () => {
+    const parsed = parseTaskQuery('label:"a,b"');
+    expect(matchesTaskQuery(task({ labels: ['a,b'] }), parsed)).toBe(true);
+    expect(matchesTaskQuery(task({ labels: ['a', 'b'] }), parsed)).toBe(false);
+  });
+
+  it('applies negated qualifiers and free text together', () => {
+    const parsed = parseTaskQuery('-status:Done login');
+    expect(matchesTaskQuery(task({}), parsed)).toBe(true);
+    expect(matchesTaskQuery(task({ status: 'Done' }), parsed)).toBe(false);
+    expect(matchesTaskQuery(task({ title: 'Signup' }), parsed)).toBe(false);
+  });
+});
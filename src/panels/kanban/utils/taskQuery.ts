@@ -0,0 +1,215 @@
+import type { Task } from '@backlog-md/core';
+import { buildTaskSearchText, matchesSearchTerms } from './taskSearch';
+
+/** Qualifiers understood by the board filter query */
+export const TASK_QUERY_QUALIFIERS = ['label', 'assignee', 'priority', 'status', 'milestone', 'id'] as const;
+
+export type TaskQueryQualifier = (typeof TASK_QUERY_QUALIFIERS)[number];
+
+/**
+ * A `key:value` term such as `label:bug,ui` or `-assignee:@alice`.
+ * Comma-separated values match if any value matches.
+ */
+export interface TaskQueryFilter {
+  key: TaskQueryQualifier;
+  values: string[];
+  /** Leading `-`: exclude tasks that match */
+  negated: boolean;
+}
+
+export interface ParsedTaskQuery {
+  filters: TaskQueryFilter[];
+  /** Lowercase free-text terms; quoted phrases are kept whole */
+  terms: string[];
+}
+
+/**
+ * Structured filter accepted by the filter_tasks tool
+ */
+export interface TaskFilter {
+  /** Match tasks carrying any of these labels */
+  labels?: string[];
+  /** Match tasks assigned to this person (leading @ is ignored) */
+  assignee?: string;
+  /** Match tasks with this priority */
+  priority?: string;
+}
+
+const QUALIFIER_PATTERN = /^(-?)([a-zA-Z]+):(.*)$/;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+const normalizeAssignee = (value: string) => normalize(value).replace(/^@/, '');
+
+function isQualifier(key: string): key is TaskQueryQualifier {
+  return (TASK_QUERY_QUALIFIERS as readonly string[]).includes(key);
+}
+
+interface QueryToken {
+  /** Token text with quotes removed */
+  text: string;
+  /** Token as written in the query */
+  raw: string;
+}
+
+/**
+ * Split `input` on `separator` outside quoted runs, dropping the quotes.
+ * Inside quotes `\"` and `\\` stand for a literal quote and backslash.
+ */
+function splitOutsideQuotes(input: string, separator: (char: string) => boolean): QueryToken[] {
+  const parts: QueryToken[] = [];
+  let text = '';
+  let raw = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (!inQuotes && separator(char)) {
+      if (raw) parts.push({ text, raw });
+      text = '';
+      raw = '';
+      continue;
+    }
+    raw += char;
+    if (inQuotes && char === '\\' && i + 1 < input.length) {
+      raw += input[++i];
+      text += input[i];
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+    } else {
+      text += char;
+    }
+  }
+  if (raw) parts.push({ text, raw });
+
+  return parts;
+}
+
+/**
+ * Split a query into whitespace-separated tokens, keeping quoted runs
+ * (e.g. `status:"In Progress"`) together.
+ */
+function tokenize(query: string): QueryToken[] {
+  return splitOutsideQuotes(query, (char) => /\s/.test(char));
+}
+
+// Works on the token as written, so commas and quotes inside quotes are part of a value
+function parseFilterToken(token: string): TaskQueryFilter | null {
+  const match = token.match(QUALIFIER_PATTERN);
+  if (!match) return null;
+
+  const key = match[2].toLowerCase();
+  const values = splitOutsideQuotes(match[3], (char) => char === ',')
+    .map(({ text }) => text.trim())
+    .filter(Boolean);
+  if (!isQualifier(key) || values.length === 0) return null;
+
+  return { key, values, negated: match[1] === '-' };
+}
+
+/**
+ * Parse a GitHub-style filter query, e.g.
+ * `label:bug assignee:@alice status:"In Progress" -label:wontfix login`.
+ *
+ * Unknown qualifiers and qualifiers without a value are treated as free text.
+ * Quoted values may contain spaces and commas, and `\"` for a quote.
+ */
+export function parseTaskQuery(query: string): ParsedTaskQuery {
+  const filters: TaskQueryFilter[] = [];
+  const terms: string[] = [];
+
+  for (const { text, raw } of tokenize(query)) {
+    const filter = parseFilterToken(raw);
+    if (filter) {
+      filters.push(filter);
+    } else if (text.trim()) {
+      terms.push(normalize(text));
+    }
+  }
+
+  return { filters, terms };
+}
+
+/**
+ * Check whether a parsed query has no filters and no text
+ */
+export function isTaskQueryEmpty(parsed: ParsedTaskQuery): boolean {
+  return parsed.filters.length === 0 && parsed.terms.length === 0;
+}
+
+function matchesFilterValue(task: Task, key: TaskQueryQualifier, value: string): boolean {
+  switch (key) {
+    case 'label':
+      return (task.labels ?? []).some((label) => normalize(label) === normalize(value));
+    case 'assignee':
+      return (task.assignee ?? []).some((a) => normalizeAssignee(a) === normalizeAssignee(value));
+    case 'priority':
+      return normalize(task.priority ?? '') === normalize(value);
+    case 'status':
+      return normalize(task.status ?? '') === normalize(value);
+    case 'milestone':
+      return normalize(task.milestone ?? '') === normalize(value);
+    case 'id':
+      return normalize(task.id) === normalize(value);
+  }
+}
+
+/**
+ * Check whether a task matches a single qualifier
+ */
+export function matchesTaskQueryFilter(task: Task, filter: TaskQueryFilter): boolean {
+  const matched = filter.values.some((value) => matchesFilterValue(task, filter.key, value));
+  return filter.negated ? !matched : matched;
+}
+
+/**
+ * Check whether a task matches every qualifier and free-text term of a query
+ */
+export function matchesTaskQuery(task: Task, parsed: ParsedTaskQuery): boolean {
+  if (!parsed.filters.every((filter) => matchesTaskQueryFilter(task, filter))) return false;
+  if (parsed.terms.length === 0) return true;
+  return matchesSearchTerms(buildTaskSearchText(task), parsed.terms);
+}
+
+function quoteValue(value: string): string {
+  return /[\s,"]/.test(value) ? `"${value.replace(/[\\"]/g, '\\$&')}"` : value;
+}
+
+/**
+ * Format a qualifier back to query syntax, e.g. `-status:"In Progress"`
+ */
+export function formatTaskQueryFilter(filter: TaskQueryFilter): string {
+  const values =
+    filter.values.length === 1 ? quoteValue(filter.values[0]) : filter.values.map(quoteValue).join(',');
+  return `${filter.negated ? '-' : ''}${filter.key}:${values}`;
+}
+
+/**
+ * Remove the qualifier at `index` (position in `parseTaskQuery(query).filters`)
+ * from a query string, leaving the rest of the query as written
+ */
+export function removeTaskQueryFilter(query: string, index: number): string {
+  let filterIndex = 0;
+  return tokenize(query)
+    .filter(({ raw }) => !parseFilterToken(raw) || filterIndex++ !== index)
+    .map(({ raw }) => raw)
+    .join(' ');
+}
+
+/**
+ * Convert a filter_tasks tool filter to query syntax.
+ * Labels become a single comma-separated qualifier so any of them matches.
+ */
+export function taskFilterToQuery(filter: TaskFilter): string {
+  const parts: string[] = [];
+  const labels = (filter.labels ?? []).map((l) => l.trim()).filter(Boolean);
+  if (labels.length > 0) {
+    parts.push(formatTaskQueryFilter({ key: 'label', values: labels, negated: false }));
+  }
+  if (filter.assignee?.trim()) {
+    parts.push(formatTaskQueryFilter({ key: 'assignee', values: [filter.assignee.trim()], negated: false }));
+  }
+  if (filter.priority?.trim()) {
+    parts.push(formatTaskQueryFilter({ key: 'priority', values: [filter.priority.trim()], negated: false }));
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  buildTaskSearchText,
+  isTaskFilePath,
+  matchesSearchTerms,
+  mergeIndexedTasks,
+  pruneIndexEntries,
+  removeIndexedTask,
+  searchIndexEntries,
+  setIndexEntry,
+  type SearchIndexEntries,
+} from './taskSearch';
+import { createTask } from '../../../mocks/taskFixtures';
+
+const PATH = 'backlog/tasks/task-1 - One.md';
+
+describe('isTaskFilePath', () => {
+  it('accepts active and completed task files only', () => {
+    expect(isTaskFilePath(PATH)).toBe(true);
+    expect(isTaskFilePath('/repo/backlog/completed/task-2 - Two.md')).toBe(true);
+    expect(isTaskFilePath('backlog/archive/tasks/task-3 - Three.md')).toBe(false);
+    expect(isTaskFilePath('backlog/tasks/notes/task-4.md')).toBe(false);
+    expect(isTaskFilePath('backlog/config.yml')).toBe(false);
+  });
+});
+
+describe('buildTaskSearchText', () => {
+  it('covers the ID, title, body, labels, assignees and milestone', () => {
+    const text = buildTaskSearchText(createTask('task-1', {
+      title: 'Login Page',
+      rawContent: 'Uses OAuth',
+      labels: ['UI'],
+      assignee: ['@alice'],
+      milestone: 'Beta',
+    }));
+
+    expect(matchesSearchTerms(text, ['task-1', 'login', 'oauth', 'ui', '@alice', 'beta'])).toBe(true);
+    expect(matchesSearchTerms(text, ['login', 'signup'])).toBe(false);
+  });
+});
+
+describe('search index entries', () => {
+  it('keeps one entry per task when it moves to a new file', () => {
+    const entries: SearchIndexEntries = new Map();
+    setIndexEntry(entries, PATH, createTask('task-1', { title: 'One' }));
+    setIndexEntry(entries, 'backlog/tasks/task-1 - Renamed.md', createTask('task-1', { title: 'Renamed' }));
+
+    expect(Array.from(entries.keys())).toEqual(['backlog/tasks/task-1 - Renamed.md']);
+    expect(searchIndexEntries(entries, ['one'])).toEqual([]);
+    expect(searchIndexEntries(entries, ['renamed']).map((task) => task.id)).toEqual(['task-1']);
+  });
+
+  it('drops deleted tasks and files gone from the project', () => {
+    const entries: SearchIndexEntries = new Map();
+    const otherPath = 'backlog/tasks/task-2 - Two.md';
+    setIndexEntry(entries, PATH, createTask('task-1'));
+    setIndexEntry(entries, otherPath, createTask('task-2'));
+
+    expect(removeIndexedTask(entries, 'task-9')).toBe(false);
+    expect(removeIndexedTask(entries, 'task-1')).toBe(true);
+    expect(pruneIndexEntries(entries, new Set([otherPath]))).toBe(false);
+    expect(pruneIndexEntries(entries, new Set())).toBe(true);
+    expect(searchIndexEntries(entries, [])).toEqual([]);
+  });
+});
+
+describe('mergeIndexedTasks', () => {
+  it('prefers loaded copies over indexed ones', () => {
+    const loaded = [createTask('task-1', { status: 'Done' })];
+    const indexed = [createTask('task-1', { status: 'To Do' }), createTask('task-2')];
+
+    expect(mergeIndexedTasks(loaded, indexed).map((task) => [task.id, task.status])).toEqual([
+      ['task-1', 'Done'],
+      ['task-2', 'To Do'],
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import type { Task } from '@backlog-md/core';
+
+/**
+ * Check whether a path is a task file Core would load
+ * (`backlog/tasks/*.md` or `backlog/completed/*.md`)
+ */
+export function isTaskFilePath(path: string): boolean {
+  return /(^|\/)backlog\/(tasks|completed)\/[^/]+\.md$/.test(path);
+}
+
+/**
+ * Build the lowercase text a task is searched by: ID, title, body,
+ * labels, assignees and milestone.
+ */
+export function buildTaskSearchText(task: Task): string {
+  return [
+    task.id,
+    task.title,
+    task.rawContent ?? task.description ?? '',
+    ...(task.labels ?? []),
+    ...(task.assignee ?? []),
+    task.milestone ?? '',
+  ]
+    .join('\n')
+    .toLowerCase();
+}
+
+/**
+ * Check whether search text contains every term
+ */
+export function matchesSearchTerms(searchText: string, terms: string[]): boolean {
+  return terms.every((term) => searchText.includes(term));
+}
+
+/** An indexed task and the text it is searched by */
+export interface SearchIndexEntry {
+  task: Task;
+  searchText: string;
+}
+
+/** Search index entries keyed by file path */
+export type SearchIndexEntries = Map<string, SearchIndexEntry>;
+
+/**
+ * Index a task under its file path. A task moves to a new file when its
+ * title changes, so an entry for the same ID under another path is dropped.
+ */
+export function setIndexEntry(entries: SearchIndexEntries, path: string, task: Task): void {
+  for (const [existingPath, entry] of entries) {
+    if (existingPath !== path && entry.task.id === task.id) {
+      entries.delete(existingPath);
+    }
+  }
+  entries.set(path, { task, searchText: buildTaskSearchText(task) });
+}
+
+/**
+ * Drop every entry of a task. Returns whether any was dropped.
+ */
+export function removeIndexedTask(entries: SearchIndexEntries, taskId: string): boolean {
+  let removed = false;
+  for (const [path, entry] of entries) {
+    if (entry.task.id === taskId) {
+      entries.delete(path);
+      removed = true;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Drop entries whose file is no longer in the project. Returns whether any was dropped.
+ */
+export function pruneIndexEntries(entries: SearchIndexEntries, taskPaths: Set<string>): boolean {
+  let removed = false;
+  for (const path of entries.keys()) {
+    if (!taskPaths.has(path)) {
+      entries.delete(path);
+      removed = true;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Indexed tasks containing every term (all indexed tasks when there are no terms)
+ */
+export function searchIndexEntries(entries: SearchIndexEntries, terms: string[]): Task[] {
+  const matches: Task[] = [];
+  for (const entry of entries.values()) {
+    if (matchesSearchTerms(entry.searchText, terms)) {
+      matches.push(entry.task);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Loaded tasks plus indexed tasks that aren't loaded. Loaded copies win, as
+ * they reflect moves still being written.
+ */
+export function mergeIndexedTasks(loaded: Task[], indexed: Task[]): Task[] {
+  const loadedIds = new Set(loaded.map((task) => task.id));
+  return [...loaded, ...indexed.filter((task) => !loadedIds.has(task.id))];
+}
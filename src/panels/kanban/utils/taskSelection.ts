@@ -0,0 +1,21 @@
+/** How a modifier-click changes the multi-selection */
+export type SelectionMode = 'toggle' | 'range';
+
+/** Add the task to the selection, or remove it if it is already selected */
+export function toggleSelected(selected: ReadonlySet<string>, taskId: string): Set<string> {
+  const next = new Set(selected);
+  if (next.has(taskId)) next.delete(taskId);
+  else next.add(taskId);
+  return next;
+}
+
+/**
+ * IDs between the anchor and the target (inclusive) in board order. Falls
+ * back to just the target when the anchor is no longer on the board.
+ */
+export function getSelectionRange(orderedIds: string[], anchorId: string, targetId: string): string[] {
+  const from = orderedIds.indexOf(anchorId);
+  const to = orderedIds.indexOf(targetId);
+  if (from === -1 || to === -1) return [targetId];
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  applySnapshots,
+  findChangedSnapshots,
+  isUnchanged,
+  readTaskSnapshot,
+  type TaskSnapshot,
+} from './undoHistory';
+
+const TASK_FILE = `---
+id: task-1
+title: One
+status: To Do
+---
+
+## Description
+
+<!-- SECTION:DESCRIPTION:BEGIN -->
+Hello
+<!-- SECTION:DESCRIPTION:END -->
+
+## Implementation Plan
+
+<!-- SECTION:PLAN:BEGIN -->
+1. Do it
+<!-- SECTION:PLAN:END -->
+
+## Implementation Notes
+
+<!-- SECTION:NOTES:BEGIN -->
+Done halfway
+<!-- SECTION:NOTES:END -->
+
+## Custom Section
+
+Kept as is
+`;
+
+// In-memory host files
+function createFiles(initial: Record<string, string>) {
+  const files = new Map(Object.entries(initial));
+  return {
+    files,
+    readFile: async (path: string) => {
+      const content = files.get(path);
+      if (content === undefined) throw new Error(`Not found: ${path}`);
+      return content;
+    },
+    writeFile: async (path: string, content: string) => {
+      files.set(path, content);
+    },
+    deleteFile: async (path: string) => {
+      files.delete(path);
+    },
+  };
+}
+
+describe('readTaskSnapshot', () => {
+  it('captures the file content as written', async () => {
+    const fs = createFiles({ 'backlog/tasks/task-1 - One.md': TASK_FILE });
+    expect(await readTaskSnapshot('task-1', '/backlog/tasks/task-1 - One.md', fs.readFile)).toEqual({
+      taskId: 'task-1',
+      path: 'backlog/tasks/task-1 - One.md',
+      markdown: TASK_FILE,
+    });
+  });
+
+  it('records a missing task without reading', async () => {
+    const fs = createFiles({});
+    expect(await readTaskSnapshot('task-2', undefined, fs.readFile)).toEqual({
+      taskId: 'task-2',
+      path: null,
+      markdown: null,
+    });
+  });
+});
+
+describe('applySnapshots', () => {
+  const path = 'backlog/tasks/task-1 - One.md';
+
+  it('restores a deleted task byte for byte and deletes it again on redo', async () => {
+    const fs = createFiles({ [path]: TASK_FILE });
+    const before = [await readTaskSnapshot('task-1', path, fs.readFile)];
+    await fs.deleteFile(path);
+    const after: TaskSnapshot[] = [{ taskId: 'task-1', path: null, markdown: null }];
+    expect(isUnchanged(before, after)).toBe(false);
+
+    const undone = await applySnapshots(before, after, fs);
+    expect(fs.files.get(path)).toBe(TASK_FILE);
+    expect(undone).toEqual({ written: before, removedIds: [], deletedPaths: [] });
+
+    const redone = await applySnapshots(after, before, fs);
+    expect(fs.files.has(path)).toBe(false);
+    expect(redone).toEqual({ written: [], removedIds: ['task-1'], deletedPaths: [path] });
+  });
+
+  it('moves a retitled task back to its old file', async () => {
+    const renamed = 'backlog/tasks/task-1 - Renamed.md';
+    const fs = createFiles({ [path]: TASK_FILE });
+    const before = [await readTaskSnapshot('task-1', path, fs.readFile)];
+    await fs.deleteFile(path);
+    await fs.writeFile(renamed, TASK_FILE.replace('title: One', 'title: Renamed'));
+    const after = [await readTaskSnapshot('task-1', renamed, fs.readFile)];
+
+    expect((await applySnapshots(before, after, fs)).deletedPaths).toEqual([renamed]);
+    expect(Array.from(fs.files.keys())).toEqual([path]);
+    expect(fs.files.get(path)).toBe(TASK_FILE);
+  });
+
+  it('treats identical snapshots as unchanged', async () => {
+    const fs = createFiles({ [path]: TASK_FILE });
+    const snapshot = await readTaskSnapshot('task-1', path, fs.readFile);
+    expect(isUnchanged([snapshot], [{ ...snapshot }])).toBe(true);
+  });
+});
+
+describe('findChangedSnapshots', () => {
+  const path = 'backlog/tasks/task-1 - One.md';
+  const otherPath = 'backlog/tasks/task-2 - Two.md';
+
+  it('lists tasks edited, moved or deleted since the snapshot', async () => {
+    const fs = createFiles({ [path]: TASK_FILE, [otherPath]: TASK_FILE.replace('task-1', 'task-2') });
+    const after = [
+      await readTaskSnapshot('task-1', path, fs.readFile),
+      await readTaskSnapshot('task-2', otherPath, fs.readFile),
+      await readTaskSnapshot('task-3', undefined, fs.readFile),
+    ];
+    expect(await findChangedSnapshots(after, fs.readFile)).toEqual([]);
+
+    await fs.writeFile(path, TASK_FILE.replace('Done halfway', 'Done'));
+    await fs.deleteFile(otherPath);
+    expect(await findChangedSnapshots(after, fs.readFile)).toEqual(['task-1', 'task-2']);
+  });
+
+  it('leaves the files alone when an undo would overwrite an outside edit', async () => {
+    const fs = createFiles({ [path]: TASK_FILE });
+    const before = [await readTaskSnapshot('task-1', path, fs.readFile)];
+    await fs.writeFile(path, TASK_FILE.replace('status: To Do', 'status: Done'));
+    const after = [await readTaskSnapshot('task-1', path, fs.readFile)];
+
+    const edited = TASK_FILE.replace('status: To Do', 'status: Done').replace('Kept as is', 'Edited elsewhere');
+    await fs.writeFile(path, edited);
+    if ((await findChangedSnapshots(after, fs.readFile)).length === 0) {
+      await applySnapshots(before, after, fs);
+    }
+    expect(fs.files.get(path)).toBe(edited);
+  });
+});
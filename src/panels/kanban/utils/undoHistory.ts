@@ -0,0 +1,105 @@
+/** Number of undoable mutations kept */
+export const UNDO_HISTORY_LIMIT = 50;
+
+/** A task file's content as it was on disk; `markdown: null` means the task didn't exist */
+export interface TaskSnapshot {
+  taskId: string;
+  path: string | null;
+  markdown: string | null;
+}
+
+/** One undoable board mutation: its tasks before and after */
+export interface UndoCommand {
+  id: number;
+  label: string;
+  before: TaskSnapshot[];
+  after: TaskSnapshot[];
+}
+
+/** Host-relative path, as the file system adapter writes it */
+export function normalizeTaskPath(path: string): string {
+  return path.replace(/^\/+/, '').replace(/\/+/g, '/');
+}
+
+/** Whether a mutation left every task file as it was (e.g. because it failed) */
+export function isUnchanged(before: TaskSnapshot[], after: TaskSnapshot[]): boolean {
+  return before.every((snapshot) => {
+    const match = after.find((s) => s.taskId === snapshot.taskId);
+    return match !== undefined && match.path === snapshot.path && match.markdown === snapshot.markdown;
+  }) && after.every((snapshot) => before.some((s) => s.taskId === snapshot.taskId));
+}
+
+/**
+ * Capture a task file exactly as written, including sections Core doesn't
+ * parse, so restoring it gives back the same file. No path: the task doesn't exist.
+ */
+export async function readTaskSnapshot(
+  taskId: string,
+  filePath: string | undefined,
+  readFile: (path: string) => Promise<string>
+): Promise<TaskSnapshot> {
+  if (!filePath) return { taskId, path: null, markdown: null };
+  const path = normalizeTaskPath(filePath);
+  return { taskId, path, markdown: await readFile(path) };
+}
+
+/**
+ * IDs of tasks whose files no longer match `expected` (edited, moved or
+ * deleted since), so bringing back other snapshots would overwrite those
+ * changes. Tasks expected not to exist aren't checked.
+ */
+export async function findChangedSnapshots(
+  expected: TaskSnapshot[],
+  readFile: (path: string) => Promise<string>
+): Promise<string[]> {
+  const changed: string[] = [];
+  for (const { taskId, path, markdown } of expected) {
+    if (path === null || markdown === null) continue;
+    const current = await readFile(path).catch(() => null);
+    if (current !== markdown) changed.push(taskId);
+  }
+  return changed;
+}
+
+export interface SnapshotFileOps {
+  writeFile: (path: string, content: string) => Promise<void>;
+  deleteFile: (path: string) => Promise<void>;
+}
+
+/**
+ * Bring task files from the `current` snapshots back to `target`: write the
+ * target markdown, deleting files that didn't exist or moved. Returns the
+ * snapshots that were written, the IDs of tasks that were removed and the
+ * deleted files.
+ */
+export async function applySnapshots(
+  target: TaskSnapshot[],
+  current: TaskSnapshot[],
+  fileOps: SnapshotFileOps
+): Promise<{ written: TaskSnapshot[]; removedIds: string[]; deletedPaths: string[] }> {
+  const written: TaskSnapshot[] = [];
+  const removedIds: string[] = [];
+  const deletedPaths: string[] = [];
+
+  for (const snapshot of target) {
+    const currentPath = current.find((s) => s.taskId === snapshot.taskId)?.path ?? null;
+
+    if (snapshot.markdown === null || snapshot.path === null) {
+      if (currentPath) {
+        await fileOps.deleteFile(currentPath);
+        removedIds.push(snapshot.taskId);
+        deletedPaths.push(currentPath);
+      }
+      continue;
+    }
+
+    await fileOps.writeFile(snapshot.path, snapshot.markdown);
+    written.push(snapshot);
+    if (currentPath && currentPath !== snapshot.path) {
+      await fileOps.deleteFile(currentPath);
+      deletedPaths.push(currentPath);
+    }
+  }
+
+  return { written, removedIds, deletedPaths };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test';
+import { buildWipStatuses, parseWipLimits } from './wipLimits';
+
+describe('parseWipLimits', () => {
+  it('reads the inline form', () => {
+    const config = parseWipLimits('project_name: "Test"\nwip_limits: { "In Progress": 3, Review: 2 }\n');
+    expect(config).toEqual({
+      limits: new Map([
+        ['in progress', 3],
+        ['review', 2],
+      ]),
+      mode: 'confirm',
+    });
+  });
+
+  it('reads the block form up to the next top-level key', () => {
+    const config = parseWipLimits(
+      ['wip_limits:', '  "In Progress": 3', '  # comment', "  'Review': 1", 'wip_limit_mode: block', 'statuses: []'].join('\n')
+    );
+    expect(config).toEqual({
+      limits: new Map([
+        ['in progress', 3],
+        ['review', 1],
+      ]),
+      mode: 'block',
+    });
+  });
+
+  it('skips invalid limits and defaults to confirm', () => {
+    const config = parseWipLimits('wip_limits: { Doing: many, Done: -1, Review: 0 }\nwip_limit_mode: strict\n');
+    expect(config).toEqual({ limits: new Map([['review', 0]]), mode: 'confirm' });
+  });
+});
+
+describe('buildWipStatuses', () => {
+  it('matches limits to columns case-insensitively and flags columns over them', () => {
+    const statuses = buildWipStatuses(
+      new Map([
+        ['In Progress', 4],
+        ['Review', 2],
+        ['To Do', 9],
+      ]),
+      new Map([
+        ['in progress', 3],
+        ['review', 2],
+      ])
+    );
+    expect(statuses).toEqual(
+      new Map([
+        ['In Progress', { count: 4, limit: 3, isOver: true }],
+        ['Review', { count: 2, limit: 2, isOver: false }],
+      ])
+    );
+  });
+});
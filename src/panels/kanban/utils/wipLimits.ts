@@ -0,0 +1,95 @@
+/** Backlog config file holding the WIP limits */
+export const BACKLOG_CONFIG_FILE = 'backlog/config.yml';
+
+/** What happens when a drop would take a column over its limit */
+export type WipLimitMode = 'confirm' | 'block';
+
+export interface WipLimitsConfig {
+  /** Limits keyed by lower-cased status */
+  limits: Map<string, number>;
+  mode: WipLimitMode;
+}
+
+/** A column's work in progress against its limit */
+export interface WipStatus {
+  count: number;
+  limit: number;
+  isOver: boolean;
+}
+
+const unquote = (value: string) => value.trim().replace(/^['"]|['"]$/g, '');
+
+const addLimit = (limits: Map<string, number>, status: string, value: string) => {
+  const limit = parseInt(unquote(value), 10);
+  const key = unquote(status).toLowerCase();
+  if (key && Number.isFinite(limit) && limit >= 0) {
+    limits.set(key, limit);
+  }
+};
+
+/**
+ * Read WIP limits from config.yml. Core's config parser ignores keys it does
+ * not know, so the board reads them itself. Both the inline and the block
+ * form are supported:
+ *
+ * ```yaml
+ * wip_limits: { "In Progress": 3, Review: 2 }
+ * wip_limits:
+ *   "In Progress": 3
+ * wip_limit_mode: block
+ * ```
+ */
+export function parseWipLimits(configContent: string): WipLimitsConfig {
+  const limits = new Map<string, number>();
+  let mode: WipLimitMode = 'confirm';
+  let inBlock = false;
+
+  for (const line of configContent.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    // Entries of the block form are indented under wip_limits:
+    if (inBlock && /^\s/.test(line)) {
+      const colonIndex = trimmed.lastIndexOf(':');
+      if (colonIndex > 0) addLimit(limits, trimmed.slice(0, colonIndex), trimmed.slice(colonIndex + 1));
+      continue;
+    }
+    inBlock = false;
+
+    const colonIndex = trimmed.indexOf(':');
+    if (colonIndex === -1) continue;
+    const key = trimmed.slice(0, colonIndex).trim();
+    const value = trimmed.slice(colonIndex + 1).trim();
+
+    if (key === 'wip_limits') {
+      if (value.startsWith('{') && value.endsWith('}')) {
+        for (const entry of value.slice(1, -1).split(',')) {
+          const entryColon = entry.lastIndexOf(':');
+          if (entryColon > 0) addLimit(limits, entry.slice(0, entryColon), entry.slice(entryColon + 1));
+        }
+      } else if (!value) {
+        inBlock = true;
+      }
+    } else if (key === 'wip_limit_mode') {
+      mode = unquote(value).toLowerCase() === 'block' ? 'block' : 'confirm';
+    }
+  }
+
+  return { limits, mode };
+}
+
+/**
+ * Build the WIP status of each limited column from its task count
+ */
+export function buildWipStatuses(
+  counts: Map<string, number>,
+  limits: Map<string, number>
+): Map<string, WipStatus> {
+  const statuses = new Map<string, WipStatus>();
+  for (const [status, count] of counts) {
+    const limit = limits.get(status.toLowerCase());
+    if (limit === undefined) continue;
+    statuses.set(status, { count, limit, isOver: count > limit });
+  }
+  return statuses;
+}
@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { Core, type Milestone, type Task } from '@backlog-md/core';
+import type { TaskFileChanges } from '../../../hooks/useBacklogCore';
 
 /** State for a single milestone with its tasks */
 export interface MilestoneState {
@@ -26,6 +27,8 @@ export interface UseMilestoneDataResult {
 interface UseMilestoneDataOptions {
   /** Shared Core instance from useBacklogCore (required) */
   core: Core | null;
+  /** Tasks changed on disk, from useBacklogCore; only affected milestones are updated */
+  fileChanges?: TaskFileChanges | null;
 }
 
 /**
@@ -33,13 +36,15 @@ interface UseMilestoneDataOptions {
  *
  * Milestones are loaded on init with their task IDs.
  * Task content is only loaded when a milestone is expanded.
+ * File changes reported by useBacklogCore reload milestones only when a
+ * milestone file changed; otherwise just the affected tasks are swapped.
  *
  * Requires a shared Core instance from useBacklogCore.
  */
 export function useMilestoneData(
   options: UseMilestoneDataOptions
 ): UseMilestoneDataResult {
-  const { core } = options;
+  const { core, fileChanges } = options;
 
   const [milestones, setMilestones] = useState<MilestoneState[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -47,6 +52,8 @@ export function useMilestoneData(
 
   // Track whether we've loaded data for this Core instance
   const loadedCoreRef = useRef<Core | null>(null);
+  // Last file changes applied, so each is applied once
+  const appliedChangesRef = useRef<TaskFileChanges | null>(null);
 
   // Load milestone data using the provided Core
   const loadMilestoneData = useCallback(async () => {
@@ -119,6 +126,42 @@ export function useMilestoneData(
     loadMilestoneData();
   }, [loadMilestoneData]);
 
+  // Apply file changes: milestone files are re-read in full, task changes
+  // only touch the milestones listing those tasks
+  useEffect(() => {
+    if (!core || !fileChanges || appliedChangesRef.current === fileChanges) return;
+    if (loadedCoreRef.current !== core) return;
+    appliedChangesRef.current = fileChanges;
+
+    if (fileChanges.milestonesChanged) {
+      loadedCoreRef.current = null;
+      loadMilestoneData();
+      return;
+    }
+
+    const removed = new Set(fileChanges.removed);
+    const updated = new Set(fileChanges.updated);
+    if (removed.size + updated.size === 0) return;
+
+    (async () => {
+      const loaded = await core.loadTasksByIds(Array.from(updated));
+      if (loadedCoreRef.current !== core) return;
+      const byId = new Map(loaded.map((task) => [task.id, task]));
+
+      setMilestones((prev) =>
+        prev.map((m) => {
+          if (!m.tasks.some((task) => removed.has(task.id) || updated.has(task.id))) return m;
+          const tasks = m.tasks
+            .filter((task) => !removed.has(task.id))
+            .map((task) => byId.get(task.id) ?? task);
+          return { ...m, tasks };
+        })
+      );
+    })().catch((err) => {
+      console.error('[useMilestoneData] Failed to apply file changes:', err);
+    });
+  }, [core, fileChanges, loadMilestoneData]);
+
   // Expand milestone and load its tasks
   const expandMilestone = useCallback(async (milestoneId: string) => {
     if (!core) {
@@ -0,0 +1,235 @@
+import React from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { DocumentView } from 'themed-markdown';
+import { TASK_BODY_SECTIONS, type TaskBodySectionKey } from '../utils/taskBodySections';
+
+export interface TaskBodyEditorProps {
+  activeSection: TaskBodySectionKey;
+  onSectionChange: (section: TaskBodySectionKey) => void;
+  drafts: Record<TaskBodySectionKey, string>;
+  onDraftChange: (section: TaskBodySectionKey, value: string) => void;
+  dirtySections: TaskBodySectionKey[];
+  isSaving: boolean;
+  error: string | null;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Markdown editor for a task's body sections with a live preview
+ */
+export const TaskBodyEditor: React.FC<TaskBodyEditorProps> = ({
+  activeSection,
+  onSectionChange,
+  drafts,
+  onDraftChange,
+  dirtySections,
+  isSaving,
+  error,
+  onSave,
+  onCancel,
+}) => {
+  const { theme } = useTheme();
+  const isDirty = dirtySections.length > 0;
+  const draft = drafts[activeSection];
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Cmd/Ctrl+S saves
+    if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      if (isDirty && !isSaving) onSave();
+    }
+  };
+
+  return (
+    <div
+      style={{
+        flex: 1,
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+      }}
+    >
+      {/* Section tabs */}
+      <div
+        role="tablist"
+        style={{
+          flexShrink: 0,
+          display: 'flex',
+          gap: '4px',
+          padding: '8px 12px 0',
+          borderBottom: `1px solid ${theme.colors.border}`,
+        }}
+      >
+        {TASK_BODY_SECTIONS.map(({ key, heading }) => {
+          const isActive = key === activeSection;
+          return (
+            <button
+              key={key}
+              type="button"
+              role="tab"
+              aria-selected={isActive}
+              onClick={() => onSectionChange(key)}
+              style={{
+                padding: '6px 12px',
+                fontFamily: theme.fonts.body,
+                fontSize: theme.fontSizes[1],
+                fontWeight: isActive ? theme.fontWeights.semibold : theme.fontWeights.medium,
+                border: 'none',
+                borderBottom: `2px solid ${isActive ? theme.colors.primary : 'transparent'}`,
+                background: 'transparent',
+                color: isActive ? theme.colors.text : theme.colors.textSecondary,
+                cursor: 'pointer',
+              }}
+            >
+              {heading}
+              {dirtySections.includes(key) && (
+                <span style={{ color: theme.colors.warning }} title="Unsaved changes">
+                  {' '}•
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Editor and preview */}
+      <div
+        style={{
+          flex: 1,
+          display: 'flex',
+          minHeight: 0,
+        }}
+      >
+        <textarea
+          value={draft}
+          onChange={(e) => onDraftChange(activeSection, e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={isSaving}
+          spellCheck
+          aria-label={`${TASK_BODY_SECTIONS.find((s) => s.key === activeSection)?.heading} markdown`}
+          placeholder="Write markdown..."
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: '12px',
+            fontFamily: theme.fonts.monospace,
+            fontSize: theme.fontSizes[1],
+            lineHeight: 1.5,
+            border: 'none',
+            borderRight: `1px solid ${theme.colors.border}`,
+            outline: 'none',
+            resize: 'none',
+            backgroundColor: theme.colors.backgroundSecondary,
+            color: theme.colors.text,
+          }}
+        />
+        <div
+          style={{
+            flex: 1,
+            minWidth: 0,
+            display: 'flex',
+            flexDirection: 'column',
+            overflow: 'hidden',
+          }}
+        >
+          {draft.trim() ? (
+            <DocumentView
+              content={draft}
+              theme={theme}
+              maxWidth="100%"
+              transparentBackground
+            />
+          ) : (
+            <div
+              style={{
+                padding: '24px',
+                color: theme.colors.textMuted,
+                fontStyle: 'italic',
+                fontSize: theme.fontSizes[1],
+              }}
+            >
+              Nothing to preview
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div
+        style={{
+          flexShrink: 0,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          padding: '10px 12px',
+          borderTop: `1px solid ${theme.colors.border}`,
+          backgroundColor: theme.colors.backgroundSecondary,
+        }}
+      >
+        <span
+          style={{
+            flex: 1,
+            minWidth: 0,
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[1],
+            color: error ? theme.colors.error : theme.colors.textMuted,
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {error ? `Could not save: ${error}` : isDirty ? 'Unsaved changes' : 'No changes'}
+        </span>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          style={{
+            padding: '6px 14px',
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[1],
+            fontWeight: theme.fontWeights.medium,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: theme.radii[2],
+            backgroundColor: 'transparent',
+            color: theme.colors.text,
+            cursor: isSaving ? 'not-allowed' : 'pointer',
+            opacity: isSaving ? 0.5 : 1,
+          }}
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={!isDirty || isSaving}
+          title="Save (Ctrl+S)"
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '6px 14px',
+            fontFamily: theme.fonts.body,
+            fontSize: theme.fontSizes[1],
+            fontWeight: theme.fontWeights.medium,
+            border: 'none',
+            borderRadius: theme.radii[2],
+            backgroundColor: theme.colors.primary,
+            color: theme.colors.textOnPrimary,
+            cursor: !isDirty || isSaving ? 'not-allowed' : 'pointer',
+            opacity: !isDirty || isSaving ? 0.6 : 1,
+          }}
+        >
+          {isSaving ? (
+            <Loader2 size={14} style={{ animation: 'spin 1s linear infinite' }} />
+          ) : (
+            <Save size={14} />
+          )}
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React from 'react';
+import { ArrowRightCircle, CornerLeftUp, ListTree, Loader2, Lock } from 'lucide-react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { isDoneStatus, type Task } from '@backlog-md/core';
+import { getSubtaskProgress } from '../../kanban/utils/subtasks';
+
+export interface TaskRelationsProps {
+  parent: Task | null;
+  subtasks: Task[];
+  /** Tasks this one depends on */
+  blockedBy: Task[];
+  /** Dependency IDs that match no task */
+  missingDependencies: string[];
+  /** Tasks that depend on this one */
+  blocks: Task[];
+  isLoading: boolean;
+  /** Navigate to a related task */
+  onSelect: (task: Task) => void;
+}
+
+interface RelationRowProps {
+  task: Task;
+  onSelect: (task: Task) => void;
+}
+
+const RelationRow: React.FC<RelationRowProps> = ({ task, onSelect }) => {
+  const { theme } = useTheme();
+  const isDone = isDoneStatus(task.status);
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(task)}
+      title={`Open ${task.id} - ${task.title}`}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        width: '100%',
+        padding: '6px 8px',
+        background: theme.colors.backgroundSecondary,
+        border: 'none',
+        borderRadius: theme.radii[1],
+        cursor: 'pointer',
+        textAlign: 'left',
+        fontFamily: theme.fonts.body,
+        fontSize: theme.fontSizes[1],
+        color: theme.colors.text,
+      }}
+    >
+      <span
+        style={{
+          width: '8px',
+          height: '8px',
+          flexShrink: 0,
+          borderRadius: '50%',
+          background: isDone ? theme.colors.success : theme.colors.textMuted,
+        }}
+      />
+      <span style={{ fontFamily: theme.fonts.monospace, color: theme.colors.textMuted }}>{task.id}</span>
+      <span
+        style={{
+          flex: 1,
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+          textDecoration: isDone ? 'line-through' : 'none',
+        }}
+      >
+        {task.title}
+      </span>
+      <span style={{ flexShrink: 0, fontSize: theme.fontSizes[0], color: theme.colors.textSecondary }}>
+        {task.status}
+      </span>
+    </button>
+  );
+};
+
+/**
+ * Parent task, subtasks and dependencies of the task shown in the detail panel
+ */
+export const TaskRelations: React.FC<TaskRelationsProps> = ({
+  parent,
+  subtasks,
+  blockedBy,
+  missingDependencies,
+  blocks,
+  isLoading,
+  onSelect,
+}) => {
+  const { theme } = useTheme();
+
+  const hasDependencies = blockedBy.length > 0 || missingDependencies.length > 0;
+  if (!parent && subtasks.length === 0 && !hasDependencies && blocks.length === 0) {
+    return isLoading ? (
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          marginBottom: '16px',
+          fontSize: theme.fontSizes[1],
+          color: theme.colors.textMuted,
+        }}
+      >
+        <Loader2 size={12} style={{ animation: 'spin 1s linear infinite' }} />
+        Loading related tasks...
+      </div>
+    ) : null;
+  }
+
+  const { done, total } = getSubtaskProgress(subtasks);
+  const openBlockers = blockedBy.filter((task) => !isDoneStatus(task.status)).length;
+  const headingStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    margin: '0 0 6px 0',
+    fontFamily: theme.fonts.body,
+    fontSize: theme.fontSizes[1],
+    fontWeight: theme.fontWeights.semibold,
+    color: theme.colors.textSecondary,
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', marginBottom: '16px' }}>
+      {parent && (
+        <div>
+          <h4 style={headingStyle}>
+            <CornerLeftUp size={14} />
+            Parent task
+          </h4>
+          <RelationRow task={parent} onSelect={onSelect} />
+        </div>
+      )}
+
+      {total > 0 && (
+        <div>
+          <h4 style={headingStyle}>
+            <ListTree size={14} />
+            Subtasks
+            <span style={{ fontWeight: theme.fontWeights.medium, color: done === total ? theme.colors.success : undefined }}>
+              {done}/{total}
+            </span>
+          </h4>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            {subtasks.map((subtask) => (
+              <RelationRow key={subtask.id} task={subtask} onSelect={onSelect} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {hasDependencies && (
+        <div>
+          <h4 style={{ ...headingStyle, color: openBlockers > 0 ? theme.colors.error : headingStyle.color }}>
+            <Lock size={14} />
+            Blocked by
+            {openBlockers > 0 && (
+              <span style={{ fontWeight: theme.fontWeights.medium }}>
+                {openBlockers} not done
+              </span>
+            )}
+          </h4>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            {blockedBy.map((dependency) => (
+              <RelationRow key={dependency.id} task={dependency} onSelect={onSelect} />
+            ))}
+            {missingDependencies.map((dependencyId) => (
+              <div
+                key={dependencyId}
+                title="No task with this ID was found"
+                style={{
+                  padding: '6px 8px',
+                  fontFamily: theme.fonts.monospace,
+                  fontSize: theme.fontSizes[1],
+                  color: theme.colors.textMuted,
+                  fontStyle: 'italic',
+                }}
+              >
+                {dependencyId} (not found)
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {blocks.length > 0 && (
+        <div>
+          <h4 style={headingStyle}>
+            <ArrowRightCircle size={14} />
+            Blocks
+          </h4>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            {blocks.map((dependent) => (
+              <RelationRow key={dependent.id} task={dependent} onSelect={onSelect} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
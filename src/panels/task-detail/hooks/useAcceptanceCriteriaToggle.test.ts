@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+import { applyCriteriaToggles, getCriterionIndexAtLine } from './useAcceptanceCriteriaToggle';
+import { createProject, loadCore } from '../../../mocks/memoryProject';
+
+const TASK_PATH = 'backlog/tasks/task-1 - One.md';
+
+const TASK_FILE = `---
+id: task-1
+title: One
+status: In Progress
+assignee: []
+created_date: '2025-01-01'
+labels: []
+dependencies: []
+---
+
+## Description
+
+<!-- SECTION:DESCRIPTION:BEGIN -->
+Hello
+<!-- SECTION:DESCRIPTION:END -->
+
+## Acceptance Criteria
+<!-- AC:BEGIN -->
+- [ ] #1 Works
+- [ ] #2 Fast
+<!-- AC:END -->
+
+## Implementation Plan
+
+<!-- SECTION:PLAN:BEGIN -->
+1. Write it
+<!-- SECTION:PLAN:END -->
+
+## Implementation Notes
+
+<!-- SECTION:NOTES:BEGIN -->
+Started
+<!-- SECTION:NOTES:END -->
+`;
+
+describe('getCriterionIndexAtLine', () => {
+  it('counts criteria up to the line', () => {
+    const content = '# One\n\n- [ ] Works\ntext\n- [x] Fast';
+    expect(getCriterionIndexAtLine(content, 5)).toBe(2);
+    expect(getCriterionIndexAtLine(content, 4)).toBeNull();
+  });
+});
+
+describe('applyCriteriaToggles', () => {
+  it('saves a toggle without touching the other body sections', async () => {
+    const project = createProject({ [TASK_PATH]: TASK_FILE });
+    const core = await loadCore(project);
+    const task = await core.loadTask('task-1');
+    if (!task) throw new Error('task-1 not loaded');
+
+    await core.updateTask('task-1', { acceptanceCriteria: applyCriteriaToggles(task, new Map([[2, true]])) });
+
+    expect(project.files.get(TASK_PATH)?.replace(/\nupdated_date: '[\d-]+'/, '')).toBe(
+      TASK_FILE.replace('- [ ] #2 Fast', '- [x] #2 Fast')
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Core, Task } from '@backlog-md/core';
+import type { PanelEventEmitter } from '../../../types';
+import { getTracer, SpanStatusCode } from '../../../telemetry';
+
+/** Checkbox lines Core treats as acceptance criteria (see parseAcceptanceCriteria) */
+const CRITERION_LINE = /^-\s*\[([ xX])\]\s*(.+)$/;
+
+const DEFAULT_DEBOUNCE_MS = 600;
+
+export type CriteriaSaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
+
+interface UseAcceptanceCriteriaToggleOptions {
+  /** Shared Core instance */
+  core: Core | null;
+  events?: PanelEventEmitter;
+  /** Task currently shown in the detail panel */
+  task: Task | null;
+  /** Markdown rendered by DocumentView (line numbers refer to this content) */
+  content: string;
+  /** Whether toggles should be written back */
+  canWrite: boolean;
+  /** Called with the saved task */
+  onSaved?: (task: Task) => void;
+  /** Delay before toggles are written (default: 600ms) */
+  debounceMs?: number;
+}
+
+export interface UseAcceptanceCriteriaToggleResult {
+  /** DocumentView onCheckboxChange handler */
+  handleCheckboxChange: (slideIndex: number, lineNumber: number, checked: boolean) => void;
+  status: CriteriaSaveStatus;
+  error: string | null;
+}
+
+/**
+ * Map a 1-based line number in the rendered markdown to the 1-based index of
+ * the acceptance criterion on that line, or null if the line is not one.
+ */
+export function getCriterionIndexAtLine(content: string, lineNumber: number): number | null {
+  const lines = content.split('\n');
+  const line = lines[lineNumber - 1];
+  if (line === undefined || !CRITERION_LINE.test(line)) return null;
+
+  let index = 0;
+  for (let i = 0; i < lineNumber; i++) {
+    if (CRITERION_LINE.test(lines[i])) index++;
+  }
+  return index;
+}
+
+/**
+ * The task's acceptance criteria with toggles (criterion index -> checked)
+ * applied, as Core.updateTask takes them
+ */
+export function applyCriteriaToggles(
+  task: Task,
+  toggles: Map<number, boolean>
+): Array<{ text: string; checked: boolean }> {
+  return (task.acceptanceCriteriaItems ?? []).map((item) => ({
+    text: item.text,
+    checked: toggles.get(item.index) ?? item.checked,
+  }));
+}
+
+/**
+ * Hook that persists acceptance-criteria checkbox toggles from DocumentView.
+ *
+ * Toggles are batched and written through Core after a short debounce, so
+ * ticking several boxes in a row results in a single file write. Pending
+ * toggles are flushed when the task changes or the panel unmounts.
+ */
+export function useAcceptanceCriteriaToggle(
+  options: UseAcceptanceCriteriaToggleOptions
+): UseAcceptanceCriteriaToggleResult {
+  const {
+    core,
+    events,
+    task,
+    content,
+    canWrite,
+    onSaved,
+    debounceMs = DEFAULT_DEBOUNCE_MS,
+  } = options;
+
+  const [status, setStatus] = useState<CriteriaSaveStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  // Toggles waiting to be written: criterion index -> checked
+  const pendingRef = useRef<{ taskId: string; toggles: Map<number, boolean> } | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Keep the latest values for the debounced flush
+  const coreRef = useRef(core);
+  const eventsRef = useRef(events);
+  const onSavedRef = useRef(onSaved);
+  useEffect(() => {
+    coreRef.current = core;
+    eventsRef.current = events;
+    onSavedRef.current = onSaved;
+  }, [core, events, onSaved]);
+
+  const flush = useCallback(async () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    const activeCore = coreRef.current;
+    if (!pending || pending.toggles.size === 0 || !activeCore) return;
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('task.edit', {
+      attributes: {
+        'input.taskId': pending.taskId,
+        'input.source': 'acceptance-criteria',
+        'input.toggles': pending.toggles.size,
+      },
+    });
+
+    setStatus('saving');
+
+    try {
+      // Apply toggles to the latest version of the task
+      const current = await activeCore.loadTask(pending.taskId);
+      if (!current) {
+        throw new Error(`Task ${pending.taskId} not found`);
+      }
+
+      const updated = await activeCore.updateTask(pending.taskId, {
+        acceptanceCriteria: applyCriteriaToggles(current, pending.toggles),
+      });
+      if (!updated) {
+        throw new Error(`Task ${pending.taskId} not found`);
+      }
+
+      span.addEvent('task.updated', {
+        'task.id': pending.taskId,
+        'updated.fields': 'acceptanceCriteria',
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      setStatus('saved');
+      setError(null);
+      onSavedRef.current?.(updated);
+
+      eventsRef.current?.emit({
+        type: 'task:updated',
+        source: 'task-detail-panel',
+        timestamp: Date.now(),
+        payload: { taskId: updated.id, task: updated },
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save acceptance criteria';
+      setStatus('error');
+      setError(errorMessage);
+      span.addEvent('task.save.error', {
+        'task.id': pending.taskId,
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': errorMessage,
+      });
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+    } finally {
+      span.end();
+    }
+  }, []);
+
+  // Flush pending toggles when switching tasks or unmounting
+  const taskId = task?.id;
+  useEffect(() => {
+    setStatus('idle');
+    setError(null);
+    return () => {
+      if (pendingRef.current) {
+        flush();
+      }
+    };
+  }, [taskId, flush]);
+
+  const handleCheckboxChange = useCallback(
+    (_slideIndex: number, lineNumber: number, checked: boolean) => {
+      if (!task || !canWrite) return;
+
+      const index = getCriterionIndexAtLine(content, lineNumber);
+      if (index === null) return;
+
+      if (!pendingRef.current || pendingRef.current.taskId !== task.id) {
+        pendingRef.current = { taskId: task.id, toggles: new Map() };
+      }
+      pendingRef.current.toggles.set(index, checked);
+      setStatus('pending');
+
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+      timerRef.current = setTimeout(() => {
+        flush();
+      }, debounceMs);
+    },
+    [task, canWrite, content, debounceMs, flush]
+  );
+
+  return { handleCheckboxChange, status, error };
+}
@@ -0,0 +1,145 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { parseTaskMarkdown, serializeTaskMarkdown, type Core, type Task } from '@backlog-md/core';
+import type { KanbanPanelActions } from '../../../types';
+import type { PanelFileSystemAdapter } from '../../../adapters/PanelFileSystemAdapter';
+import type { TaskFileChanges } from '../../../hooks/useBacklogCore';
+import { getTracer, SpanStatusCode } from '../../../telemetry';
+
+/** What happened to the displayed task after its file changed on disk */
+export type ExternalTaskChange = 'reloaded' | 'kept-edits' | 'removed';
+
+interface UseExternalTaskChangesOptions {
+  /** Task currently shown in the detail panel */
+  task: Task | null;
+  /** Files edited since the previous fileTree (useBacklogCore) */
+  modifiedPaths: string[];
+  /** Tasks changed by host file events or fileTree updates (useBacklogCore) */
+  fileChanges?: TaskFileChanges | null;
+  /** Core, to find a task file that moved */
+  core?: Core | null;
+  /** File system adapter behind Core, to tell the panels' own writes apart */
+  fileSystem?: PanelFileSystemAdapter | null;
+  actions?: KanbanPanelActions;
+  /** Whether the user has unsaved edits that a reload would discard */
+  hasUnsavedEdits: () => boolean;
+  /** Show the task as it is now on disk */
+  onReload: (task: Task) => void;
+  /** The task file is gone; close the view */
+  onRemoved: () => void;
+}
+
+export interface UseExternalTaskChangesResult {
+  change: ExternalTaskChange | null;
+  dismiss: () => void;
+}
+
+// Record what happened to the displayed task on a detail.interaction span
+function recordExternalChange(eventName: string, taskId: string, path: string, action: string): void {
+  const span = getTracer().startSpan('detail.interaction', {
+    attributes: { 'task.id': taskId },
+  });
+  span.addEvent(eventName, {
+    'task.id': taskId,
+    'file.path': path,
+    'external.action': action,
+  });
+  span.setStatus({ code: SpanStatusCode.OK });
+  span.end();
+}
+
+/**
+ * Hook noticing changes to the displayed task's file made outside the panels
+ * (another tool, a git checkout, an agent). The file is re-read when a host
+ * file event or the fileTree reports it changed (or moved); the task is
+ * reloaded unless the user has unsaved edits. When the file is gone the view
+ * is closed, or kept with a notice while there are unsaved edits. Writes by
+ * the panels themselves already arrived as `task:updated`; the file still
+ * holds what the adapter wrote, so they are ignored.
+ */
+export function useExternalTaskChanges(options: UseExternalTaskChangesOptions): UseExternalTaskChangesResult {
+  const { task, modifiedPaths, fileChanges, core, fileSystem, actions, hasUnsavedEdits, onReload, onRemoved } = options;
+  const [change, setChange] = useState<ExternalTaskChange | null>(null);
+
+  // Only file changes trigger a check; read the rest through refs
+  const latestRef = useRef({ task, core, fileSystem, actions, hasUnsavedEdits, onReload, onRemoved });
+  useEffect(() => {
+    latestRef.current = { task, core, fileSystem, actions, hasUnsavedEdits, onReload, onRemoved };
+  }, [task, core, fileSystem, actions, hasUnsavedEdits, onReload, onRemoved]);
+
+  // The notice belongs to the task it was shown for
+  useEffect(() => {
+    setChange(null);
+  }, [task?.id]);
+
+  // File of the displayed task to re-read: its own if modified, its new one if moved
+  const [changedPath, setChangedPath] = useState<{ path: string } | null>(null);
+
+  useEffect(() => {
+    const path = latestRef.current.task?.filePath?.replace(/^\/+/, '');
+    if (path && modifiedPaths.includes(path)) setChangedPath({ path });
+  }, [modifiedPaths]);
+
+  useEffect(() => {
+    const { task: current, core: currentCore, hasUnsavedEdits: isDirty, onRemoved: close } = latestRef.current;
+    const path = current?.filePath?.replace(/^\/+/, '');
+    if (!fileChanges || !current || !path) return;
+
+    const { added, updated, removed, paths } = fileChanges;
+    const stillIndexed = added.includes(current.id) || updated.includes(current.id);
+    if (!stillIndexed && (removed.includes(current.id) || paths.removed.includes(path))) {
+      const keepEdits = isDirty();
+      recordExternalChange('task.external.removed', current.id, path, keepEdits ? 'kept-edits' : 'closed');
+      if (keepEdits) setChange('removed');
+      else close();
+      return;
+    }
+
+    if (updated.includes(current.id) || paths.updated.includes(path)) {
+      const indexed = currentCore?.isLazyInitialized() ? currentCore.getTaskIndex().get(current.id) : undefined;
+      setChangedPath({ path: indexed?.filePath.replace(/^\/+/, '') ?? path });
+    }
+  }, [fileChanges]);
+
+  useEffect(() => {
+    const { task: current, actions: currentActions } = latestRef.current;
+    const path = changedPath?.path;
+    const readFile = currentActions?.readFile;
+    if (!current || !path || !readFile) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const content = await readFile(path);
+        if (cancelled) return;
+
+        const latest = latestRef.current;
+        if (latest.task?.id !== current.id) return;
+        const onDisk = { ...parseTaskMarkdown(content, path), filePath: path };
+        const ownWrite = latest.fileSystem?.isOwnWrite(path, content) ?? false;
+        if (ownWrite || serializeTaskMarkdown(onDisk) === serializeTaskMarkdown(latest.task)) {
+          // Our own write, or the same content under a new name: follow the file quietly
+          if (latest.task.filePath?.replace(/^\/+/, '') !== path && !latest.hasUnsavedEdits()) {
+            latest.onReload(onDisk);
+          }
+          return;
+        }
+
+        const keepEdits = latest.hasUnsavedEdits();
+        recordExternalChange('task.external.changed', current.id, path, keepEdits ? 'kept-edits' : 'reloaded');
+
+        if (!keepEdits) latest.onReload(onDisk);
+        setChange(keepEdits ? 'kept-edits' : 'reloaded');
+      } catch (err) {
+        console.warn('[useExternalTaskChanges] Failed to re-read task file:', path, err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [changedPath]);
+
+  const dismiss = useCallback(() => setChange(null), []);
+
+  return { change, dismiss };
+}
@@ -0,0 +1,183 @@
+import { useState, useCallback, useMemo } from 'react';
+import { parseTaskMarkdown, serializeTaskMarkdown } from '@backlog-md/core';
+import type { Core, Task } from '@backlog-md/core';
+import type { PanelEventEmitter } from '../../../types';
+import { getTracer, SpanStatusCode } from '../../../telemetry';
+import {
+  TASK_BODY_SECTIONS,
+  buildTaskBodyUpdate,
+  extractTaskBodySections,
+  type TaskBodySectionKey,
+  type TaskBodySections,
+} from '../utils/taskBodySections';
+
+type SectionDrafts = Record<TaskBodySectionKey, string>;
+
+interface UseTaskBodyEditorOptions {
+  /** Shared Core instance */
+  core: Core | null;
+  events?: PanelEventEmitter;
+  /** Task currently shown in the detail panel */
+  task: Task | null;
+  /** Called with the saved task */
+  onSaved?: (task: Task) => void;
+}
+
+export interface UseTaskBodyEditorResult {
+  isEditing: boolean;
+  /** Section shown in the editor */
+  activeSection: TaskBodySectionKey;
+  setActiveSection: (section: TaskBodySectionKey) => void;
+  drafts: SectionDrafts;
+  setDraft: (section: TaskBodySectionKey, value: string) => void;
+  /** Sections whose draft differs from the saved content */
+  dirtySections: TaskBodySectionKey[];
+  isDirty: boolean;
+  isSaving: boolean;
+  error: string | null;
+  startEditing: () => void;
+  /** Leave edit mode and drop any drafts */
+  discard: () => void;
+  save: () => Promise<boolean>;
+}
+
+function getSectionContents(sections: TaskBodySections): SectionDrafts {
+  return {
+    description: sections.description.content,
+    implementationPlan: sections.implementationPlan.content,
+    implementationNotes: sections.implementationNotes.content,
+  };
+}
+
+/**
+ * Hook managing inline editing of a task's Description, Implementation Plan
+ * and Implementation Notes.
+ *
+ * Drafts are kept per section while editing. Saving writes all sections
+ * through Core.updateTask, keeping any SECTION markers the file already had.
+ */
+export function useTaskBodyEditor(options: UseTaskBodyEditorOptions): UseTaskBodyEditorResult {
+  const { core, events, task, onSaved } = options;
+
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [activeSection, setActiveSection] = useState<TaskBodySectionKey>('description');
+  const [baseSections, setBaseSections] = useState<TaskBodySections | null>(null);
+  const [drafts, setDrafts] = useState<SectionDrafts>({
+    description: '',
+    implementationPlan: '',
+    implementationNotes: '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Edit mode ends when another task is shown
+  const isEditing = editingTaskId !== null && editingTaskId === task?.id;
+
+  const dirtySections = useMemo(() => {
+    if (!isEditing || !baseSections) return [];
+    return TASK_BODY_SECTIONS
+      .map(({ key }) => key)
+      .filter((key) => drafts[key].trim() !== baseSections[key].content.trim());
+  }, [isEditing, baseSections, drafts]);
+
+  const startEditing = useCallback(() => {
+    if (!task) return;
+    const sections = extractTaskBodySections(task);
+    setBaseSections(sections);
+    setDrafts(getSectionContents(sections));
+    setActiveSection('description');
+    setEditingTaskId(task.id);
+    setError(null);
+  }, [task]);
+
+  const setDraft = useCallback((section: TaskBodySectionKey, value: string) => {
+    setDrafts((prev) => ({ ...prev, [section]: value }));
+  }, []);
+
+  const discard = useCallback(() => {
+    setEditingTaskId(null);
+    setBaseSections(null);
+    setError(null);
+  }, []);
+
+  const save = useCallback(async (): Promise<boolean> => {
+    if (!core || !task || !isEditing || !baseSections) return false;
+
+    const tracer = getTracer();
+    const span = tracer.startSpan('task.edit', {
+      attributes: {
+        'input.taskId': task.id,
+        'input.source': 'body-editor',
+        'input.sections': dirtySections.join(', '),
+      },
+    });
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const updated = await core.updateTask(task.id, buildTaskBodyUpdate(baseSections, drafts));
+      if (!updated) {
+        throw new Error(`Task ${task.id} not found`);
+      }
+
+      // Core keeps the previous rawContent; re-read the body it just wrote
+      const written = parseTaskMarkdown(serializeTaskMarkdown(updated), updated.filePath ?? '');
+      const saved: Task = {
+        ...updated,
+        rawContent: written.rawContent,
+        description: written.description,
+        implementationPlan: drafts.implementationPlan.trim() || undefined,
+        implementationNotes: drafts.implementationNotes.trim() || undefined,
+      };
+
+      span.addEvent('task.updated', {
+        'task.id': task.id,
+        'updated.fields': dirtySections.join(', '),
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      setEditingTaskId(null);
+      setBaseSections(null);
+      onSaved?.(saved);
+
+      events?.emit({
+        type: 'task:updated',
+        source: 'task-detail-panel',
+        timestamp: Date.now(),
+        payload: { taskId: saved.id, task: saved },
+      });
+
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save task';
+      setError(errorMessage);
+      span.addEvent('task.save.error', {
+        'task.id': task.id,
+        'error.type': err instanceof Error ? err.name : 'Unknown',
+        'error.message': errorMessage,
+      });
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+      return false;
+    } finally {
+      setIsSaving(false);
+      span.end();
+    }
+  }, [core, events, task, isEditing, baseSections, drafts, dirtySections, onSaved]);
+
+  return {
+    isEditing,
+    activeSection,
+    setActiveSection,
+    drafts,
+    setDraft,
+    dirtySections,
+    isDirty: dirtySections.length > 0,
+    isSaving,
+    error,
+    startEditing,
+    discard,
+    save,
+  };
+}
@@ -0,0 +1,124 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Core, Task } from '@backlog-md/core';
+import type { PanelEventEmitter } from '../../../types';
+import { buildSubtaskIndex } from '../../kanban/utils/subtasks';
+import { buildDependencyIndex, resolveDependencies } from '../../kanban/utils/dependencies';
+
+interface UseTaskRelationsOptions {
+  /** Shared Core instance */
+  core: Core | null;
+  events?: PanelEventEmitter;
+  /** Task currently shown in the detail panel */
+  task: Task | null;
+}
+
+export interface TaskRelations {
+  /** Task this one is a subtask of */
+  parent: Task | null;
+  subtasks: Task[];
+  /** Tasks this one depends on */
+  blockedBy: Task[];
+  /** Dependency IDs that match no task */
+  missingDependencies: string[];
+  /** Tasks that depend on this one */
+  blocks: Task[];
+  isLoading: boolean;
+}
+
+const NO_RELATIONS: TaskRelations = {
+  parent: null,
+  subtasks: [],
+  blockedBy: [],
+  missingDependencies: [],
+  blocks: [],
+  isLoading: false,
+};
+
+/**
+ * Load every task known to Core. Lazily initialized cores only hold an index
+ * of file paths, so task content is loaded on demand.
+ */
+async function loadAllTasks(core: Core): Promise<Task[]> {
+  if (core.isLazyInitialized()) {
+    return core.loadTasks(Array.from(core.getTaskIndex().keys()));
+  }
+  return core.listTasks();
+}
+
+/**
+ * Hook for the tasks related to the one shown in the detail panel.
+ *
+ * Subtasks can point at their parent (`parent_task_id`) or be listed by it
+ * (`subtasks`), and dependents are only known from their own `dependencies`,
+ * so every task is scanned. Relations are reloaded when a task is updated
+ * elsewhere, since editing another task can change this one's relations or
+ * whether it is still blocked.
+ */
+export function useTaskRelations(options: UseTaskRelationsOptions): TaskRelations {
+  const { core, events, task } = options;
+  const [relations, setRelations] = useState<TaskRelations>(NO_RELATIONS);
+
+  // Ignore results for a task that is no longer shown
+  const requestRef = useRef(0);
+
+  const taskId = task?.id;
+  const parentTaskId = task?.parentTaskId;
+  const subtaskIds = (task?.subtasks ?? []).join(',');
+  const dependencyIds = (task?.dependencies ?? []).join(',');
+
+  const loadRelations = useCallback(async () => {
+    const request = ++requestRef.current;
+    if (!core || !taskId) {
+      setRelations(NO_RELATIONS);
+      return;
+    }
+
+    setRelations((prev) => ({ ...prev, isLoading: true }));
+    try {
+      const tasks = await loadAllTasks(core);
+      if (request !== requestRef.current) return;
+
+      const current = tasks.find((candidate) => candidate.id === taskId);
+      const parent = parentTaskId ? tasks.find((candidate) => candidate.id === parentTaskId) ?? null : null;
+      const subtasks = buildSubtaskIndex(tasks).get(taskId) ?? [];
+      const { dependencies, missing } = current
+        ? resolveDependencies(current, tasks)
+        : { dependencies: [], missing: [] };
+      const blocks = buildDependencyIndex(tasks).dependents.get(taskId) ?? [];
+      setRelations({
+        parent,
+        subtasks,
+        blockedBy: dependencies,
+        missingDependencies: missing,
+        blocks,
+        isLoading: false,
+      });
+    } catch (err) {
+      console.warn('[useTaskRelations] Failed to load related tasks:', err);
+      if (request === requestRef.current) setRelations(NO_RELATIONS);
+    }
+    // subtaskIds / dependencyIds re-run the load when the task's own links change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [core, taskId, parentTaskId, subtaskIds, dependencyIds]);
+
+  useEffect(() => {
+    loadRelations();
+  }, [loadRelations]);
+
+  useEffect(() => {
+    if (!events) return;
+
+    const unsubscribers = [
+      events.on('task:updated', () => loadRelations()),
+      events.on('task:deleted', () => loadRelations()),
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsub) => {
+        if (typeof unsub === 'function') unsub();
+      });
+    };
+  }, [events, loadRelations]);
+
+  return relations;
+}
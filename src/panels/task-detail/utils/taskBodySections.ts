@@ -0,0 +1,136 @@
+import type { Task } from '@backlog-md/core';
+
+/** Task body sections that can be edited inline */
+export type TaskBodySectionKey = 'description' | 'implementationPlan' | 'implementationNotes';
+
+export interface TaskBodySectionDefinition {
+  key: TaskBodySectionKey;
+  /** `## ` heading Backlog.md writes above the section */
+  heading: string;
+  /** Name used in `<!-- SECTION:<NAME>:BEGIN -->` markers */
+  marker: string;
+}
+
+export const TASK_BODY_SECTIONS: TaskBodySectionDefinition[] = [
+  { key: 'description', heading: 'Description', marker: 'DESCRIPTION' },
+  { key: 'implementationPlan', heading: 'Implementation Plan', marker: 'PLAN' },
+  { key: 'implementationNotes', heading: 'Implementation Notes', marker: 'NOTES' },
+];
+
+/** A section's content plus how it was laid out in the file */
+export interface TaskBodySection {
+  key: TaskBodySectionKey;
+  content: string;
+  /** Content was wrapped in SECTION markers */
+  hasMarkers: boolean;
+  /** Content sat under its `## ` heading */
+  hasHeading: boolean;
+}
+
+export type TaskBodySections = Record<TaskBodySectionKey, TaskBodySection>;
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function stripHtmlComments(content: string): string {
+  return content.replace(/<!--[\s\S]*?-->/g, '').trim();
+}
+
+function findMarkedContent(body: string, marker: string): string | undefined {
+  const regex = new RegExp(
+    `<!--\\s*SECTION:${marker}:BEGIN\\s*-->\\n?([\\s\\S]*?)\\n?<!--\\s*SECTION:${marker}:END\\s*-->`
+  );
+  return body.match(regex)?.[1];
+}
+
+function findHeadingContent(body: string, heading: string): string | undefined {
+  const regex = new RegExp(`^##\\s+${escapeRegex(heading)}\\s*\\n([\\s\\S]*?)(?=\\n##\\s|$)`, 'im');
+  return body.match(regex)?.[1];
+}
+
+function getFallbackContent(task: Task, key: TaskBodySectionKey): string {
+  switch (key) {
+    case 'description':
+      return task.description ?? '';
+    case 'implementationPlan':
+      return task.implementationPlan ?? '';
+    case 'implementationNotes':
+      return task.implementationNotes ?? '';
+  }
+}
+
+/**
+ * Extract the editable body sections of a task.
+ *
+ * Content between `<!-- SECTION:<NAME>:BEGIN -->` / `END` markers wins, then
+ * the text under the section's `## ` heading, then the parsed Task field.
+ */
+export function extractTaskBodySections(task: Task): TaskBodySections {
+  const body = (task.rawContent ?? '').replace(/\r\n/g, '\n');
+  const sections = {} as TaskBodySections;
+
+  for (const { key, heading, marker } of TASK_BODY_SECTIONS) {
+    const hasHeading = findHeadingContent(body, heading) !== undefined;
+    const marked = findMarkedContent(body, marker);
+
+    if (marked !== undefined) {
+      sections[key] = { key, content: marked.trim(), hasMarkers: true, hasHeading };
+      continue;
+    }
+
+    const underHeading = findHeadingContent(body, heading);
+    sections[key] = {
+      key,
+      content: underHeading !== undefined ? stripHtmlComments(underHeading) : getFallbackContent(task, key).trim(),
+      hasMarkers: false,
+      hasHeading,
+    };
+  }
+
+  return sections;
+}
+
+/**
+ * Format edited section content for Core.updateTask, keeping the section's
+ * original SECTION markers (and the Description heading, which Core's
+ * serializer does not write itself).
+ */
+export function formatTaskBodySection(section: TaskBodySection, content: string): string {
+  const trimmed = content.trim();
+  const definition = TASK_BODY_SECTIONS.find((s) => s.key === section.key);
+  if (!definition) return trimmed;
+
+  let value = trimmed;
+  if (section.hasMarkers) {
+    const begin = `<!-- SECTION:${definition.marker}:BEGIN -->`;
+    const end = `<!-- SECTION:${definition.marker}:END -->`;
+    value = trimmed ? `${begin}\n${trimmed}\n${end}` : `${begin}\n${end}`;
+  } else if (!trimmed) {
+    return '';
+  }
+
+  if (section.key === 'description' && section.hasHeading) {
+    value = `## ${definition.heading}\n\n${value}`;
+  }
+
+  return value;
+}
+
+/**
+ * Build the Core update for all editable sections.
+ *
+ * Every section is sent, not only the edited ones: Core's parser does not
+ * read the implementation sections back, so omitting them would drop them
+ * from the rewritten file.
+ */
+export function buildTaskBodyUpdate(
+  sections: TaskBodySections,
+  drafts: Record<TaskBodySectionKey, string>
+): Record<TaskBodySectionKey, string> {
+  return {
+    description: formatTaskBodySection(sections.description, drafts.description),
+    implementationPlan: formatTaskBodySection(sections.implementationPlan, drafts.implementationPlan),
+    implementationNotes: formatTaskBodySection(sections.implementationNotes, drafts.implementationNotes),
+  };
+}
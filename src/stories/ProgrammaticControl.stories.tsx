@@ -62,6 +62,16 @@ const EventControlPanel: React.FC<{
     setLastEvent('task:deselected');
   }, [events]);
 
+  const openEditModal = useCallback(() => {
+    events.emit({
+      type: 'task:edit-open-modal',
+      source: 'tour-control',
+      timestamp: Date.now(),
+      payload: { taskId: selectedTaskId },
+    });
+    setLastEvent('task:edit-open-modal');
+  }, [events, selectedTaskId]);
+
   const openDeleteModal = useCallback(() => {
     events.emit({
       type: 'task:delete-open-modal',
@@ -140,6 +150,16 @@ const EventControlPanel: React.FC<{
 
         <span style={{ color: '#555' }}>|</span>
 
+        <button
+          onClick={openEditModal}
+          disabled={!selectedTaskId}
+          style={selectedTaskId ? buttonStyle : { ...buttonStyle, opacity: 0.5, cursor: 'not-allowed' }}
+        >
+          Edit
+        </button>
+
+        <span style={{ color: '#555' }}>|</span>
+
         <span style={{ color: '#888', fontWeight: 500 }}>
           Delete Flow:
         </span>
@@ -364,6 +384,9 @@ Demonstrates programmatic control of panels via the event system.
 - \`task:selected\` - Select a task by ID (triggers full flow: telemetry + event emission)
 - \`task:deselected\` - Clear task selection
 
+### Edit Flow (KanbanPanel)
+- \`task:edit-open-modal\` - Opens the task modal in edit mode
+
 ### Delete Flow (TaskDetailPanel)
 - \`task:delete-open-modal\` - Opens the delete confirmation modal
 - \`task:delete-confirm\` - Confirms and executes the deletion
@@ -14,6 +14,35 @@ import type {
   PanelToolsMetadata,
 } from '@principal-ade/utcp-panel-event';
 
+/**
+ * Optional correlation field accepted by every tool event payload.
+ * The panel echoes it back on the matching result event.
+ */
+export interface KanbanToolRequestPayload {
+  requestId?: string;
+}
+
+/**
+ * Payload of the result event emitted after a tool event is handled.
+ * Extra fields follow the tool's `outputs` schema (e.g. `count`, `task`).
+ */
+export interface KanbanToolResultPayload {
+  requestId?: string;
+  tool: string;
+  success: boolean;
+  message?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Get the result event type for a tool.
+ * Panels emit this after handling the tool's event so agent hosts can await the outcome,
+ * e.g. `industry-theme.kanban-panel:move-task:result`.
+ */
+export function getToolResultEventType(tool: PanelTool): string {
+  return `${tool.tool_call_template.event_type}:result`;
+}
+
 /**
  * Tool: Move Task
  */
@@ -30,7 +59,7 @@ export const moveTaskTool: PanelTool = {
       targetStatus: {
         type: 'string',
         description:
-          'The target status column (e.g., "To Do", "In Progress", "Done")',
+          'The target status column, one of the statuses configured in backlog/config.yml (e.g., "To Do", "In Progress", "Done")',
       },
     },
     required: ['taskId', 'targetStatus'],
@@ -40,6 +69,10 @@ export const moveTaskTool: PanelTool = {
     properties: {
       success: { type: 'boolean' },
       message: { type: 'string' },
+      warning: {
+        type: 'string',
+        description: 'Set when a task was started while dependencies it is blocked by are not Done',
+      },
     },
   },
   tags: ['kanban', 'task', 'move', 'status'],
@@ -69,6 +102,7 @@ export const selectTaskTool: PanelTool = {
     type: 'object',
     properties: {
       success: { type: 'boolean' },
+      message: { type: 'string' },
       task: { type: 'object' },
     },
   },
@@ -93,6 +127,7 @@ export const refreshBoardTool: PanelTool = {
     type: 'object',
     properties: {
       success: { type: 'boolean' },
+      message: { type: 'string' },
     },
   },
   tags: ['kanban', 'board', 'refresh'],
@@ -108,7 +143,7 @@ export const refreshBoardTool: PanelTool = {
 export const filterTasksTool: PanelTool = {
   name: 'filter_tasks',
   description:
-    'Filters tasks on the kanban board by labels, assignee, or priority',
+    'Filters tasks on the kanban board by labels, assignee, priority, or a GitHub-style filter query',
   inputs: {
     type: 'object',
     properties: {
@@ -125,13 +160,22 @@ export const filterTasksTool: PanelTool = {
         type: 'string',
         description: 'Filter by priority level',
       },
+      query: {
+        type: 'string',
+        description:
+          'Filter query combining free text with qualifiers: label, assignee, priority, status, milestone, id. ' +
+          'Prefix with - to exclude and separate values with commas to match any, e.g. ' +
+          'label:bug,ui assignee:@alice status:"In Progress" -label:wontfix login',
+      },
     },
   },
   outputs: {
     type: 'object',
     properties: {
       success: { type: 'boolean' },
+      message: { type: 'string' },
       count: { type: 'number' },
+      filters: { type: 'number' },
     },
   },
   tags: ['kanban', 'task', 'filter', 'search'],
@@ -141,6 +185,131 @@ export const filterTasksTool: PanelTool = {
   },
 };
 
+/**
+ * Tool: Switch View
+ */
+export const switchViewTool: PanelTool = {
+  name: 'switch_view',
+  description:
+    'Switches the kanban board to a saved view (filter query, sort order, grouping and visible columns) from backlog/views.json',
+  inputs: {
+    type: 'object',
+    properties: {
+      view: {
+        type: 'string',
+        description:
+          'ID or name of the saved view (e.g., "my-open-bugs" or "My open bugs"). Omit or pass an empty string to show all tasks',
+      },
+    },
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      view: { type: 'object' },
+    },
+  },
+  tags: ['kanban', 'board', 'view', 'filter'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.kanban-panel:switch-view',
+  },
+};
+
+/**
+ * Tool: Export Board
+ */
+export const exportBoardTool: PanelTool = {
+  name: 'export_board',
+  description:
+    'Exports the tasks on the current filtered board as a markdown table, CSV or JSON, to a file or the clipboard',
+  inputs: {
+    type: 'object',
+    properties: {
+      format: {
+        type: 'string',
+        enum: ['markdown', 'csv', 'json'],
+        description: 'Export format (default: "markdown")',
+      },
+      destination: {
+        type: 'string',
+        enum: ['file', 'clipboard'],
+        description: 'Where to export to (default: "file" when the host can write files, otherwise "clipboard")',
+      },
+      path: {
+        type: 'string',
+        description: 'File to write for file exports (default: backlog/exports/board-<date>.<ext>)',
+      },
+    },
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      count: { type: 'number' },
+      path: { type: 'string' },
+    },
+  },
+  tags: ['kanban', 'board', 'export'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.kanban-panel:export-board',
+  },
+};
+
+/**
+ * Tool: Undo
+ */
+export const undoTool: PanelTool = {
+  name: 'undo',
+  description:
+    'Undoes the most recent board mutation (status move, edit, create, delete or reorder) made in the kanban panel',
+  inputs: {
+    type: 'object',
+    properties: {},
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      label: { type: 'string' },
+    },
+  },
+  tags: ['kanban', 'history', 'undo'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.kanban-panel:undo',
+  },
+};
+
+/**
+ * Tool: Redo
+ */
+export const redoTool: PanelTool = {
+  name: 'redo',
+  description: 'Redoes the most recently undone board mutation in the kanban panel',
+  inputs: {
+    type: 'object',
+    properties: {},
+  },
+  outputs: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      label: { type: 'string' },
+    },
+  },
+  tags: ['kanban', 'history', 'redo'],
+  tool_call_template: {
+    call_template_type: 'panel_event',
+    event_type: 'industry-theme.kanban-panel:redo',
+  },
+};
+
 /**
  * All tools exported as an array.
  */
@@ -149,6 +318,10 @@ export const kanbanPanelTools: PanelTool[] = [
   selectTaskTool,
   refreshBoardTool,
   filterTasksTool,
+  switchViewTool,
+  exportBoardTool,
+  undoTool,
+  redoTool,
 ];
 
 /**
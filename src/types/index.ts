@@ -88,6 +88,10 @@ export interface KanbanPanelActions extends CorePanelActions {
   writeFile?: (path: string, content: string) => Promise<void>;
   /** Delete a file */
   deleteFile?: (path: string) => Promise<void>;
+  /** Move or rename a file (optional; read + write + delete is used without it) */
+  renameFile?: (from: string, to: string) => Promise<void>;
+  /** Modification time and size of a file (optional; the fileTree's are used without it) */
+  stat?: (path: string) => Promise<{ mtime: Date | string | number; size: number }>;
   /** Create a directory */
   createDir?: (path: string) => Promise<void>;
   /** Check if a file exists */